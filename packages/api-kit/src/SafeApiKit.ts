@@ -16,6 +16,7 @@ import {
   ListOptions,
   ModulesResponse,
   OwnerResponse,
+  PaginationOptions,
   PendingTransactionsOptions,
   ProposeTransactionProps,
   QueryParamsOptions,
@@ -24,6 +25,7 @@ import {
   SafeInfoResponse,
   SafeMessage,
   SafeMessageListResponse,
+  SafeModuleTransaction,
   SafeModuleTransactionListResponse,
   SafeMultisigTransactionEstimate,
   SafeMultisigTransactionEstimateResponse,
@@ -35,9 +37,12 @@ import {
   TokenInfoListOptions,
   TokenInfoListResponse,
   TokenInfoResponse,
-  TransferListResponse
+  TransferListResponse,
+  TransferResponse
 } from '@safe-global/api-kit/types/safeTransactionServiceTypes'
+import { HttpTransport } from '@safe-global/api-kit/types/httpTransportTypes'
 import { HttpMethod, sendRequest } from '@safe-global/api-kit/utils/httpRequests'
+import { iteratePages } from '@safe-global/api-kit/utils/pagination'
 import { signDelegate } from '@safe-global/api-kit/utils/signDelegate'
 import { validateEip3770Address, validateEthereumAddress } from '@safe-global/protocol-kit'
 import {
@@ -48,6 +53,7 @@ import {
   SafeOperation,
   SafeOperationConfirmationListResponse,
   SafeOperationResponse,
+  ListResponse,
   UserOperationV06
 } from '@safe-global/types-kit'
 import { TRANSACTION_SERVICE_URLS } from './utils/config'
@@ -60,14 +66,18 @@ export interface SafeApiKitConfig {
   chainId: bigint
   /** txServiceUrl - Safe Transaction Service URL */
   txServiceUrl?: string
+  /** transport - HTTP transport used to send the requests to the Safe Transaction Service */
+  transport?: HttpTransport
 }
 
 class SafeApiKit {
   #chainId: bigint
   #txServiceBaseUrl: string
+  #transport?: HttpTransport
 
-  constructor({ chainId, txServiceUrl }: SafeApiKitConfig) {
+  constructor({ chainId, txServiceUrl, transport }: SafeApiKitConfig) {
     this.#chainId = chainId
+    this.#transport = transport
 
     if (txServiceUrl) {
       this.#txServiceBaseUrl = txServiceUrl
@@ -119,16 +129,37 @@ class SafeApiKit {
     })
   }
 
+  /**
+   * Iterates over the results of a paginated endpoint, requesting the next pages with the configured transport.
+   *
+   * @param {() => Promise<ListResponse<T>>} getFirstPage - Function that requests the first page.
+   * @param {number} maxItems - Maximum number of results to return. Optional.
+   * @returns {AsyncGenerator<T>} The results of all the pages.
+   */
+  #iteratePages<T>(
+    getFirstPage: () => Promise<ListResponse<T>>,
+    maxItems?: number
+  ): AsyncGenerator<T> {
+    return iteratePages(
+      getFirstPage,
+      (url) => sendRequest<ListResponse<T>>({ url, method: HttpMethod.Get }, this.#transport),
+      maxItems
+    )
+  }
+
   /**
    * Returns the information and configuration of the service.
    *
    * @returns The information and configuration of the service
    */
   async getServiceInfo(): Promise<SafeServiceInfoResponse> {
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/about`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/about`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -137,10 +168,13 @@ class SafeApiKit {
    * @returns The list of Safe singletons
    */
   async getServiceSingletonsInfo(): Promise<SafeSingletonResponse[]> {
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/about/singletons`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/about/singletons`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -164,11 +198,14 @@ class SafeApiKit {
       dataDecoderRequest.to = to
     }
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/data-decoder/`,
-      method: HttpMethod.Post,
-      body: dataDecoderRequest
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/data-decoder/`,
+        method: HttpMethod.Post,
+        body: dataDecoderRequest
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -210,10 +247,13 @@ class SafeApiKit {
       url.searchParams.set('offset', offset.toString())
     }
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -256,11 +296,14 @@ class SafeApiKit {
       label,
       signature
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v2/delegates/`,
-      method: HttpMethod.Post,
-      body
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v2/delegates/`,
+        method: HttpMethod.Post,
+        body
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -289,14 +332,17 @@ class SafeApiKit {
     const { address: delegator } = this.#getEip3770Address(delegatorAddress)
     const signature = await signDelegate(signer, delegate, this.#chainId)
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v2/delegates/${delegate}`,
-      method: HttpMethod.Delete,
-      body: {
-        delegator,
-        signature
-      }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v2/delegates/${delegate}`,
+        method: HttpMethod.Delete,
+        body: {
+          delegator,
+          signature
+        }
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -309,10 +355,13 @@ class SafeApiKit {
       throw new Error('Invalid messageHash')
     }
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/messages/${messageHash}/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/messages/${messageHash}/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -334,10 +383,31 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<GetSafeMessageListOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over all the messages associated to a Safe account, following the pagination automatically
+   * @param safeAddress The safe address
+   * @param options The options to filter the list of messages and to limit the pagination
+   * @returns An async iterator over the messages
+   */
+  iterateMessages(
+    safeAddress: string,
+    options: GetSafeMessageListOptions & PaginationOptions = {}
+  ): AsyncGenerator<SafeMessage> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () => this.getMessages(safeAddress, { ...listOptions, limit: pageSize ?? listOptions.limit }),
+      maxItems
+    )
   }
 
   /**
@@ -351,11 +421,14 @@ class SafeApiKit {
       throw new Error('Invalid safeAddress')
     }
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${safeAddress}/messages/`,
-      method: HttpMethod.Post,
-      body: addMessageOptions
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${safeAddress}/messages/`,
+        method: HttpMethod.Post,
+        body: addMessageOptions
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -368,13 +441,16 @@ class SafeApiKit {
       throw new Error('Invalid messageHash or signature')
     }
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/messages/${messageHash}/signatures/`,
-      method: HttpMethod.Post,
-      body: {
-        signature
-      }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/messages/${messageHash}/signatures/`,
+        method: HttpMethod.Post,
+        body: {
+          signature
+        }
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -390,10 +466,13 @@ class SafeApiKit {
       throw new Error('Invalid owner address')
     }
     const { address } = this.#getEip3770Address(ownerAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/owners/${address}/safes/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/owners/${address}/safes/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -409,10 +488,13 @@ class SafeApiKit {
       throw new Error('Invalid module address')
     }
     const { address } = this.#getEip3770Address(moduleAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/modules/${address}/safes/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/modules/${address}/safes/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -427,10 +509,13 @@ class SafeApiKit {
     if (safeTxHash === '') {
       throw new Error('Invalid safeTxHash')
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -446,10 +531,13 @@ class SafeApiKit {
     if (safeTxHash === '') {
       throw new Error('Invalid safeTxHash')
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/confirmations/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/confirmations/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -470,13 +558,16 @@ class SafeApiKit {
     if (signature === '') {
       throw new Error('Invalid signature')
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/confirmations/`,
-      method: HttpMethod.Post,
-      body: {
-        signature
-      }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/multisig-transactions/${safeTxHash}/confirmations/`,
+        method: HttpMethod.Post,
+        body: {
+          signature
+        }
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -492,10 +583,13 @@ class SafeApiKit {
       throw new Error('Invalid Safe address')
     }
     const { address } = this.#getEip3770Address(safeAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${address}/`,
-      method: HttpMethod.Get
-    }).then((response: any) => {
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${address}/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    ).then((response: any) => {
       // FIXME remove when the transaction service returns the singleton property instead of masterCopy
       if (!response?.singleton) {
         const { masterCopy, ...rest } = response
@@ -521,10 +615,13 @@ class SafeApiKit {
       throw new Error('Invalid Safe address')
     }
     const { address } = this.#getEip3770Address(safeAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${address}/creation/`,
-      method: HttpMethod.Get
-    }).then((response: any) => {
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${address}/creation/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    ).then((response: any) => {
       // FIXME remove when the transaction service returns the singleton property instead of masterCopy
       if (!response?.singleton) {
         const { masterCopy, ...rest } = response
@@ -554,11 +651,14 @@ class SafeApiKit {
       throw new Error('Invalid Safe address')
     }
     const { address } = this.#getEip3770Address(safeAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${address}/multisig-transactions/estimations/`,
-      method: HttpMethod.Post,
-      body: safeTransaction
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${address}/multisig-transactions/estimations/`,
+        method: HttpMethod.Post,
+        body: safeTransaction
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -587,17 +687,20 @@ class SafeApiKit {
     if (safeTxHash === '') {
       throw new Error('Invalid safeTxHash')
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${safe}/multisig-transactions/`,
-      method: HttpMethod.Post,
-      body: {
-        ...safeTransactionData,
-        contractTransactionHash: safeTxHash,
-        sender,
-        signature: senderSignature,
-        origin
-      }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${safe}/multisig-transactions/`,
+        method: HttpMethod.Post,
+        body: {
+          ...safeTransactionData,
+          contractTransactionHash: safeTxHash,
+          sender,
+          signature: senderSignature,
+          origin
+        }
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -622,10 +725,38 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<GetIncomingTransactionsOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over the history of incoming transactions of a Safe account, following the pagination automatically.
+   *
+   * @param safeAddress - The Safe address
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @returns An async iterator over the incoming transactions
+   * @throws "Invalid Safe address"
+   * @throws "Checksum address validation failed"
+   */
+  iterateIncomingTransactions(
+    safeAddress: string,
+    options: GetIncomingTransactionsOptions & PaginationOptions = {}
+  ): AsyncGenerator<TransferResponse> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () =>
+        this.getIncomingTransactions(safeAddress, {
+          ...listOptions,
+          limit: pageSize ?? listOptions.limit
+        }),
+      maxItems
+    )
   }
 
   /**
@@ -651,10 +782,39 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<GetModuleTransactionsOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over the history of module transactions of a Safe account, following the pagination automatically.
+   *
+   * @param safeAddress - The Safe address
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @returns An async iterator over the module transactions
+   * @throws "Invalid Safe address"
+   * @throws "Invalid data"
+   * @throws "Invalid ethereum address"
+   */
+  iterateModuleTransactions(
+    safeAddress: string,
+    options: GetModuleTransactionsOptions & PaginationOptions = {}
+  ): AsyncGenerator<SafeModuleTransaction> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () =>
+        this.getModuleTransactions(safeAddress, {
+          ...listOptions,
+          limit: pageSize ?? listOptions.limit
+        }),
+      maxItems
+    )
   }
 
   /**
@@ -680,10 +840,38 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<GetMultisigTransactionsOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over the history of multi-signature transactions of a Safe account, following the pagination automatically.
+   *
+   * @param safeAddress - The Safe address
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @returns An async iterator over the multi-signature transactions
+   * @throws "Invalid Safe address"
+   * @throws "Checksum address validation failed"
+   */
+  iterateMultisigTransactions(
+    safeAddress: string,
+    options: GetMultisigTransactionsOptions & PaginationOptions = {}
+  ): AsyncGenerator<SafeMultisigTransactionResponse> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () =>
+        this.getMultisigTransactions(safeAddress, {
+          ...listOptions,
+          limit: pageSize ?? listOptions.limit
+        }),
+      maxItems
+    )
   }
 
   /**
@@ -728,10 +916,13 @@ class SafeApiKit {
       url.searchParams.set('offset', offset.toString())
     }
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -757,10 +948,39 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<AllTransactionsOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over all the transactions of a Safe, following the pagination automatically.
+   *
+   * @param safeAddress - The Safe address
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @returns An async iterator over the transactions
+   * @throws "Invalid Safe address"
+   * @throws "Checksum address validation failed"
+   * @throws "Ordering field is not valid"
+   */
+  iterateAllTransactions(
+    safeAddress: string,
+    options: AllTransactionsOptions & PaginationOptions = {}
+  ): AsyncGenerator<AllTransactionsListResponse['results'][number]> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () =>
+        this.getAllTransactions(safeAddress, {
+          ...listOptions,
+          limit: pageSize ?? listOptions.limit
+        }),
+      maxItems
+    )
   }
 
   /**
@@ -802,10 +1022,30 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<TokenInfoListOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over all the ERC20 tokens handled by the Safe, following the pagination automatically.
+   *
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @returns An async iterator over the ERC20 tokens
+   */
+  iterateTokenList(
+    options: TokenInfoListOptions & PaginationOptions = {}
+  ): AsyncGenerator<TokenInfoResponse> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () => this.getTokenList({ ...listOptions, limit: pageSize ?? listOptions.limit }),
+      maxItems
+    )
   }
 
   /**
@@ -821,10 +1061,13 @@ class SafeApiKit {
       throw new Error('Invalid token address')
     }
     const { address } = this.#getEip3770Address(tokenAddress)
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/tokens/${address}/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/tokens/${address}/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -850,10 +1093,37 @@ class SafeApiKit {
     // Check if options are given and add query parameters
     this.#addUrlQueryParams<TokenInfoListOptions>(url, options)
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
+  }
+
+  /**
+   * Iterates over the SafeOperations that were sent from a particular address, following the pagination automatically.
+   * @param safeAddress - The Safe address
+   * @param options - Optional parameters to filter the response and to limit the pagination
+   * @throws "Safe address must not be empty"
+   * @throws "Invalid Ethereum address {safeAddress}"
+   * @returns An async iterator over the SafeOperations sent from the given Safe's address
+   */
+  iterateSafeOperationsByAddress(
+    safeAddress: string,
+    options: GetSafeOperationListOptions & PaginationOptions = {}
+  ): AsyncGenerator<SafeOperationResponse> {
+    const { pageSize, maxItems, ...listOptions } = options
+
+    return this.#iteratePages(
+      () =>
+        this.getSafeOperationsByAddress(safeAddress, {
+          ...listOptions,
+          limit: pageSize ?? listOptions.limit
+        }),
+      maxItems
+    )
   }
 
   /**
@@ -886,10 +1156,13 @@ class SafeApiKit {
       throw new Error('SafeOperation hash must not be empty')
     }
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safe-operations/${safeOperationHash}/`,
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safe-operations/${safeOperationHash}/`,
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -947,28 +1220,31 @@ class SafeApiKit {
 
     const userOperationV06 = userOperation as UserOperationV06
 
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safes/${safeAddress}/safe-operations/`,
-      method: HttpMethod.Post,
-      body: {
-        initCode: isEmptyData(userOperationV06.initCode) ? null : userOperationV06.initCode,
-        nonce: userOperation.nonce,
-        callData: userOperation.callData,
-        callGasLimit: userOperation.callGasLimit.toString(),
-        verificationGasLimit: userOperation.verificationGasLimit.toString(),
-        preVerificationGas: userOperation.preVerificationGas.toString(),
-        maxFeePerGas: userOperation.maxFeePerGas.toString(),
-        maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas.toString(),
-        paymasterAndData: isEmptyData(userOperationV06.paymasterAndData)
-          ? null
-          : userOperationV06.paymasterAndData,
-        entryPoint,
-        validAfter: getISOString(options?.validAfter),
-        validUntil: getISOString(options?.validUntil),
-        signature: userOperation.signature,
-        moduleAddress
-      }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safes/${safeAddress}/safe-operations/`,
+        method: HttpMethod.Post,
+        body: {
+          initCode: isEmptyData(userOperationV06.initCode) ? null : userOperationV06.initCode,
+          nonce: userOperation.nonce,
+          callData: userOperation.callData,
+          callGasLimit: userOperation.callGasLimit.toString(),
+          verificationGasLimit: userOperation.verificationGasLimit.toString(),
+          preVerificationGas: userOperation.preVerificationGas.toString(),
+          maxFeePerGas: userOperation.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas.toString(),
+          paymasterAndData: isEmptyData(userOperationV06.paymasterAndData)
+            ? null
+            : userOperationV06.paymasterAndData,
+          entryPoint,
+          validAfter: getISOString(options?.validAfter),
+          validUntil: getISOString(options?.validUntil),
+          signature: userOperation.signature,
+          moduleAddress
+        }
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -1000,10 +1276,13 @@ class SafeApiKit {
       url.searchParams.set('offset', offset.toString())
     }
 
-    return sendRequest({
-      url: url.toString(),
-      method: HttpMethod.Get
-    })
+    return sendRequest(
+      {
+        url: url.toString(),
+        method: HttpMethod.Get
+      },
+      this.#transport
+    )
   }
 
   /**
@@ -1024,11 +1303,14 @@ class SafeApiKit {
     if (!signature) {
       throw new Error('Invalid signature')
     }
-    return sendRequest({
-      url: `${this.#txServiceBaseUrl}/v1/safe-operations/${safeOperationHash}/confirmations/`,
-      method: HttpMethod.Post,
-      body: { signature }
-    })
+    return sendRequest(
+      {
+        url: `${this.#txServiceBaseUrl}/v1/safe-operations/${safeOperationHash}/confirmations/`,
+        method: HttpMethod.Post,
+        body: { signature }
+      },
+      this.#transport
+    )
   }
 }
 
@@ -1,7 +1,28 @@
 import SafeApiKit, { SafeApiKitConfig } from './SafeApiKit'
+import {
+  SafeApiError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  AlreadyExecutedError,
+  RateLimitedError,
+  ServerError
+} from './utils/errors'
+import { collectAll } from './utils/pagination'
 
 export * from './types/safeTransactionServiceTypes'
-export { SafeApiKitConfig }
+export * from './types/httpTransportTypes'
+export {
+  SafeApiKitConfig,
+  SafeApiError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  AlreadyExecutedError,
+  RateLimitedError,
+  ServerError,
+  collectAll
+}
 export default SafeApiKit
 
 declare module 'abitype' {
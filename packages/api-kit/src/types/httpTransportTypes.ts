@@ -0,0 +1,77 @@
+export type FetchResponse = {
+  readonly ok: boolean
+  readonly status: number
+  readonly statusText: string
+  readonly headers: {
+    get(name: string): string | null
+  }
+  json(): Promise<unknown>
+}
+
+export type FetchRequestInit = {
+  method: string
+  headers: Record<string, string>
+  body?: string
+  signal?: AbortSignal
+}
+
+export type FetchFunction = (url: string, init: FetchRequestInit) => Promise<FetchResponse>
+
+export type HttpTransportRequest = {
+  /** url - The URL of the request */
+  url: string
+  /** method - The HTTP method of the request */
+  method: string
+  /** headers - The headers sent with the request */
+  headers: Record<string, string>
+  /** body - The serialized body of the request */
+  body?: string
+}
+
+export type HttpTransportResponse = {
+  /** request - The request that received the response */
+  request: HttpTransportRequest
+  /** status - The HTTP status of the response */
+  status: number
+  /** statusText - The HTTP status text of the response */
+  statusText: string
+  /** attempt - The number of the attempt, starting from 0 */
+  attempt: number
+  /** duration - The time it took to receive the response in milliseconds */
+  duration: number
+}
+
+export type HttpRequestInterceptor = (
+  request: HttpTransportRequest
+) => HttpTransportRequest | Promise<HttpTransportRequest>
+
+export type HttpResponseInterceptor = (response: HttpTransportResponse) => void | Promise<void>
+
+export type HttpRetryConfig = {
+  /** retries - The maximum number of retries of a failed request. Default: 3 */
+  retries?: number
+  /** minDelay - The delay in milliseconds before the first retry. It is doubled on each retry. Default: 500 */
+  minDelay?: number
+  /** maxDelay - The maximum delay in milliseconds between retries. Default: 30000 */
+  maxDelay?: number
+  /** methods - The HTTP methods retried on 5xx responses, timeouts and network errors. Default: GET, HEAD, OPTIONS, PUT and DELETE */
+  methods?: string[]
+}
+
+export type HttpTransport = {
+  /** fetch - The fetch implementation. Defaults to window.fetch in browsers and node-fetch in Node.js */
+  fetch?: FetchFunction
+  /** headers - The headers added to every request */
+  headers?: Record<string, string>
+  /** apiKey - The API key sent as a Bearer token in the Authorization header */
+  apiKey?: string
+  /** timeout - The time in milliseconds after which a request is aborted */
+  timeout?: number
+  /** retry - The retry configuration. Requests are not retried if it is not set */
+  retry?: HttpRetryConfig
+  /** interceptors - The functions called before sending each request and after receiving each response */
+  interceptors?: {
+    request?: HttpRequestInterceptor[]
+    response?: HttpResponseInterceptor[]
+  }
+}
@@ -18,6 +18,13 @@ export type ListOptions = {
   offset?: number
 }
 
+export type PaginationOptions = {
+  /** Number of results to request per page */
+  pageSize?: number
+  /** Maximum number of results to return in total */
+  maxItems?: number
+}
+
 export type QueryParamsOptions = {
   // Accept query params that are part of the swagger documentation. Check at https://safe-transaction-mainnet.safe.global/
   [key: string]: string | number | boolean | undefined
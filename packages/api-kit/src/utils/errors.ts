@@ -0,0 +1,124 @@
+type SafeApiErrorProps = {
+  /** status - The HTTP status of the response */
+  status: number
+  /** url - The URL of the request */
+  url: string
+  /** body - The JSON body of the response, if any */
+  body?: unknown
+}
+
+// The service responds with a validation error without an error code when a transaction was
+// already proposed or executed, so these cases can only be told apart by the message
+const ALREADY_EXISTS_PATTERN = /already (exists|proposed)/i
+const ALREADY_EXECUTED_PATTERN = /already executed/i
+
+/**
+ * Error thrown when the Safe Transaction Service responds with an error status.
+ */
+export class SafeApiError extends Error {
+  readonly status: number
+  readonly url: string
+  readonly body?: unknown
+
+  constructor(message: string, { status, url, body }: SafeApiErrorProps) {
+    super(message)
+    this.name = new.target.name
+    this.status = status
+    this.url = url
+    this.body = body
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist (404).
+ */
+export class NotFoundError extends SafeApiError {}
+
+/**
+ * Error thrown when the request is rejected by the service validation (400 or 422).
+ */
+export class ValidationError extends SafeApiError {
+  /** fieldErrors - The validation errors of each field of the request */
+  readonly fieldErrors: Record<string, string[]>
+
+  constructor(message: string, props: SafeApiErrorProps) {
+    super(message, props)
+    this.fieldErrors = getFieldErrors(props.body)
+  }
+}
+
+/**
+ * Error thrown when the resource already exists, e.g. a transaction that was already proposed (409).
+ */
+export class ConflictError extends SafeApiError {}
+
+/**
+ * Error thrown when the transaction was already executed (422). Unlike a conflict, it cannot be
+ * solved by confirming the existing transaction.
+ */
+export class AlreadyExecutedError extends SafeApiError {}
+
+/**
+ * Error thrown when the service rate limit is exceeded (429).
+ */
+export class RateLimitedError extends SafeApiError {}
+
+/**
+ * Error thrown when the service fails to process the request (5xx).
+ */
+export class ServerError extends SafeApiError {}
+
+/**
+ * Creates the error matching the status of a failed response.
+ *
+ * @param {string} message - The error message.
+ * @param {SafeApiErrorProps} props - The status, URL and body of the failed response.
+ * @returns {SafeApiError} The error.
+ */
+export function createSafeApiError(message: string, props: SafeApiErrorProps): SafeApiError {
+  const { status } = props
+
+  if (status === 404) {
+    return new NotFoundError(message, props)
+  }
+
+  if (status === 409 || (status === 422 && ALREADY_EXISTS_PATTERN.test(message))) {
+    return new ConflictError(message, props)
+  }
+
+  if (status === 422 && ALREADY_EXECUTED_PATTERN.test(message)) {
+    return new AlreadyExecutedError(message, props)
+  }
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, props)
+  }
+
+  if (status === 429) {
+    return new RateLimitedError(message, props)
+  }
+
+  if (status >= 500) {
+    return new ServerError(message, props)
+  }
+
+  return new SafeApiError(message, props)
+}
+
+function getFieldErrors(body: unknown): Record<string, string[]> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return {}
+  }
+
+  return Object.entries(body).reduce<Record<string, string[]>>((fieldErrors, [field, value]) => {
+    if (typeof value === 'string') {
+      return { ...fieldErrors, [field]: [value] }
+    }
+
+    if (Array.isArray(value) && value.every((error) => typeof error === 'string')) {
+      return { ...fieldErrors, [field]: value }
+    }
+
+    return fieldErrors
+  }, {})
+}
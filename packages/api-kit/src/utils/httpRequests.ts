@@ -1,3 +1,7 @@
+import { HttpTransport } from '@safe-global/api-kit/types/httpTransportTypes'
+import { createSafeApiError } from './errors'
+import { fetchWithTransport } from './httpTransport'
+
 export enum HttpMethod {
   Get = 'get',
   Post = 'post',
@@ -10,52 +14,41 @@ interface HttpRequest {
   body?: any
 }
 
-export async function sendRequest<T>({ url, method, body }: HttpRequest): Promise<T> {
-  const fetch = await (typeof window === 'undefined'
-    ? import('node-fetch').then((m) => m.default)
-    : Promise.resolve(window.fetch))
-
-  const response = await fetch(url, {
-    method,
-    headers: {
-      Accept: 'application/json',
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(body)
-  })
+export async function sendRequest<T>(
+  { url, method, body }: HttpRequest,
+  transport?: HttpTransport
+): Promise<T> {
+  const response = await fetchWithTransport({ url, method, body }, transport)
 
   let jsonResponse: any
   try {
     jsonResponse = await response.json()
   } catch (error) {
     if (!response.ok) {
-      throw new Error(response.statusText)
+      throw createSafeApiError(response.statusText, { status: response.status, url })
     }
   }
 
   if (response.ok) {
     return jsonResponse as T
   }
-  if (jsonResponse.data) {
-    throw new Error(jsonResponse.data)
-  }
-  if (jsonResponse.detail) {
-    throw new Error(jsonResponse.detail)
-  }
-  if (jsonResponse.message) {
-    throw new Error(jsonResponse.message)
-  }
-  if (jsonResponse.nonFieldErrors) {
-    throw new Error(jsonResponse.nonFieldErrors)
-  }
-  if (jsonResponse.delegate) {
-    throw new Error(jsonResponse.delegate)
-  }
-  if (jsonResponse.safe) {
-    throw new Error(jsonResponse.safe)
-  }
-  if (jsonResponse.delegator) {
-    throw new Error(jsonResponse.delegator)
-  }
-  throw new Error(response.statusText)
+
+  throw createSafeApiError(getErrorMessage(jsonResponse) || response.statusText, {
+    status: response.status,
+    url,
+    body: jsonResponse
+  })
+}
+
+function getErrorMessage(jsonResponse?: Record<string, unknown>): string | undefined {
+  const errorMessage =
+    jsonResponse?.data ||
+    jsonResponse?.detail ||
+    jsonResponse?.message ||
+    jsonResponse?.nonFieldErrors ||
+    jsonResponse?.delegate ||
+    jsonResponse?.safe ||
+    jsonResponse?.delegator
+
+  return errorMessage ? String(errorMessage) : undefined
 }
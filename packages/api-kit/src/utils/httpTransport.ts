@@ -0,0 +1,176 @@
+import {
+  FetchFunction,
+  FetchResponse,
+  HttpRetryConfig,
+  HttpTransport,
+  HttpTransportRequest
+} from '@safe-global/api-kit/types/httpTransportTypes'
+
+const DEFAULT_RETRIES = 3
+const DEFAULT_MIN_RETRY_DELAY = 500
+const DEFAULT_MAX_RETRY_DELAY = 30_000
+const TOO_MANY_REQUESTS_STATUS = 429
+// Only the idempotent methods are retried by default, as a failed POST may have been processed
+const DEFAULT_RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+type TransportRequest = {
+  url: string
+  method: string
+  body?: unknown
+}
+
+/**
+ * Sends a request with the given transport. If the transport has a retry configuration, the request
+ * is retried with an exponential backoff when it receives a 429 response. Requests with a retryable
+ * method are also retried when they receive a 5xx response, time out or fail with a network error.
+ *
+ * @param {TransportRequest} request - The request to send.
+ * @param {HttpTransport} transport - The transport configuration.
+ * @returns {Promise<FetchResponse>} The last response received.
+ * @throws "Request timed out after X ms"
+ */
+export async function fetchWithTransport(
+  { url, method, body }: TransportRequest,
+  { fetch, headers, apiKey, timeout, retry, interceptors }: HttpTransport = {}
+): Promise<FetchResponse> {
+  const fetchFunction = fetch ?? (await getDefaultFetch())
+
+  let request: HttpTransportRequest = {
+    url,
+    method,
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...headers,
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+    },
+    body: JSON.stringify(body)
+  }
+
+  for (const interceptor of interceptors?.request || []) {
+    request = await interceptor(request)
+  }
+
+  const retries = retry ? (retry.retries ?? DEFAULT_RETRIES) : 0
+  const isMethodRetryable = !!retry && isRetryableMethod(method, retry)
+
+  for (let attempt = 0; ; attempt++) {
+    const startTime = Date.now()
+    let response: FetchResponse
+
+    try {
+      response = await fetchWithTimeout(fetchFunction, request, timeout)
+    } catch (error) {
+      if (attempt >= retries || !isMethodRetryable) {
+        throw error
+      }
+
+      await sleep(getRetryDelay(undefined, attempt, retry))
+      continue
+    }
+
+    for (const interceptor of interceptors?.response || []) {
+      await interceptor({
+        request,
+        status: response.status,
+        statusText: response.statusText,
+        attempt,
+        duration: Date.now() - startTime
+      })
+    }
+
+    if (attempt >= retries || !isRetryableStatus(response.status, isMethodRetryable)) {
+      return response
+    }
+
+    await sleep(getRetryDelay(response, attempt, retry))
+  }
+}
+
+/**
+ * Returns the time to wait before retrying a request. The Retry-After header is honored if present,
+ * otherwise the delay grows exponentially with each attempt.
+ *
+ * @param {FetchResponse | undefined} response - The response of the failed attempt, if any.
+ * @param {number} attempt - The number of the failed attempt, starting from 0.
+ * @param {HttpRetryConfig} retry - The retry configuration.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(
+  response: FetchResponse | undefined,
+  attempt: number,
+  { minDelay = DEFAULT_MIN_RETRY_DELAY, maxDelay = DEFAULT_MAX_RETRY_DELAY }: HttpRetryConfig = {}
+): number {
+  const retryAfter = parseRetryAfter(response?.headers.get('Retry-After') ?? null)
+
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, maxDelay)
+  }
+
+  return Math.min(minDelay * 2 ** attempt, maxDelay)
+}
+
+function parseRetryAfter(retryAfter: string | null): number | undefined {
+  if (!retryAfter) {
+    return undefined
+  }
+
+  // The header can contain the number of seconds to wait or an HTTP date
+  const seconds = Number(retryAfter)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0)
+  }
+
+  const date = Date.parse(retryAfter)
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0)
+  }
+
+  return undefined
+}
+
+function isRetryableMethod(
+  method: string,
+  { methods = DEFAULT_RETRY_METHODS }: HttpRetryConfig
+): boolean {
+  return methods.some((retryMethod) => retryMethod.toUpperCase() === method.toUpperCase())
+}
+
+// A 429 response is retried for every method, as the request was rejected without processing it
+function isRetryableStatus(status: number, isMethodRetryable: boolean): boolean {
+  return status === TOO_MANY_REQUESTS_STATUS || (isMethodRetryable && status >= 500)
+}
+
+async function fetchWithTimeout(
+  fetchFunction: FetchFunction,
+  { url, method, headers, body }: HttpTransportRequest,
+  timeout?: number
+): Promise<FetchResponse> {
+  if (!timeout) {
+    return fetchFunction(url, { method, headers, body })
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    return await fetchFunction(url, { method, headers, body, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout} ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+async function getDefaultFetch(): Promise<FetchFunction> {
+  return typeof window === 'undefined'
+    ? import('node-fetch').then((m) => m.default as unknown as FetchFunction)
+    : window.fetch
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds))
+}
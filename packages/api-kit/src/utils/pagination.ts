@@ -0,0 +1,56 @@
+import { ListResponse } from '@safe-global/types-kit'
+
+/**
+ * Iterates over the results of a paginated endpoint, following the next page URL until there are no more pages
+ * or the maximum number of results is reached.
+ *
+ * @param {() => Promise<ListResponse<T>>} getFirstPage - Function that requests the first page.
+ * @param {(url: string) => Promise<ListResponse<T>>} getNextPage - Function that requests the page of a next URL.
+ * @param {number} maxItems - Maximum number of results to return. Optional.
+ * @returns {AsyncGenerator<T>} The results of all the pages.
+ */
+export async function* iteratePages<T>(
+  getFirstPage: () => Promise<ListResponse<T>>,
+  getNextPage: (url: string) => Promise<ListResponse<T>>,
+  maxItems?: number
+): AsyncGenerator<T> {
+  if (maxItems !== undefined && maxItems <= 0) {
+    return
+  }
+
+  let page = await getFirstPage()
+  let itemCount = 0
+
+  while (true) {
+    for (const item of page.results) {
+      yield item
+      itemCount++
+
+      if (itemCount === maxItems) {
+        return
+      }
+    }
+
+    if (!page.next) {
+      return
+    }
+
+    page = await getNextPage(page.next)
+  }
+}
+
+/**
+ * Collects all the results of an async iterator, e.g. the ones returned by the SafeApiKit iterate methods.
+ *
+ * @param {AsyncIterable<T>} iterable - The async iterator.
+ * @returns {Promise<T[]>} The list of results.
+ */
+export async function collectAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+
+  for await (const item of iterable) {
+    items.push(item)
+  }
+
+  return items
+}
@@ -0,0 +1,85 @@
+import chai from 'chai'
+import {
+  AlreadyExecutedError,
+  ConflictError,
+  NotFoundError,
+  RateLimitedError,
+  SafeApiError,
+  ServerError,
+  ValidationError
+} from '@safe-global/api-kit/index'
+import { createSafeApiError } from '@safe-global/api-kit/utils/errors'
+
+const url = 'https://safe-transaction-sepolia.safe.global/api/v1/multisig-transactions/0x123/'
+
+describe('Safe API errors', () => {
+  it('should create the error matching the response status', async () => {
+    chai
+      .expect(createSafeApiError('Not Found', { status: 404, url }))
+      .to.be.instanceOf(NotFoundError)
+    chai
+      .expect(createSafeApiError('Bad Request', { status: 400, url }))
+      .to.be.instanceOf(ValidationError)
+    chai
+      .expect(createSafeApiError('Conflict', { status: 409, url }))
+      .to.be.instanceOf(ConflictError)
+    chai
+      .expect(createSafeApiError('Too Many Requests', { status: 429, url }))
+      .to.be.instanceOf(RateLimitedError)
+    chai
+      .expect(createSafeApiError('Bad Gateway', { status: 502, url }))
+      .to.be.instanceOf(ServerError)
+    const forbiddenError = createSafeApiError('Forbidden', { status: 403, url })
+    chai.expect(forbiddenError).to.be.instanceOf(SafeApiError)
+    chai.expect(forbiddenError).to.be.instanceOf(Error)
+    chai.expect(forbiddenError.constructor).to.be.eq(SafeApiError)
+  })
+
+  it('should keep the status, URL and body of the response', async () => {
+    const body = { detail: 'Not found.' }
+    const error = createSafeApiError('Not found.', { status: 404, url, body })
+    chai.expect(error.name).to.be.eq('NotFoundError')
+    chai.expect(error.message).to.be.eq('Not found.')
+    chai.expect(error.status).to.be.eq(404)
+    chai.expect(error.url).to.be.eq(url)
+    chai.expect(error.body).to.be.eq(body)
+  })
+
+  it('should return the field errors of validation errors', async () => {
+    const body = {
+      safe: ['Checksum address validation failed'],
+      nonce: 'A valid integer is required.',
+      code: 1
+    }
+    const error = createSafeApiError('Checksum address validation failed', {
+      status: 422,
+      url,
+      body
+    }) as ValidationError
+    chai.expect(error).to.be.instanceOf(ValidationError)
+    chai.expect(error.fieldErrors).to.be.deep.eq({
+      safe: ['Checksum address validation failed'],
+      nonce: ['A valid integer is required.']
+    })
+  })
+
+  it('should create a conflict error if the resource already exists', async () => {
+    const message = 'Tx with safe-tx-hash=0x123 for safe=0x456 was already proposed'
+    chai
+      .expect(
+        createSafeApiError(message, { status: 422, url, body: { nonFieldErrors: [message] } })
+      )
+      .to.be.instanceOf(ConflictError)
+  })
+
+  it('should create an already executed error if the transaction was executed', async () => {
+    const message = 'Tx with safe-tx-hash=0x123 for safe=0x456 was already executed'
+    const error = createSafeApiError(message, {
+      status: 422,
+      url,
+      body: { nonFieldErrors: [message] }
+    })
+    chai.expect(error).to.be.instanceOf(AlreadyExecutedError)
+    chai.expect(error).to.not.be.instanceOf(ConflictError)
+  })
+})
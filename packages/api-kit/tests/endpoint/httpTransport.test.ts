@@ -0,0 +1,190 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+import { FetchFunction, FetchResponse } from '@safe-global/api-kit/index'
+import { fetchWithTransport, getRetryDelay } from '@safe-global/api-kit/utils/httpTransport'
+
+chai.use(chaiAsPromised)
+chai.use(sinonChai)
+
+const url = 'https://safe-transaction-sepolia.safe.global/api/v1/about'
+
+const createResponse = (status: number, headers: Record<string, string> = {}): FetchResponse => ({
+  ok: status < 400,
+  status,
+  statusText: `Status ${status}`,
+  headers: { get: (name: string) => headers[name] ?? null },
+  json: async () => ({ status })
+})
+
+describe('HTTP transport', () => {
+  it('should send the default, custom and API key headers', async () => {
+    const fetch = sinon.stub<Parameters<FetchFunction>>().resolves(createResponse(200))
+    await fetchWithTransport(
+      { url, method: 'post', body: { data: '0x' } },
+      { fetch, headers: { 'X-Client': 'tests' }, apiKey: 'api-key' }
+    )
+    chai.expect(fetch).to.have.been.calledOnceWith(url, {
+      method: 'post',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        'X-Client': 'tests',
+        Authorization: 'Bearer api-key'
+      },
+      body: '{"data":"0x"}'
+    })
+  })
+
+  it('should not retry failed requests if there is no retry configuration', async () => {
+    const fetch = sinon.stub().resolves(createResponse(503))
+    const response = await fetchWithTransport({ url, method: 'get' }, { fetch })
+    chai.expect(response.status).to.be.eq(503)
+    chai.expect(fetch).to.have.been.calledOnce
+  })
+
+  it('should retry 429 and 5xx responses', async () => {
+    const fetch = sinon.stub()
+    fetch.onCall(0).resolves(createResponse(429))
+    fetch.onCall(1).resolves(createResponse(502))
+    fetch.onCall(2).resolves(createResponse(200))
+    const response = await fetchWithTransport(
+      { url, method: 'get' },
+      { fetch, retry: { minDelay: 1 } }
+    )
+    chai.expect(response.status).to.be.eq(200)
+    chai.expect(fetch).to.have.been.calledThrice
+  })
+
+  it('should not retry client errors and stop after the configured retries', async () => {
+    const notFoundFetch = sinon.stub().resolves(createResponse(404))
+    await fetchWithTransport(
+      { url, method: 'get' },
+      { fetch: notFoundFetch, retry: { minDelay: 1 } }
+    )
+    chai.expect(notFoundFetch).to.have.been.calledOnce
+
+    const unavailableFetch = sinon.stub().resolves(createResponse(503))
+    const response = await fetchWithTransport(
+      { url, method: 'get' },
+      { fetch: unavailableFetch, retry: { retries: 2, minDelay: 1 } }
+    )
+    chai.expect(response.status).to.be.eq(503)
+    chai.expect(unavailableFetch).to.have.been.calledThrice
+  })
+
+  it('should only retry the 5xx responses of idempotent methods', async () => {
+    const postFetch = sinon.stub().resolves(createResponse(503))
+    const response = await fetchWithTransport(
+      { url, method: 'post', body: { data: '0x' } },
+      { fetch: postFetch, retry: { minDelay: 1 } }
+    )
+    chai.expect(response.status).to.be.eq(503)
+    chai.expect(postFetch).to.have.been.calledOnce
+
+    const rateLimitedFetch = sinon.stub()
+    rateLimitedFetch.onCall(0).resolves(createResponse(429))
+    rateLimitedFetch.onCall(1).resolves(createResponse(201))
+    await fetchWithTransport(
+      { url, method: 'post', body: { data: '0x' } },
+      { fetch: rateLimitedFetch, retry: { minDelay: 1 } }
+    )
+    chai.expect(rateLimitedFetch).to.have.been.calledTwice
+
+    const optInFetch = sinon.stub()
+    optInFetch.onCall(0).resolves(createResponse(503))
+    optInFetch.onCall(1).resolves(createResponse(201))
+    await fetchWithTransport(
+      { url, method: 'post', body: { data: '0x' } },
+      { fetch: optInFetch, retry: { minDelay: 1, methods: ['POST'] } }
+    )
+    chai.expect(optInFetch).to.have.been.calledTwice
+  })
+
+  it('should retry the requests that time out or fail with a network error', async () => {
+    const fetch = sinon.stub()
+    fetch
+      .onCall(0)
+      .callsFake(
+        (_, { signal }) =>
+          new Promise((_resolve, reject) =>
+            signal?.addEventListener('abort', () => reject(new Error()))
+          )
+      )
+    fetch.onCall(1).rejects(new Error('ECONNRESET'))
+    fetch.onCall(2).resolves(createResponse(200))
+    const response = await fetchWithTransport(
+      { url, method: 'get' },
+      { fetch, timeout: 10, retry: { minDelay: 1 } }
+    )
+    chai.expect(response.status).to.be.eq(200)
+    chai.expect(fetch).to.have.been.calledThrice
+
+    const postFetch = sinon.stub().rejects(new Error('ECONNRESET'))
+    await chai
+      .expect(
+        fetchWithTransport(
+          { url, method: 'post', body: { data: '0x' } },
+          { fetch: postFetch, retry: { minDelay: 1 } }
+        )
+      )
+      .to.be.rejectedWith('ECONNRESET')
+    chai.expect(postFetch).to.have.been.calledOnce
+  })
+
+  it('should abort the requests that exceed the timeout', async () => {
+    const fetch: FetchFunction = (_, { signal }) =>
+      new Promise((_resolve, reject) =>
+        signal?.addEventListener('abort', () => reject(new Error()))
+      )
+    await chai
+      .expect(fetchWithTransport({ url, method: 'get' }, { fetch, timeout: 10 }))
+      .to.be.rejectedWith('Request timed out after 10 ms')
+  })
+
+  it('should call the request and response interceptors', async () => {
+    const fetch = sinon.stub()
+    fetch.onCall(0).resolves(createResponse(500))
+    fetch.onCall(1).resolves(createResponse(200))
+    const onResponse = sinon.spy()
+    await fetchWithTransport(
+      { url, method: 'get' },
+      {
+        fetch,
+        retry: { minDelay: 1 },
+        interceptors: {
+          request: [(request) => ({ ...request, headers: { ...request.headers, 'X-Id': '1' } })],
+          response: [onResponse]
+        }
+      }
+    )
+    chai.expect(fetch.firstCall.args[1].headers['X-Id']).to.be.eq('1')
+    chai.expect(onResponse).to.have.been.calledTwice
+    chai
+      .expect(onResponse.getCalls().map(({ args }) => [args[0].status, args[0].attempt]))
+      .to.be.deep.eq([
+        [500, 0],
+        [200, 1]
+      ])
+  })
+
+  describe('getRetryDelay', async () => {
+    it('should grow exponentially up to the maximum delay', async () => {
+      const response = createResponse(503)
+      const retry = { minDelay: 100, maxDelay: 1000 }
+      chai.expect(getRetryDelay(response, 0, retry)).to.be.eq(100)
+      chai.expect(getRetryDelay(response, 2, retry)).to.be.eq(400)
+      chai.expect(getRetryDelay(response, 5, retry)).to.be.eq(1000)
+    })
+
+    it('should honor the Retry-After header', async () => {
+      chai.expect(getRetryDelay(createResponse(429, { 'Retry-After': '2' }), 0)).to.be.eq(2000)
+      const retryDate = new Date(Date.now() + 60_000).toUTCString()
+      const delay = getRetryDelay(createResponse(429, { 'Retry-After': retryDate }), 0, {
+        maxDelay: 5000
+      })
+      chai.expect(delay).to.be.eq(5000)
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import chai from 'chai'
+import sinon from 'sinon'
+import sinonChai from 'sinon-chai'
+import { ListResponse } from '@safe-global/types-kit'
+import { collectAll } from '@safe-global/api-kit/index'
+import { iteratePages } from '@safe-global/api-kit/utils/pagination'
+
+chai.use(sinonChai)
+
+const baseUrl = 'https://safe-transaction-sepolia.safe.global/api/v1/tokens/'
+
+const pages: Record<string, ListResponse<number>> = {
+  [`${baseUrl}?limit=2`]: { count: 5, next: `${baseUrl}?limit=2&offset=2`, results: [1, 2] },
+  [`${baseUrl}?limit=2&offset=2`]: {
+    count: 5,
+    next: `${baseUrl}?limit=2&offset=4`,
+    previous: `${baseUrl}?limit=2`,
+    results: [3, 4]
+  },
+  [`${baseUrl}?limit=2&offset=4`]: {
+    count: 5,
+    previous: `${baseUrl}?limit=2&offset=2`,
+    results: [5]
+  }
+}
+
+const getFirstPage = async () => pages[`${baseUrl}?limit=2`]
+
+describe('Pagination', () => {
+  it('should follow the next page URLs until the last page', async () => {
+    const getNextPage = sinon.spy(async (url: string) => pages[url])
+    const items = await collectAll(iteratePages(getFirstPage, getNextPage))
+    chai.expect(items).to.be.deep.eq([1, 2, 3, 4, 5])
+    chai.expect(getNextPage).to.have.been.calledTwice
+    chai.expect(getNextPage.firstCall).to.have.been.calledWith(`${baseUrl}?limit=2&offset=2`)
+    chai.expect(getNextPage.secondCall).to.have.been.calledWith(`${baseUrl}?limit=2&offset=4`)
+  })
+
+  it('should stop requesting pages when the maximum number of items is reached', async () => {
+    const getNextPage = sinon.spy(async (url: string) => pages[url])
+    const items = await collectAll(iteratePages(getFirstPage, getNextPage, 3))
+    chai.expect(items).to.be.deep.eq([1, 2, 3])
+    chai.expect(getNextPage).to.have.been.calledOnce
+
+    const firstPageItems = await collectAll(iteratePages(getFirstPage, getNextPage, 2))
+    chai.expect(firstPageItems).to.be.deep.eq([1, 2])
+    chai.expect(getNextPage).to.have.been.calledOnce
+  })
+
+  it('should only request the pages that are consumed', async () => {
+    const getNextPage = sinon.spy(async (url: string) => pages[url])
+    for await (const item of iteratePages(getFirstPage, getNextPage)) {
+      if (item === 2) {
+        break
+      }
+    }
+    chai.expect(getNextPage).to.not.have.been.called
+  })
+})
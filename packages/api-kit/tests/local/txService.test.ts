@@ -0,0 +1,74 @@
+import Safe from '@safe-global/protocol-kit'
+import { setupTests, startTxService, TxService } from '@safe-global/testing-kit'
+import SafeApiKit from '@safe-global/api-kit/index'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { waitForTransactionReceipt } from 'viem/actions'
+import { getEip1193Provider } from '../utils/setupKits'
+
+chai.use(chaiAsPromised)
+
+describe('Local Transaction Service', () => {
+  const provider = getEip1193Provider()
+  let txService: TxService
+
+  before(async () => {
+    txService = await startTxService()
+  })
+
+  afterEach(() => {
+    txService.reset()
+  })
+
+  after(async () => {
+    await txService.close()
+  })
+
+  it('should propose, confirm and execute a transaction', async () => {
+    const { safe, accounts, contractNetworks } = await setupTests({
+      safeConfig: { numberOfOwners: 2, threshold: 2 }
+    })
+    const [account1, account2] = accounts
+    const safeAddress = safe.address
+    const safeApiKit = new SafeApiKit({ chainId: txService.chainId, txServiceUrl: txService.url })
+    const protocolKit1 = await Safe.init({
+      provider,
+      signer: account1.address,
+      safeAddress,
+      contractNetworks
+    })
+    const protocolKit2 = await protocolKit1.connect({ signer: account2.address })
+
+    const safeTransaction = await protocolKit1.createTransaction({
+      transactions: [{ to: account2.address, value: '0', data: '0x' }]
+    })
+    const safeTxHash = await protocolKit1.getTransactionHash(safeTransaction)
+    const senderSignature = await protocolKit1.signHash(safeTxHash)
+    await safeApiKit.proposeTransaction({
+      safeAddress,
+      safeTransactionData: safeTransaction.data,
+      safeTxHash,
+      senderAddress: account1.address,
+      senderSignature: senderSignature.data
+    })
+    const proposedTransaction = await safeApiKit.getTransaction(safeTxHash)
+    chai.expect(proposedTransaction.confirmations).to.have.length(1)
+    chai.expect(proposedTransaction.isExecuted).to.be.false
+
+    const confirmation = await protocolKit2.signHash(safeTxHash)
+    await safeApiKit.confirmTransaction(safeTxHash, confirmation.data)
+    const confirmedTransaction = await safeApiKit.getTransaction(safeTxHash)
+    chai.expect(confirmedTransaction.confirmations).to.have.length(2)
+    chai.expect((await safeApiKit.getPendingTransactions(safeAddress)).results).to.have.length(1)
+
+    const { hash } = await protocolKit1.executeTransaction(confirmedTransaction)
+    await waitForTransactionReceipt(protocolKit1.getSafeProvider().getExternalProvider(), {
+      hash: hash as `0x${string}`
+    })
+    const executedTransaction = await safeApiKit.getTransaction(safeTxHash)
+    chai.expect(executedTransaction.isExecuted).to.be.true
+    chai.expect(executedTransaction.isSuccessful).to.be.true
+    chai.expect(executedTransaction.transactionHash).to.be.eq(hash)
+    chai.expect((await safeApiKit.getPendingTransactions(safeAddress)).results).to.have.length(0)
+  })
+})
@@ -6,7 +6,7 @@ import { networks } from '../../src/utils/eip-3770/config'
 /**
  * Array of compatible Safe versions.
  */
-const compatibleSafeVersions: SafeVersion[] = ['1.0.0', '1.1.1', '1.2.0', '1.3.0', '1.4.1']
+const compatibleSafeVersions: SafeVersion[] = ['1.0.0', '1.1.1', '1.2.0', '1.3.0', '1.4.1', '1.5.0']
 
 /**
  * Gets the network IDs where the Safe smart contracts were deployed and added to @safe-global/safe-deployments.
@@ -26,7 +26,13 @@ import {
   validateSafeAccountConfig,
   validateSafeDeploymentConfig
 } from './contracts/utils'
-import { ContractInfo, DEFAULT_SAFE_VERSION, getContractInfo } from './contracts/config'
+import {
+  ContractInfo,
+  DEFAULT_SAFE_VERSION,
+  getContractDeploymentType,
+  getContractInfo,
+  safeDeploymentsL1ChainIds
+} from './contracts/config'
 import ContractManager from './managers/contractManager'
 import FallbackHandlerManager from './managers/fallbackHandlerManager'
 import GuardManager from './managers/guardManager'
@@ -37,14 +43,34 @@ import {
   AddPasskeyOwnerTxParams,
   ConnectSafeConfig,
   CreateTransactionProps,
+  PredictedSafeDescriptor,
   PredictedSafeProps,
+  ReconfigurationTxParams,
   RemoveOwnerTxParams,
   SafeConfig,
   SafeConfigProps,
   SwapOwnerTxParams,
   SafeModulesPaginated,
   RemovePasskeyOwnerTxParams,
-  PasskeyArgType
+  PasskeyArgType,
+  SafeTransactionSimulationResult,
+  AnalyzeTransactionOptions,
+  RiskFinding,
+  RiskPolicy,
+  GetReplicableSafeConfigProps,
+  ReplicableSafeConfig,
+  CreateReplicationTransactionsProps,
+  SafeReplicationTransaction,
+  CreateUpgradeTxProps,
+  SafeOwnerDetails,
+  SharedSignerConfiguration,
+  SafeWebAuthnSharedSignerContractImplementationType,
+  ContractOwnerSigner,
+  SafeState,
+  GetSafeEventsOptions,
+  SafeEvent,
+  SafeHistoryItem,
+  WatchSafeEventsProps
 } from './types'
 import {
   EthSafeSignature,
@@ -62,11 +88,40 @@ import {
   preimageSafeMessageHash,
   preimageSafeTransactionHash,
   adjustVInSignature,
-  extractPasskeyData
+  extractPasskeyData,
+  simulateSafeTransaction,
+  analyzeSafeTransaction,
+  enforceRiskPolicy,
+  getReplicableSafeConfigFromCreation,
+  getSafeCreationDataFromTransaction,
+  createPredictedSafeDescriptor,
+  getPredictedSafeFromDescriptor,
+  isZeroAddress,
+  getSafeMigrationAddress,
+  encodeSafeMigrationData,
+  encodeChangeMasterCopyData,
+  encodeSetFallbackHandlerData,
+  isTransactionAllowedByGuard,
+  getIncompatibleModules,
+  getSafeToL2MigrationAddress,
+  encodeSafeToL2MigrationData,
+  buildErc6492Signature,
+  isErc6492WrappedSignature,
+  isValidUniversalSignature,
+  splitSafeInitCode,
+  getOwnerDetails,
+  encodeSharedSignerConfigureData,
+  getSharedSignerConfigurationFromPasskey,
+  generateContractOwnerSignature,
+  getSafeState,
+  getSafeEvents,
+  buildSafeHistory,
+  watchSafeEvents
 } from './utils'
 import EthSafeTransaction from './utils/transactions/SafeTransaction'
 import { SafeTransactionOptionalProps } from './utils/transactions/types'
 import {
+  encodeExecTransactionData,
   encodeMultiSendData,
   isNewOwnerPasskey,
   isOldOwnerPasskey,
@@ -75,17 +130,21 @@ import {
   standardizeSafeTransactionData
 } from './utils/transactions/utils'
 import { isSafeConfigWithPredictedSafe } from './utils/types'
+import { MODULE_GUARD_STORAGE_SLOT, ZERO_ADDRESS } from './utils/constants'
 import {
   getCompatibilityFallbackHandlerContract,
   getSafeProxyFactoryContract,
-  getSafeContract
+  getSafeContract,
+  getSafeWebAuthnSharedSignerContract,
+  getSafeWebAuthnSignerFactoryContract
 } from './contracts/safeDeploymentContracts'
 import SafeMessage from './utils/messages/SafeMessage'
 import semverSatisfies from 'semver/functions/satisfies.js'
 import SafeProvider from './SafeProvider'
 import { asHash, asHex } from './utils/types'
-import { Hash, Hex, SendTransactionParameters } from 'viem'
+import { getAddress, Hash, Hex, isAddress, SendTransactionParameters } from 'viem'
 import getPasskeyOwnerAddress from './utils/passkeys/getPasskeyOwnerAddress'
+import { getSharedSignerConfiguration } from './utils/passkeys/isSharedSigner'
 import createPasskeyDeploymentTransaction from './utils/passkeys/createPasskeyDeploymentTransaction'
 import generateOnChainIdentifier from './utils/on-chain-tracking/generateOnChainIdentifier'
 import { getProtocolKitVersion } from './utils/getProtocolKitVersion'
@@ -101,6 +160,7 @@ class Safe {
   #moduleManager!: ModuleManager
   #guardManager!: GuardManager
   #fallbackHandlerManager!: FallbackHandlerManager
+  #riskPolicy?: RiskPolicy
 
   #MAGIC_VALUE = '0x1626ba7e'
   #MAGIC_VALUE_BYTES = '0x20c13b0b'
@@ -132,7 +192,18 @@ class Safe {
    * @throws "MultiSendCallOnly contract is not deployed on the current network"
    */
   async #initializeProtocolKit(config: SafeConfig) {
-    const { provider, signer, isL1SafeSingleton, contractNetworks, onchainAnalytics } = config
+    const {
+      provider,
+      signer,
+      isL1SafeSingleton,
+      contractNetworks,
+      onchainAnalytics,
+      riskPolicy,
+      multicall,
+      failover
+    } = config
+
+    this.#riskPolicy = riskPolicy
 
     if (onchainAnalytics?.project) {
       const { project, platform } = onchainAnalytics
@@ -148,7 +219,9 @@ class Safe {
       provider,
       signer,
       safeVersion: DEFAULT_SAFE_VERSION,
-      contractNetworks
+      contractNetworks,
+      multicall,
+      failover
     })
 
     if (isSafeConfigWithPredictedSafe(config)) {
@@ -179,7 +252,9 @@ class Safe {
       provider,
       signer,
       safeVersion,
-      contractNetworks
+      contractNetworks,
+      multicall,
+      failover
     })
 
     this.#ownerManager = new OwnerManager(this.#safeProvider, this.#contractManager.safeContract)
@@ -200,7 +275,9 @@ class Safe {
         safeVersion,
         contractNetworks,
         safeAddress,
-        owners
+        owners,
+        multicall,
+        failover
       })
     }
   }
@@ -214,13 +291,25 @@ class Safe {
    * @throws "MultiSendCallOnly contract is not deployed on the current network"
    */
   async connect(config: ConnectSafeConfig): Promise<Safe> {
-    const { provider, signer, safeAddress, predictedSafe, isL1SafeSingleton, contractNetworks } =
-      config
+    const {
+      provider,
+      signer,
+      safeAddress,
+      predictedSafe,
+      isL1SafeSingleton,
+      contractNetworks,
+      riskPolicy,
+      multicall,
+      failover
+    } = config
     const configProps: SafeConfigProps = {
       provider: provider || this.#safeProvider.provider,
       signer,
       isL1SafeSingleton: isL1SafeSingleton || this.#contractManager.isL1SafeSingleton,
-      contractNetworks: contractNetworks || this.#contractManager.contractNetworks
+      contractNetworks: contractNetworks || this.#contractManager.contractNetworks,
+      riskPolicy: riskPolicy || this.#riskPolicy,
+      multicall: multicall ?? this.#safeProvider.multicall,
+      failover: failover ?? this.#safeProvider.failover
     }
 
     // A new existing Safe is connected to the Signer
@@ -282,6 +371,105 @@ class Safe {
     return this.#predictedSafe
   }
 
+  /**
+   * Returns a serializable descriptor of the predicted Safe that can be stored to resume it later
+   * with `Safe.fromPredictedSafeDescriptor`. The default values used to predict the address of the Safe,
+   * including the fallback handler and the deployment type of the Safe contracts, are resolved so the
+   * descriptor does not depend on the defaults of the SDK. The deployment type is omitted if the Safe
+   * uses custom contracts.
+   *
+   * @returns {Promise<PredictedSafeDescriptor>} The descriptor of the predicted Safe
+   * @throws "The Safe is not a predicted Safe"
+   */
+  async exportPredictedSafe(): Promise<PredictedSafeDescriptor> {
+    if (!this.#predictedSafe) {
+      throw new Error('The Safe is not a predicted Safe')
+    }
+
+    const chainId = await this.#safeProvider.getChainId()
+    const safeVersion = this.getContractVersion()
+    const safeContract = this.#contractManager.safeContract
+    const { safeAccountConfig, safeDeploymentConfig } = this.#predictedSafe
+
+    // The address is predicted with the fallback handler of the deployment type set, or of the
+    // first deployment if it is not set, in the same way as encodeSetupCallData
+    let fallbackHandler = safeAccountConfig.fallbackHandler
+    if (
+      hasSafeFeature(SAFE_FEATURES.SAFE_FALLBACK_HANDLER, safeVersion) &&
+      !(fallbackHandler && isAddress(fallbackHandler))
+    ) {
+      const fallbackHandlerContract = await getCompatibilityFallbackHandlerContract({
+        safeProvider: this.#safeProvider,
+        safeVersion,
+        customContracts: this.#contractManager.contractNetworks?.[chainId.toString()],
+        deploymentType: safeDeploymentConfig?.deploymentType
+      })
+      fallbackHandler = fallbackHandlerContract.getAddress()
+    }
+
+    const deploymentType =
+      safeDeploymentConfig?.deploymentType ??
+      (safeContract &&
+        getContractDeploymentType(
+          safeVersion,
+          chainId,
+          safeContract.contractName,
+          safeContract.getAddress()
+        ))
+
+    return createPredictedSafeDescriptor({
+      predictedSafe: this.#predictedSafe,
+      safeAddress: await this.getAddress(),
+      chainId,
+      saltNonce: safeDeploymentConfig?.saltNonce ?? getChainSpecificDefaultSaltNonce(chainId),
+      safeVersion,
+      isL1SafeSingleton: this.#contractManager.isL1SafeSingleton,
+      fallbackHandler,
+      deploymentType
+    })
+  }
+
+  /**
+   * Creates an instance of the Safe Core SDK from the descriptor of a predicted Safe.
+   *
+   * @param {PredictedSafeDescriptor} descriptor - The descriptor returned by `exportPredictedSafe`
+   * @param {SafeConfigProps} config - The configuration of the SDK
+   * @returns {Promise<Safe>} The Safe Core SDK instance
+   * @throws "Invalid predicted Safe descriptor"
+   * @throws "The predicted Safe descriptor belongs to chain X, but the provider is connected to chain Y"
+   * @throws "The predicted Safe descriptor does not match the address X. The predicted address is Y"
+   */
+  static async fromPredictedSafeDescriptor(
+    descriptor: PredictedSafeDescriptor,
+    config: SafeConfigProps
+  ): Promise<Safe> {
+    const predictedSafe = getPredictedSafeFromDescriptor(descriptor)
+
+    const protocolKit = await Safe.init({
+      ...config,
+      isL1SafeSingleton: descriptor.isL1SafeSingleton ?? config.isL1SafeSingleton,
+      predictedSafe
+    })
+
+    const chainId = await protocolKit.getChainId()
+
+    if (chainId.toString() !== descriptor.chainId) {
+      throw new Error(
+        `The predicted Safe descriptor belongs to chain ${descriptor.chainId}, but the provider is connected to chain ${chainId}`
+      )
+    }
+
+    const safeAddress = await protocolKit.getAddress()
+
+    if (!sameString(safeAddress, descriptor.safeAddress)) {
+      throw new Error(
+        `The predicted Safe descriptor does not match the address ${descriptor.safeAddress}. The predicted address is ${safeAddress}`
+      )
+    }
+
+    return protocolKit
+  }
+
   /**
    * Returns the address of the current SafeProxy contract.
    *
@@ -377,6 +565,63 @@ class Safe {
     return DEFAULT_SAFE_VERSION
   }
 
+  /**
+   * Returns the configuration of the Safe: version, nonce, threshold, owners, modules, guard and
+   * fallback handler. The values are read together with a single Multicall3 call.
+   *
+   * @returns The configuration of the Safe
+   * @throws "Safe is not deployed"
+   * @throws "The state of the Safe X could not be read"
+   */
+  async getSafeState(): Promise<SafeState> {
+    if (!this.#contractManager.safeContract) {
+      throw new Error('Safe is not deployed')
+    }
+
+    return getSafeState(this.#safeProvider, await this.getAddress(), this.getContractVersion())
+  }
+
+  /**
+   * Returns the events emitted by the Safe reading the logs from the RPC, without using the Safe
+   * Transaction Service. The logs are read from fromBlock, so pass the block where the Safe was
+   * created to read all its events without scanning the whole chain.
+   *
+   * @param options - The block range and the events to read
+   * @returns The decoded events, in the order they were emitted
+   * @throws "The block range must be greater than 0"
+   */
+  async getSafeEvents(options: GetSafeEventsOptions): Promise<SafeEvent[]> {
+    return getSafeEvents(this.#safeProvider, await this.getAddress(), options)
+  }
+
+  /**
+   * Returns the history of the Safe built from the events read from the RPC: creation, multisig
+   * and module transactions, incoming transfers and hash approvals. The details of the executed
+   * transactions are only available for the Safes using an L2 singleton.
+   *
+   * @param options - The block range to read
+   * @returns The history of the Safe, in the order it happened
+   * @throws "The block range must be greater than 0"
+   */
+  async getTransactionHistory(
+    options: Omit<GetSafeEventsOptions, 'eventNames'>
+  ): Promise<SafeHistoryItem[]> {
+    return buildSafeHistory(await this.getSafeEvents(options))
+  }
+
+  /**
+   * Watches the events emitted by the Safe: executions, owner and module changes, incoming native
+   * tokens and hash approvals. A websocket subscription is used if the provider is a websocket
+   * URL, otherwise the new blocks are polled. The events removed by a reorg are notified with
+   * onReorg.
+   *
+   * @param props - The handlers of the events and the polling interval
+   * @returns A function to stop watching the events
+   */
+  async watch(props: WatchSafeEventsProps): Promise<() => void> {
+    return watchSafeEvents(this.#safeProvider, await this.getAddress(), props)
+  }
+
   /**
    * Returns the list of Safe owner accounts.
    *
@@ -390,6 +635,17 @@ class Safe {
     return this.#ownerManager.getOwners()
   }
 
+  /**
+   * Returns the details of the Safe owners, identifying if each owner is an EOA, another Safe,
+   * a passkey signer, the passkey shared signer or another EIP-1271 contract, and the signing
+   * method it requires.
+   *
+   * @returns The details of the Safe owners
+   */
+  async getOwnerDetails(): Promise<SafeOwnerDetails[]> {
+    return getOwnerDetails(this)
+  }
+
   /**
    * Returns the Safe nonce.
    *
@@ -455,6 +711,16 @@ class Safe {
     return this.#guardManager.getGuard()
   }
 
+  /**
+   * Returns the enabled Safe module guard or 0x address if no module guards are enabled.
+   *
+   * @returns The address of the enabled Safe module guard
+   * @throws "Current version of the Safe does not support module guards functionality"
+   */
+  async getModuleGuard(): Promise<string> {
+    return this.#moduleManager.getModuleGuard()
+  }
+
   /**
    * Returns the list of addresses of all the enabled Safe modules.
    *
@@ -777,6 +1043,8 @@ class Safe {
    * https://github.com/safe-global/safe-contracts/blob/192c7dc67290940fcbc75165522bb86a37187069/test/core/Safe.Signatures.spec.ts#L229-L233
    * @returns The signed Safe transaction
    * @throws "Transactions can only be signed by Safe owners"
+   * @throws "The transaction was refused by the risk policy"
+   * @throws "The transaction risks were not acknowledged"
    */
   async signTransaction(
     safeTransaction: SafeTransaction | SafeMultisigTransactionResponse,
@@ -797,6 +1065,10 @@ class Safe {
       throw new Error('Transactions can only be signed by Safe owners')
     }
 
+    if (this.#riskPolicy) {
+      await enforceRiskPolicy(this, transaction, this.#riskPolicy)
+    }
+
     const safeVersion = this.getContractVersion()
     if (
       signingMethod === SigningMethod.SAFE_SIGNATURE &&
@@ -857,17 +1129,120 @@ class Safe {
     return signedSafeTransaction
   }
 
+  /**
+   * Adds the contract signature of a Safe owner implementing EIP-1271, like another smart account,
+   * to the Safe transaction object. The signature is checked with the isValidSignature method of the
+   * owner before being added.
+   *
+   * @param safeTransaction - The Safe transaction to be signed
+   * @param contractOwnerSigner - The signer of the contract owner
+   * @returns The signed Safe transaction
+   * @throws "Transactions can only be signed by Safe owners"
+   * @throws "The signature is not valid for the contract owner X"
+   * @throws "The transaction was refused by the risk policy"
+   * @throws "The transaction risks were not acknowledged"
+   */
+  async signTransactionWithContractOwner(
+    safeTransaction: SafeTransaction | SafeMultisigTransactionResponse,
+    contractOwnerSigner: ContractOwnerSigner
+  ): Promise<SafeTransaction> {
+    const transaction = isSafeMultisigTransactionResponse(safeTransaction)
+      ? await this.toSafeTransactionType(safeTransaction)
+      : safeTransaction
+
+    const addressIsOwner = await this.isOwner(contractOwnerSigner.address)
+    if (!addressIsOwner) {
+      throw new Error('Transactions can only be signed by Safe owners')
+    }
+
+    if (this.#riskPolicy) {
+      await enforceRiskPolicy(this, transaction, this.#riskPolicy)
+    }
+
+    const safeAddress = await this.getAddress()
+    const safeVersion = this.getContractVersion()
+    const chainId = await this.getChainId()
+
+    const signature = await generateContractOwnerSignature(
+      this.#safeProvider,
+      contractOwnerSigner,
+      {
+        hash: await this.getTransactionHash(transaction),
+        data: preimageSafeTransactionHash(safeAddress, transaction.data, safeVersion, chainId)
+      },
+      safeAddress,
+      safeVersion
+    )
+
+    const signedSafeTransaction = await this.copyTransaction(transaction)
+    signedSafeTransaction.addSignature(signature)
+
+    return signedSafeTransaction
+  }
+
+  /**
+   * Adds the contract signature of a Safe owner implementing EIP-1271, like another smart account,
+   * to the Safe message. The signature is checked with the isValidSignature method of the owner
+   * before being added.
+   *
+   * @param message - The message to be signed
+   * @param contractOwnerSigner - The signer of the contract owner
+   * @returns The signed Safe message
+   * @throws "Messages can only be signed by Safe owners"
+   * @throws "The signature is not valid for the contract owner X"
+   */
+  async signMessageWithContractOwner(
+    message: SafeMessage,
+    contractOwnerSigner: ContractOwnerSigner
+  ): Promise<SafeMessage> {
+    const addressIsOwner = await this.isOwner(contractOwnerSigner.address)
+    if (!addressIsOwner) {
+      throw new Error('Messages can only be signed by Safe owners')
+    }
+
+    const safeAddress = await this.getAddress()
+    const safeVersion = this.getContractVersion()
+    const chainId = await this.getChainId()
+    const messageHash = hashSafeMessage(message.data)
+
+    const signature = await generateContractOwnerSignature(
+      this.#safeProvider,
+      contractOwnerSigner,
+      {
+        hash: await this.getSafeMessageHash(messageHash),
+        data: preimageSafeMessageHash(safeAddress, messageHash, safeVersion, chainId)
+      },
+      safeAddress,
+      safeVersion
+    )
+
+    const signedSafeMessage = this.createMessage(message.data)
+
+    message.signatures.forEach((signature: EthSafeSignature) => {
+      signedSafeMessage.addSignature(signature)
+    })
+
+    signedSafeMessage.addSignature(signature)
+
+    return signedSafeMessage
+  }
+
   /**
    * Approves on-chain a hash using the current signer account.
+   * If a risk policy is set, the Safe transaction must be passed instead of its hash so the
+   * policy can be checked before approving it.
    *
-   * @param hash - The hash to approve
+   * @param hashOrTransaction - The hash to approve or the Safe transaction whose hash is approved
    * @param options - The Safe transaction execution options. Optional
    * @returns The Safe transaction response
    * @throws "Transaction hashes can only be approved by Safe owners"
+   * @throws "The Safe transaction is required to check the risk policy"
+   * @throws "The transaction was refused by the risk policy"
+   * @throws "The transaction risks were not acknowledged"
    * @throws "Cannot specify gas and gasLimit together in transaction options"
    */
   async approveTransactionHash(
-    hash: string,
+    hashOrTransaction: string | SafeTransaction,
     options?: TransactionOptions
   ): Promise<TransactionResult> {
     if (!this.#contractManager.safeContract) {
@@ -884,6 +1259,18 @@ class Safe {
       throw new Error('Transaction hashes can only be approved by Safe owners')
     }
 
+    if (this.#riskPolicy) {
+      if (typeof hashOrTransaction === 'string') {
+        throw new Error('The Safe transaction is required to check the risk policy')
+      }
+      await enforceRiskPolicy(this, hashOrTransaction, this.#riskPolicy)
+    }
+
+    const hash =
+      typeof hashOrTransaction === 'string'
+        ? hashOrTransaction
+        : await this.getTransactionHash(hashOrTransaction)
+
     return this.#contractManager.safeContract.approveHash(hash, {
       from: signerAddress,
       ...options
@@ -1027,6 +1414,55 @@ class Safe {
     return safeTransaction
   }
 
+  /**
+   * Returns the Safe transaction to enable a Safe module guard.
+   *
+   * @param moduleGuardAddress - The desired module guard address
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "Invalid module guard address provided"
+   * @throws "Module guard provided is already enabled"
+   * @throws "Current version of the Safe does not support module guards functionality"
+   */
+  async createEnableModuleGuardTx(
+    moduleGuardAddress: string,
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    const safeTransactionData = {
+      to: await this.getAddress(),
+      value: '0',
+      data: await this.#moduleManager.encodeEnableModuleGuardData(moduleGuardAddress)
+    }
+    const safeTransaction = await this.createTransaction({
+      transactions: [safeTransactionData],
+      options
+    })
+    return safeTransaction
+  }
+
+  /**
+   * Returns the Safe transaction to disable a Safe module guard.
+   *
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "There is no module guard enabled yet"
+   * @throws "Current version of the Safe does not support module guards functionality"
+   */
+  async createDisableModuleGuardTx(
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    const safeTransactionData = {
+      to: await this.getAddress(),
+      value: '0',
+      data: await this.#moduleManager.encodeDisableModuleGuardData()
+    }
+    const safeTransaction = await this.createTransaction({
+      transactions: [safeTransactionData],
+      options
+    })
+    return safeTransaction
+  }
+
   /**
    * Returns the Safe transaction to enable a Safe module.
    *
@@ -1214,6 +1650,129 @@ class Safe {
     return safeTransaction
   }
 
+  /**
+   * Returns the passkey configured in the SafeWebAuthnSharedSigner for the Safe.
+   *
+   * @returns The shared signer configuration or undefined if the shared signer is not an owner of the Safe or is not configured
+   */
+  async getSharedSignerConfiguration(): Promise<SharedSignerConfiguration | undefined> {
+    const safeWebAuthnSharedSignerContract = await this.#getSafeWebAuthnSharedSignerContract()
+
+    const configuration = await getSharedSignerConfiguration(
+      safeWebAuthnSharedSignerContract,
+      await this.getAddress(),
+      await this.getOwners()
+    )
+
+    return configuration && configuration.x !== 0n ? configuration : undefined
+  }
+
+  /**
+   * Returns the Safe transaction to configure the SafeWebAuthnSharedSigner with a new passkey,
+   * replacing the passkey currently configured. The configuration is stored in the Safe, so the
+   * transaction delegate calls the shared signer.
+   *
+   * @param passkey - The new passkey
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "The SafeWebAuthnSharedSigner is not an owner of the Safe"
+   */
+  async createSharedSignerReconfigurationTx(
+    passkey: PasskeyArgType,
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    const safeWebAuthnSharedSignerContract = await this.#getSafeWebAuthnSharedSignerContract()
+    const sharedSignerAddress = safeWebAuthnSharedSignerContract.getAddress()
+
+    if (!(await this.isOwner(sharedSignerAddress))) {
+      throw new Error('The SafeWebAuthnSharedSigner is not an owner of the Safe')
+    }
+
+    const chainId = await this.getChainId()
+
+    const safeTransaction = await this.createTransaction({
+      transactions: [
+        {
+          to: sharedSignerAddress,
+          value: '0',
+          data: encodeSharedSignerConfigureData(
+            getSharedSignerConfigurationFromPasskey(passkey, chainId.toString())
+          ),
+          operation: OperationType.DelegateCall
+        }
+      ],
+      options
+    })
+    return safeTransaction
+  }
+
+  /**
+   * Returns the Safe transaction to replace the SafeWebAuthnSharedSigner owner with a passkey signer
+   * deployed by the SafeWebAuthnSignerFactory. The passkey signer is deployed if required and the
+   * configuration of the shared signer is cleared.
+   *
+   * @param passkey - The passkey of the new owner. Optional. By default, the passkey configured in the shared signer
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "The SafeWebAuthnSharedSigner is not an owner of the Safe"
+   * @throws "The SafeWebAuthnSharedSigner is not configured"
+   */
+  async createSharedSignerMigrationTx(
+    passkey?: PasskeyArgType,
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    const safeWebAuthnSharedSignerContract = await this.#getSafeWebAuthnSharedSignerContract()
+    const sharedSignerAddress = safeWebAuthnSharedSignerContract.getAddress()
+
+    if (!(await this.isOwner(sharedSignerAddress))) {
+      throw new Error('The SafeWebAuthnSharedSigner is not an owner of the Safe')
+    }
+
+    const chainId = await this.getChainId()
+    const configuration = passkey
+      ? getSharedSignerConfigurationFromPasskey(passkey, chainId.toString())
+      : await this.getSharedSignerConfiguration()
+
+    if (!configuration) {
+      throw new Error('The SafeWebAuthnSharedSigner is not configured')
+    }
+
+    const { x, y, verifiers } = configuration
+    const safeWebAuthnSignerFactoryContract = await getSafeWebAuthnSignerFactoryContract({
+      safeProvider: this.#safeProvider,
+      safeVersion: this.getContractVersion(),
+      customContracts: this.#contractManager.contractNetworks?.[chainId.toString()]
+    })
+    const [signerAddress] = await safeWebAuthnSignerFactoryContract.getSigner([x, y, verifiers])
+
+    const transactions: MetaTransactionData[] = []
+
+    if (!(await this.#safeProvider.isContractDeployed(signerAddress))) {
+      transactions.push({
+        to: safeWebAuthnSignerFactoryContract.getAddress(),
+        value: '0',
+        data: safeWebAuthnSignerFactoryContract.encode('createSigner', [x, y, verifiers])
+      })
+    }
+
+    transactions.push(
+      {
+        to: await this.getAddress(),
+        value: '0',
+        data: await this.#ownerManager.encodeSwapOwnerData(sharedSignerAddress, signerAddress)
+      },
+      {
+        to: sharedSignerAddress,
+        value: '0',
+        data: encodeSharedSignerConfigureData({ x: 0n, y: 0n, verifiers: 0n }),
+        operation: OperationType.DelegateCall
+      }
+    )
+
+    const safeTransaction = await this.createTransaction({ transactions, options })
+    return safeTransaction
+  }
+
   /**
    * Returns the Safe transaction to change the threshold.
    *
@@ -1240,11 +1799,395 @@ class Safe {
   }
 
   /**
-   * Converts a transaction from type SafeMultisigTransactionResponse to type SafeTransaction
+   * Returns the Safe transaction that changes the owners and threshold of the Safe to the provided ones.
+   * The current owners are compared with the target owners to use the smallest sequence of swapOwner,
+   * addOwnerWithThreshold, removeOwner and changeThreshold calls, which are batched with MultiSend when
+   * more than one call is needed.
    *
-   * @param serviceTransactionResponse - The transaction to convert
-   * @returns The converted transaction with type SafeTransaction
-   */
+   * @param params - The transaction params
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "Invalid owner address provided"
+   * @throws "Duplicated owner addresses provided"
+   * @throws "Threshold needs to be greater than 0"
+   * @throws "Threshold cannot exceed owner count"
+   * @throws "The Safe already has the provided owners and threshold"
+   */
+  async createReconfigurationTx(
+    { owners, threshold }: ReconfigurationTxParams,
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    const safeAddress = await this.getAddress()
+    const reconfigurationData = await this.#ownerManager.encodeReconfigurationData(
+      owners,
+      threshold
+    )
+
+    const safeTransaction = await this.createTransaction({
+      transactions: reconfigurationData.map((data) => ({ to: safeAddress, value: '0', data })),
+      options
+    })
+    return safeTransaction
+  }
+
+  /**
+   * Returns the Safe transaction to upgrade the Safe to a newer version of the Safe singleton.
+   * Safes with version v1.3.0 or higher are migrated with a delegate call to the SafeMigration contract
+   * of the target version. Safes with a lower version can only be upgraded to v1.3.0, calling their
+   * changeMasterCopy method.
+   * The fallback handler is replaced with the CompatibilityFallbackHandler of the target version, unless
+   * the Safe uses a custom fallback handler. Before creating the transaction it is checked that the
+   * fallback handler to be replaced is not an enabled module, that the enabled modules support the
+   * target version, that no module guard would be enabled by the upgrade and that the guard accepts it.
+   *
+   * @param props - The target version and the type of Safe singleton
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "Safe is not deployed"
+   * @throws "The Safe can not be upgraded from vX to vY"
+   * @throws "Safes with version X must be upgraded to v1.3.0 first"
+   * @throws "The SafeMigration contract for vX is not deployed on the current network"
+   * @throws "The fallback handler X is an enabled module of the Safe and can not be replaced"
+   * @throws "The enabled modules X are not compatible with vY"
+   * @throws "The module guard storage slot of the Safe contains X, which would be enabled as module guard by the upgrade"
+   * @throws "The guard X rejects the upgrade transaction"
+   */
+  async createUpgradeTx(
+    { targetVersion, l2, updateFallbackHandler }: CreateUpgradeTxProps,
+    options?: SafeTransactionOptionalProps
+  ): Promise<SafeTransaction> {
+    if (!(await this.isSafeDeployed())) {
+      throw new Error('Safe is not deployed')
+    }
+
+    const currentVersion = this.getContractVersion()
+
+    if (!semverSatisfies(targetVersion, `>${currentVersion}`)) {
+      throw new Error(`The Safe can not be upgraded from v${currentVersion} to v${targetVersion}`)
+    }
+
+    const isLegacySafe = !hasSafeFeature(SAFE_FEATURES.ACCOUNT_ABSTRACTION, currentVersion)
+
+    if (isLegacySafe && targetVersion !== '1.3.0') {
+      throw new Error(`Safes with version ${currentVersion} must be upgraded to v1.3.0 first`)
+    }
+
+    const safeAddress = await this.getAddress()
+    const chainId = await this.getChainId()
+    const customContracts = this.#contractManager.contractNetworks?.[chainId.toString()]
+
+    const singletonInfo = getContractInfo(await this.#getSingletonAddress())
+    const deploymentType = singletonInfo?.type
+    const isL2Singleton =
+      l2 ??
+      (singletonInfo
+        ? singletonInfo.contractName === 'safeSingletonL2Version'
+        : !safeDeploymentsL1ChainIds.includes(chainId))
+
+    const fallbackHandler = hasSafeFeature(SAFE_FEATURES.SAFE_FALLBACK_HANDLER, currentVersion)
+      ? await this.getFallbackHandler()
+      : ZERO_ADDRESS
+    const isCompatibilityFallbackHandler =
+      isZeroAddress(fallbackHandler) ||
+      getContractInfo(fallbackHandler)?.contractName === 'compatibilityFallbackHandler'
+    const shouldUpdateFallbackHandler = updateFallbackHandler ?? isCompatibilityFallbackHandler
+
+    // Some modules like the Safe4337Module are also the fallback handler of the Safe
+    const modules = await this.getModules()
+    if (
+      shouldUpdateFallbackHandler &&
+      modules.some((module) => sameString(module, fallbackHandler))
+    ) {
+      throw new Error(
+        `The fallback handler ${fallbackHandler} is an enabled module of the Safe and can not be replaced`
+      )
+    }
+
+    const incompatibleModules = getIncompatibleModules(modules, targetVersion, chainId)
+    if (incompatibleModules.length) {
+      throw new Error(
+        `The enabled modules ${incompatibleModules.join(', ')} are not compatible with v${targetVersion}`
+      )
+    }
+
+    // The module guard storage slot is only read from v1.5.0, so an address stored in it before
+    // the upgrade would start checking every module transaction
+    if (
+      hasSafeFeature(SAFE_FEATURES.SAFE_MODULE_GUARDS, targetVersion) &&
+      !hasSafeFeature(SAFE_FEATURES.SAFE_MODULE_GUARDS, currentVersion)
+    ) {
+      const moduleGuard = await this.#safeProvider.getStorageAt(
+        safeAddress,
+        MODULE_GUARD_STORAGE_SLOT
+      )
+
+      if (!isZeroAddress(moduleGuard)) {
+        throw new Error(
+          `The module guard storage slot of the Safe contains ${moduleGuard}, which would be enabled as module guard by the upgrade`
+        )
+      }
+    }
+
+    const transactions: MetaTransactionData[] = []
+
+    if (isLegacySafe) {
+      const targetSafeContract = await getSafeContract({
+        safeProvider: this.#safeProvider,
+        safeVersion: targetVersion,
+        isL1SafeSingleton: !isL2Singleton,
+        customContracts,
+        deploymentType
+      })
+
+      transactions.push({
+        to: safeAddress,
+        value: '0',
+        data: encodeChangeMasterCopyData(targetSafeContract.getAddress())
+      })
+
+      if (shouldUpdateFallbackHandler) {
+        const fallbackHandlerContract = await getCompatibilityFallbackHandlerContract({
+          safeProvider: this.#safeProvider,
+          safeVersion: targetVersion,
+          customContracts,
+          deploymentType
+        })
+
+        transactions.push({
+          to: safeAddress,
+          value: '0',
+          data: encodeSetFallbackHandlerData(fallbackHandlerContract.getAddress())
+        })
+      }
+    } else {
+      const safeMigrationAddress = getSafeMigrationAddress(
+        targetVersion,
+        chainId,
+        customContracts,
+        deploymentType
+      )
+
+      if (
+        !safeMigrationAddress ||
+        !(await this.#safeProvider.isContractDeployed(safeMigrationAddress))
+      ) {
+        throw new Error(
+          `The SafeMigration contract for v${targetVersion} is not deployed on the current network`
+        )
+      }
+
+      transactions.push({
+        to: safeMigrationAddress,
+        value: '0',
+        data: encodeSafeMigrationData(isL2Singleton, shouldUpdateFallbackHandler),
+        operation: OperationType.DelegateCall
+      })
+    }
+
+    const safeTransaction = await this.createTransaction({ transactions, options })
+
+    const guard = hasSafeFeature(SAFE_FEATURES.SAFE_TX_GUARDS, currentVersion)
+      ? await this.getGuard()
+      : ZERO_ADDRESS
+
+    if (!isZeroAddress(guard)) {
+      const executor = (await this.#safeProvider.getSignerAddress()) ?? ZERO_ADDRESS
+      const isAllowedByGuard = await isTransactionAllowedByGuard(
+        this.#safeProvider,
+        guard,
+        safeAddress,
+        safeTransaction.data,
+        executor
+      )
+
+      if (!isAllowedByGuard) {
+        throw new Error(`The guard ${guard} rejects the upgrade transaction`)
+      }
+    }
+
+    return safeTransaction
+  }
+
+  /**
+   * Returns the address of the Safe singleton, which is stored in the first slot of the SafeProxy.
+   *
+   * @returns The address of the Safe singleton
+   */
+  async #getSingletonAddress(): Promise<string> {
+    const safeAddress = await this.getAddress()
+    const singletonSlot = await this.#safeProvider.getStorageAt(safeAddress, '0x0')
+
+    return getAddress(`0x${singletonSlot.slice(-40)}`)
+  }
+
+  /**
+   * Returns the name of the Safe singleton contract, either safeSingletonVersion or
+   * safeSingletonL2Version. The L1 and L2 singletons of the custom contracts are also recognized
+   * when the safeL2SingletonAddress is provided.
+   *
+   * @param singletonAddress - The address of the Safe singleton
+   * @returns The name of the singleton contract, or undefined if it is not known
+   */
+  async #getSingletonContractName(singletonAddress: string): Promise<string | undefined> {
+    const chainId = await this.getChainId()
+    const customContracts = this.#contractManager.contractNetworks?.[chainId.toString()]
+
+    if (customContracts?.safeL2SingletonAddress) {
+      if (sameString(singletonAddress, customContracts.safeL2SingletonAddress)) {
+        return 'safeSingletonL2Version'
+      }
+      if (sameString(singletonAddress, customContracts.safeSingletonAddress)) {
+        return 'safeSingletonVersion'
+      }
+    }
+
+    return getContractInfo(singletonAddress)?.contractName
+  }
+
+  /**
+   * Checks if the Safe uses the L2 singleton, which emits the SafeMultiSigTransaction and
+   * SafeModuleTransaction events used by indexers. It can be used to verify that a migration
+   * to the L2 singleton was executed.
+   *
+   * @returns TRUE if the singleton of the Safe is a known L2 singleton
+   * @throws "Safe is not deployed"
+   */
+  async isL2SafeSingleton(): Promise<boolean> {
+    if (!(await this.isSafeDeployed())) {
+      throw new Error('Safe is not deployed')
+    }
+
+    const singletonContractName = await this.#getSingletonContractName(
+      await this.#getSingletonAddress()
+    )
+
+    return singletonContractName === 'safeSingletonL2Version'
+  }
+
+  /**
+   * Checks if the Safe uses the L1 singleton on a chain where the L2 singleton is expected.
+   * These Safes do not emit the events used by indexers and should be migrated with the
+   * transaction returned by `createMigrationToL2Tx`.
+   *
+   * @returns TRUE if the Safe uses the L1 singleton on a chain that defaults to the L2 singleton
+   * @throws "Safe is not deployed"
+   */
+  async hasL1SafeSingletonOnL2Chain(): Promise<boolean> {
+    if (!(await this.isSafeDeployed())) {
+      throw new Error('Safe is not deployed')
+    }
+
+    const chainId = await this.getChainId()
+
+    if (safeDeploymentsL1ChainIds.includes(chainId)) {
+      return false
+    }
+
+    const singletonContractName = await this.#getSingletonContractName(
+      await this.#getSingletonAddress()
+    )
+
+    return singletonContractName === 'safeSingletonVersion'
+  }
+
+  /**
+   * Returns the Safe transaction to migrate a Safe using the L1 singleton to the L2 singleton of
+   * the same version, with a delegate call to the SafeToL2Migration contract.
+   * Only Safes with version v1.3.0 or v1.4.1 that have not executed any transaction can be migrated.
+   * With custom contracts, the Safe is migrated to the safeL2SingletonAddress of the chain.
+   * After executing the transaction, `isL2SafeSingleton` can be used to check that the Safe reports
+   * the L2 singleton.
+   *
+   * @param options - The transaction optional properties
+   * @returns The Safe transaction ready to be signed
+   * @throws "Safe is not deployed"
+   * @throws "Safes with version X can not be migrated to the L2 singleton"
+   * @throws "The Safe already uses the L2 singleton"
+   * @throws "The Safe does not use a known L1 singleton"
+   * @throws "Only Safes that have not executed any transaction can be migrated to the L2 singleton"
+   * @throws "The SafeToL2Migration contract is not deployed on the current network"
+   */
+  async createMigrationToL2Tx(options?: SafeTransactionOptionalProps): Promise<SafeTransaction> {
+    if (!(await this.isSafeDeployed())) {
+      throw new Error('Safe is not deployed')
+    }
+
+    const currentVersion = this.getContractVersion()
+
+    if (currentVersion !== '1.3.0' && currentVersion !== '1.4.1') {
+      throw new Error(
+        `Safes with version ${currentVersion} can not be migrated to the L2 singleton`
+      )
+    }
+
+    const singletonAddress = await this.#getSingletonAddress()
+    const singletonContractName = await this.#getSingletonContractName(singletonAddress)
+
+    if (singletonContractName === 'safeSingletonL2Version') {
+      throw new Error('The Safe already uses the L2 singleton')
+    }
+
+    if (singletonContractName !== 'safeSingletonVersion') {
+      throw new Error('The Safe does not use a known L1 singleton')
+    }
+
+    // The SafeToL2Migration contract checks that the migration is the first Safe transaction
+    if ((await this.getNonce()) !== 0) {
+      throw new Error(
+        'Only Safes that have not executed any transaction can be migrated to the L2 singleton'
+      )
+    }
+
+    const chainId = await this.getChainId()
+    const customContracts = this.#contractManager.contractNetworks?.[chainId.toString()]
+    const deploymentType = getContractInfo(singletonAddress)?.type
+
+    const safeToL2MigrationAddress = getSafeToL2MigrationAddress(
+      currentVersion,
+      chainId,
+      customContracts,
+      deploymentType
+    )
+
+    if (
+      !safeToL2MigrationAddress ||
+      !(await this.#safeProvider.isContractDeployed(safeToL2MigrationAddress))
+    ) {
+      throw new Error('The SafeToL2Migration contract is not deployed on the current network')
+    }
+
+    // The safeSingletonAddress of the custom contracts is the L1 singleton the Safe is migrated from
+    const l2SingletonAddress =
+      customContracts?.safeL2SingletonAddress ??
+      (
+        await getSafeContract({
+          safeProvider: this.#safeProvider,
+          safeVersion: currentVersion,
+          isL1SafeSingleton: false,
+          deploymentType
+        })
+      ).getAddress()
+
+    const safeTransaction = await this.createTransaction({
+      transactions: [
+        {
+          to: safeToL2MigrationAddress,
+          value: '0',
+          data: encodeSafeToL2MigrationData(l2SingletonAddress),
+          operation: OperationType.DelegateCall
+        }
+      ],
+      options
+    })
+    return safeTransaction
+  }
+
+  /**
+   * Converts a transaction from type SafeMultisigTransactionResponse to type SafeTransaction
+   *
+   * @param serviceTransactionResponse - The transaction to convert
+   * @returns The converted transaction with type SafeTransaction
+   */
   async toSafeTransactionType(
     serviceTransactionResponse: SafeMultisigTransactionResponse
   ): Promise<SafeTransaction> {
@@ -1321,6 +2264,48 @@ class Safe {
     return isTxValid
   }
 
+  /**
+   * Simulates a Safe transaction without signing or broadcasting it.
+   * If the node supports debug_traceCall, the result also includes the emitted logs and the
+   * balance and storage changes of every address touched by the transaction.
+   *
+   * @param safeTransaction - The Safe transaction to simulate
+   * @returns The simulation result
+   * @throws "Current version of the Safe does not support the simulateAndRevert functionality"
+   */
+  async simulateTransaction(
+    safeTransaction: SafeTransaction | SafeMultisigTransactionResponse
+  ): Promise<SafeTransactionSimulationResult> {
+    const transaction = isSafeMultisigTransactionResponse(safeTransaction)
+      ? await this.toSafeTransactionType(safeTransaction)
+      : safeTransaction
+
+    return simulateSafeTransaction(this, transaction)
+  }
+
+  /**
+   * Analyzes a Safe transaction and returns the risks found before signing it.
+   * The rules of the risk policy are used if the Safe was initialized with one and no rules are provided.
+   *
+   * @param safeTransaction - The Safe transaction to analyze
+   * @param options - The rules, ABI registry and executor used for the analysis. Optional
+   * @returns The findings of the analysis
+   */
+  async analyzeTransaction(
+    safeTransaction: SafeTransaction | SafeMultisigTransactionResponse,
+    options: AnalyzeTransactionOptions = {}
+  ): Promise<RiskFinding[]> {
+    const transaction = isSafeMultisigTransactionResponse(safeTransaction)
+      ? await this.toSafeTransactionType(safeTransaction)
+      : safeTransaction
+
+    return analyzeSafeTransaction(this, transaction, {
+      rules: this.#riskPolicy?.rules,
+      abiRegistry: this.#riskPolicy?.abiRegistry,
+      ...options
+    })
+  }
+
   /**
    * Executes a Safe transaction.
    *
@@ -1329,6 +2314,8 @@ class Safe {
    * @returns The Safe transaction response
    * @throws "No signer provided"
    * @throws "There are X signatures missing"
+   * @throws "The transaction was refused by the risk policy"
+   * @throws "The transaction risks were not acknowledged"
    * @throws "Cannot specify gas and gasLimit together in transaction options"
    */
   async executeTransaction(
@@ -1418,6 +2405,10 @@ class Safe {
       signerAddress &&
       owners.includes(signerAddress)
     ) {
+      // Executing the transaction approves it on behalf of the signer
+      if (this.#riskPolicy) {
+        await enforceRiskPolicy(this, transaction, this.#riskPolicy)
+      }
       signedSafeTransaction.addSignature(generatePreValidatedSignature(signerAddress))
     }
 
@@ -1465,18 +2456,11 @@ class Safe {
       customContracts
     })
 
-    const encodedTransaction = safeSingletonContract.encode('execTransaction', [
-      safeTransaction.data.to,
-      safeTransaction.data.value,
-      safeTransaction.data.data,
-      safeTransaction.data.operation,
-      safeTransaction.data.safeTxGas,
-      safeTransaction.data.baseGas,
-      safeTransaction.data.gasPrice,
-      safeTransaction.data.gasToken,
-      safeTransaction.data.refundReceiver,
+    const encodedTransaction = encodeExecTransactionData(
+      safeSingletonContract,
+      safeTransaction.data,
       safeTransaction.encodedSignatures()
-    ])
+    )
 
     return encodedTransaction
   }
@@ -1622,6 +2606,99 @@ class Safe {
     return safeDeployTransactionData
   }
 
+  /**
+   * Returns the configuration used to deploy the Safe, which can be used to deploy it at the same address in other chains.
+   * The configuration is recovered from the creation info of the Safe, e.g. the one returned by the Safe Transaction Service, or from the transaction that deployed it.
+   *
+   * @param props - The creation info or the hash of the creation transaction of the Safe
+   * @returns The predicted Safe configuration and the type of Safe singleton used by the Safe
+   * @throws "The creation info or the creation transaction hash of the Safe is required"
+   * @throws "The creation data of the Safe does not match the address X"
+   */
+  async getReplicableSafeConfig({
+    creationInfo,
+    creationTransactionHash
+  }: GetReplicableSafeConfigProps): Promise<ReplicableSafeConfig> {
+    const safeProvider = this.#safeProvider
+    let creationData = creationInfo
+
+    if (!creationData && creationTransactionHash) {
+      creationData = await getSafeCreationDataFromTransaction(safeProvider, creationTransactionHash)
+    }
+
+    if (!creationData) {
+      throw new Error('The creation info or the creation transaction hash of the Safe is required')
+    }
+
+    const replicableSafeConfig = getReplicableSafeConfigFromCreation(creationData)
+    const safeAddress = await this.getAddress()
+    const chainId = await safeProvider.getChainId()
+
+    const predictedSafeAddress = await predictSafeAddress({
+      safeProvider,
+      chainId,
+      safeAccountConfig: replicableSafeConfig.predictedSafe.safeAccountConfig,
+      safeDeploymentConfig: replicableSafeConfig.predictedSafe.safeDeploymentConfig,
+      isL1SafeSingleton: replicableSafeConfig.isL1SafeSingleton,
+      customContracts: this.#contractManager.contractNetworks?.[chainId.toString()]
+    })
+
+    if (!sameString(predictedSafeAddress, safeAddress)) {
+      throw new Error(`The creation data of the Safe does not match the address ${safeAddress}`)
+    }
+
+    return replicableSafeConfig
+  }
+
+  /**
+   * Creates the transactions to deploy the Safe at the same address in other chains.
+   * No transaction is created for the chains where the Safe is already deployed.
+   *
+   * @param props - The target chains and the creation info or the hash of the creation transaction of the Safe
+   * @returns The deployment transaction of each target chain
+   * @throws "The creation info or the creation transaction hash of the Safe is required"
+   * @throws "The creation data of the Safe does not match the address X"
+   * @throws "The Safe X can not be replicated on chain Y. The predicted address is Z"
+   */
+  async createReplicationTransactions({
+    targets,
+    ...getReplicableSafeConfigProps
+  }: CreateReplicationTransactionsProps): Promise<SafeReplicationTransaction[]> {
+    const { predictedSafe, isL1SafeSingleton } = await this.getReplicableSafeConfig(
+      getReplicableSafeConfigProps
+    )
+    const safeAddress = await this.getAddress()
+    const replicationTransactions: SafeReplicationTransaction[] = []
+
+    for (const { provider, contractNetworks } of targets) {
+      const targetSafe = await Safe.init({
+        provider,
+        predictedSafe,
+        isL1SafeSingleton,
+        contractNetworks
+      })
+      const chainId = await targetSafe.getChainId()
+      const targetSafeAddress = await targetSafe.getAddress()
+
+      if (!sameString(targetSafeAddress, safeAddress)) {
+        throw new Error(
+          `The Safe ${safeAddress} can not be replicated on chain ${chainId}. The predicted address is ${targetSafeAddress}`
+        )
+      }
+
+      const isDeployed = await targetSafe.isSafeDeployed()
+
+      replicationTransactions.push({
+        chainId,
+        safeAddress: targetSafeAddress,
+        isDeployed,
+        transaction: isDeployed ? undefined : await targetSafe.createSafeDeploymentTransaction()
+      })
+    }
+
+    return replicationTransactions
+  }
+
   /**
    * This function creates a batch of the provided Safe transactions using the MultiSend contract.
    * It groups the transactions together into a single transaction which can then be executed atomically.
@@ -1661,6 +2738,21 @@ class Safe {
     return transactionBatch
   }
 
+  /**
+   * Get the SafeWebAuthnSharedSigner contract
+   *
+   * @returns The SafeWebAuthnSharedSigner contract
+   */
+  async #getSafeWebAuthnSharedSignerContract(): Promise<SafeWebAuthnSharedSignerContractImplementationType> {
+    const chainId = await this.#safeProvider.getChainId()
+
+    return getSafeWebAuthnSharedSignerContract({
+      safeProvider: this.#safeProvider,
+      safeVersion: this.getContractVersion(),
+      customContracts: this.#contractManager.contractNetworks?.[chainId.toString()]
+    })
+  }
+
   /**
    * Get the fallback handler contract
    *
@@ -1706,6 +2798,9 @@ class Safe {
    *  1) An array of SafeSignature. In this case the signatures are concatenated for validation (buildSignatureBytes())
    *  2) The concatenated signatures as string
    *  3) '0x' if you want to validate an onchain message (Approved hash)
+   *  4) An EIP-6492 signature returned by getErc6492Signature(). In this case the signature is validated
+   *     with the universal signature validator, even if the Safe is not deployed, and the errors of the
+   *     provider are thrown instead of returning false
    * @returns A boolean indicating if the signature is valid
    * @link https://github.com/safe-global/safe-contracts/blob/main/contracts/handler/CompatibilityFallbackHandler.sol
    */
@@ -1714,11 +2809,21 @@ class Safe {
     signature: SafeSignature[] | string = '0x'
   ): Promise<boolean> => {
     const safeAddress = await this.getAddress()
-    const fallbackHandler = await this.#getFallbackHandlerContract()
 
     const signatureToCheck =
       signature && Array.isArray(signature) ? buildSignatureBytes(signature) : signature
 
+    if (isErc6492WrappedSignature(signatureToCheck)) {
+      return isValidUniversalSignature(
+        this.#safeProvider,
+        safeAddress,
+        messageHash,
+        signatureToCheck
+      )
+    }
+
+    const fallbackHandler = await this.#getFallbackHandlerContract()
+
     // both bytes and bytes32 ends up being resolved to a bytes-like structure which is represented by a `0x` prefixed address.
     // because there is an overload going on, named-tuples (https://www.typescriptlang.org/play/?ts=4.0.2#example/named-tuples) are used to solve the ambiguity.
     const bytes32Tuple: [_dataHash: Hash, _signature: Hex] = [
@@ -1757,6 +2862,28 @@ class Safe {
     }
   }
 
+  /**
+   * Returns the signature of a Safe message wrapped in the EIP-6492 envelope if the Safe is not deployed,
+   * so it can be validated by dapps before the deployment. The envelope contains the SafeProxyFactory
+   * address and the call to createProxyWithNonce that deploys the Safe.
+   * The signature is returned unchanged if the Safe is already deployed.
+   *
+   * @param signature The signatures of the Safe message, as an array of SafeSignature or concatenated
+   * @returns The EIP-6492 signature
+   * @link https://eips.ethereum.org/EIPS/eip-6492
+   */
+  async getErc6492Signature(signature: SafeSignature[] | string): Promise<string> {
+    const signatureBytes = Array.isArray(signature) ? buildSignatureBytes(signature) : signature
+
+    if (await this.isSafeDeployed()) {
+      return signatureBytes
+    }
+
+    const { factoryAddress, factoryData } = splitSafeInitCode(await this.getInitCode())
+
+    return buildErc6492Signature({ factoryAddress, factoryData, signature: signatureBytes })
+  }
+
   getContractInfo = ({
     contractAddress
   }: {
@@ -6,7 +6,10 @@ import {
   validateEip3770Address,
   toEstimateGasParameters,
   toTransactionRequest,
-  sameString
+  sameString,
+  aggregateCalls,
+  MulticallBatcher,
+  MULTICALL3_ADDRESS
 } from '@safe-global/protocol-kit/utils'
 import { isTypedDataSigner } from '@safe-global/protocol-kit/contracts/utils'
 import {
@@ -25,12 +28,12 @@ import {
   SafeProviderInitOptions,
   ExternalClient,
   ExternalSigner,
-  Eip1193Provider,
-  HttpTransport,
-  SocketTransport,
   SafeSigner,
   PasskeyArgType,
-  PasskeyClient
+  PasskeyClient,
+  TraceCallConfig,
+  MulticallCall,
+  MulticallResult
 } from '@safe-global/protocol-kit/types'
 import { DEFAULT_SAFE_VERSION } from './contracts/config'
 import { asHash, asHex, getChainById } from './utils/types'
@@ -39,7 +42,6 @@ import {
   createPublicClient,
   createWalletClient,
   custom,
-  http,
   getAddress,
   isAddress,
   Transaction,
@@ -57,42 +59,103 @@ import {
   createClient,
   PublicRpcSchema,
   WalletRpcSchema,
-  rpcSchema
+  rpcSchema,
+  EIP1193RequestFn,
+  numberToHex,
+  encodeFunctionData,
+  decodeFunctionResult,
+  EncodeFunctionDataParameters,
+  DecodeFunctionResultParameters,
+  ReadContractReturnType,
+  parseAbi,
+  size,
+  slice,
+  Log
 } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
 import {
   call,
   estimateGas,
   getBalance,
+  getBlockNumber,
   getCode,
+  getLogs,
   getTransaction,
   getTransactionCount,
   getStorageAt,
   readContract
 } from 'viem/actions'
-import { isEip1193Provider, isPrivateKey, isSignerPasskeyClient } from './utils/provider'
+import {
+  createEndpointTransport,
+  createProviderTransport,
+  isPrivateKey,
+  isSignerPasskeyClient
+} from './utils/provider'
+
+const STORAGE_ACCESSIBLE_ABI = parseAbi([
+  'function getStorageAt(uint256 offset, uint256 length) view returns (bytes)'
+])
+
+// Maximum number of calls sent at the same time when Multicall3 is not available
+const MULTICALL_FALLBACK_CONCURRENCY = 10
 
 class SafeProvider {
   #chain?: Chain
   #externalProvider: ExternalClient
+  #multicallAddress: string
+  #isMulticallDeployed = true
+  #multicallBatcher?: MulticallBatcher
+  #quorum?: number
+  #quorumClients: ExternalClient[] = []
   signer?: SafeSigner
-  provider: Eip1193Provider | HttpTransport | SocketTransport
+  provider: SafeProviderConfig['provider']
+  multicall?: SafeProviderConfig['multicall']
+  failover?: SafeProviderConfig['failover']
 
   constructor({
     provider,
-    signer
+    signer,
+    multicall,
+    failover
   }: {
     provider: SafeProviderConfig['provider']
     signer?: SafeSigner
+    multicall?: SafeProviderConfig['multicall']
+    failover?: SafeProviderConfig['failover']
   }) {
+    const endpoints = Array.isArray(provider) ? provider : [provider]
+
+    if (endpoints.length === 0) {
+      throw new Error('At least one provider endpoint is required')
+    }
+
     this.#externalProvider = createPublicClient({
-      transport: isEip1193Provider(provider)
-        ? custom(provider as Eip1193Provider)
-        : http(provider as string)
+      transport: createProviderTransport(provider, failover)
     })
 
+    if (failover?.quorum !== undefined) {
+      if (failover.quorum < 1 || failover.quorum > endpoints.length) {
+        throw new Error('The quorum must be between 1 and the number of provider endpoints')
+      }
+
+      this.#quorum = failover.quorum
+      this.#quorumClients = endpoints.map((endpoint) =>
+        createPublicClient({ transport: createEndpointTransport(endpoint, failover.timeout) })
+      )
+    }
+
+    const { multicallAddress = MULTICALL3_ADDRESS, ...batchOptions } =
+      typeof multicall === 'object' ? multicall : {}
+
+    this.#multicallAddress = multicallAddress
+    if (multicall) {
+      this.#multicallBatcher = new MulticallBatcher((calls) => this.aggregate(calls), batchOptions)
+    }
+
     this.provider = provider
     this.signer = signer
+    this.multicall = multicall
+    this.failover = failover
     this.#chain = undefined
   }
 
@@ -106,7 +169,9 @@ class SafeProvider {
     safeVersion = DEFAULT_SAFE_VERSION,
     contractNetworks,
     safeAddress,
-    owners
+    owners,
+    multicall,
+    failover
   }: SafeProviderInitOptions): Promise<SafeProvider> {
     const isPasskeySigner = signer && typeof signer !== 'string'
 
@@ -118,7 +183,8 @@ class SafeProvider {
       }
 
       const safeProvider = new SafeProvider({
-        provider
+        provider,
+        failover
       })
       const chainId = await safeProvider.getChainId()
       const customContracts = contractNetworks?.[chainId.toString()]
@@ -155,12 +221,16 @@ class SafeProvider {
 
       return new SafeProvider({
         provider,
-        signer: passkeySigner
+        signer: passkeySigner,
+        multicall,
+        failover
       })
     } else {
       return new SafeProvider({
         provider,
-        signer
+        signer,
+        multicall,
+        failover
       })
     }
   }
@@ -271,6 +341,32 @@ class SafeProvider {
   }
 
   async getStorageAt(address: string, position: string): Promise<string> {
+    if (this.#multicallBatcher) {
+      // Storage reads can only be batched through the getStorageAt method of the Safe (StorageAccessible)
+      const { success, returnData } = await this.#multicallBatcher.schedule({
+        to: address,
+        data: encodeFunctionData({
+          abi: STORAGE_ACCESSIBLE_ABI,
+          functionName: 'getStorageAt',
+          args: [BigInt(position), 1n]
+        })
+      })
+
+      if (success && returnData !== '0x') {
+        try {
+          const content = decodeFunctionResult({
+            abi: STORAGE_ACCESSIBLE_ABI,
+            functionName: 'getStorageAt',
+            data: asHex(returnData)
+          })
+
+          if (size(content) === 32) {
+            return getAddress(slice(content, 12))
+          }
+        } catch {}
+      }
+    }
+
     const content = await getStorageAt(this.#externalProvider, {
       address,
       slot: asHex(position)
@@ -285,6 +381,18 @@ class SafeProvider {
     })
   }
 
+  async getBlockNumber(): Promise<bigint> {
+    return getBlockNumber(this.#externalProvider, { cacheTime: 0 })
+  }
+
+  async getLogs(address: string, fromBlock: bigint, toBlock: bigint): Promise<Log[]> {
+    return getLogs(this.#externalProvider, {
+      address: asHex(address),
+      fromBlock,
+      toBlock
+    })
+  }
+
   async getSignerAddress(): Promise<string | undefined> {
     const externalSigner = await this.getExternalSigner()
     return externalSigner ? getAddress(externalSigner.account.address) : undefined
@@ -354,14 +462,126 @@ class SafeProvider {
     return data ?? '0x'
   }
 
+  /**
+   * Runs a transaction with the debug_traceCall RPC method without broadcasting it.
+   * Not every node exposes the debug namespace, so callers should be ready to handle errors.
+   *
+   * @param transaction - The transaction to trace
+   * @param config - The tracer and its configuration
+   * @param blockTag - The block to run the transaction on. Defaults to latest
+   * @returns The raw trace returned by the node
+   */
+  async traceCall(
+    transaction: SafeProviderTransaction,
+    config: TraceCallConfig,
+    blockTag?: string | number
+  ): Promise<unknown> {
+    const request = this.#externalProvider.request as EIP1193RequestFn
+    const block = typeof blockTag === 'number' ? numberToHex(blockTag) : (blockTag ?? 'latest')
+
+    return request({
+      method: 'debug_traceCall',
+      params: [
+        {
+          from: transaction.from,
+          to: transaction.to,
+          data: transaction.data,
+          value: numberToHex(BigInt(transaction.value ?? 0))
+        },
+        block,
+        config
+      ]
+    })
+  }
+
   async readContract<
     const abi extends Abi | readonly unknown[],
     functionName extends ContractFunctionName<abi, 'pure' | 'view'>,
     const args extends ContractFunctionArgs<abi, 'pure' | 'view', functionName>
-  >(args: ReadContractParameters<abi, functionName, args>) {
+  >(
+    args: ReadContractParameters<abi, functionName, args>
+  ): Promise<ReadContractReturnType<abi, functionName, args>> {
+    const { address, account, blockNumber, blockTag, stateOverride } = args
+    const isBatchable = !account && blockNumber === undefined && !blockTag && !stateOverride
+
+    if (this.#multicallBatcher && address && isBatchable) {
+      const { success, returnData } = await this.#multicallBatcher.schedule({
+        to: address,
+        data: encodeFunctionData(args as EncodeFunctionDataParameters)
+      })
+
+      // Failed reads are repeated individually so they throw the same errors as without batching
+      if (success && returnData !== '0x') {
+        return decodeFunctionResult({
+          ...args,
+          data: returnData
+        } as DecodeFunctionResultParameters) as ReadContractReturnType<abi, functionName, args>
+      }
+    }
+
     return readContract(this.#externalProvider, args)
   }
 
+  /**
+   * Reads a contract requiring the same result from the number of endpoints set in the quorum
+   * option. Used for the reads the signatures depend on, so a single compromised or faulty
+   * endpoint cannot change the signed data. Without a quorum, the contract is read normally.
+   *
+   * @param args - The readContract parameters
+   * @returns The result of the read
+   * @throws "The quorum of X matching results was not reached"
+   * @throws "The provider endpoints returned X different results matching the quorum of Y"
+   */
+  async readContractWithQuorum<
+    const abi extends Abi | readonly unknown[],
+    functionName extends ContractFunctionName<abi, 'pure' | 'view'>,
+    const args extends ContractFunctionArgs<abi, 'pure' | 'view', functionName>
+  >(
+    args: ReadContractParameters<abi, functionName, args>
+  ): Promise<ReadContractReturnType<abi, functionName, args>> {
+    if (!this.#quorum) {
+      return this.readContract(args)
+    }
+
+    return this.#readWithQuorum((client) => readContract(client, args))
+  }
+
+  /**
+   * Executes the calls in a single call to Multicall3. If Multicall3 is not deployed or the call
+   * fails, the calls are executed individually, a few at a time.
+   *
+   * @param calls - The calls
+   * @returns The result of each call
+   */
+  async aggregate(calls: MulticallCall[]): Promise<MulticallResult[]> {
+    if (this.#isMulticallDeployed) {
+      try {
+        const results = await aggregateCalls(this.#externalProvider, this.#multicallAddress, calls)
+
+        if (results) {
+          return results
+        }
+
+        this.#isMulticallDeployed = false
+      } catch {}
+    }
+
+    const results: MulticallResult[] = []
+
+    for (let start = 0; start < calls.length; start += MULTICALL_FALLBACK_CONCURRENCY) {
+      const chunkResults = await Promise.all(
+        calls.slice(start, start + MULTICALL_FALLBACK_CONCURRENCY).map(({ to, data }) =>
+          call(this.#externalProvider, { to: asHex(to), data: asHex(data) })
+            .then((result) => ({ success: true, returnData: result.data ?? '0x' }))
+            .catch(() => ({ success: false, returnData: '0x' }))
+        )
+      )
+      results.push(...chunkResults)
+    }
+
+    return results
+  }
+
   // TODO: fix anys
   encodeParameters(types: string, values: any[]): string {
     return encodeAbiParameters(parseAbiParameters(types), values)
@@ -371,9 +591,49 @@ class SafeProvider {
     return decodeAbiParameters(parseAbiParameters(types), asHex(values))
   }
 
+  async #readWithQuorum<T>(read: (client: ExternalClient) => Promise<T>): Promise<T> {
+    const results = await Promise.allSettled(this.#quorumClients.map(read))
+    const matchingResults = new Map<string, { result: T; count: number }>()
+
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') {
+        const key = JSON.stringify(result.value, (_, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        )
+        const { count = 0 } = matchingResults.get(key) ?? {}
+        matchingResults.set(key, { result: result.value, count: count + 1 })
+      }
+    })
+
+    const quorum = this.#quorum as number
+    const [mostMatched] = Array.from(matchingResults.values()).sort((a, b) => b.count - a.count)
+
+    if (!mostMatched || mostMatched.count < quorum) {
+      throw new Error(
+        `The quorum of ${quorum} matching results was not reached: ${mostMatched?.count ?? 0} of ${results.length} provider endpoints returned the same result`
+      )
+    }
+
+    // With a quorum of half the endpoints or less, the faulty endpoints can reach the quorum too
+    const quorumResults = Array.from(matchingResults.values()).filter(
+      ({ count }) => count >= quorum
+    )
+
+    if (quorumResults.length > 1) {
+      throw new Error(
+        `The provider endpoints returned ${quorumResults.length} different results matching the quorum of ${quorum}`
+      )
+    }
+
+    return mostMatched.result
+  }
+
   async #getChain(): Promise<Chain> {
     if (this.#chain) return this.#chain
-    const chain = getChainById(BigInt(await this.#externalProvider.getChainId()))
+    const chainId = this.#quorum
+      ? await this.#readWithQuorum((client) => client.getChainId())
+      : await this.#externalProvider.getChainId()
+    const chain = getChainById(BigInt(chainId))
     if (!chain) throw new Error('Invalid chainId')
     this.#chain = chain
     return this.#chain
@@ -231,7 +231,7 @@ class BaseContract<ContractAbiType extends Abi> {
     functionName extends ContractFunctionName<ContractAbiType, 'pure' | 'view'>,
     functionArgs extends ContractFunctionArgs<ContractAbiType, 'pure' | 'view', functionName>
   >(functionName: functionName, args?: functionArgs) {
-    return await this.runner.readContract({
+    return await this.safeProvider.readContract({
       functionName,
       abi: this.contractAbi,
       address: this.contractAddress,
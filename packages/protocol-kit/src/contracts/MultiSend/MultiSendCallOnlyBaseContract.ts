@@ -16,6 +16,7 @@ import { contractName } from '@safe-global/protocol-kit/contracts/config'
  * @extends BaseContract<MultiSendCallOnlyContractAbiType> - Extends the generic BaseContract.
  *
  * Example subclasses:
+ * - MultiSendCallOnlyContract_v1_5_0  extends MultiSendCallOnlyBaseContract<MultiSendCallOnlyContract_v1_5_0_Abi>
  * - MultiSendCallOnlyContract_v1_4_1  extends MultiSendCallOnlyBaseContract<MultiSendCallOnlyContract_v1_4_1_Abi>
  * - MultiSendCallOnlyContract_v1_3_0  extends MultiSendCallOnlyBaseContract<MultiSendCallOnlyContract_v1_3_0_Abi>
  */
@@ -1,4 +1,5 @@
 import { Abi } from 'abitype'
+import { ContractFunctionArgs, ContractFunctionName } from 'viem'
 
 import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
 import { SafeVersion } from '@safe-global/types-kit'
@@ -7,6 +8,15 @@ import { contractName, safeDeploymentsL1ChainIds } from '@safe-global/protocol-k
 import { DeploymentType } from '@safe-global/protocol-kit/types'
 import { SAFE_FEATURES, hasSafeFeature } from '@safe-global/protocol-kit/utils'
 
+// Reads the signatures depend on, checked against the quorum of the SafeProvider if it is set
+const QUORUM_FUNCTION_NAMES = [
+  'VERSION',
+  'getOwners',
+  'getThreshold',
+  'nonce',
+  'getTransactionHash'
+]
+
 /**
  * Abstract class SafeBaseContract extends BaseContract to specifically integrate with the Safe contract.
  * It is designed to be instantiated for different versions of the Safe contract.
@@ -17,6 +27,7 @@ import { SAFE_FEATURES, hasSafeFeature } from '@safe-global/protocol-kit/utils'
  * @extends BaseContract<SafeContractAbiType> - Extends the generic BaseContract.
  *
  * Example subclasses:
+ * - SafeContract_v1_5_0  extends SafeBaseContract<SafeContract_v1_5_0_Abi>
  * - SafeContract_v1_4_1  extends SafeBaseContract<SafeContract_v1_4_1_Abi>
  * - SafeContract_v1_3_0  extends SafeBaseContract<SafeContract_v1_3_0_Abi>
  * - SafeContract_v1_2_0  extends SafeBaseContract<SafeContract_v1_2_0_Abi>
@@ -69,6 +80,22 @@ abstract class SafeBaseContract<
 
     this.contractName = contractName
   }
+
+  async read<
+    functionName extends ContractFunctionName<SafeContractAbiType, 'pure' | 'view'>,
+    functionArgs extends ContractFunctionArgs<SafeContractAbiType, 'pure' | 'view', functionName>
+  >(functionName: functionName, args?: functionArgs) {
+    if (!QUORUM_FUNCTION_NAMES.includes(functionName)) {
+      return super.read(functionName, args)
+    }
+
+    return await this.safeProvider.readContractWithQuorum({
+      functionName,
+      abi: this.contractAbi,
+      address: this.contractAddress,
+      args
+    })
+  }
 }
 
 export default SafeBaseContract
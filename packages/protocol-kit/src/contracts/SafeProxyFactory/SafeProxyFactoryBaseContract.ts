@@ -15,6 +15,7 @@ import { contractName } from '@safe-global/protocol-kit/contracts/config'
  * @extends BaseContract<SafeProxyFactoryContractAbiType> - Extends the generic BaseContract.
  *
  * Example subclasses:
+ * - SafeProxyFactoryContract_v1_5_0  extends SafeProxyFactoryBaseContract<SafeProxyFactoryContract_v1_5_0_Abi>
  * - SafeProxyFactoryContract_v1_4_1  extends SafeProxyFactoryBaseContract<SafeProxyFactoryContract_v1_4_1_Abi>
  * - SafeProxyFactoryContract_v1_3_0  extends SafeProxyFactoryBaseContract<SafeProxyFactoryContract_v1_3_0_Abi>
  * - SafeProxyFactoryContract_v1_2_0  extends SafeProxyFactoryBaseContract<SafeProxyFactoryContract_v1_2_0_Abi>
@@ -16,6 +16,7 @@ import { contractName } from '@safe-global/protocol-kit/contracts/config'
  * @extends BaseContract<SignMessageLibContractAbiType> - Extends the generic BaseContract.
  *
  * Example subclasses:
+ * - SignMessageLibContract_v1_5_0  extends  SignMessageLibBaseContract<SignMessageLibContract_v1_5_0_Abi>
  * - SignMessageLibContract_v1_4_1  extends  SignMessageLibBaseContract<SignMessageLibContract_v1_4_1_Abi>
  * - SignMessageLibContract_v1_3_0  extends  SignMessageLibBaseContract<SignMessageLibContract_v1_3_0_Abi>
  */
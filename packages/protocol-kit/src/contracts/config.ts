@@ -8,6 +8,8 @@ import {
   getMultiSendDeployments,
   getProxyFactoryDeployments,
   getSafeL2SingletonDeployments,
+  getSafeMigrationDeployments,
+  getSafeToL2MigrationDeployments,
   getSafeSingletonDeployments,
   getSignMessageLibDeployments,
   getSimulateTxAccessorDeployments
@@ -35,6 +37,8 @@ type contractNames = {
   simulateTxAccessorVersion?: string
   safeWebAuthnSignerFactoryVersion?: string
   safeWebAuthnSharedSignerVersion?: string
+  safeMigrationVersion?: string
+  safeToL2MigrationVersion?: string
 }
 
 type SafeDeploymentsVersions = Record<SafeVersion, contractNames>
@@ -48,6 +52,21 @@ export type ContractInfo = {
 }
 
 export const safeDeploymentsVersions: SafeDeploymentsVersions = {
+  '1.5.0': {
+    safeSingletonVersion: '1.5.0',
+    safeSingletonL2Version: '1.5.0',
+    safeProxyFactoryVersion: '1.5.0',
+    compatibilityFallbackHandler: '1.5.0',
+    multiSendVersion: '1.5.0',
+    multiSendCallOnlyVersion: '1.5.0',
+    signMessageLibVersion: '1.5.0',
+    createCallVersion: '1.5.0',
+    simulateTxAccessorVersion: '1.5.0',
+    safeWebAuthnSignerFactoryVersion: '0.2.1',
+    safeWebAuthnSharedSignerVersion: '0.2.1',
+    safeMigrationVersion: '1.5.0',
+    safeToL2MigrationVersion: undefined
+  },
   '1.4.1': {
     safeSingletonVersion: '1.4.1',
     safeSingletonL2Version: '1.4.1',
@@ -59,7 +78,9 @@ export const safeDeploymentsVersions: SafeDeploymentsVersions = {
     createCallVersion: '1.4.1',
     simulateTxAccessorVersion: '1.4.1',
     safeWebAuthnSignerFactoryVersion: '0.2.1',
-    safeWebAuthnSharedSignerVersion: '0.2.1'
+    safeWebAuthnSharedSignerVersion: '0.2.1',
+    safeMigrationVersion: '1.4.1',
+    safeToL2MigrationVersion: '1.4.1'
   },
   '1.3.0': {
     safeSingletonVersion: '1.3.0',
@@ -72,7 +93,9 @@ export const safeDeploymentsVersions: SafeDeploymentsVersions = {
     createCallVersion: '1.3.0',
     simulateTxAccessorVersion: '1.3.0',
     safeWebAuthnSignerFactoryVersion: '0.2.1',
-    safeWebAuthnSharedSignerVersion: '0.2.1'
+    safeWebAuthnSharedSignerVersion: '0.2.1',
+    safeMigrationVersion: undefined,
+    safeToL2MigrationVersion: '1.4.1'
   },
   '1.2.0': {
     safeSingletonVersion: '1.2.0',
@@ -84,7 +107,9 @@ export const safeDeploymentsVersions: SafeDeploymentsVersions = {
     signMessageLibVersion: '1.3.0',
     createCallVersion: '1.3.0',
     safeWebAuthnSignerFactoryVersion: undefined,
-    safeWebAuthnSharedSignerVersion: undefined
+    safeWebAuthnSharedSignerVersion: undefined,
+    safeMigrationVersion: undefined,
+    safeToL2MigrationVersion: undefined
   },
   '1.1.1': {
     safeSingletonVersion: '1.1.1',
@@ -96,7 +121,9 @@ export const safeDeploymentsVersions: SafeDeploymentsVersions = {
     signMessageLibVersion: '1.3.0',
     createCallVersion: '1.3.0',
     safeWebAuthnSignerFactoryVersion: undefined,
-    safeWebAuthnSharedSignerVersion: undefined
+    safeWebAuthnSharedSignerVersion: undefined,
+    safeMigrationVersion: undefined,
+    safeToL2MigrationVersion: undefined
   },
   '1.0.0': {
     safeSingletonVersion: '1.0.0',
@@ -108,7 +135,9 @@ export const safeDeploymentsVersions: SafeDeploymentsVersions = {
     signMessageLibVersion: '1.3.0',
     createCallVersion: '1.3.0',
     safeWebAuthnSignerFactoryVersion: undefined,
-    safeWebAuthnSharedSignerVersion: undefined
+    safeWebAuthnSharedSignerVersion: undefined,
+    safeMigrationVersion: undefined,
+    safeToL2MigrationVersion: undefined
   }
 }
 
@@ -130,7 +159,9 @@ const contractFunctions: Record<
   createCallVersion: getCreateCallDeployments,
   simulateTxAccessorVersion: getSimulateTxAccessorDeployments,
   safeWebAuthnSignerFactoryVersion: getSafeWebAuthnSignerFactoryDeployment,
-  safeWebAuthnSharedSignerVersion: getSafeWebAuthnShareSignerDeployment
+  safeWebAuthnSharedSignerVersion: getSafeWebAuthnShareSignerDeployment,
+  safeMigrationVersion: getSafeMigrationDeployments,
+  safeToL2MigrationVersion: getSafeToL2MigrationDeployments
 }
 
 export function getContractDeployment(
@@ -151,6 +182,35 @@ export function getContractDeployment(
   return deployment
 }
 
+/**
+ * Returns the deployment type of a contract from its address.
+ *
+ * @param {SafeVersion} safeVersion - The version of the Safe
+ * @param {bigint} chainId - The chainId of the network
+ * @param {contractName} contractName - The name of the contract
+ * @param {string} contractAddress - The address of the contract
+ * @returns {DeploymentType | undefined} The deployment type, or undefined if the address is not part of the Safe deployments
+ */
+export function getContractDeploymentType(
+  safeVersion: SafeVersion,
+  chainId: bigint,
+  contractName: contractName,
+  contractAddress: string
+): DeploymentType | undefined {
+  const deployment = getContractDeployment(safeVersion, chainId, contractName)
+
+  if (!deployment || !('deployments' in deployment)) {
+    return undefined
+  }
+
+  const [deploymentType] =
+    Object.entries(deployment.deployments).find(
+      ([, { address }]) => address.toLowerCase() === contractAddress.toLowerCase()
+    ) ?? []
+
+  return deploymentType as DeploymentType | undefined
+}
+
 export function getContractInfo(contractAddress: string): ContractInfo | undefined {
   for (const [safeVersion, contracts] of Object.entries(safeDeploymentsVersions)) {
     for (const [contractName, contractVersion] of Object.entries(contracts)) {
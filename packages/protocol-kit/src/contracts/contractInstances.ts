@@ -2,26 +2,34 @@ import { Abi } from 'viem'
 import { DeploymentType } from '@safe-global/protocol-kit/types'
 import {
   SafeVersion,
-  SafeContract_v1_3_0_Abi,
+  SafeContract_v1_5_0_Abi,
   SafeContract_v1_4_1_Abi,
+  SafeContract_v1_3_0_Abi,
   SafeContract_v1_2_0_Abi,
   SafeContract_v1_1_1_Abi,
   SafeContract_v1_0_0_Abi,
+  CompatibilityFallbackHandlerContract_v1_5_0_Abi,
   CompatibilityFallbackHandlerContract_v1_4_1_Abi,
   CompatibilityFallbackHandlerContract_v1_3_0_Abi,
+  MultiSendContract_v1_5_0_Abi,
   MultiSendContract_v1_4_1_Abi,
   MultiSendContract_v1_3_0_Abi,
   MultiSendContract_v1_1_1_Abi,
+  MultiSendCallOnlyContract_v1_5_0_Abi,
   MultiSendCallOnlyContract_v1_4_1_Abi,
   MultiSendCallOnlyContract_v1_3_0_Abi,
+  SafeProxyFactoryContract_v1_5_0_Abi,
   SafeProxyFactoryContract_v1_4_1_Abi,
   SafeProxyFactoryContract_v1_3_0_Abi,
   SafeProxyFactoryContract_v1_1_1_Abi,
   SafeProxyFactoryContract_v1_0_0_Abi,
+  SignMessageLibContract_v1_5_0_Abi,
   SignMessageLibContract_v1_4_1_Abi,
   SignMessageLibContract_v1_3_0_Abi,
+  CreateCallContract_v1_5_0_Abi,
   CreateCallContract_v1_4_1_Abi,
   CreateCallContract_v1_3_0_Abi,
+  SimulateTxAccessorContract_v1_5_0_Abi,
   SimulateTxAccessorContract_v1_4_1_Abi,
   SimulateTxAccessorContract_v1_3_0_Abi,
   SafeWebAuthnSignerFactoryContract_v0_2_1_Abi,
@@ -29,26 +37,34 @@ import {
 } from '@safe-global/types-kit'
 import CreateCallContract_v1_3_0 from './CreateCall/v1.3.0/CreateCallContract_v1_3_0'
 import CreateCallContract_v1_4_1 from './CreateCall/v1.4.1/CreateCallContract_v1_4_1'
+import CreateCallContract_v1_5_0 from './CreateCall/v1.5.0/CreateCallContract_v1_5_0'
 import MultiSendContract_v1_1_1 from './MultiSend/v1.1.1/MultiSendContract_v1_1_1'
 import MultiSendContract_v1_3_0 from './MultiSend/v1.3.0/MultiSendContract_v1_3_0'
 import MultiSendContract_v1_4_1 from './MultiSend/v1.4.1/MultiSendContract_v1_4_1'
+import MultiSendContract_v1_5_0 from './MultiSend/v1.5.0/MultiSendContract_v1_5_0'
 import MultiSendCallOnlyContract_v1_3_0 from './MultiSend/v1.3.0/MultiSendCallOnlyContract_v1_3_0'
 import MultiSendCallOnlyContract_v1_4_1 from './MultiSend/v1.4.1/MultiSendCallOnlyContract_v1_4_1'
+import MultiSendCallOnlyContract_v1_5_0 from './MultiSend/v1.5.0/MultiSendCallOnlyContract_v1_5_0'
 import SignMessageLibContract_v1_3_0 from './SignMessageLib/v1.3.0/SignMessageLibContract_v1_3_0'
 import SignMessageLibContract_v1_4_1 from './SignMessageLib/v1.4.1/SignMessageLibContract_v1_4_1'
+import SignMessageLibContract_v1_5_0 from './SignMessageLib/v1.5.0/SignMessageLibContract_v1_5_0'
 import SafeContract_v1_0_0 from './Safe/v1.0.0/SafeContract_v1_0_0'
 import SafeContract_v1_1_1 from './Safe/v1.1.1/SafeContract_v1_1_1'
 import SafeContract_v1_2_0 from './Safe/v1.2.0/SafeContract_v1_2_0'
 import SafeContract_v1_3_0 from './Safe/v1.3.0/SafeContract_v1_3_0'
 import SafeContract_v1_4_1 from './Safe/v1.4.1/SafeContract_v1_4_1'
+import SafeContract_v1_5_0 from './Safe/v1.5.0/SafeContract_v1_5_0'
 import SafeProxyFactoryContract_v1_0_0 from './SafeProxyFactory/v1.0.0/SafeProxyFactoryContract_v1_0_0'
 import SafeProxyFactoryContract_v1_1_1 from './SafeProxyFactory/v1.1.1/SafeProxyFactoryContract_v1_1_1'
 import SafeProxyFactoryContract_v1_3_0 from './SafeProxyFactory/v1.3.0/SafeProxyFactoryContract_v1_3_0'
 import SafeProxyFactoryContract_v1_4_1 from './SafeProxyFactory/v1.4.1/SafeProxyFactoryContract_v1_4_1'
+import SafeProxyFactoryContract_v1_5_0 from './SafeProxyFactory/v1.5.0/SafeProxyFactoryContract_v1_5_0'
 import SimulateTxAccessorContract_v1_3_0 from './SimulateTxAccessor/v1.3.0/SimulateTxAccessorContract_v1_3_0'
 import SimulateTxAccessorContract_v1_4_1 from './SimulateTxAccessor/v1.4.1/SimulateTxAccessorContract_v1_4_1'
+import SimulateTxAccessorContract_v1_5_0 from './SimulateTxAccessor/v1.5.0/SimulateTxAccessorContract_v1_5_0'
 import CompatibilityFallbackHandlerContract_v1_3_0 from './CompatibilityFallbackHandler/v1.3.0/CompatibilityFallbackHandlerContract_v1_3_0'
 import CompatibilityFallbackHandlerContract_v1_4_1 from './CompatibilityFallbackHandler/v1.4.1/CompatibilityFallbackHandlerContract_v1_4_1'
+import CompatibilityFallbackHandlerContract_v1_5_0 from './CompatibilityFallbackHandler/v1.5.0/CompatibilityFallbackHandlerContract_v1_5_0'
 import SafeWebAuthnSignerFactoryContract_v0_2_1 from './SafeWebAuthnSignerFactory/v0.2.1/SafeWebAuthnSignerFactoryContract_v0_2_1'
 import SafeWebAuthnSharedSignerContract_v0_2_1 from './SafeWebAuthnSharedSigner/v0.2.1/SafeWebAuthnSharedSignerContract_v0_2_1'
 import SafeProvider from '../SafeProvider'
@@ -61,6 +77,7 @@ export async function getSafeContractInstance(
   isL1SafeSingleton?: boolean,
   deploymentType?: DeploymentType
 ): Promise<
+  | SafeContract_v1_5_0
   | SafeContract_v1_4_1
   | SafeContract_v1_3_0
   | SafeContract_v1_2_0
@@ -71,6 +88,16 @@ export async function getSafeContractInstance(
   let safeContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      safeContractInstance = new SafeContract_v1_5_0(
+        chainId,
+        safeProvider,
+        isL1SafeSingleton,
+        contractAddress,
+        customContractAbi as SafeContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       safeContractInstance = new SafeContract_v1_4_1(
         chainId,
@@ -137,12 +164,23 @@ export async function getCompatibilityFallbackHandlerContractInstance(
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
 ): Promise<
-  CompatibilityFallbackHandlerContract_v1_4_1 | CompatibilityFallbackHandlerContract_v1_3_0
+  | CompatibilityFallbackHandlerContract_v1_5_0
+  | CompatibilityFallbackHandlerContract_v1_4_1
+  | CompatibilityFallbackHandlerContract_v1_3_0
 > {
   const chainId = await safeProvider.getChainId()
   let compatibilityFallbackHandlerInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      compatibilityFallbackHandlerInstance = new CompatibilityFallbackHandlerContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as CompatibilityFallbackHandlerContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       compatibilityFallbackHandlerInstance = new CompatibilityFallbackHandlerContract_v1_4_1(
         chainId,
@@ -178,11 +216,25 @@ export async function getMultiSendContractInstance(
   contractAddress?: string,
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
-): Promise<MultiSendContract_v1_4_1 | MultiSendContract_v1_3_0 | MultiSendContract_v1_1_1> {
+): Promise<
+  | MultiSendContract_v1_5_0
+  | MultiSendContract_v1_4_1
+  | MultiSendContract_v1_3_0
+  | MultiSendContract_v1_1_1
+> {
   const chainId = await safeProvider.getChainId()
   let multiSendContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      multiSendContractInstance = new MultiSendContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as MultiSendContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       multiSendContractInstance = new MultiSendContract_v1_4_1(
         chainId,
@@ -227,11 +279,24 @@ export async function getMultiSendCallOnlyContractInstance(
   contractAddress?: string,
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
-): Promise<MultiSendCallOnlyContract_v1_4_1 | MultiSendCallOnlyContract_v1_3_0> {
+): Promise<
+  | MultiSendCallOnlyContract_v1_5_0
+  | MultiSendCallOnlyContract_v1_4_1
+  | MultiSendCallOnlyContract_v1_3_0
+> {
   const chainId = await safeProvider.getChainId()
   let multiSendCallOnlyContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      multiSendCallOnlyContractInstance = new MultiSendCallOnlyContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as MultiSendCallOnlyContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       multiSendCallOnlyContractInstance = new MultiSendCallOnlyContract_v1_4_1(
         chainId,
@@ -269,6 +334,7 @@ export async function getSafeProxyFactoryContractInstance(
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
 ): Promise<
+  | SafeProxyFactoryContract_v1_5_0
   | SafeProxyFactoryContract_v1_4_1
   | SafeProxyFactoryContract_v1_3_0
   | SafeProxyFactoryContract_v1_1_1
@@ -278,6 +344,15 @@ export async function getSafeProxyFactoryContractInstance(
   let safeProxyFactoryContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      safeProxyFactoryContractInstance = new SafeProxyFactoryContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as SafeProxyFactoryContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       safeProxyFactoryContractInstance = new SafeProxyFactoryContract_v1_4_1(
         chainId,
@@ -330,11 +405,22 @@ export async function getSignMessageLibContractInstance(
   contractAddress?: string,
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
-): Promise<SignMessageLibContract_v1_4_1 | SignMessageLibContract_v1_3_0> {
+): Promise<
+  SignMessageLibContract_v1_5_0 | SignMessageLibContract_v1_4_1 | SignMessageLibContract_v1_3_0
+> {
   const chainId = await safeProvider.getChainId()
   let signMessageLibContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      signMessageLibContractInstance = new SignMessageLibContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as SignMessageLibContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       signMessageLibContractInstance = new SignMessageLibContract_v1_4_1(
         chainId,
@@ -368,11 +454,20 @@ export async function getCreateCallContractInstance(
   contractAddress?: string,
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
-): Promise<CreateCallContract_v1_4_1 | CreateCallContract_v1_3_0> {
+): Promise<CreateCallContract_v1_5_0 | CreateCallContract_v1_4_1 | CreateCallContract_v1_3_0> {
   const chainId = await safeProvider.getChainId()
   let createCallContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      createCallContractInstance = new CreateCallContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as CreateCallContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       createCallContractInstance = new CreateCallContract_v1_4_1(
         chainId,
@@ -409,11 +504,24 @@ export async function getSimulateTxAccessorContractInstance(
   contractAddress?: string,
   customContractAbi?: Abi,
   deploymentType?: DeploymentType
-): Promise<SimulateTxAccessorContract_v1_4_1 | SimulateTxAccessorContract_v1_3_0> {
+): Promise<
+  | SimulateTxAccessorContract_v1_5_0
+  | SimulateTxAccessorContract_v1_4_1
+  | SimulateTxAccessorContract_v1_3_0
+> {
   const chainId = await safeProvider.getChainId()
   let simulateTxAccessorContractInstance
 
   switch (safeVersion) {
+    case '1.5.0':
+      simulateTxAccessorContractInstance = new SimulateTxAccessorContract_v1_5_0(
+        chainId,
+        safeProvider,
+        contractAddress,
+        customContractAbi as SimulateTxAccessorContract_v1_5_0_Abi,
+        deploymentType
+      )
+      break
     case '1.4.1':
       simulateTxAccessorContractInstance = new SimulateTxAccessorContract_v1_4_1(
         chainId,
@@ -451,6 +559,7 @@ export async function getSafeWebAuthnSignerFactoryContractInstance(
   const chainId = await safeProvider.getChainId()
 
   switch (safeVersion) {
+    case '1.5.0':
     case '1.4.1':
     case '1.3.0':
       const safeWebAuthnSignerFactoryContractInstance =
@@ -482,6 +591,7 @@ export async function getSafeWebAuthnSharedSignerContractInstance(
   const chainId = await safeProvider.getChainId()
 
   switch (safeVersion) {
+    case '1.5.0':
     case '1.4.1':
     case '1.3.0':
       const safeWebAuthnSharedSignerContractInstance = new SafeWebAuthnSharedSignerContract_v0_2_1(
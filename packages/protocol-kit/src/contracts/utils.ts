@@ -86,6 +86,25 @@ export interface encodeSetupCallDataProps {
   deploymentType?: DeploymentType
 }
 
+/**
+ * Encodes a call to a function of the Safe contract regardless of its version.
+ * Calling `encode` on the union of every Safe contract version produces a type that is too complex
+ * to represent, so it is resolved only here to keep the type checking stable.
+ *
+ * @param safeContract - The Safe contract
+ * @param functionName - The name of the function to encode
+ * @param args - The arguments of the function
+ * @returns The encoded function call
+ */
+export function encodeSafeFunctionData(
+  safeContract: SafeContractImplementationType,
+  functionName: string,
+  args: readonly unknown[]
+): string {
+  //@ts-expect-error: Type too complex to represent.
+  return safeContract.encode(functionName, args)
+}
+
 export function encodeCreateProxyWithNonce(
   safeProxyFactoryContract: SafeProxyFactoryContractType,
   safeSingletonAddress: string,
@@ -125,7 +144,7 @@ export async function encodeSetupCallData({
   const safeVersion = customSafeVersion || safeContract.safeVersion
 
   if (semverSatisfies(safeVersion, '<=1.0.0')) {
-    return safeContract.encode('setup', [
+    return encodeSafeFunctionData(safeContract, 'setup', [
       owners,
       threshold,
       to,
@@ -149,7 +168,7 @@ export async function encodeSetupCallData({
     fallbackHandlerAddress = fallbackHandlerContract.getAddress()
   }
 
-  return safeContract.encode('setup', [
+  return encodeSafeFunctionData(safeContract, 'setup', [
     owners,
     threshold,
     to,
@@ -231,7 +250,7 @@ export async function getSafeContractVersion(
   safeProvider: SafeProvider,
   safeAddress: string
 ): Promise<SafeVersion> {
-  return (await safeProvider.readContract({
+  return (await safeProvider.readContractWithQuorum({
     address: safeAddress,
     abi: parseAbi(['function VERSION() view returns (string)']),
     functionName: 'VERSION'
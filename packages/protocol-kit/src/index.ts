@@ -30,6 +30,11 @@ import {
 } from './contracts/utils'
 import ContractManager from './managers/contractManager'
 import {
+  AbiRegistry,
+  createDefaultAbiRegistry,
+  decodeSafeSetupData,
+  decodeSafeTransaction,
+  decodeTransaction,
   EthSafeSignature,
   estimateTxBaseGas,
   estimateTxGas,
@@ -57,6 +62,16 @@ import {
   preimageSafeTransactionHash,
   preimageSafeMessageHash
 } from './utils/signatures/utils'
+import { parseSignatureBytes } from './utils/signatures/parseSignatureBytes'
+import { verifySafeSignatures } from './utils/signatures/verifySafeSignatures'
+import { generateContractOwnerSignature } from './utils/signatures/contractOwnerSignature'
+import { getSafeConfigurations } from './utils/multicall/getSafeConfigurations'
+import {
+  buildSafeHistory,
+  decodeSafeEventLog,
+  getSafeEvents,
+  watchSafeEvents
+} from './utils/events'
 
 import {
   getEip712TxTypes,
@@ -64,11 +79,23 @@ import {
   hashSafeMessage,
   generateTypedData
 } from './utils/eip-712'
+import {
+  buildErc6492Signature,
+  isErc6492WrappedSignature,
+  parseErc6492WrappedSignature,
+  isValidUniversalSignature
+} from './utils/eip-6492'
 import { createPasskeyClient } from './utils/passkeys/PasskeyClient'
 import getPasskeyOwnerAddress from './utils/passkeys/getPasskeyOwnerAddress'
+import { verifyPasskeySignature } from './utils/passkeys/verifyPasskeySignature'
 import generateOnChainIdentifier from './utils/on-chain-tracking/generateOnChainIdentifier'
 
 export {
+  AbiRegistry,
+  createDefaultAbiRegistry,
+  decodeSafeSetupData,
+  decodeSafeTransaction,
+  decodeTransaction,
   estimateTxBaseGas,
   estimateTxGas,
   estimateSafeTxGas,
@@ -112,16 +139,29 @@ export {
   buildSignatureBytes,
   preimageSafeTransactionHash,
   preimageSafeMessageHash,
+  parseSignatureBytes,
+  verifySafeSignatures,
+  generateContractOwnerSignature,
   getEip712TxTypes,
   getEip712MessageTypes,
   getSafeAddressFromDeploymentTx,
   hashSafeMessage,
   generateTypedData,
+  buildErc6492Signature,
+  isErc6492WrappedSignature,
+  parseErc6492WrappedSignature,
+  isValidUniversalSignature,
   SafeProvider,
   createPasskeyClient,
   EthSafeTransaction,
   EthSafeMessage,
-  getPasskeyOwnerAddress
+  getPasskeyOwnerAddress,
+  verifyPasskeySignature,
+  getSafeConfigurations,
+  getSafeEvents,
+  decodeSafeEventLog,
+  buildSafeHistory,
+  watchSafeEvents
 }
 
 export * from './types'
@@ -5,7 +5,10 @@ import {
   SafeContractCompatibleWithFallbackHandler,
   sameString
 } from '@safe-global/protocol-kit/utils'
-import { ZERO_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
+import {
+  ZERO_ADDRESS,
+  FALLBACK_HANDLER_STORAGE_SLOT
+} from '@safe-global/protocol-kit/utils/constants'
 import { asHex } from '@safe-global/protocol-kit/utils/types'
 import { SafeContractImplementationType } from '@safe-global/protocol-kit/types'
 import SafeProvider from '../SafeProvider'
@@ -13,8 +16,7 @@ import SafeProvider from '../SafeProvider'
 class FallbackHandlerManager {
   #safeProvider: SafeProvider
   #safeContract?: SafeContractImplementationType
-  // keccak256("fallback_manager.handler.address")
-  #slot = '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5'
+  #slot = FALLBACK_HANDLER_STORAGE_SLOT
 
   constructor(safeProvider: SafeProvider, safeContract?: SafeContractImplementationType) {
     this.#safeProvider = safeProvider
@@ -70,6 +72,7 @@ class FallbackHandlerManager {
     const currentFallbackHandler = await this.getFallbackHandler()
     this.validateFallbackHandlerIsNotEnabled(currentFallbackHandler, fallbackHandlerAddress)
 
+    //@ts-expect-error: Type too complex to represent.
     return safeContract.encode('setFallbackHandler', [asHex(fallbackHandlerAddress)])
   }
 
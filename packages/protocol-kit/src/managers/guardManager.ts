@@ -5,7 +5,7 @@ import {
   SafeContractCompatibleWithGuardManager,
   sameString
 } from '@safe-global/protocol-kit/utils'
-import { ZERO_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
+import { ZERO_ADDRESS, GUARD_STORAGE_SLOT } from '@safe-global/protocol-kit/utils/constants'
 import { asHex } from '@safe-global/protocol-kit/utils/types'
 import { SafeContractImplementationType } from '@safe-global/protocol-kit/types'
 import SafeProvider from '../SafeProvider'
@@ -13,8 +13,7 @@ import SafeProvider from '../SafeProvider'
 class GuardManager {
   #safeProvider: SafeProvider
   #safeContract?: SafeContractImplementationType
-  // keccak256("guard_manager.guard.address")
-  #slot = '0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8'
+  #slot = GUARD_STORAGE_SLOT
 
   constructor(safeProvider: SafeProvider, safeContract?: SafeContractImplementationType) {
     this.#safeProvider = safeProvider
@@ -1,10 +1,23 @@
-import { isRestrictedAddress, sameString } from '@safe-global/protocol-kit/utils'
-import { SENTINEL_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
+import {
+  hasSafeFeature,
+  isRestrictedAddress,
+  isZeroAddress,
+  SAFE_FEATURES,
+  SafeContractCompatibleWithModuleGuard,
+  sameString
+} from '@safe-global/protocol-kit/utils'
+import {
+  MODULE_GUARD_STORAGE_SLOT,
+  SENTINEL_ADDRESS,
+  ZERO_ADDRESS
+} from '@safe-global/protocol-kit/utils/constants'
+import { asHex } from '@safe-global/protocol-kit/utils/types'
 import {
   SafeContractImplementationType,
   SafeModulesPaginated
 } from '@safe-global/protocol-kit/types'
 import SafeProvider from '../SafeProvider'
+import { encodeSafeFunctionData } from '../contracts/utils'
 
 class ModuleManager {
   #safeProvider: SafeProvider
@@ -39,6 +52,25 @@ class ModuleManager {
     return moduleIndex
   }
 
+  private validateModuleGuardAddress(moduleGuardAddress: string): void {
+    const isValidAddress = this.#safeProvider.isAddress(moduleGuardAddress)
+    if (!isValidAddress || isZeroAddress(moduleGuardAddress)) {
+      throw new Error('Invalid module guard address provided')
+    }
+  }
+
+  private async isModuleGuardCompatible(): Promise<SafeContractCompatibleWithModuleGuard> {
+    if (!this.#safeContract) {
+      throw new Error('Safe is not deployed')
+    }
+    const safeVersion = this.#safeContract.safeVersion
+    if (!hasSafeFeature(SAFE_FEATURES.SAFE_MODULE_GUARDS, safeVersion)) {
+      throw new Error('Current version of the Safe does not support module guards functionality')
+    }
+
+    return this.#safeContract as SafeContractCompatibleWithModuleGuard
+  }
+
   async getModules(): Promise<string[]> {
     if (!this.#safeContract) {
       throw new Error('Safe is not deployed')
@@ -75,7 +107,7 @@ class ModuleManager {
     this.validateModuleAddress(moduleAddress)
     const modules = await this.getModules()
     this.validateModuleIsNotEnabled(moduleAddress, modules)
-    return this.#safeContract.encode('enableModule', [moduleAddress])
+    return encodeSafeFunctionData(this.#safeContract, 'enableModule', [moduleAddress])
   }
 
   async encodeDisableModuleData(moduleAddress: string): Promise<string> {
@@ -86,7 +118,37 @@ class ModuleManager {
     const modules = await this.getModules()
     const moduleIndex = this.validateModuleIsEnabled(moduleAddress, modules)
     const prevModuleAddress = moduleIndex === 0 ? SENTINEL_ADDRESS : modules[moduleIndex - 1]
-    return this.#safeContract.encode('disableModule', [prevModuleAddress, moduleAddress])
+    return encodeSafeFunctionData(this.#safeContract, 'disableModule', [
+      prevModuleAddress,
+      moduleAddress
+    ])
+  }
+
+  async getModuleGuard(): Promise<string> {
+    const safeContract = await this.isModuleGuardCompatible()
+
+    return this.#safeProvider.getStorageAt(safeContract.getAddress(), MODULE_GUARD_STORAGE_SLOT)
+  }
+
+  async encodeEnableModuleGuardData(moduleGuardAddress: string): Promise<string> {
+    const safeContract = await this.isModuleGuardCompatible()
+
+    this.validateModuleGuardAddress(moduleGuardAddress)
+    const currentModuleGuard = await this.getModuleGuard()
+    if (sameString(currentModuleGuard, moduleGuardAddress)) {
+      throw new Error('Module guard provided is already enabled')
+    }
+    return safeContract.encode('setModuleGuard', [asHex(moduleGuardAddress)])
+  }
+
+  async encodeDisableModuleGuardData(): Promise<string> {
+    const safeContract = await this.isModuleGuardCompatible()
+
+    const currentModuleGuard = await this.getModuleGuard()
+    if (isZeroAddress(currentModuleGuard)) {
+      throw new Error('There is no module guard enabled yet')
+    }
+    return safeContract.encode('setModuleGuard', [asHex(ZERO_ADDRESS)])
   }
 }
 
@@ -1,6 +1,11 @@
-import { isRestrictedAddress, sameString } from '@safe-global/protocol-kit/utils'
+import {
+  isRestrictedAddress,
+  planOwnerReconfiguration,
+  sameString
+} from '@safe-global/protocol-kit/utils'
 import { SENTINEL_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
 import { SafeContractImplementationType } from '../types'
+import { encodeSafeFunctionData } from '../contracts/utils'
 import SafeProvider from '../SafeProvider'
 
 class OwnerManager {
@@ -89,7 +94,10 @@ class OwnerManager {
     this.validateAddressIsNotOwner(ownerAddress, owners)
     const newThreshold = threshold ?? (await this.getThreshold())
     this.validateThreshold(newThreshold, owners.length + 1)
-    return this.#safeContract.encode('addOwnerWithThreshold', [ownerAddress, newThreshold])
+    return encodeSafeFunctionData(this.#safeContract, 'addOwnerWithThreshold', [
+      ownerAddress,
+      newThreshold
+    ])
   }
 
   async encodeRemoveOwnerData(ownerAddress: string, threshold?: number): Promise<string> {
@@ -102,7 +110,11 @@ class OwnerManager {
     const newThreshold = threshold ?? (await this.getThreshold()) - 1
     this.validateThreshold(newThreshold, owners.length - 1)
     const prevOwnerAddress = ownerIndex === 0 ? SENTINEL_ADDRESS : owners[ownerIndex - 1]
-    return this.#safeContract.encode('removeOwner', [prevOwnerAddress, ownerAddress, newThreshold])
+    return encodeSafeFunctionData(this.#safeContract, 'removeOwner', [
+      prevOwnerAddress,
+      ownerAddress,
+      newThreshold
+    ])
   }
 
   async encodeSwapOwnerData(oldOwnerAddress: string, newOwnerAddress: string): Promise<string> {
@@ -123,20 +135,64 @@ class OwnerManager {
       'Old address provided is not an owner'
     )
     const prevOwnerAddress = oldOwnerIndex === 0 ? SENTINEL_ADDRESS : owners[oldOwnerIndex - 1]
-    return this.#safeContract.encode('swapOwner', [
+    return encodeSafeFunctionData(this.#safeContract, 'swapOwner', [
       prevOwnerAddress,
       oldOwnerAddress,
       newOwnerAddress
     ])
   }
 
+  async encodeReconfigurationData(targetOwners: string[], threshold: number): Promise<string[]> {
+    const safeContract = this.#safeContract
+    if (!safeContract) {
+      throw new Error('Safe is not deployed')
+    }
+    targetOwners.forEach((ownerAddress) => this.validateOwnerAddress(ownerAddress))
+    const hasDuplicatedOwners = targetOwners.some((ownerAddress, index) =>
+      targetOwners.slice(index + 1).some((owner) => sameString(owner, ownerAddress))
+    )
+    if (hasDuplicatedOwners) {
+      throw new Error('Duplicated owner addresses provided')
+    }
+    this.validateThreshold(threshold, targetOwners.length)
+    const owners = await this.getOwners()
+    const currentThreshold = await this.getThreshold()
+    const steps = planOwnerReconfiguration(owners, currentThreshold, targetOwners, threshold)
+    if (steps.length === 0) {
+      throw new Error('The Safe already has the provided owners and threshold')
+    }
+    return steps.map((step) => {
+      switch (step.type) {
+        case 'swapOwner':
+          return encodeSafeFunctionData(safeContract, 'swapOwner', [
+            step.prevOwner,
+            step.oldOwner,
+            step.newOwner
+          ])
+        case 'addOwnerWithThreshold':
+          return encodeSafeFunctionData(safeContract, 'addOwnerWithThreshold', [
+            step.owner,
+            step.threshold
+          ])
+        case 'removeOwner':
+          return encodeSafeFunctionData(safeContract, 'removeOwner', [
+            step.prevOwner,
+            step.owner,
+            step.threshold
+          ])
+        case 'changeThreshold':
+          return encodeSafeFunctionData(safeContract, 'changeThreshold', [step.threshold])
+      }
+    })
+  }
+
   async encodeChangeThresholdData(threshold: number): Promise<string> {
     if (!this.#safeContract) {
       throw new Error('Safe is not deployed')
     }
     const owners = await this.getOwners()
     this.validateThreshold(threshold, owners.length)
-    return this.#safeContract.encode('changeThreshold', [threshold])
+    return encodeSafeFunctionData(this.#safeContract, 'changeThreshold', [threshold])
   }
 }
 
@@ -0,0 +1,58 @@
+import { Abi } from 'viem'
+import { OperationType } from '@safe-global/types-kit'
+
+export type AbiRegistryEntry = {
+  /** name - The name used to identify the ABI (e.g. Safe, MultiSend, ERC20) */
+  name: string
+  /** abi - The ABI of the contract */
+  abi: Abi
+  /** address - The contract address. If set, the ABI is only used to decode calls to this address */
+  address?: string
+}
+
+export type DecodedValue = string | boolean | DecodedValue[] | { [name: string]: DecodedValue }
+
+export type DecodedParameter = {
+  /** name - The name of the parameter in the ABI */
+  name: string
+  /** type - The Solidity type of the parameter */
+  type: string
+  /** value - The decoded value. Integers are returned as decimal strings */
+  value: DecodedValue
+}
+
+export type DecodedFunctionCall = {
+  /** method - The name of the called function */
+  method: string
+  /** signature - The signature of the called function (e.g. transfer(address,uint256)) */
+  signature: string
+  /** abiNames - The names of the registered ABIs that define the function */
+  abiNames: string[]
+  /** parameters - The decoded parameters of the call */
+  parameters: DecodedParameter[]
+}
+
+export type DecodedTransactionKind =
+  | 'nativeTransfer'
+  | 'multiSend'
+  | 'safeSettingsChange'
+  | 'tokenCall'
+  | 'contractCall'
+  | 'unknown'
+
+export type DecodedTransaction = {
+  /** kind - The category of the transaction */
+  kind: DecodedTransactionKind
+  /** to - The target address of the transaction */
+  to: string
+  /** value - The native token value of the transaction */
+  value: string
+  /** data - The raw data of the transaction */
+  data: string
+  /** operation - The operation type of the transaction */
+  operation: OperationType
+  /** dataDecoded - The decoded function call. Undefined if the data is empty or no ABI matches it */
+  dataDecoded?: DecodedFunctionCall
+  /** transactions - The decoded transactions of a MultiSend batch */
+  transactions?: DecodedTransaction[]
+}
@@ -3,3 +3,12 @@ export * from './safeConfig'
 export * from './safeProvider'
 export * from './transactions'
 export * from './passkeys'
+export * from './simulation'
+export * from './decoder'
+export * from './risk'
+export * from './replication'
+export * from './signatures'
+export * from './migration'
+export * from './owners'
+export * from './safeState'
+export * from './safeEvents'
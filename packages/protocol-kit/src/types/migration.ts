@@ -0,0 +1,10 @@
+import { SafeVersion } from '@safe-global/types-kit'
+
+export type CreateUpgradeTxProps = {
+  /** targetVersion - The version of the Safe singleton the Safe will use after the upgrade */
+  targetVersion: SafeVersion
+  /** l2 - Whether the Safe will use the L2 version of the Safe singleton. Defaults to the type of the current singleton */
+  l2?: boolean
+  /** updateFallbackHandler - Whether the fallback handler is replaced by the CompatibilityFallbackHandler of the target version. Defaults to true if the Safe uses a CompatibilityFallbackHandler or no fallback handler */
+  updateFallbackHandler?: boolean
+}
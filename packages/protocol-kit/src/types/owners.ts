@@ -0,0 +1,41 @@
+import { SafeVersion, SigningMethod } from '@safe-global/types-kit'
+import { PasskeyCoordinates } from './passkeys'
+
+/**
+ * The type of a Safe owner:
+ * - EOA: An externally owned account
+ * - SAFE: Another Safe account
+ * - PASSKEY_SIGNER: A passkey signer deployed with the SafeWebAuthnSignerFactory
+ * - PASSKEY_SHARED_SIGNER: The SafeWebAuthnSharedSigner configured with a passkey for the Safe
+ * - CONTRACT: Any other contract validating signatures with EIP-1271
+ */
+export type SafeOwnerType = 'EOA' | 'SAFE' | 'PASSKEY_SIGNER' | 'PASSKEY_SHARED_SIGNER' | 'CONTRACT'
+
+export type PasskeyOwnerDetails = {
+  /** coordinates - The coordinates of the passkey public key */
+  coordinates: PasskeyCoordinates
+  /** verifierAddress - The address of the P-256 verifier used to check the passkey signatures */
+  verifierAddress: string
+}
+
+export type NestedSafeOwnerDetails = {
+  /** safeVersion - The version of the owner Safe */
+  safeVersion: SafeVersion
+  /** threshold - The threshold of the owner Safe */
+  threshold: number
+  /** owners - The owners of the owner Safe */
+  owners: string[]
+}
+
+export type SafeOwnerDetails = {
+  /** address - The address of the owner */
+  address: string
+  /** type - The type of the owner */
+  type: SafeOwnerType
+  /** signingMethod - The signing method used by the owner to sign Safe transactions and messages */
+  signingMethod: SigningMethod
+  /** passkey - The passkey of the owner. Only present for passkey owners */
+  passkey?: PasskeyOwnerDetails
+  /** safe - The configuration of the owner Safe. Only present for Safe owners */
+  safe?: NestedSafeOwnerDetails
+}
@@ -11,3 +11,34 @@ export type PasskeyArgType = {
   customVerifierAddress?: string
   getFn?: GetPasskeyCredentialFn
 }
+
+export type SharedSignerConfiguration = {
+  x: bigint // x coordinate of the passkey public key
+  y: bigint // y coordinate of the passkey public key
+  verifiers: bigint // P-256 verifiers, the precompile address in the upper bits and the fallback verifier address in the lower 160 bits
+}
+
+export type PasskeySignatureData = {
+  authenticatorData: string // authenticator data of the WebAuthn assertion
+  clientDataFields: string // client data JSON fields other than type and challenge, without the enclosing braces
+  r: bigint // r value of the P-256 signature
+  s: bigint // s value of the P-256 signature
+}
+
+export type P256Verifiers = {
+  precompile: number // address of the RIP-7212 precompile, 0 if it is not used
+  fallbackVerifier: string // address of the fallback verifier contract, e.g. the FCLP256Verifier
+}
+
+export type VerifyPasskeySignatureProps = {
+  challenge: string // 32 bytes hash checked by the passkey signer, e.g. the safeTxHash
+  signature: string // encoded signature generated by the PasskeyClient
+  coordinates: PasskeyCoordinates // coordinates of the passkey public key
+  verifiers?: bigint // P-256 verifiers configured for the passkey signer. The signature is only checked cryptographically if not set
+}
+
+export type PasskeySignatureVerification = {
+  isValid: boolean // whether the passkey signer would accept the signature
+  messageHash?: string // SHA-256 hash of the WebAuthn signing message checked by the P-256 verifier
+  error?: string // reason why the signature is not valid
+}
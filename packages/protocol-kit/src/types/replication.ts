@@ -0,0 +1,52 @@
+import { Transaction } from '@safe-global/types-kit'
+import { ContractNetworksConfig } from './contracts'
+import { PredictedSafeProps } from './safeConfig'
+import { SafeProviderConfig } from './safeProvider'
+
+export type SafeCreationData = {
+  /** factoryAddress - The address of the SafeProxyFactory that deployed the Safe */
+  factoryAddress: string
+  /** singleton - The address of the Safe singleton used by the Safe */
+  singleton: string
+  /** setupData - The call to the setup method used to initialize the Safe */
+  setupData: string
+  /** saltNonce - The saltNonce used to deploy the Safe */
+  saltNonce: string | null
+}
+
+export type GetReplicableSafeConfigProps = {
+  /** creationInfo - The creation data of the Safe, e.g. the creation info returned by the Safe Transaction Service */
+  creationInfo?: SafeCreationData
+  /** creationTransactionHash - The hash of the transaction that deployed the Safe. Used if the creationInfo is not provided */
+  creationTransactionHash?: string
+}
+
+export type ReplicableSafeConfig = {
+  /** predictedSafe - The configuration used to deploy the Safe */
+  predictedSafe: PredictedSafeProps
+  /** isL1SafeSingleton - Whether the Safe uses the L1 version of the Safe singleton */
+  isL1SafeSingleton: boolean
+}
+
+export type SafeReplicationTarget = {
+  /** provider - The provider of the chain where the Safe will be replicated */
+  provider: SafeProviderConfig['provider']
+  /** contractNetworks - Contract network configuration */
+  contractNetworks?: ContractNetworksConfig
+}
+
+export type CreateReplicationTransactionsProps = GetReplicableSafeConfigProps & {
+  /** targets - The chains where the Safe will be replicated */
+  targets: SafeReplicationTarget[]
+}
+
+export type SafeReplicationTransaction = {
+  /** chainId - The chainId of the target chain */
+  chainId: bigint
+  /** safeAddress - The address of the Safe in the target chain */
+  safeAddress: string
+  /** isDeployed - Whether the Safe is already deployed in the target chain */
+  isDeployed: boolean
+  /** transaction - The transaction to deploy the Safe. It is not present if the Safe is already deployed */
+  transaction?: Transaction
+}
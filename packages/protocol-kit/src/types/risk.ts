@@ -0,0 +1,57 @@
+import { SafeTransaction } from '@safe-global/types-kit'
+import type Safe from '@safe-global/protocol-kit/Safe'
+import type AbiRegistry from '@safe-global/protocol-kit/utils/decoder/AbiRegistry'
+import { DecodedTransaction } from './decoder'
+
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export type RiskFinding = {
+  /** ruleId - The identifier of the rule that raised the finding */
+  ruleId: string
+  /** severity - The severity of the finding */
+  severity: RiskSeverity
+  /** message - A human-readable description of the finding */
+  message: string
+  /** transaction - The decoded transaction that raised the finding. It can be an inner transaction of a MultiSend batch */
+  transaction?: DecodedTransaction
+}
+
+export type RiskRuleContext = {
+  /** safe - The Safe instance the transaction belongs to */
+  safe: Safe
+  /** safeAddress - The address of the Safe */
+  safeAddress: string
+  /** safeTransaction - The Safe transaction being analyzed */
+  safeTransaction: SafeTransaction
+  /** decodedTransaction - The decoded Safe transaction */
+  decodedTransaction: DecodedTransaction
+  /** transactions - The decoded Safe transaction followed by all the nested MultiSend transactions */
+  transactions: DecodedTransaction[]
+  /** executor - The address expected to execute the transaction */
+  executor?: string
+}
+
+export type RiskRule = {
+  /** id - The identifier of the rule */
+  id: string
+  /** evaluate - Returns the findings of the rule for the analyzed transaction */
+  evaluate: (context: RiskRuleContext) => RiskFinding[] | Promise<RiskFinding[]>
+}
+
+export type AnalyzeTransactionOptions = {
+  /** rules - The rules used to analyze the transaction. Defaults to the built-in rules */
+  rules?: RiskRule[]
+  /** abiRegistry - The ABI registry used to decode the transaction. Defaults to the bundled ABIs */
+  abiRegistry?: AbiRegistry
+  /** executor - The address expected to execute the transaction. Defaults to the signer address */
+  executor?: string
+}
+
+export type RiskPolicy = Omit<AnalyzeTransactionOptions, 'executor'> & {
+  /** refuseSeverity - Signing is refused if any finding has this severity or a higher one */
+  refuseSeverity?: RiskSeverity
+  /** acknowledgeSeverity - Findings with this severity or a higher one must be acknowledged before signing */
+  acknowledgeSeverity?: RiskSeverity
+  /** onAcknowledge - Receives the findings that must be acknowledged. Signing continues only if it returns true */
+  onAcknowledge?: (findings: RiskFinding[]) => boolean | Promise<boolean>
+}
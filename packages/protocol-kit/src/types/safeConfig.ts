@@ -2,6 +2,7 @@ import { SafeVersion } from '@safe-global/types-kit'
 
 import { SafeProviderConfig } from './safeProvider'
 import { ContractNetworksConfig } from './contracts'
+import { RiskPolicy } from './risk'
 
 export type SafeAccountConfig = {
   owners: string[]
@@ -27,6 +28,37 @@ export type PredictedSafeProps = {
   safeDeploymentConfig?: SafeDeploymentConfig
 }
 
+export type PredictedSafeDescriptor = {
+  /** safeAddress - The predicted address of the Safe */
+  safeAddress: string
+  /** chainId - The chainId of the chain where the address was predicted */
+  chainId: string
+  /** owners - The owners of the Safe */
+  owners: string[]
+  /** threshold - The threshold of the Safe */
+  threshold: number
+  /** saltNonce - The saltNonce used to predict the address of the Safe */
+  saltNonce: string
+  /** safeVersion - The version of the Safe */
+  safeVersion: SafeVersion
+  /** deploymentType - The deployment type of the Safe contracts */
+  deploymentType?: DeploymentType
+  /** isL1SafeSingleton - Whether the Safe uses the L1 version of the Safe singleton */
+  isL1SafeSingleton?: boolean
+  /** to - The address of the contract called with a delegate call during the setup */
+  to?: string
+  /** data - The data of the delegate call made during the setup */
+  data?: string
+  /** fallbackHandler - The address of the fallback handler */
+  fallbackHandler?: string
+  /** paymentToken - The token used to pay the deployment */
+  paymentToken?: string
+  /** payment - The amount paid for the deployment */
+  payment?: number
+  /** paymentReceiver - The address that receives the deployment payment */
+  paymentReceiver?: string
+}
+
 type SafeConfigWithSafeAddressProps = {
   /** safeAddress - The address of the Safe account to use */
   safeAddress: string
@@ -57,6 +89,12 @@ export type SafeConfigProps = {
   contractNetworks?: ContractNetworksConfig
   // on-chain analytics
   onchainAnalytics?: OnchainAnalyticsProps
+  /** riskPolicy - The risk policy checked before signing, approving or executing transactions */
+  riskPolicy?: RiskPolicy
+  /** multicall - Batches the contract reads issued in the same tick into a single Multicall3 call */
+  multicall?: SafeProviderConfig['multicall']
+  /** failover - The failover and quorum options used when a list of endpoints is provided */
+  failover?: SafeProviderConfig['failover']
 }
 
 export type SafeConfigWithSafeAddress = SafeConfigProps & SafeConfigWithSafeAddressProps
@@ -86,6 +124,12 @@ type ConnectSafeConfigProps = {
   contractNetworks?: ContractNetworksConfig
   // on-chain analytics
   onchainAnalytics?: OnchainAnalyticsProps
+  /** riskPolicy - The risk policy checked before signing, approving or executing transactions */
+  riskPolicy?: RiskPolicy
+  /** multicall - Batches the contract reads issued in the same tick into a single Multicall3 call */
+  multicall?: SafeProviderConfig['multicall']
+  /** failover - The failover and quorum options used when a list of endpoints is provided */
+  failover?: SafeProviderConfig['failover']
 }
 
 export type ConnectSafeConfigWithSafeAddress = ConnectSafeConfigProps &
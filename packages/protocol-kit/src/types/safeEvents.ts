@@ -0,0 +1,180 @@
+import { MetaTransactionData, SafeTransactionData } from '@safe-global/types-kit'
+
+export type SafeEventArgs = {
+  SafeSetup: {
+    initiator: string
+    owners: string[]
+    threshold: number
+    initializer: string
+    fallbackHandler: string
+  }
+  SafeMultiSigTransaction: {
+    to: string
+    value: bigint
+    data: string
+    operation: number
+    safeTxGas: bigint
+    baseGas: bigint
+    gasPrice: bigint
+    gasToken: string
+    refundReceiver: string
+    signatures: string
+    additionalInfo: string
+  }
+  SafeModuleTransaction: {
+    module: string
+    to: string
+    value: bigint
+    data: string
+    operation: number
+  }
+  ExecutionSuccess: { txHash: string; payment: bigint }
+  ExecutionFailure: { txHash: string; payment: bigint }
+  ExecutionFromModuleSuccess: { module: string }
+  ExecutionFromModuleFailure: { module: string }
+  AddedOwner: { owner: string }
+  RemovedOwner: { owner: string }
+  ChangedThreshold: { threshold: number }
+  EnabledModule: { module: string }
+  DisabledModule: { module: string }
+  ChangedGuard: { guard: string }
+  ChangedModuleGuard: { moduleGuard: string }
+  ChangedFallbackHandler: { handler: string }
+  ChangedMasterCopy: { masterCopy: string }
+  SafeReceived: { sender: string; value: bigint }
+  ApproveHash: { approvedHash: string; owner: string }
+  SignMsg: { msgHash: string }
+}
+
+export type SafeEventName = keyof SafeEventArgs
+
+export type SafeEventLocation = {
+  /** address - The address of the Safe that emitted the event */
+  address: string
+  /** blockNumber - The number of the block containing the event */
+  blockNumber: bigint
+  /** transactionHash - The hash of the transaction that emitted the event */
+  transactionHash: string
+  /** logIndex - The index of the event in the block */
+  logIndex: number
+}
+
+export type SafeEvent = {
+  [K in SafeEventName]: SafeEventLocation & {
+    /** eventName - The name of the event */
+    eventName: K
+    /** args - The decoded arguments of the event */
+    args: SafeEventArgs[K]
+  }
+}[SafeEventName]
+
+export type SafeEventOf<K extends SafeEventName> = Extract<SafeEvent, { eventName: K }>
+
+export type GetSafeEventsOptions = {
+  /** fromBlock - The first block to read, usually the block where the Safe was created */
+  fromBlock: bigint
+  /** toBlock - The last block to read. Defaults to the latest block */
+  toBlock?: bigint
+  /** blockRange - The maximum number of blocks read with each eth_getLogs call. Defaults to 10000 */
+  blockRange?: bigint
+  /** eventNames - The events to return. Defaults to all the Safe events */
+  eventNames?: SafeEventName[]
+}
+
+type SafeHistoryItemBase = SafeEventLocation & {
+  /** events - The Safe events grouped in the item, in the order they were emitted */
+  events: SafeEvent[]
+}
+
+export type SafeMultisigHistoryTransaction = SafeTransactionData & {
+  /** signatures - The signatures used to execute the transaction */
+  signatures: string
+  /** executor - The account that executed the transaction */
+  executor: string
+}
+
+export type SafeHistoryCreation = SafeHistoryItemBase & {
+  txType: 'CREATION'
+  /** initiator - The account that initialized the Safe */
+  initiator: string
+  /** owners - The initial owners of the Safe */
+  owners: string[]
+  /** threshold - The initial threshold of the Safe */
+  threshold: number
+}
+
+export type SafeHistoryMultisigTransaction = SafeHistoryItemBase & {
+  txType: 'MULTISIG_TRANSACTION'
+  /** safeTxHash - The hash of the Safe transaction */
+  safeTxHash: string
+  /** isSuccessful - Whether the call of the Safe transaction succeeded */
+  isSuccessful: boolean
+  /** payment - The gas refund paid by the Safe */
+  payment: bigint
+  /** transaction - The executed Safe transaction. Only the L2 singletons emit it */
+  transaction?: SafeMultisigHistoryTransaction
+}
+
+export type SafeHistoryModuleTransaction = SafeHistoryItemBase & {
+  txType: 'MODULE_TRANSACTION'
+  /** module - The module that executed the transaction */
+  module: string
+  /** isSuccessful - Whether the call of the module transaction succeeded */
+  isSuccessful: boolean
+  /** transaction - The executed transaction. Only the L2 singletons emit it */
+  transaction?: Required<MetaTransactionData>
+}
+
+export type SafeHistoryIncomingTransfer = SafeHistoryItemBase & {
+  txType: 'INCOMING_TRANSFER'
+  /** sender - The sender of the native tokens */
+  sender: string
+  /** value - The amount of native tokens received */
+  value: bigint
+}
+
+export type SafeHistoryHashApproval = SafeHistoryItemBase & {
+  txType: 'HASH_APPROVAL'
+  /** approvedHash - The approved Safe transaction hash */
+  approvedHash: string
+  /** owner - The owner that approved the hash */
+  owner: string
+}
+
+export type SafeHistoryOther = SafeHistoryItemBase & {
+  txType: 'OTHER'
+}
+
+export type SafeHistoryItem =
+  | SafeHistoryCreation
+  | SafeHistoryMultisigTransaction
+  | SafeHistoryModuleTransaction
+  | SafeHistoryIncomingTransfer
+  | SafeHistoryHashApproval
+  | SafeHistoryOther
+
+export type WatchSafeEventsProps = {
+  /** onExecution - Called when a multisig or module transaction is executed */
+  onExecution?: (
+    event: SafeEventOf<
+      | 'ExecutionSuccess'
+      | 'ExecutionFailure'
+      | 'ExecutionFromModuleSuccess'
+      | 'ExecutionFromModuleFailure'
+    >
+  ) => void
+  /** onOwnerChange - Called when an owner is added or removed or the threshold changes */
+  onOwnerChange?: (event: SafeEventOf<'AddedOwner' | 'RemovedOwner' | 'ChangedThreshold'>) => void
+  /** onModuleChange - Called when a module is enabled or disabled */
+  onModuleChange?: (event: SafeEventOf<'EnabledModule' | 'DisabledModule'>) => void
+  /** onIncomingEth - Called when the Safe receives native tokens */
+  onIncomingEth?: (event: SafeEventOf<'SafeReceived'>) => void
+  /** onApproveHash - Called when an owner approves a Safe transaction hash */
+  onApproveHash?: (event: SafeEventOf<'ApproveHash'>) => void
+  /** onReorg - Called when a reorg removes an event that was already delivered */
+  onReorg?: (event: SafeEvent) => void
+  /** onError - Called when the subscription or the polling fails */
+  onError?: (error: Error) => void
+  /** pollingInterval - The polling interval in milliseconds, used when the provider is not a websocket */
+  pollingInterval?: number
+}
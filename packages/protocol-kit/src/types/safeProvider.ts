@@ -51,11 +51,25 @@ export type PrivateKey = string
 export type HttpTransport = string
 export type SocketTransport = string
 export type SafeSigner = HexAddress | PrivateKey | PasskeyArgType | PasskeyClient
+export type SafeProviderEndpoint = Eip1193Provider | HttpTransport | SocketTransport
+
+export type FailoverOptions = {
+  /** timeout - The time in milliseconds after which a request to an endpoint fails over to the next one. Defaults to 10000 */
+  timeout?: number
+  /** healthCheckInterval - The interval in milliseconds of the health checks that rank the endpoints by latency and stability. The endpoints are used in the given order if not set */
+  healthCheckInterval?: number
+  /** quorum - The number of endpoints that must return the same result for the reads used to sign: chainId, version, owners, threshold, nonce and transaction hash */
+  quorum?: number
+}
 
 export type SafeProviderConfig = {
-  /** signerOrProvider - Ethers signer or provider */
-  provider: Eip1193Provider | HttpTransport | SocketTransport
+  /** signerOrProvider - Ethers signer or provider. A list of endpoints fails over to the next endpoint on errors */
+  provider: SafeProviderEndpoint | SafeProviderEndpoint[]
   signer?: HexAddress | PrivateKey | PasskeyArgType | PasskeyClient
+  /** multicall - Batches the contract reads issued in the same tick into a single Multicall3 call */
+  multicall?: boolean | MulticallOptions
+  /** failover - The failover and quorum options used when a list of endpoints is provided */
+  failover?: FailoverOptions
 }
 
 export type SafeProviderInitOptions = {
@@ -65,6 +79,8 @@ export type SafeProviderInitOptions = {
   contractNetworks?: ContractNetworksConfig
   safeAddress?: string
   owners?: string[]
+  multicall?: SafeProviderConfig['multicall']
+  failover?: SafeProviderConfig['failover']
 }
 
 export type SafeProviderTransaction = {
@@ -82,3 +98,26 @@ export type SafeModulesPaginated = {
   modules: string[]
   next: string
 }
+
+export type MulticallOptions = {
+  /** multicallAddress - The address of the Multicall3 contract. Optional. By default, the address of the Multicall3 deterministic deployment */
+  multicallAddress?: string
+  /** batchSize - The maximum size in bytes of the calldata of the calls batched together. Optional. Default value is 1024 */
+  batchSize?: number
+  /** wait - The time in milliseconds reads are collected before sending a batch. Optional. Default value is 0, batching the reads issued in the same tick */
+  wait?: number
+}
+
+export type MulticallCall = {
+  /** to - The address of the called contract */
+  to: string
+  /** data - The encoded call */
+  data: string
+}
+
+export type MulticallResult = {
+  /** success - Whether the call succeeded */
+  success: boolean
+  /** returnData - The data returned by the call, or the revert data if it failed */
+  returnData: string
+}
@@ -0,0 +1,57 @@
+import { SafeVersion } from '@safe-global/types-kit'
+import { SafeProviderConfig } from './safeProvider'
+
+export type SafeState = {
+  /** address - The address of the Safe */
+  address: string
+  /** version - The version of the Safe contract */
+  version: SafeVersion
+  /** nonce - The nonce of the Safe */
+  nonce: number
+  /** threshold - The threshold of the Safe */
+  threshold: number
+  /** owners - The owners of the Safe */
+  owners: string[]
+  /** modules - The first page of enabled modules, as returned by getModules */
+  modules: string[]
+  /** guard - The enabled guard, or the zero address if there is none or the Safe does not support guards */
+  guard: string
+  /** fallbackHandler - The enabled fallback handler, or the zero address if there is none or the Safe does not support fallback handlers */
+  fallbackHandler: string
+}
+
+export type SafeConfigurationRequest = {
+  /** chainId - The chain where the Safe is deployed */
+  chainId: bigint | string
+  /** address - The address of the Safe */
+  address: string
+}
+
+export type SafeConfiguration = SafeState & {
+  /** chainId - The chain where the Safe is deployed */
+  chainId: string
+  /** singleton - The address of the singleton used by the Safe */
+  singleton: string
+}
+
+export type SafeConfigurationResult = {
+  /** chainId - The chain where the Safe is deployed */
+  chainId: string
+  /** address - The address of the Safe */
+  address: string
+  /** configuration - The configuration of the Safe. Not present if it could not be read */
+  configuration?: SafeConfiguration
+  /** error - The reason why the configuration could not be read */
+  error?: string
+}
+
+export type GetSafeConfigurationsProps = {
+  /** safes - The Safes to read */
+  safes: SafeConfigurationRequest[]
+  /** providers - The provider of each chain, indexed by chainId */
+  providers: Record<string, SafeProviderConfig['provider']>
+  /** multicallAddress - The address of the Multicall3 contract. Optional. By default, the address of the Multicall3 deterministic deployment */
+  multicallAddress?: string
+  /** safesPerCall - The maximum number of Safes read in a single Multicall3 call. Optional. By default, 50 */
+  safesPerCall?: number
+}
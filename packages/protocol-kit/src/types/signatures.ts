@@ -0,0 +1,100 @@
+export type ParsedSignatureType = 'ECDSA' | 'ETH_SIGN' | 'APPROVED_HASH' | 'CONTRACT_SIGNATURE'
+
+export type ParsedSafeSignature = {
+  /** index - The position of the signature in the static part of the signature bytes */
+  index: number
+  /** type - The type of the signature, identified by its v value */
+  type: ParsedSignatureType
+  /** r - The r value of the signature. It contains the owner address for approved hash and contract signatures */
+  r: string
+  /** s - The s value of the signature. It contains the dynamic part offset for contract signatures */
+  s: string
+  /** v - The v value of the signature */
+  v: number
+  /** staticPart - The 65 bytes of the signature in the static part */
+  staticPart: string
+  /** owner - The owner encoded in the signature. Only present for approved hash and contract signatures */
+  owner?: string
+  /** dynamicOffset - The position of the dynamic part of a contract signature */
+  dynamicOffset?: number
+  /** contractSignature - The signature data of a contract signature, without its length */
+  contractSignature?: string
+}
+
+/**
+ * The Safe contract error codes raised while checking signatures:
+ * - GS020: Signatures data too short
+ * - GS021: Invalid contract signature location: inside static part
+ * - GS022: Invalid contract signature location: length not present
+ * - GS023: Invalid contract signature location: data not complete
+ * - GS024: Invalid contract signature provided
+ * - GS025: Hash has not been approved
+ * - GS026: Invalid owner provided
+ */
+export type SafeSignatureErrorCode =
+  | 'GS020'
+  | 'GS021'
+  | 'GS022'
+  | 'GS023'
+  | 'GS024'
+  | 'GS025'
+  | 'GS026'
+
+export type SafeSignatureError = {
+  /** code - The error code the Safe contract would revert with */
+  code: SafeSignatureErrorCode
+  /** message - A human-readable description of the error */
+  message: string
+}
+
+export type SafeSignatureVerification = ParsedSafeSignature & {
+  /** signer - The recovered signer or the owner encoded in the signature */
+  signer?: string
+  /** isValid - Whether the signature is valid */
+  isValid: boolean
+  /** error - The reason why the signature is not valid */
+  error?: SafeSignatureError
+}
+
+export type SafeSignaturesVerificationReport = {
+  /** isValid - Whether the Safe contract would accept the signatures */
+  isValid: boolean
+  /** threshold - The threshold of the Safe */
+  threshold: number
+  /** signers - The owners with a valid signature */
+  signers: string[]
+  /** signatures - The verification result of each signature */
+  signatures: SafeSignatureVerification[]
+  /** error - The reason why the signatures are not accepted, if it is not related to a single signature */
+  error?: SafeSignatureError
+}
+
+export type VerifySafeSignaturesOptions = {
+  /** executor - The address expected to execute the transaction. Its approved hash signature does not need an on-chain approval */
+  executor?: string
+  /** data - The data whose hash was signed. It is used to check contract signatures with the legacy EIP-1271 interface */
+  data?: string
+}
+
+export type Erc6492SignatureData = {
+  /** factoryAddress - The address of the factory deploying the signer contract */
+  factoryAddress: string
+  /** factoryData - The call to the factory deploying the signer contract */
+  factoryData: string
+  /** signature - The signature checked with EIP-1271 after deploying the signer contract */
+  signature: string
+}
+
+export type ContractOwnerSignRequest = {
+  /** hash - The hash checked by the owner with the EIP-1271 isValidSignature(bytes32,bytes) method. Used by Safes >= v1.5.0 */
+  hash: string
+  /** data - The preimage of the hash checked by the owner with the legacy isValidSignature(bytes,bytes) method. Used by Safes < v1.5.0 */
+  data: string
+}
+
+export type ContractOwnerSigner = {
+  /** address - The address of the Safe owner implementing EIP-1271 */
+  address: string
+  /** sign - Returns the signature accepted by the isValidSignature method of the owner for the request */
+  sign: (request: ContractOwnerSignRequest) => Promise<string>
+}
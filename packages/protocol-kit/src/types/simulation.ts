@@ -0,0 +1,54 @@
+export type SimulationLog = {
+  /** address - The address of the contract that emitted the log */
+  address: string
+  /** topics - The indexed topics of the log */
+  topics: string[]
+  /** data - The non-indexed data of the log */
+  data: string
+}
+
+export type StorageSlotDiff = {
+  /** slot - The storage slot that changed */
+  slot: string
+  /** before - The value of the slot before the transaction */
+  before: string
+  /** after - The value of the slot after the transaction */
+  after: string
+}
+
+export type AccountStateDiff = {
+  /** address - The address of the account */
+  address: string
+  /** balanceBefore - The balance of the account before the transaction */
+  balanceBefore: bigint
+  /** balanceAfter - The balance of the account after the transaction */
+  balanceAfter: bigint
+  /** storage - The storage slots of the account changed by the transaction */
+  storage: StorageSlotDiff[]
+}
+
+export type SafeTransactionSimulationResult = {
+  /** success - Whether the transaction executes without reverting */
+  success: boolean
+  /** gasUsed - The gas consumed by the transaction */
+  gasUsed: string
+  /** returnData - The raw data returned by the transaction */
+  returnData: string
+  /** revertReason - The decoded revert reason if the transaction reverts */
+  revertReason?: string
+  /** traced - Whether the node supports debug_traceCall and the trace was collected */
+  traced: boolean
+  /** logs - The logs emitted by the transaction. Only available if traced */
+  logs?: SimulationLog[]
+  /** stateDiff - The balance and storage changes per address. Only available if traced */
+  stateDiff?: AccountStateDiff[]
+}
+
+export type TraceCallConfig = {
+  /** tracer - The name of the tracer to use (e.g. callTracer, prestateTracer) */
+  tracer: string
+  /** tracerConfig - The configuration of the tracer */
+  tracerConfig?: Record<string, unknown>
+  /** stateOverrides - The balance, code and storage overrides per address applied before tracing */
+  stateOverrides?: Record<string, Record<string, unknown>>
+}
@@ -100,3 +100,46 @@ export type SwapOwnerTxParams =
       /** newOwnerPasskey - The new owner passkey */
       newOwnerPasskey: PasskeyArgType
     }
+
+export type ReconfigurationTxParams = {
+  /** owners - The owners the Safe must have after the reconfiguration */
+  owners: string[]
+  /** threshold - The threshold the Safe must have after the reconfiguration */
+  threshold: number
+}
+
+export type OwnerReconfigurationStep =
+  | {
+      /** type - The method of the Safe called in the step */
+      type: 'swapOwner'
+      /** prevOwner - The owner that points to the old owner in the linked list of owners */
+      prevOwner: string
+      /** oldOwner - The owner being replaced */
+      oldOwner: string
+      /** newOwner - The new owner */
+      newOwner: string
+    }
+  | {
+      /** type - The method of the Safe called in the step */
+      type: 'addOwnerWithThreshold'
+      /** owner - The new owner */
+      owner: string
+      /** threshold - The threshold after the step */
+      threshold: number
+    }
+  | {
+      /** type - The method of the Safe called in the step */
+      type: 'removeOwner'
+      /** prevOwner - The owner that points to the removed owner in the linked list of owners */
+      prevOwner: string
+      /** owner - The owner being removed */
+      owner: string
+      /** threshold - The threshold after the step */
+      threshold: number
+    }
+  | {
+      /** type - The method of the Safe called in the step */
+      type: 'changeThreshold'
+      /** threshold - The threshold after the step */
+      threshold: number
+    }
@@ -3,3 +3,12 @@ import { Address, Hex, zeroAddress } from 'viem'
 export const ZERO_ADDRESS: Address = zeroAddress
 export const EMPTY_DATA: Hex = '0x'
 export const SENTINEL_ADDRESS: Address = '0x0000000000000000000000000000000000000001'
+// keccak256("guard_manager.guard.address")
+export const GUARD_STORAGE_SLOT =
+  '0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8'
+// keccak256("fallback_manager.handler.address")
+export const FALLBACK_HANDLER_STORAGE_SLOT =
+  '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5'
+// keccak256("module_manager.module_guard.address")
+export const MODULE_GUARD_STORAGE_SLOT =
+  '0xb104e0b93118902c651344349b610029d694cfdec91c589c91ebafbcd0289947'
@@ -0,0 +1,97 @@
+import { AbiFunction, toFunctionSelector, toFunctionSignature } from 'viem'
+import { AbiRegistryEntry } from '@safe-global/protocol-kit/types'
+import { SAFE_CONTRACT_ABIS, TOKEN_ABIS } from './abis'
+
+export type RegisteredFunction = {
+  abiFunction: AbiFunction
+  signature: string
+  abiNames: string[]
+}
+
+/**
+ * Registry of the ABIs used to decode the data of a transaction offline.
+ * ABIs registered with an address take precedence over the generic ones when decoding calls to that address.
+ * If several ABIs define the same function, the first registered definition is used for decoding.
+ */
+class AbiRegistry {
+  #functions = new Map<string, RegisteredFunction>()
+  #functionsByAddress = new Map<string, Map<string, RegisteredFunction>>()
+
+  constructor(entries: AbiRegistryEntry[] = []) {
+    entries.forEach((entry) => this.register(entry))
+  }
+
+  /**
+   * Registers the functions of an ABI.
+   *
+   * @param {AbiRegistryEntry} entry - The ABI to register. If an address is set, it is only used for that address.
+   * @returns {AbiRegistry} The registry, so calls can be chained.
+   */
+  register({ name, abi, address }: AbiRegistryEntry): this {
+    const functions = address ? this.#getAddressFunctions(address, true)! : this.#functions
+
+    abi
+      .filter((abiItem): abiItem is AbiFunction => abiItem.type === 'function')
+      .forEach((abiFunction) => {
+        const selector = toFunctionSelector(abiFunction)
+        const signature = toFunctionSignature(abiFunction)
+        const registeredFunction = functions.get(selector)
+
+        if (!registeredFunction) {
+          functions.set(selector, { abiFunction, signature, abiNames: [name] })
+          return
+        }
+
+        // Selector clashes between different signatures are ignored
+        if (
+          registeredFunction.signature === signature &&
+          !registeredFunction.abiNames.includes(name)
+        ) {
+          registeredFunction.abiNames.push(name)
+        }
+      })
+
+    return this
+  }
+
+  /**
+   * Returns the registered function matching a selector.
+   *
+   * @param {string} selector - The 4 bytes function selector.
+   * @param {string} address - The address the call is sent to.
+   * @returns {RegisteredFunction | undefined} The registered function or undefined if the selector is unknown.
+   */
+  getFunction(selector: string, address?: string): RegisteredFunction | undefined {
+    const normalizedSelector = selector.toLowerCase()
+
+    return (
+      (address && this.#getAddressFunctions(address)?.get(normalizedSelector)) ||
+      this.#functions.get(normalizedSelector)
+    )
+  }
+
+  #getAddressFunctions(
+    address: string,
+    create = false
+  ): Map<string, RegisteredFunction> | undefined {
+    const normalizedAddress = address.toLowerCase()
+
+    if (create && !this.#functionsByAddress.has(normalizedAddress)) {
+      this.#functionsByAddress.set(normalizedAddress, new Map())
+    }
+
+    return this.#functionsByAddress.get(normalizedAddress)
+  }
+}
+
+/**
+ * Creates an ABI registry with the ABIs of every Safe contract supported by the SDK and the
+ * common ERC-20, ERC-721 and ERC-1155 functions.
+ *
+ * @returns {AbiRegistry} The ABI registry.
+ */
+export function createDefaultAbiRegistry(): AbiRegistry {
+  return new AbiRegistry([...SAFE_CONTRACT_ABIS, ...TOKEN_ABIS])
+}
+
+export default AbiRegistry
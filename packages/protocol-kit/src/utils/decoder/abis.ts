@@ -0,0 +1,122 @@
+import { Abi, parseAbi } from 'viem'
+import {
+  compatibilityFallbackHandler_1_3_0_ContractArtifacts,
+  compatibilityFallbackHandler_1_4_1_ContractArtifacts,
+  compatibilityFallbackHandler_1_5_0_ContractArtifacts,
+  createCall_1_3_0_ContractArtifacts,
+  createCall_1_4_1_ContractArtifacts,
+  createCall_1_5_0_ContractArtifacts,
+  multisend_1_1_1_ContractArtifacts,
+  multisend_1_3_0_ContractArtifacts,
+  multisend_1_4_1_ContractArtifacts,
+  multisend_1_5_0_ContractArtifacts,
+  multiSendCallOnly_1_3_0_ContractArtifacts,
+  multiSendCallOnly_1_4_1_ContractArtifacts,
+  multiSendCallOnly_1_5_0_ContractArtifacts,
+  safe_1_0_0_ContractArtifacts,
+  safe_1_1_1_ContractArtifacts,
+  safe_1_2_0_ContractArtifacts,
+  safe_1_3_0_ContractArtifacts,
+  safe_1_4_1_ContractArtifacts,
+  safe_1_5_0_ContractArtifacts,
+  safeProxyFactory_1_0_0_ContractArtifacts,
+  safeProxyFactory_1_1_1_ContractArtifacts,
+  safeProxyFactory_1_3_0_ContractArtifacts,
+  safeProxyFactory_1_4_1_ContractArtifacts,
+  safeProxyFactory_1_5_0_ContractArtifacts,
+  signMessageLib_1_3_0_ContractArtifacts,
+  signMessageLib_1_4_1_ContractArtifacts,
+  signMessageLib_1_5_0_ContractArtifacts,
+  simulateTxAccessor_1_3_0_ContractArtifacts,
+  simulateTxAccessor_1_4_1_ContractArtifacts,
+  simulateTxAccessor_1_5_0_ContractArtifacts,
+  SafeWebAuthnSignerFactory_0_2_1_ContractArtifacts,
+  SafeWebAuthnSharedSigner_0_2_1_ContractArtifacts
+} from '@safe-global/types-kit'
+import { AbiRegistryEntry } from '@safe-global/protocol-kit/types'
+
+export const ERC20_ABI = parseAbi([
+  'function transfer(address to, uint256 value) returns (bool)',
+  'function transferFrom(address from, address to, uint256 value) returns (bool)',
+  'function approve(address spender, uint256 value) returns (bool)'
+])
+
+export const ERC721_ABI = parseAbi([
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function transferFrom(address from, address to, uint256 tokenId)',
+  'function approve(address to, uint256 tokenId)',
+  'function setApprovalForAll(address operator, bool approved)'
+])
+
+export const ERC1155_ABI = parseAbi([
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)'
+])
+
+export const TOKEN_ABI_NAMES = ['ERC20', 'ERC721', 'ERC1155']
+
+// The ABIs are registered from the latest to the oldest version so the newest parameter names are used
+export const SAFE_CONTRACT_ABIS: AbiRegistryEntry[] = [
+  ...[
+    safe_1_5_0_ContractArtifacts,
+    safe_1_4_1_ContractArtifacts,
+    safe_1_3_0_ContractArtifacts,
+    safe_1_2_0_ContractArtifacts,
+    safe_1_1_1_ContractArtifacts,
+    safe_1_0_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'Safe', abi: abi as Abi })),
+  ...[
+    safeProxyFactory_1_5_0_ContractArtifacts,
+    safeProxyFactory_1_4_1_ContractArtifacts,
+    safeProxyFactory_1_3_0_ContractArtifacts,
+    safeProxyFactory_1_1_1_ContractArtifacts,
+    safeProxyFactory_1_0_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'SafeProxyFactory', abi: abi as Abi })),
+  ...[
+    multisend_1_5_0_ContractArtifacts,
+    multisend_1_4_1_ContractArtifacts,
+    multisend_1_3_0_ContractArtifacts,
+    multisend_1_1_1_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'MultiSend', abi: abi as Abi })),
+  ...[
+    multiSendCallOnly_1_5_0_ContractArtifacts,
+    multiSendCallOnly_1_4_1_ContractArtifacts,
+    multiSendCallOnly_1_3_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'MultiSendCallOnly', abi: abi as Abi })),
+  ...[
+    compatibilityFallbackHandler_1_5_0_ContractArtifacts,
+    compatibilityFallbackHandler_1_4_1_ContractArtifacts,
+    compatibilityFallbackHandler_1_3_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'CompatibilityFallbackHandler', abi: abi as Abi })),
+  ...[
+    createCall_1_5_0_ContractArtifacts,
+    createCall_1_4_1_ContractArtifacts,
+    createCall_1_3_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'CreateCall', abi: abi as Abi })),
+  ...[
+    signMessageLib_1_5_0_ContractArtifacts,
+    signMessageLib_1_4_1_ContractArtifacts,
+    signMessageLib_1_3_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'SignMessageLib', abi: abi as Abi })),
+  ...[
+    simulateTxAccessor_1_5_0_ContractArtifacts,
+    simulateTxAccessor_1_4_1_ContractArtifacts,
+    simulateTxAccessor_1_3_0_ContractArtifacts
+  ].map(({ abi }) => ({ name: 'SimulateTxAccessor', abi: abi as Abi })),
+  {
+    name: 'SafeWebAuthnSignerFactory',
+    abi: SafeWebAuthnSignerFactory_0_2_1_ContractArtifacts.abi as Abi
+  },
+  {
+    name: 'SafeWebAuthnSharedSigner',
+    abi: SafeWebAuthnSharedSigner_0_2_1_ContractArtifacts.abi as Abi
+  }
+]
+
+export const TOKEN_ABIS: AbiRegistryEntry[] = [
+  { name: 'ERC20', abi: ERC20_ABI },
+  { name: 'ERC721', abi: ERC721_ABI },
+  { name: 'ERC1155', abi: ERC1155_ABI }
+]
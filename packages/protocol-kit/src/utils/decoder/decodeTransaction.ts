@@ -0,0 +1,161 @@
+import { decodeFunctionData } from 'viem'
+import { MetaTransactionData, OperationType, SafeTransaction } from '@safe-global/types-kit'
+import {
+  DecodedFunctionCall,
+  DecodedParameter,
+  DecodedTransaction,
+  DecodedTransactionKind,
+  DecodedValue
+} from '@safe-global/protocol-kit/types'
+import { decodeMultiSendData } from '../transactions/utils'
+import { asHex } from '../types'
+import AbiRegistry, { createDefaultAbiRegistry } from './AbiRegistry'
+import { TOKEN_ABI_NAMES } from './abis'
+
+const MULTI_SEND_SIGNATURE = 'multiSend(bytes)'
+
+const SAFE_SETTINGS_METHODS = [
+  'addOwnerWithThreshold',
+  'removeOwner',
+  'swapOwner',
+  'changeThreshold',
+  'enableModule',
+  'disableModule',
+  'setGuard',
+  'setModuleGuard',
+  'setFallbackHandler',
+  'changeMasterCopy'
+]
+
+let defaultAbiRegistry: AbiRegistry | undefined
+
+/**
+ * Decodes a Safe transaction offline into a tree that can be rendered to the signers.
+ * MultiSend batches are split and every inner transaction is decoded recursively.
+ *
+ * @param {SafeTransaction} safeTransaction - The Safe transaction to decode.
+ * @param {AbiRegistry} abiRegistry - The registry with the ABIs used for decoding. Defaults to the bundled Safe and token ABIs.
+ * @returns {DecodedTransaction} The decoded transaction.
+ */
+export function decodeSafeTransaction(
+  safeTransaction: SafeTransaction,
+  abiRegistry?: AbiRegistry
+): DecodedTransaction {
+  const { to, value, data, operation } = safeTransaction.data
+
+  return decodeTransaction({ to, value, data, operation }, abiRegistry)
+}
+
+/**
+ * Decodes a transaction offline into a tree that can be rendered to the signers.
+ * MultiSend batches are split and every inner transaction is decoded recursively.
+ *
+ * @param {MetaTransactionData} transaction - The transaction to decode.
+ * @param {AbiRegistry} abiRegistry - The registry with the ABIs used for decoding. Defaults to the bundled Safe and token ABIs.
+ * @returns {DecodedTransaction} The decoded transaction.
+ */
+export function decodeTransaction(
+  transaction: MetaTransactionData,
+  abiRegistry: AbiRegistry = getDefaultAbiRegistry()
+): DecodedTransaction {
+  const { to, value, data } = transaction
+  const operation = transaction.operation ?? OperationType.Call
+
+  if (!data || data === '0x') {
+    return { kind: 'nativeTransfer', to, value, data: '0x', operation }
+  }
+
+  const dataDecoded = decodeFunctionCall(to, data, abiRegistry)
+
+  if (!dataDecoded) {
+    return { kind: 'unknown', to, value, data, operation }
+  }
+
+  if (dataDecoded.signature === MULTI_SEND_SIGNATURE) {
+    return {
+      kind: 'multiSend',
+      to,
+      value,
+      data,
+      operation,
+      dataDecoded,
+      transactions: decodeMultiSendData(data).map((multiSendTransaction) =>
+        decodeTransaction(multiSendTransaction, abiRegistry)
+      )
+    }
+  }
+
+  return { kind: getTransactionKind(dataDecoded), to, value, data, operation, dataDecoded }
+}
+
+function decodeFunctionCall(
+  to: string,
+  data: string,
+  abiRegistry: AbiRegistry
+): DecodedFunctionCall | undefined {
+  const registeredFunction = abiRegistry.getFunction(data.slice(0, 10), to)
+
+  if (!registeredFunction) {
+    return undefined
+  }
+
+  const { abiFunction, signature, abiNames } = registeredFunction
+
+  try {
+    const { args = [] } = decodeFunctionData({ abi: [abiFunction], data: asHex(data) })
+
+    return {
+      method: abiFunction.name,
+      signature,
+      abiNames,
+      parameters: abiFunction.inputs.map(
+        (input, index): DecodedParameter => ({
+          name: input.name ?? '',
+          type: input.type,
+          value: formatDecodedValue(args[index])
+        })
+      )
+    }
+  } catch {
+    // the data matches the selector but cannot be decoded with the registered ABI
+    return undefined
+  }
+}
+
+function getTransactionKind({ method, abiNames }: DecodedFunctionCall): DecodedTransactionKind {
+  if (abiNames.includes('Safe') && SAFE_SETTINGS_METHODS.includes(method)) {
+    return 'safeSettingsChange'
+  }
+
+  if (abiNames.some((abiName) => TOKEN_ABI_NAMES.includes(abiName))) {
+    return 'tokenCall'
+  }
+
+  return 'contractCall'
+}
+
+function formatDecodedValue(value: unknown): DecodedValue {
+  if (Array.isArray(value)) {
+    return value.map(formatDecodedValue)
+  }
+
+  if (typeof value === 'boolean' || typeof value === 'string') {
+    return value
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, fieldValue]) => [key, formatDecodedValue(fieldValue)])
+    )
+  }
+
+  return String(value)
+}
+
+function getDefaultAbiRegistry(): AbiRegistry {
+  if (!defaultAbiRegistry) {
+    defaultAbiRegistry = createDefaultAbiRegistry()
+  }
+
+  return defaultAbiRegistry
+}
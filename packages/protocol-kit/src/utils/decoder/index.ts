@@ -0,0 +1,4 @@
+import AbiRegistry, { createDefaultAbiRegistry } from './AbiRegistry'
+import { decodeSafeTransaction, decodeTransaction } from './decodeTransaction'
+
+export { AbiRegistry, createDefaultAbiRegistry, decodeSafeTransaction, decodeTransaction }
@@ -0,0 +1,145 @@
+import {
+  BaseError,
+  encodeDeployData,
+  ExecutionRevertedError,
+  isErc6492Signature,
+  parseErc6492Signature,
+  serializeErc6492Signature,
+  size,
+  slice,
+  universalSignatureValidatorAbi,
+  universalSignatureValidatorByteCode
+} from 'viem'
+import { call } from 'viem/actions'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { Erc6492SignatureData } from '@safe-global/protocol-kit/types'
+import { asHash, asHex } from '../types'
+
+const UNIVERSAL_SIGNATURE_VALID = '0x01'
+
+/**
+ * Checks if an error thrown by a call is caused by the execution of the contract reverting, and not
+ * by the provider. Reverts contain the revert data or the execution reverted error of the node.
+ *
+ * @param {unknown} error - The error thrown by the call
+ * @returns {boolean} TRUE if the call reverted
+ */
+function isCallRevertedError(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    !!error.walk(
+      (cause) =>
+        cause instanceof ExecutionRevertedError ||
+        typeof (cause as { data?: unknown } | undefined)?.data === 'string'
+    )
+  )
+}
+
+/**
+ * Splits the initialization code of a predicted Safe in the SafeProxyFactory address and the
+ * encoded call to deploy the Safe.
+ *
+ * @param {string} initCode - The initialization code returned by `getPredictedSafeAddressInitCode`
+ * @returns {Pick<Erc6492SignatureData, 'factoryAddress' | 'factoryData'>} The factory address and data
+ * @throws "Invalid Safe initialization code"
+ */
+export function splitSafeInitCode(
+  initCode: string
+): Pick<Erc6492SignatureData, 'factoryAddress' | 'factoryData'> {
+  const initCodeHex = asHex(initCode)
+
+  if (size(initCodeHex) <= 20) {
+    throw new Error('Invalid Safe initialization code')
+  }
+
+  return {
+    factoryAddress: slice(initCodeHex, 0, 20),
+    factoryData: slice(initCodeHex, 20)
+  }
+}
+
+/**
+ * Wraps a signature in the EIP-6492 envelope, so it can be validated before the signer contract
+ * is deployed.
+ *
+ * @param {Erc6492SignatureData} signatureData - The factory deploying the signer and the inner signature
+ * @returns {string} The EIP-6492 signature
+ * @link https://eips.ethereum.org/EIPS/eip-6492
+ */
+export function buildErc6492Signature({
+  factoryAddress,
+  factoryData,
+  signature
+}: Erc6492SignatureData): string {
+  return serializeErc6492Signature({
+    address: asHex(factoryAddress),
+    data: asHex(factoryData),
+    signature: asHex(signature)
+  })
+}
+
+/**
+ * Checks if a signature is wrapped in the EIP-6492 envelope.
+ *
+ * @param {string} signature - The signature
+ * @returns {boolean} TRUE if the signature ends with the EIP-6492 magic bytes
+ */
+export function isErc6492WrappedSignature(signature: string): boolean {
+  return isErc6492Signature(asHex(signature))
+}
+
+/**
+ * Returns the factory address, the factory data and the inner signature of an EIP-6492 signature.
+ *
+ * @param {string} signature - The EIP-6492 signature
+ * @returns {Erc6492SignatureData} The content of the EIP-6492 envelope
+ * @throws "The signature is not an EIP-6492 signature"
+ */
+export function parseErc6492WrappedSignature(signature: string): Erc6492SignatureData {
+  const { address, data, signature: innerSignature } = parseErc6492Signature(asHex(signature))
+
+  if (!address || !data) {
+    throw new Error('The signature is not an EIP-6492 signature')
+  }
+
+  return { factoryAddress: address, factoryData: data, signature: innerSignature }
+}
+
+/**
+ * Verifies an EIP-6492, EIP-1271 or ECDSA signature with the universal signature validator.
+ * The validator contract is not deployed, its deployment is simulated with an `eth_call`, which
+ * deploys the signer with the factory if required before checking the signature.
+ * The validator reverts if the signer can not be deployed or rejects the signature, so the reverts
+ * are returned as invalid signatures. Other errors, like the network errors of the provider, are thrown.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider of the chain where the signature is checked
+ * @param {string} signer - The address of the signer
+ * @param {string} hash - The signed hash
+ * @param {string} signature - The signature
+ * @returns {Promise<boolean>} TRUE if the signature is valid
+ * @link https://eips.ethereum.org/EIPS/eip-6492#reference-implementation
+ */
+export async function isValidUniversalSignature(
+  safeProvider: SafeProvider,
+  signer: string,
+  hash: string,
+  signature: string
+): Promise<boolean> {
+  const data = encodeDeployData({
+    abi: universalSignatureValidatorAbi,
+    bytecode: universalSignatureValidatorByteCode,
+    args: [asHex(signer), asHash(hash), asHex(signature)]
+  })
+
+  try {
+    const { data: result } = await call(safeProvider.getExternalProvider(), { data })
+
+    return result === UNIVERSAL_SIGNATURE_VALID
+  } catch (error) {
+    if (isCallRevertedError(error)) {
+      return false
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,175 @@
+import { decodeAbiParameters, Hex, parseAbiParameters } from 'viem'
+import {
+  SafeEvent,
+  SafeEventArgs,
+  SafeEventLocation,
+  SafeEventOf,
+  SafeHistoryItem,
+  SafeHistoryModuleTransaction,
+  SafeHistoryMultisigTransaction,
+  SafeMultisigHistoryTransaction
+} from '@safe-global/protocol-kit/types'
+
+const getLocation = ({
+  address,
+  blockNumber,
+  transactionHash,
+  logIndex
+}: SafeEvent): SafeEventLocation => ({ address, blockNumber, transactionHash, logIndex })
+
+const findLastEvent = <K extends SafeEvent['eventName']>(
+  events: SafeEvent[],
+  eventName: K
+): SafeEventOf<K> | undefined =>
+  [...events].reverse().find((event): event is SafeEventOf<K> => event.eventName === eventName)
+
+function getMultisigTransaction(
+  args: SafeEventArgs['SafeMultiSigTransaction']
+): SafeMultisigHistoryTransaction {
+  // The additionalInfo contains the nonce, the executor and the threshold
+  const [nonce, executor] = decodeAbiParameters(
+    parseAbiParameters('uint256, address, uint256'),
+    args.additionalInfo as Hex
+  )
+
+  return {
+    to: args.to,
+    value: args.value.toString(),
+    data: args.data,
+    operation: args.operation,
+    safeTxGas: args.safeTxGas.toString(),
+    baseGas: args.baseGas.toString(),
+    gasPrice: args.gasPrice.toString(),
+    gasToken: args.gasToken,
+    refundReceiver: args.refundReceiver,
+    nonce: Number(nonce),
+    signatures: args.signatures,
+    executor
+  }
+}
+
+function createMultisigTransaction(
+  execution: SafeEventOf<'ExecutionSuccess' | 'ExecutionFailure'>,
+  events: SafeEvent[]
+): SafeHistoryMultisigTransaction {
+  const multisigTransaction = findLastEvent(events, 'SafeMultiSigTransaction')
+
+  return {
+    txType: 'MULTISIG_TRANSACTION',
+    ...getLocation(execution),
+    safeTxHash: execution.args.txHash,
+    isSuccessful: execution.eventName === 'ExecutionSuccess',
+    payment: execution.args.payment,
+    transaction: multisigTransaction && getMultisigTransaction(multisigTransaction.args),
+    events: [...events, execution]
+  }
+}
+
+function createModuleTransaction(
+  execution: SafeEventOf<'ExecutionFromModuleSuccess' | 'ExecutionFromModuleFailure'>,
+  events: SafeEvent[]
+): SafeHistoryModuleTransaction {
+  const moduleTransaction = findLastEvent(events, 'SafeModuleTransaction')
+
+  return {
+    txType: 'MODULE_TRANSACTION',
+    ...getLocation(execution),
+    module: execution.args.module,
+    isSuccessful: execution.eventName === 'ExecutionFromModuleSuccess',
+    transaction: moduleTransaction && {
+      to: moduleTransaction.args.to,
+      value: moduleTransaction.args.value.toString(),
+      data: moduleTransaction.args.data,
+      operation: moduleTransaction.args.operation
+    },
+    events: [...events, execution]
+  }
+}
+
+// The events not followed by an execution event are hash approvals made directly by the owners
+// or, for Safes that do not emit execution events (v1.0.0), the changes made by transactions
+function createUnmatchedItems(events: SafeEvent[]): SafeHistoryItem[] {
+  const items: SafeHistoryItem[] = []
+  const otherEvents: SafeEvent[] = []
+
+  events.forEach((event) => {
+    if (event.eventName === 'ApproveHash') {
+      items.push({
+        txType: 'HASH_APPROVAL',
+        ...getLocation(event),
+        approvedHash: event.args.approvedHash,
+        owner: event.args.owner,
+        events: [event]
+      })
+    } else {
+      otherEvents.push(event)
+    }
+  })
+
+  if (otherEvents.length > 0) {
+    items.push({ txType: 'OTHER', ...getLocation(otherEvents[0]), events: otherEvents })
+  }
+
+  return items
+}
+
+/**
+ * Builds the history of a Safe from its events. The events emitted by the same transaction are
+ * grouped in the item of the execution event that follows them, as the Safe emits the execution
+ * event after the events of the executed call.
+ *
+ * @param {SafeEvent[]} events - The events of the Safe, in the order they were emitted
+ * @returns {SafeHistoryItem[]} The history of the Safe, in the order it happened
+ */
+export function buildSafeHistory(events: SafeEvent[]): SafeHistoryItem[] {
+  const history: SafeHistoryItem[] = []
+  let pendingEvents: SafeEvent[] = []
+  let transactionHash: string | undefined
+
+  for (const event of events) {
+    if (event.transactionHash !== transactionHash) {
+      history.push(...createUnmatchedItems(pendingEvents))
+      pendingEvents = []
+      transactionHash = event.transactionHash
+    }
+
+    switch (event.eventName) {
+      case 'ExecutionSuccess':
+      case 'ExecutionFailure':
+        history.push(createMultisigTransaction(event, pendingEvents))
+        pendingEvents = []
+        break
+      case 'ExecutionFromModuleSuccess':
+      case 'ExecutionFromModuleFailure':
+        history.push(createModuleTransaction(event, pendingEvents))
+        pendingEvents = []
+        break
+      case 'SafeSetup':
+        history.push({
+          txType: 'CREATION',
+          ...getLocation(event),
+          initiator: event.args.initiator,
+          owners: event.args.owners,
+          threshold: event.args.threshold,
+          events: [...pendingEvents, event]
+        })
+        pendingEvents = []
+        break
+      case 'SafeReceived':
+        history.push({
+          txType: 'INCOMING_TRANSFER',
+          ...getLocation(event),
+          sender: event.args.sender,
+          value: event.args.value,
+          events: [event]
+        })
+        break
+      default:
+        pendingEvents.push(event)
+    }
+  }
+
+  history.push(...createUnmatchedItems(pendingEvents))
+
+  return history
+}
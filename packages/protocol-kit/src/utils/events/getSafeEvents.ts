@@ -0,0 +1,69 @@
+import { Log } from 'viem'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { GetSafeEventsOptions, SafeEvent } from '@safe-global/protocol-kit/types'
+import { decodeSafeEventLog } from './safeEvents'
+
+const DEFAULT_BLOCK_RANGE = 10_000n
+
+// The RPC providers limit the number of blocks or logs returned by eth_getLogs, so the block
+// range of a failed request is split in half until a single block is requested
+async function getLogsInRange(
+  safeProvider: SafeProvider,
+  safeAddress: string,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<Log[]> {
+  try {
+    return await safeProvider.getLogs(safeAddress, fromBlock, toBlock)
+  } catch (error) {
+    if (fromBlock === toBlock) {
+      throw error
+    }
+
+    const middleBlock = (fromBlock + toBlock) / 2n
+
+    return [
+      ...(await getLogsInRange(safeProvider, safeAddress, fromBlock, middleBlock)),
+      ...(await getLogsInRange(safeProvider, safeAddress, middleBlock + 1n, toBlock))
+    ]
+  }
+}
+
+/**
+ * Returns the events emitted by a Safe reading the logs from the RPC, without using the Safe
+ * Transaction Service. The blocks from fromBlock are read in pages of blockRange blocks.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} safeAddress - The address of the Safe
+ * @param {GetSafeEventsOptions} options - The block range and the events to read
+ * @returns {Promise<SafeEvent[]>} The decoded events, in the order they were emitted
+ * @throws "The block range must be greater than 0"
+ */
+export async function getSafeEvents(
+  safeProvider: SafeProvider,
+  safeAddress: string,
+  { fromBlock, toBlock, blockRange = DEFAULT_BLOCK_RANGE, eventNames }: GetSafeEventsOptions
+): Promise<SafeEvent[]> {
+  if (blockRange <= 0n) {
+    throw new Error('The block range must be greater than 0')
+  }
+
+  const lastBlock = toBlock ?? (await safeProvider.getBlockNumber())
+  const events: SafeEvent[] = []
+
+  for (let startBlock = fromBlock; startBlock <= lastBlock; startBlock += blockRange) {
+    const endBlock =
+      startBlock + blockRange - 1n < lastBlock ? startBlock + blockRange - 1n : lastBlock
+    const logs = await getLogsInRange(safeProvider, safeAddress, startBlock, endBlock)
+
+    logs.forEach((log) => {
+      const event = decodeSafeEventLog(log)
+
+      if (event && (!eventNames || eventNames.includes(event.eventName))) {
+        events.push(event)
+      }
+    })
+  }
+
+  return events
+}
@@ -0,0 +1,4 @@
+export * from './buildSafeHistory'
+export * from './getSafeEvents'
+export * from './safeEvents'
+export * from './watchSafeEvents'
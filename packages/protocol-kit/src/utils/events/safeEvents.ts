@@ -0,0 +1,126 @@
+import { Abi, AbiEvent, decodeEventLog, Log, toEventSelector } from 'viem'
+import {
+  safe_1_0_0_ContractArtifacts,
+  safe_1_1_1_ContractArtifacts,
+  safe_1_2_0_ContractArtifacts,
+  safe_1_3_0_ContractArtifacts,
+  safe_1_4_1_ContractArtifacts,
+  safe_1_5_0_ContractArtifacts
+} from '@safe-global/types-kit'
+import { SafeEvent, SafeEventName } from '@safe-global/protocol-kit/types'
+
+// Events renamed in later versions of the Safe contracts
+const LEGACY_EVENT_NAMES: Record<string, SafeEventName> = {
+  ExecutionFailed: 'ExecutionFailure'
+}
+
+const SAFE_EVENT_NAMES: SafeEventName[] = [
+  'SafeSetup',
+  'SafeMultiSigTransaction',
+  'SafeModuleTransaction',
+  'ExecutionSuccess',
+  'ExecutionFailure',
+  'ExecutionFromModuleSuccess',
+  'ExecutionFromModuleFailure',
+  'AddedOwner',
+  'RemovedOwner',
+  'ChangedThreshold',
+  'EnabledModule',
+  'DisabledModule',
+  'ChangedGuard',
+  'ChangedModuleGuard',
+  'ChangedFallbackHandler',
+  'ChangedMasterCopy',
+  'SafeReceived',
+  'ApproveHash',
+  'SignMsg'
+]
+
+const getEventName = (name: string): SafeEventName | undefined => {
+  const eventName = LEGACY_EVENT_NAMES[name] ?? name
+  return SAFE_EVENT_NAMES.includes(eventName as SafeEventName)
+    ? (eventName as SafeEventName)
+    : undefined
+}
+
+// Some events have the same signature but different indexed parameters depending on the Safe
+// version, so the events of every version are kept and tried in order when decoding a log
+const SAFE_EVENTS: AbiEvent[] = [
+  safe_1_5_0_ContractArtifacts,
+  safe_1_4_1_ContractArtifacts,
+  safe_1_3_0_ContractArtifacts,
+  safe_1_2_0_ContractArtifacts,
+  safe_1_1_1_ContractArtifacts,
+  safe_1_0_0_ContractArtifacts
+]
+  .flatMap(({ abi }) => (abi as Abi).filter((item): item is AbiEvent => item.type === 'event'))
+  .filter((event) => getEventName(event.name))
+  .filter(
+    (event, index, events) =>
+      events.findIndex((e) => JSON.stringify(e) === JSON.stringify(event)) === index
+  )
+
+const SAFE_EVENTS_BY_SELECTOR = SAFE_EVENTS.reduce<Record<string, AbiEvent[]>>(
+  (eventsBySelector, event) => {
+    const selector = toEventSelector(event)
+    eventsBySelector[selector] = [...(eventsBySelector[selector] ?? []), event]
+    return eventsBySelector
+  },
+  {}
+)
+
+// The integers used as counters are returned as numbers, like in the rest of the SDK
+const normalizeArgs = (eventName: SafeEventName, args: Record<string, unknown>) => {
+  switch (eventName) {
+    case 'ExecutionFailure':
+      return { payment: 0n, ...args }
+    case 'ChangedThreshold':
+    case 'SafeSetup':
+      return { ...args, threshold: Number(args.threshold) }
+    default:
+      return args
+  }
+}
+
+/**
+ * Decodes a log emitted by a Safe of any supported version. The ExecutionFailed event of the
+ * Safe v1.0.0 is returned as an ExecutionFailure event without payment.
+ *
+ * @param {Log} log - The log
+ * @returns {SafeEvent | undefined} The decoded event, or undefined if the log is not a Safe event or is pending
+ */
+export function decodeSafeEventLog(log: Log): SafeEvent | undefined {
+  const [selector] = log.topics
+
+  if (
+    !selector ||
+    log.blockNumber === null ||
+    log.transactionHash === null ||
+    log.logIndex === null
+  ) {
+    return undefined
+  }
+
+  for (const event of SAFE_EVENTS_BY_SELECTOR[selector] ?? []) {
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi: [event],
+        topics: log.topics,
+        data: log.data,
+        strict: true
+      })
+      const safeEventName = getEventName(eventName) as SafeEventName
+
+      return {
+        address: log.address,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        eventName: safeEventName,
+        args: normalizeArgs(safeEventName, args as Record<string, unknown>)
+      } as SafeEvent
+    } catch {}
+  }
+
+  return undefined
+}
@@ -0,0 +1,99 @@
+import { Log } from 'viem'
+import { watchEvent } from 'viem/actions'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { SafeEvent, WatchSafeEventsProps } from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+import { decodeSafeEventLog } from './safeEvents'
+
+// Number of blocks a delivered log is remembered to ignore it if it is delivered again
+const REORG_DEPTH = 128n
+
+// A log is identified by its block and position, so the logs of a transaction included again in a
+// different block after a reorg are delivered again
+const getLogKey = ({ blockHash, logIndex }: Log): string => `${blockHash}:${logIndex}`
+
+function dispatchSafeEvent(event: SafeEvent, handlers: WatchSafeEventsProps): void {
+  switch (event.eventName) {
+    case 'ExecutionSuccess':
+    case 'ExecutionFailure':
+    case 'ExecutionFromModuleSuccess':
+    case 'ExecutionFromModuleFailure':
+      return handlers.onExecution?.(event)
+    case 'AddedOwner':
+    case 'RemovedOwner':
+    case 'ChangedThreshold':
+      return handlers.onOwnerChange?.(event)
+    case 'EnabledModule':
+    case 'DisabledModule':
+      return handlers.onModuleChange?.(event)
+    case 'SafeReceived':
+      return handlers.onIncomingEth?.(event)
+    case 'ApproveHash':
+      return handlers.onApproveHash?.(event)
+  }
+}
+
+/**
+ * Watches the events emitted by a Safe. The events are received with an eth_subscribe
+ * subscription if the provider is a websocket, and by polling the new blocks otherwise.
+ * Each log is delivered only once. When a reorg removes a delivered log, onReorg is called with
+ * its event, and the event is delivered again if its transaction is included in a new block.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} safeAddress - The address of the Safe
+ * @param {WatchSafeEventsProps} props - The handlers of the events and the polling interval
+ * @returns {() => void} A function to stop watching the events
+ */
+export function watchSafeEvents(
+  safeProvider: SafeProvider,
+  safeAddress: string,
+  { pollingInterval, onError, onReorg, ...handlers }: WatchSafeEventsProps
+): () => void {
+  const deliveredLogs = new Map<string, bigint>()
+  let latestBlock = 0n
+
+  const onLog = (log: Log) => {
+    const key = getLogKey(log)
+
+    if (log.removed) {
+      if (deliveredLogs.delete(key)) {
+        const event = decodeSafeEventLog(log)
+
+        if (event) {
+          onReorg?.(event)
+        }
+      }
+      return
+    }
+
+    if (deliveredLogs.has(key)) {
+      return
+    }
+
+    const event = decodeSafeEventLog(log)
+
+    if (!event) {
+      return
+    }
+
+    deliveredLogs.set(key, event.blockNumber)
+
+    if (event.blockNumber > latestBlock) {
+      latestBlock = event.blockNumber
+      deliveredLogs.forEach((blockNumber, deliveredKey) => {
+        if (blockNumber + REORG_DEPTH < latestBlock) {
+          deliveredLogs.delete(deliveredKey)
+        }
+      })
+    }
+
+    dispatchSafeEvent(event, handlers)
+  }
+
+  return watchEvent(safeProvider.getExternalProvider(), {
+    address: asHex(safeAddress),
+    pollingInterval,
+    onLogs: (logs) => logs.forEach(onLog),
+    onError
+  })
+}
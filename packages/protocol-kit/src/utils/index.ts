@@ -1,7 +1,16 @@
 export * from './address'
+export * from './decoder'
 export * from './eip-3770'
 export * from './eip-712'
+export * from './eip-6492'
+export * from './events'
 export * from './safeVersions'
 export * from './signatures'
 export * from './transactions'
+export * from './migration'
+export * from './multicall'
+export * from './owners'
 export * from './passkeys'
+export * from './predictedSafe'
+export * from './replication'
+export * from './risk'
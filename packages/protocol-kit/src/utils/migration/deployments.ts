@@ -0,0 +1,45 @@
+import { SafeVersion } from '@safe-global/types-kit'
+import {
+  getContractDeployment,
+  safeDeploymentsVersions
+} from '@safe-global/protocol-kit/contracts/config'
+import { DeploymentType } from '@safe-global/protocol-kit/types'
+
+type MigrationContractName = 'safeMigrationVersion' | 'safeToL2MigrationVersion'
+
+/**
+ * Returns the address of a migration contract from the Safe deployments.
+ *
+ * @param {MigrationContractName} contractName - The name of the migration contract
+ * @param {SafeVersion} safeVersion - The version of the Safe the migration contract is used with
+ * @param {bigint} chainId - The chainId of the chain
+ * @param {DeploymentType} deploymentType - The deployment type of the Safe contracts
+ * @returns {string | undefined} The address of the migration contract
+ */
+export function getMigrationContractAddress(
+  contractName: MigrationContractName,
+  safeVersion: SafeVersion,
+  chainId: bigint,
+  deploymentType?: DeploymentType
+): string | undefined {
+  // Without a version, the latest deployment of the contract would be returned
+  if (!safeDeploymentsVersions[safeVersion][contractName]) {
+    return undefined
+  }
+
+  const deployment = getContractDeployment(safeVersion, chainId, contractName)
+  const networkAddresses = deployment?.networkAddresses[chainId.toString()]
+
+  if (!networkAddresses) {
+    return undefined
+  }
+
+  const addresses = typeof networkAddresses === 'string' ? [networkAddresses] : networkAddresses
+
+  if (deploymentType && deployment && 'deployments' in deployment) {
+    const deploymentTypeAddress = deployment.deployments[deploymentType]?.address
+    return addresses.find((address) => address === deploymentTypeAddress)
+  }
+
+  return addresses[0]
+}
@@ -0,0 +1,2 @@
+export * from './safeToL2Migration'
+export * from './safeUpgrade'
@@ -0,0 +1,43 @@
+import { encodeFunctionData, parseAbi } from 'viem'
+import { SafeVersion } from '@safe-global/types-kit'
+import { ContractNetworkConfig, DeploymentType } from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+import { getMigrationContractAddress } from './deployments'
+
+const SAFE_TO_L2_MIGRATION_ABI = parseAbi(['function migrateToL2(address l2Singleton)'])
+
+/**
+ * Returns the address of the SafeToL2Migration contract that migrates Safes with the given version
+ * from the L1 to the L2 singleton.
+ *
+ * @param {SafeVersion} safeVersion - The version of the Safe
+ * @param {bigint} chainId - The chainId of the chain
+ * @param {ContractNetworkConfig} customContracts - The custom contracts of the chain
+ * @param {DeploymentType} deploymentType - The deployment type of the Safe contracts
+ * @returns {string | undefined} The address of the SafeToL2Migration contract
+ */
+export function getSafeToL2MigrationAddress(
+  safeVersion: SafeVersion,
+  chainId: bigint,
+  customContracts?: ContractNetworkConfig,
+  deploymentType?: DeploymentType
+): string | undefined {
+  return (
+    customContracts?.safeToL2MigrationAddress ??
+    getMigrationContractAddress('safeToL2MigrationVersion', safeVersion, chainId, deploymentType)
+  )
+}
+
+/**
+ * Encodes the call to the SafeToL2Migration contract that migrates a Safe to the L2 singleton.
+ *
+ * @param {string} l2SingletonAddress - The address of the L2 singleton with the same version as the Safe
+ * @returns {string} The encoded call
+ */
+export function encodeSafeToL2MigrationData(l2SingletonAddress: string): string {
+  return encodeFunctionData({
+    abi: SAFE_TO_L2_MIGRATION_ABI,
+    functionName: 'migrateToL2',
+    args: [asHex(l2SingletonAddress)]
+  })
+}
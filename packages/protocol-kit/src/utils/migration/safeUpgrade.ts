@@ -0,0 +1,176 @@
+import { encodeFunctionData, parseAbi } from 'viem'
+import semverSatisfies from 'semver/functions/satisfies.js'
+import { getSafe4337ModuleDeployment } from '@safe-global/safe-modules-deployments'
+import { SafeTransactionData, SafeVersion } from '@safe-global/types-kit'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { ContractNetworkConfig, DeploymentType } from '@safe-global/protocol-kit/types'
+import { sameString } from '../address'
+import { asHex } from '../types'
+import { getMigrationContractAddress } from './deployments'
+
+const SAFE_MIGRATION_ABI = parseAbi([
+  'function migrateSingleton()',
+  'function migrateWithFallbackHandler()',
+  'function migrateL2Singleton()',
+  'function migrateL2WithFallbackHandler()'
+])
+
+const SAFE_MASTER_COPY_ABI = parseAbi(['function changeMasterCopy(address _masterCopy)'])
+
+const SAFE_FALLBACK_HANDLER_ABI = parseAbi(['function setFallbackHandler(address handler)'])
+
+const SAFE_GUARD_ABI = parseAbi([
+  'function checkTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures, address msgSender)'
+])
+
+// The modules that require a minimum version of the Safe singleton
+const MODULES_SAFE_VERSION_REQUIREMENTS = [
+  {
+    getDeployment: getSafe4337ModuleDeployment,
+    versions: ['0.2.0', '0.3.0'],
+    safeVersion: '>=1.4.1'
+  }
+]
+
+/**
+ * Returns the address of the SafeMigration contract that migrates Safes to the target version.
+ *
+ * @param {SafeVersion} targetVersion - The version of the Safe singleton after the migration
+ * @param {bigint} chainId - The chainId of the chain
+ * @param {ContractNetworkConfig} customContracts - The custom contracts of the chain
+ * @param {DeploymentType} deploymentType - The deployment type of the Safe contracts
+ * @returns {string | undefined} The address of the SafeMigration contract
+ */
+export function getSafeMigrationAddress(
+  targetVersion: SafeVersion,
+  chainId: bigint,
+  customContracts?: ContractNetworkConfig,
+  deploymentType?: DeploymentType
+): string | undefined {
+  return (
+    customContracts?.safeMigrationAddress ??
+    getMigrationContractAddress('safeMigrationVersion', targetVersion, chainId, deploymentType)
+  )
+}
+
+/**
+ * Encodes the call to the SafeMigration contract that migrates a Safe to the singleton of the contract.
+ *
+ * @param {boolean} l2 - Whether the Safe is migrated to the L2 version of the Safe singleton
+ * @param {boolean} updateFallbackHandler - Whether the fallback handler is also updated
+ * @returns {string} The encoded call
+ */
+export function encodeSafeMigrationData(l2: boolean, updateFallbackHandler: boolean): string {
+  const functionName = l2
+    ? updateFallbackHandler
+      ? 'migrateL2WithFallbackHandler'
+      : 'migrateL2Singleton'
+    : updateFallbackHandler
+      ? 'migrateWithFallbackHandler'
+      : 'migrateSingleton'
+
+  return encodeFunctionData({ abi: SAFE_MIGRATION_ABI, functionName })
+}
+
+/**
+ * Encodes the call to the changeMasterCopy method available in Safes with version lower than v1.3.0.
+ *
+ * @param {string} singletonAddress - The address of the new Safe singleton
+ * @returns {string} The encoded call
+ */
+export function encodeChangeMasterCopyData(singletonAddress: string): string {
+  return encodeFunctionData({
+    abi: SAFE_MASTER_COPY_ABI,
+    functionName: 'changeMasterCopy',
+    args: [asHex(singletonAddress)]
+  })
+}
+
+/**
+ * Encodes the call to the setFallbackHandler method. It is used instead of the FallbackHandlerManager
+ * because the method is called on the new singleton after changing the master copy.
+ *
+ * @param {string} fallbackHandlerAddress - The address of the new fallback handler
+ * @returns {string} The encoded call
+ */
+export function encodeSetFallbackHandlerData(fallbackHandlerAddress: string): string {
+  return encodeFunctionData({
+    abi: SAFE_FALLBACK_HANDLER_ABI,
+    functionName: 'setFallbackHandler',
+    args: [asHex(fallbackHandlerAddress)]
+  })
+}
+
+/**
+ * Checks if the guard of a Safe accepts a transaction by calling its checkTransaction method from the Safe.
+ * The signatures are not provided, so guards that check them can reject the transaction.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider of the chain
+ * @param {string} guardAddress - The address of the guard
+ * @param {string} safeAddress - The address of the Safe
+ * @param {SafeTransactionData} safeTransactionData - The Safe transaction
+ * @param {string} executor - The address expected to execute the transaction
+ * @returns {Promise<boolean>} Whether the guard accepts the transaction
+ */
+export async function isTransactionAllowedByGuard(
+  safeProvider: SafeProvider,
+  guardAddress: string,
+  safeAddress: string,
+  safeTransactionData: SafeTransactionData,
+  executor: string
+): Promise<boolean> {
+  const { to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver } =
+    safeTransactionData
+
+  return safeProvider
+    .call({
+      from: safeAddress,
+      to: guardAddress,
+      data: encodeFunctionData({
+        abi: SAFE_GUARD_ABI,
+        functionName: 'checkTransaction',
+        args: [
+          asHex(to),
+          BigInt(value),
+          asHex(data),
+          operation,
+          BigInt(safeTxGas),
+          BigInt(baseGas),
+          BigInt(gasPrice),
+          asHex(gasToken),
+          asHex(refundReceiver),
+          '0x',
+          asHex(executor)
+        ]
+      })
+    })
+    .then(() => true)
+    .catch(() => false)
+}
+
+/**
+ * Returns the enabled modules of a Safe that are not compatible with the target version of the
+ * Safe singleton. Only the modules with known requirements, like the Safe4337Module, are checked.
+ *
+ * @param {string[]} modules - The enabled modules of the Safe
+ * @param {SafeVersion} targetVersion - The version of the Safe singleton after the upgrade
+ * @param {bigint} chainId - The chainId of the chain
+ * @returns {string[]} The modules not compatible with the target version
+ */
+export function getIncompatibleModules(
+  modules: string[],
+  targetVersion: SafeVersion,
+  chainId: bigint
+): string[] {
+  const network = chainId.toString()
+
+  return modules.filter((module) =>
+    MODULES_SAFE_VERSION_REQUIREMENTS.some(
+      ({ getDeployment, versions, safeVersion }) =>
+        !semverSatisfies(targetVersion, safeVersion) &&
+        versions.some((version) =>
+          sameString(getDeployment({ version, network })?.networkAddresses[network], module)
+        )
+    )
+  )
+}
@@ -0,0 +1,85 @@
+import { size } from 'viem'
+import { MulticallCall, MulticallOptions, MulticallResult } from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+
+const DEFAULT_BATCH_SIZE = 1024
+
+type PendingCall = {
+  call: MulticallCall
+  resolve: (result: MulticallResult) => void
+  reject: (error: unknown) => void
+}
+
+type BatchOptions = Omit<MulticallOptions, 'multicallAddress'>
+
+/**
+ * Collects the calls scheduled during the configured wait time, the same tick by default, and
+ * executes them together with the given aggregate function. A batch is split when the size of
+ * its calldata exceeds the batch size.
+ */
+export class MulticallBatcher {
+  #aggregate: (calls: MulticallCall[]) => Promise<MulticallResult[]>
+  #batchSize: number
+  #wait: number
+  #pendingCalls: PendingCall[] = []
+  #timeout?: ReturnType<typeof setTimeout>
+
+  constructor(
+    aggregate: (calls: MulticallCall[]) => Promise<MulticallResult[]>,
+    { batchSize = DEFAULT_BATCH_SIZE, wait = 0 }: BatchOptions = {}
+  ) {
+    this.#aggregate = aggregate
+    this.#batchSize = batchSize
+    this.#wait = wait
+  }
+
+  /**
+   * Schedules a call to be executed in the next batch.
+   *
+   * @param {MulticallCall} call - The call
+   * @returns {Promise<MulticallResult>} The result of the call
+   */
+  schedule(call: MulticallCall): Promise<MulticallResult> {
+    return new Promise((resolve, reject) => {
+      this.#pendingCalls.push({ call, resolve, reject })
+
+      if (!this.#timeout) {
+        this.#timeout = setTimeout(() => this.#flush(), this.#wait)
+      }
+    })
+  }
+
+  #flush(): void {
+    const pendingCalls = this.#pendingCalls
+    this.#pendingCalls = []
+    this.#timeout = undefined
+
+    const batches: PendingCall[][] = []
+    let batchCalldataSize = 0
+
+    for (const pendingCall of pendingCalls) {
+      const calldataSize = size(asHex(pendingCall.call.data))
+      const currentBatch = batches[batches.length - 1]
+
+      if (!currentBatch || batchCalldataSize + calldataSize > this.#batchSize) {
+        batches.push([pendingCall])
+        batchCalldataSize = calldataSize
+      } else {
+        currentBatch.push(pendingCall)
+        batchCalldataSize += calldataSize
+      }
+    }
+
+    batches.forEach((batch) => this.#execute(batch))
+  }
+
+  async #execute(batch: PendingCall[]): Promise<void> {
+    try {
+      const results = await this.#aggregate(batch.map(({ call }) => call))
+
+      batch.forEach(({ resolve }, index) => resolve(results[index]))
+    } catch (error) {
+      batch.forEach(({ reject }) => reject(error))
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { decodeFunctionResult } from 'viem'
+import { SafeVersion } from '@safe-global/types-kit'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { DEFAULT_SAFE_VERSION, getContractInfo } from '@safe-global/protocol-kit/contracts/config'
+import {
+  GetSafeConfigurationsProps,
+  MulticallCall,
+  MulticallResult,
+  SafeConfigurationResult
+} from '@safe-global/protocol-kit/types'
+import { FALLBACK_HANDLER_STORAGE_SLOT, GUARD_STORAGE_SLOT, ZERO_ADDRESS } from '../constants'
+import { hasSafeFeature, SAFE_FEATURES } from '../safeVersions'
+import { asHex } from '../types'
+import {
+  decodeSafeConfiguration,
+  decodeStorageAddress,
+  encodeGetModulesCall,
+  encodeGetStorageAtCall,
+  encodeSafeCall,
+  SAFE_STATE_ABI
+} from './safeCalls'
+
+type IndexedSafe = { index: number; chainId: string; address: string }
+
+// Each Safe adds 8 calls to the Multicall3 call, so a chunk of 50 Safes stays within the usual
+// limits of the RPC providers
+const DEFAULT_SAFES_PER_CALL = 50
+
+// The version of the Safes is not known before reading them, so the modules are read with the
+// getModulesPaginated method and the modules of Safes v1.0.0 are read after decoding their version
+function encodeSafeConfigurationCalls(safeAddress: string): MulticallCall[] {
+  return [
+    encodeSafeCall(safeAddress, 'VERSION'),
+    encodeSafeCall(safeAddress, 'masterCopy'),
+    encodeSafeCall(safeAddress, 'getOwners'),
+    encodeSafeCall(safeAddress, 'getThreshold'),
+    encodeSafeCall(safeAddress, 'nonce'),
+    encodeGetModulesCall(safeAddress, DEFAULT_SAFE_VERSION),
+    encodeGetStorageAtCall(safeAddress, GUARD_STORAGE_SLOT),
+    encodeGetStorageAtCall(safeAddress, FALLBACK_HANDLER_STORAGE_SLOT)
+  ]
+}
+
+const CALLS_PER_SAFE = encodeSafeConfigurationCalls(ZERO_ADDRESS).length
+
+const isSuccessful = ({ success, returnData }: MulticallResult): boolean =>
+  success && returnData !== '0x'
+
+async function decodeSafeConfigurationResults(
+  safeProvider: SafeProvider,
+  { chainId, address }: IndexedSafe,
+  results: MulticallResult[]
+): Promise<SafeConfigurationResult> {
+  const [version, singleton, owners, threshold, nonce, modules, guard, fallbackHandler] = results
+
+  if (![version, owners, threshold, nonce].every(isSuccessful)) {
+    return { chainId, address, error: `The address ${address} is not a Safe` }
+  }
+
+  const safeVersion = decodeFunctionResult({
+    abi: SAFE_STATE_ABI,
+    functionName: 'VERSION',
+    data: asHex(version.returnData)
+  }) as SafeVersion
+
+  // The SafeProxy of Safes v1.0.0 does not have the masterCopy method, so the singleton is read
+  // from the first storage slot of the proxy
+  const singletonAddress = isSuccessful(singleton)
+    ? decodeFunctionResult({
+        abi: SAFE_STATE_ABI,
+        functionName: 'masterCopy',
+        data: asHex(singleton.returnData)
+      })
+    : await safeProvider.getStorageAt(address, '0x0')
+  const singletonInfo = getContractInfo(singletonAddress)
+
+  if (
+    singletonInfo?.contractName !== 'safeSingletonVersion' &&
+    singletonInfo?.contractName !== 'safeSingletonL2Version'
+  ) {
+    return {
+      chainId,
+      address,
+      error: `The Safe singleton ${singletonAddress} is not a known Safe deployment`
+    }
+  }
+
+  // The getModulesPaginated method is not available in Safes v1.0.0, so their modules are read
+  // with a separate getModules call
+  let modulesData = modules.returnData
+  if (!isSuccessful(modules)) {
+    const { data } = encodeGetModulesCall(address, safeVersion)
+    modulesData = await safeProvider.call({ from: address, to: address, data })
+  }
+
+  // The getStorageAt method is only available in Safes >= v1.3.0
+  let fallbackHandlerAddress = ZERO_ADDRESS as string
+  if (isSuccessful(fallbackHandler)) {
+    fallbackHandlerAddress = decodeStorageAddress(asHex(fallbackHandler.returnData))
+  } else if (hasSafeFeature(SAFE_FEATURES.SAFE_FALLBACK_HANDLER, safeVersion)) {
+    fallbackHandlerAddress = await safeProvider.getStorageAt(address, FALLBACK_HANDLER_STORAGE_SLOT)
+  }
+
+  return {
+    chainId,
+    address,
+    configuration: {
+      chainId,
+      address,
+      version: safeVersion,
+      singleton: singletonAddress,
+      ...decodeSafeConfiguration(
+        asHex(owners.returnData),
+        asHex(threshold.returnData),
+        asHex(nonce.returnData),
+        asHex(modulesData),
+        safeVersion
+      ),
+      guard: isSuccessful(guard) ? decodeStorageAddress(asHex(guard.returnData)) : ZERO_ADDRESS,
+      fallbackHandler: fallbackHandlerAddress
+    }
+  }
+}
+
+async function getChainSafeConfigurations(
+  safeProvider: SafeProvider,
+  safes: IndexedSafe[]
+): Promise<SafeConfigurationResult[]> {
+  const results = await safeProvider.aggregate(
+    safes.flatMap(({ address }) => encodeSafeConfigurationCalls(address))
+  )
+
+  return Promise.all(
+    safes.map(async (safe, index) => {
+      const safeResults = results.slice(index * CALLS_PER_SAFE, (index + 1) * CALLS_PER_SAFE)
+
+      try {
+        return await decodeSafeConfigurationResults(safeProvider, safe, safeResults)
+      } catch {
+        return {
+          chainId: safe.chainId,
+          address: safe.address,
+          error: `The address ${safe.address} is not a Safe`
+        }
+      }
+    })
+  )
+}
+
+/**
+ * Reads the configuration of many deployed Safes: version, singleton, owners, threshold, nonce,
+ * modules, guard and fallback handler. The Safes of each chain are read in chunks of safesPerCall
+ * Safes, each one with a single Multicall3 call. The fallback handler of Safes lower than v1.3.0
+ * is read with a separate eth_getStorageAt call, and the singleton and modules of Safes v1.0.0
+ * with separate calls.
+ * The errors are reported for each Safe, like addresses that are not a Safe or Safes using an
+ * unknown singleton.
+ *
+ * @param {GetSafeConfigurationsProps} props - The Safes, the providers of their chains and the multicall options
+ * @returns {Promise<SafeConfigurationResult[]>} The configuration or the error of each Safe, in the same order as the Safes
+ */
+export async function getSafeConfigurations({
+  safes,
+  providers,
+  multicallAddress,
+  safesPerCall
+}: GetSafeConfigurationsProps): Promise<SafeConfigurationResult[]> {
+  const safesByChain = new Map<string, IndexedSafe[]>()
+
+  safes.forEach(({ chainId, address }, index) => {
+    const chainSafes = safesByChain.get(chainId.toString()) ?? []
+    chainSafes.push({ index, chainId: chainId.toString(), address })
+    safesByChain.set(chainId.toString(), chainSafes)
+  })
+
+  const configurations: SafeConfigurationResult[] = []
+
+  await Promise.all(
+    Array.from(safesByChain.entries()).map(async ([chainId, chainSafes]) => {
+      const provider = providers[chainId]
+
+      if (!provider) {
+        chainSafes.forEach(({ index, address }) => {
+          configurations[index] = {
+            chainId,
+            address,
+            error: `No provider configured for the chain ${chainId}`
+          }
+        })
+        return
+      }
+
+      const safeProvider = new SafeProvider({ provider, multicall: { multicallAddress } })
+      const chunkSize = safesPerCall ?? DEFAULT_SAFES_PER_CALL
+
+      for (let start = 0; start < chainSafes.length; start += chunkSize) {
+        const chunk = chainSafes.slice(start, start + chunkSize)
+        const results = await getChainSafeConfigurations(safeProvider, chunk)
+
+        chunk.forEach(({ index }, chunkIndex) => {
+          configurations[index] = results[chunkIndex]
+        })
+      }
+    })
+  )
+
+  return configurations
+}
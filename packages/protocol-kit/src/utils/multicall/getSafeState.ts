@@ -0,0 +1,76 @@
+import { SafeVersion } from '@safe-global/types-kit'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { MulticallCall, SafeState } from '@safe-global/protocol-kit/types'
+import { FALLBACK_HANDLER_STORAGE_SLOT, GUARD_STORAGE_SLOT, ZERO_ADDRESS } from '../constants'
+import { hasSafeFeature, SAFE_FEATURES } from '../safeVersions'
+import { asHex } from '../types'
+import {
+  decodeSafeConfiguration,
+  decodeStorageAddress,
+  encodeGetModulesCall,
+  encodeGetStorageAtCall,
+  encodeSafeCall
+} from './safeCalls'
+
+/**
+ * Returns the configuration of a deployed Safe reading it with a single Multicall3 call. The guard and
+ * fallback handler are read from the Safe storage with the getStorageAt method of Safes >= v1.3.0.
+ * The fallback handler of older Safes is read with a separate eth_getStorageAt call.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} safeAddress - The address of the Safe
+ * @param {SafeVersion} safeVersion - The version of the Safe
+ * @returns {Promise<SafeState>} The configuration of the Safe
+ * @throws "The state of the Safe X could not be read"
+ */
+export async function getSafeState(
+  safeProvider: SafeProvider,
+  safeAddress: string,
+  safeVersion: SafeVersion
+): Promise<SafeState> {
+  const hasStorageAccess = hasSafeFeature(SAFE_FEATURES.SIMULATE_AND_REVERT, safeVersion)
+  const hasGuard = hasSafeFeature(SAFE_FEATURES.SAFE_TX_GUARDS, safeVersion)
+  const hasFallbackHandler = hasSafeFeature(SAFE_FEATURES.SAFE_FALLBACK_HANDLER, safeVersion)
+
+  const calls: MulticallCall[] = [
+    encodeSafeCall(safeAddress, 'getOwners'),
+    encodeSafeCall(safeAddress, 'getThreshold'),
+    encodeSafeCall(safeAddress, 'nonce'),
+    encodeGetModulesCall(safeAddress, safeVersion)
+  ]
+
+  if (hasStorageAccess) {
+    calls.push(
+      encodeGetStorageAtCall(safeAddress, GUARD_STORAGE_SLOT),
+      encodeGetStorageAtCall(safeAddress, FALLBACK_HANDLER_STORAGE_SLOT)
+    )
+  }
+
+  const results = await safeProvider.aggregate(calls)
+
+  if (results.some(({ success, returnData }) => !success || returnData === '0x')) {
+    throw new Error(`The state of the Safe ${safeAddress} could not be read`)
+  }
+
+  const [owners, threshold, nonce, modules, guard, fallbackHandler] = results.map(
+    ({ returnData }) => asHex(returnData)
+  )
+
+  let fallbackHandlerAddress = ZERO_ADDRESS as string
+  if (hasStorageAccess) {
+    fallbackHandlerAddress = decodeStorageAddress(fallbackHandler)
+  } else if (hasFallbackHandler) {
+    fallbackHandlerAddress = await safeProvider.getStorageAt(
+      safeAddress,
+      FALLBACK_HANDLER_STORAGE_SLOT
+    )
+  }
+
+  return {
+    address: safeAddress,
+    version: safeVersion,
+    ...decodeSafeConfiguration(owners, threshold, nonce, modules, safeVersion),
+    guard: hasGuard ? decodeStorageAddress(guard) : ZERO_ADDRESS,
+    fallbackHandler: fallbackHandlerAddress
+  }
+}
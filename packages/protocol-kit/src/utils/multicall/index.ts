@@ -0,0 +1,4 @@
+export * from './multicall'
+export * from './MulticallBatcher'
+export * from './getSafeState'
+export * from './getSafeConfigurations'
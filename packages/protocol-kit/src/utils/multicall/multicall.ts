@@ -0,0 +1,56 @@
+import { decodeFunctionResult, encodeFunctionData, parseAbi } from 'viem'
+import { call } from 'viem/actions'
+import { ExternalClient, MulticallCall, MulticallResult } from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+
+// Address of the Multicall3 deterministic deployment, available on most chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+const MULTICALL3_ABI = parseAbi([
+  'struct Call3 { address target; bool allowFailure; bytes callData; }',
+  'struct Result { bool success; bytes returnData; }',
+  'function aggregate3(Call3[] calls) payable returns (Result[] returnData)'
+])
+
+/**
+ * Executes the calls in a single eth_call to the aggregate3 method of Multicall3. The calls are
+ * allowed to fail, so the result of each call is returned with its success status.
+ *
+ * @param {ExternalClient} client - The viem client
+ * @param {string} multicallAddress - The address of the Multicall3 contract
+ * @param {MulticallCall[]} calls - The calls
+ * @returns {Promise<MulticallResult[] | undefined>} The result of each call, or undefined if Multicall3 is not deployed
+ */
+export async function aggregateCalls(
+  client: ExternalClient,
+  multicallAddress: string,
+  calls: MulticallCall[]
+): Promise<MulticallResult[] | undefined> {
+  const { data } = await call(client, {
+    to: asHex(multicallAddress),
+    data: encodeFunctionData({
+      abi: MULTICALL3_ABI,
+      functionName: 'aggregate3',
+      args: [
+        calls.map(({ to, data }) => ({
+          target: asHex(to),
+          allowFailure: true,
+          callData: asHex(data)
+        }))
+      ]
+    })
+  })
+
+  // A call to an address without code succeeds without returning data
+  if (!data || data === '0x') {
+    return undefined
+  }
+
+  const results = decodeFunctionResult({
+    abi: MULTICALL3_ABI,
+    functionName: 'aggregate3',
+    data
+  })
+
+  return results.map(({ success, returnData }) => ({ success, returnData }))
+}
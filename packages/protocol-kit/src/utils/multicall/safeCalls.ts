@@ -0,0 +1,113 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  parseAbi,
+  size,
+  slice
+} from 'viem'
+import semverSatisfies from 'semver/functions/satisfies.js'
+import { SafeVersion } from '@safe-global/types-kit'
+import { MulticallCall } from '@safe-global/protocol-kit/types'
+import { SENTINEL_ADDRESS, ZERO_ADDRESS } from '../constants'
+import { asHex } from '../types'
+
+export const SAFE_STATE_ABI = parseAbi([
+  'function VERSION() view returns (string)',
+  'function masterCopy() view returns (address)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function nonce() view returns (uint256)',
+  'function getModules() view returns (address[])',
+  'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)',
+  'function getStorageAt(uint256 offset, uint256 length) view returns (bytes)'
+])
+
+// Same page size used by getModules
+const MODULES_PAGE_SIZE = 10n
+
+export function encodeSafeCall(
+  safeAddress: string,
+  functionName: 'VERSION' | 'masterCopy' | 'getOwners' | 'getThreshold' | 'nonce'
+): MulticallCall {
+  return {
+    to: safeAddress,
+    data: encodeFunctionData({ abi: SAFE_STATE_ABI, functionName })
+  }
+}
+
+// The getModulesPaginated method is not available in Safes v1.0.0
+const hasModulesPagination = (safeVersion: SafeVersion): boolean =>
+  semverSatisfies(safeVersion, '>=1.1.1')
+
+export function encodeGetModulesCall(safeAddress: string, safeVersion: SafeVersion): MulticallCall {
+  if (!hasModulesPagination(safeVersion)) {
+    return {
+      to: safeAddress,
+      data: encodeFunctionData({ abi: SAFE_STATE_ABI, functionName: 'getModules' })
+    }
+  }
+
+  return {
+    to: safeAddress,
+    data: encodeFunctionData({
+      abi: SAFE_STATE_ABI,
+      functionName: 'getModulesPaginated',
+      args: [SENTINEL_ADDRESS, MODULES_PAGE_SIZE]
+    })
+  }
+}
+
+export function decodeModules(data: Hex, safeVersion: SafeVersion): string[] {
+  if (!hasModulesPagination(safeVersion)) {
+    return [...decodeFunctionResult({ abi: SAFE_STATE_ABI, functionName: 'getModules', data })]
+  }
+
+  const [modules] = decodeFunctionResult({
+    abi: SAFE_STATE_ABI,
+    functionName: 'getModulesPaginated',
+    data
+  })
+
+  return [...modules]
+}
+
+export function encodeGetStorageAtCall(safeAddress: string, slot: string): MulticallCall {
+  return {
+    to: safeAddress,
+    data: encodeFunctionData({
+      abi: SAFE_STATE_ABI,
+      functionName: 'getStorageAt',
+      args: [hexToBigInt(asHex(slot)), 1n]
+    })
+  }
+}
+
+export function decodeStorageAddress(data: Hex): string {
+  const storage = decodeFunctionResult({ abi: SAFE_STATE_ABI, functionName: 'getStorageAt', data })
+
+  return size(storage) === 32 ? getAddress(slice(storage, 12)) : ZERO_ADDRESS
+}
+
+export function decodeSafeConfiguration(
+  owners: Hex,
+  threshold: Hex,
+  nonce: Hex,
+  modules: Hex,
+  safeVersion: SafeVersion
+): { owners: string[]; threshold: number; nonce: number; modules: string[] } {
+  return {
+    owners: [
+      ...decodeFunctionResult({ abi: SAFE_STATE_ABI, functionName: 'getOwners', data: owners })
+    ],
+    threshold: Number(
+      decodeFunctionResult({ abi: SAFE_STATE_ABI, functionName: 'getThreshold', data: threshold })
+    ),
+    nonce: Number(
+      decodeFunctionResult({ abi: SAFE_STATE_ABI, functionName: 'nonce', data: nonce })
+    ),
+    modules: decodeModules(modules, safeVersion)
+  }
+}
@@ -0,0 +1,215 @@
+import { getAddress, maxUint160, parseAbi, toHex } from 'viem'
+import { SafeVersion, SigningMethod } from '@safe-global/types-kit'
+import type Safe from '@safe-global/protocol-kit/Safe'
+import { getContractInfo } from '@safe-global/protocol-kit/contracts/config'
+import {
+  getSafeWebAuthnSharedSignerContract,
+  getSafeWebAuthnSignerFactoryContract
+} from '@safe-global/protocol-kit/contracts/safeDeploymentContracts'
+import {
+  PasskeyOwnerDetails,
+  SafeOwnerDetails,
+  SafeWebAuthnSharedSignerContractImplementationType,
+  SafeWebAuthnSignerFactoryContractImplementationType
+} from '@safe-global/protocol-kit/types'
+import { hasSafeFeature, SAFE_FEATURES } from '../safeVersions'
+import { sameString } from '../address'
+import { asHex } from '../types'
+import { getSharedSignerConfiguration } from '../passkeys/isSharedSigner'
+
+const SAFE_PROXY_ABI = parseAbi([
+  'function masterCopy() view returns (address)',
+  'function getThreshold() view returns (uint256)',
+  'function getOwners() view returns (address[])'
+])
+
+const SAFE_WEBAUTHN_SIGNER_ABI = parseAbi([
+  'function getConfiguration() view returns (uint256 x, uint256 y, uint176 verifiers)'
+])
+
+type PasskeyContracts = {
+  signerFactory?: SafeWebAuthnSignerFactoryContractImplementationType
+  sharedSigner?: SafeWebAuthnSharedSignerContractImplementationType
+}
+
+function getPasskeyOwnerDetails(x: bigint, y: bigint, verifiers: bigint): PasskeyOwnerDetails {
+  return {
+    coordinates: { x: toHex(x, { size: 32 }), y: toHex(y, { size: 32 }) },
+    // The verifiers value packs the precompile address in the upper bits and the fallback verifier in the lower 160 bits
+    verifierAddress: getAddress(toHex(verifiers & maxUint160, { size: 20 }))
+  }
+}
+
+async function getPasskeyContracts(safe: Safe): Promise<PasskeyContracts> {
+  const safeVersion = safe.getContractVersion()
+
+  if (!hasSafeFeature(SAFE_FEATURES.PASSKEY_SIGNER, safeVersion)) {
+    return {}
+  }
+
+  const safeProvider = safe.getSafeProvider()
+  const chainId = await safe.getChainId()
+  const customContracts = safe.getContractManager().contractNetworks?.[chainId.toString()]
+
+  const [signerFactory, sharedSigner] = await Promise.all([
+    getSafeWebAuthnSignerFactoryContract({ safeProvider, safeVersion, customContracts }).catch(
+      () => undefined
+    ),
+    getSafeWebAuthnSharedSignerContract({ safeProvider, safeVersion, customContracts }).catch(
+      () => undefined
+    )
+  ])
+
+  return { signerFactory, sharedSigner }
+}
+
+async function getNestedSafeOwnerDetails(
+  safe: Safe,
+  owner: string
+): Promise<SafeOwnerDetails | undefined> {
+  const safeProvider = safe.getSafeProvider()
+  const address = asHex(owner)
+
+  // Safe proxies return the address of their singleton when calling masterCopy(). The proxies of
+  // Safes v1.0.0 do not have this method, so the singleton is read from the storage slot 0
+  const singleton =
+    (await safeProvider
+      .readContract({ address, abi: SAFE_PROXY_ABI, functionName: 'masterCopy' })
+      .catch(() => undefined)) ??
+    (await safeProvider.getStorageAt(owner, '0x0').catch(() => undefined))
+  const singletonInfo = singleton ? getContractInfo(singleton) : undefined
+
+  if (
+    singletonInfo?.contractName !== 'safeSingletonVersion' &&
+    singletonInfo?.contractName !== 'safeSingletonL2Version'
+  ) {
+    return undefined
+  }
+
+  const [threshold, owners] = await Promise.all([
+    safeProvider.readContract({ address, abi: SAFE_PROXY_ABI, functionName: 'getThreshold' }),
+    safeProvider.readContract({ address, abi: SAFE_PROXY_ABI, functionName: 'getOwners' })
+  ])
+
+  return {
+    address: owner,
+    type: 'SAFE',
+    signingMethod: SigningMethod.SAFE_SIGNATURE,
+    safe: {
+      safeVersion: singletonInfo.version as SafeVersion,
+      threshold: Number(threshold),
+      owners: [...owners]
+    }
+  }
+}
+
+async function getPasskeySignerOwnerDetails(
+  safe: Safe,
+  owner: string,
+  signerFactory: SafeWebAuthnSignerFactoryContractImplementationType
+): Promise<SafeOwnerDetails | undefined> {
+  const configuration = await safe
+    .getSafeProvider()
+    .readContract({
+      address: asHex(owner),
+      abi: SAFE_WEBAUTHN_SIGNER_ABI,
+      functionName: 'getConfiguration'
+    })
+    .catch(() => undefined)
+
+  if (!configuration) {
+    return undefined
+  }
+
+  const [x, y, verifiers] = configuration
+
+  // Any contract could return a configuration, so the factory is checked to deploy the signer at the same address
+  const [signerAddress] = await signerFactory.getSigner([x, y, verifiers])
+
+  if (!sameString(signerAddress, owner)) {
+    return undefined
+  }
+
+  return {
+    address: owner,
+    type: 'PASSKEY_SIGNER',
+    signingMethod: SigningMethod.ETH_SIGN,
+    passkey: getPasskeyOwnerDetails(x, y, verifiers)
+  }
+}
+
+async function getSharedSignerOwnerDetails(
+  safe: Safe,
+  owner: string,
+  owners: string[],
+  sharedSigner: SafeWebAuthnSharedSignerContractImplementationType
+): Promise<SafeOwnerDetails> {
+  const configuration = await getSharedSignerConfiguration(
+    sharedSigner,
+    await safe.getAddress(),
+    owners
+  )
+
+  return {
+    address: owner,
+    type: 'PASSKEY_SHARED_SIGNER',
+    signingMethod: SigningMethod.ETH_SIGN,
+    passkey:
+      configuration && configuration.x !== 0n
+        ? getPasskeyOwnerDetails(configuration.x, configuration.y, configuration.verifiers)
+        : undefined
+  }
+}
+
+/**
+ * Returns the details of each owner of a Safe, classifying them in:
+ * - EOA: accounts without code, signing with EIP-712 typed data
+ * - SAFE: contracts whose singleton, read with masterCopy() or from the storage slot 0, is a known Safe singleton, with their version, threshold and owners
+ * - PASSKEY_SHARED_SIGNER: the SafeWebAuthnSharedSigner, with the passkey configured for the Safe
+ * - PASSKEY_SIGNER: contracts deployed by the SafeWebAuthnSignerFactory, with their passkey
+ * - CONTRACT: any other contract, which should validate the signatures with EIP-1271
+ * Passkey owners sign with the eth_sign flow used by the passkey signer and contract owners with contract signatures.
+ *
+ * @param {Safe} safe - The Safe instance
+ * @returns {Promise<SafeOwnerDetails[]>} The details of each owner
+ */
+export async function getOwnerDetails(safe: Safe): Promise<SafeOwnerDetails[]> {
+  const safeProvider = safe.getSafeProvider()
+  const owners = await safe.getOwners()
+  const { signerFactory, sharedSigner } = await getPasskeyContracts(safe)
+
+  return Promise.all(
+    owners.map(async (owner): Promise<SafeOwnerDetails> => {
+      if (!(await safeProvider.isContractDeployed(owner))) {
+        return {
+          address: owner,
+          type: 'EOA',
+          signingMethod: SigningMethod.ETH_SIGN_TYPED_DATA_V4
+        }
+      }
+
+      if (sharedSigner && sameString(sharedSigner.getAddress(), owner)) {
+        return getSharedSignerOwnerDetails(safe, owner, owners, sharedSigner)
+      }
+
+      const nestedSafeOwnerDetails = await getNestedSafeOwnerDetails(safe, owner)
+
+      if (nestedSafeOwnerDetails) {
+        return nestedSafeOwnerDetails
+      }
+
+      const passkeySignerOwnerDetails =
+        signerFactory && (await getPasskeySignerOwnerDetails(safe, owner, signerFactory))
+
+      if (passkeySignerOwnerDetails) {
+        return passkeySignerOwnerDetails
+      }
+
+      return {
+        address: owner,
+        type: 'CONTRACT',
+        signingMethod: SigningMethod.SAFE_SIGNATURE
+      }
+    })
+  )
+}
@@ -0,0 +1,2 @@
+export * from './planOwnerReconfiguration'
+export * from './getOwnerDetails'
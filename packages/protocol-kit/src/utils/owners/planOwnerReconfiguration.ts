@@ -0,0 +1,82 @@
+import { OwnerReconfigurationStep } from '@safe-global/protocol-kit/types'
+import { sameString } from '../address'
+import { SENTINEL_ADDRESS } from '../constants'
+
+const includesAddress = (addresses: string[], address: string): boolean =>
+  addresses.some((item) => sameString(item, address))
+
+/**
+ * Returns the smallest sequence of owner management calls that turns the current owners and threshold
+ * of a Safe into the target ones.
+ * Owners are swapped in place whenever possible, so an owner is only added or removed when the number
+ * of owners changes. The threshold is updated together with the last add or remove call, or with a
+ * changeThreshold call if the number of owners does not change. The prevOwner pointers of each step
+ * are calculated over the linked list of owners that results from the previous steps, and the threshold
+ * is kept between 1 and the number of owners after every step.
+ *
+ * @param {string[]} currentOwners - The owners of the Safe, in the order returned by getOwners
+ * @param {number} currentThreshold - The threshold of the Safe
+ * @param {string[]} targetOwners - The owners the Safe must have
+ * @param {number} targetThreshold - The threshold the Safe must have
+ * @returns {OwnerReconfigurationStep[]} The owner management calls to execute in order
+ */
+export function planOwnerReconfiguration(
+  currentOwners: string[],
+  currentThreshold: number,
+  targetOwners: string[],
+  targetThreshold: number
+): OwnerReconfigurationStep[] {
+  const owners = [...currentOwners]
+  const ownersToRemove = currentOwners.filter((owner) => !includesAddress(targetOwners, owner))
+  const ownersToAdd = targetOwners.filter((owner) => !includesAddress(currentOwners, owner))
+  const steps: OwnerReconfigurationStep[] = []
+
+  const getPrevOwner = (owner: string): string => {
+    const ownerIndex = owners.findIndex((item) => sameString(item, owner))
+    return ownerIndex === 0 ? SENTINEL_ADDRESS : owners[ownerIndex - 1]
+  }
+
+  const swapsLength = Math.min(ownersToRemove.length, ownersToAdd.length)
+
+  for (let index = 0; index < swapsLength; index++) {
+    const oldOwner = ownersToRemove[index]
+    const newOwner = ownersToAdd[index]
+
+    steps.push({ type: 'swapOwner', prevOwner: getPrevOwner(oldOwner), oldOwner, newOwner })
+    owners.splice(
+      owners.findIndex((item) => sameString(item, oldOwner)),
+      1,
+      newOwner
+    )
+  }
+
+  const remainingOwnersToAdd = ownersToAdd.slice(swapsLength)
+  const remainingOwnersToRemove = ownersToRemove.slice(swapsLength)
+  let threshold = currentThreshold
+
+  remainingOwnersToAdd.forEach((owner, index) => {
+    const isLastStep = index === remainingOwnersToAdd.length - 1
+    threshold = isLastStep ? targetThreshold : threshold
+
+    steps.push({ type: 'addOwnerWithThreshold', owner, threshold })
+    // New owners are inserted at the head of the linked list
+    owners.unshift(owner)
+  })
+
+  remainingOwnersToRemove.forEach((owner, index) => {
+    const isLastStep = index === remainingOwnersToRemove.length - 1
+    threshold = isLastStep ? targetThreshold : Math.min(threshold, owners.length - 1)
+
+    steps.push({ type: 'removeOwner', prevOwner: getPrevOwner(owner), owner, threshold })
+    owners.splice(
+      owners.findIndex((item) => sameString(item, owner)),
+      1
+    )
+  })
+
+  if (threshold !== targetThreshold) {
+    steps.push({ type: 'changeThreshold', threshold: targetThreshold })
+  }
+
+  return steps
+}
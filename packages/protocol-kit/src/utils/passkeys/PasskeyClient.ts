@@ -14,9 +14,7 @@ import {
   Client,
   fromBytes,
   fromHex,
-  parseAbiParameters,
-  encodeFunctionData,
-  parseAbi
+  parseAbiParameters
 } from 'viem'
 import {
   PasskeyArgType,
@@ -28,6 +26,10 @@ import {
 import { getDefaultFCLP256VerifierAddress } from './extractPasskeyData'
 import { asHex } from '../types'
 import isSharedSigner from './isSharedSigner'
+import {
+  encodeSharedSignerConfigureData,
+  getSharedSignerConfigurationFromPasskey
+} from './sharedSigner'
 
 export const PASSKEY_CLIENT_KEY = 'passkeyWallet'
 export const PASSKEY_CLIENT_NAME = 'Passkey Wallet Client'
@@ -126,17 +128,9 @@ export const createPasskeyClient = async (
       signTransaction,
       signTypedData,
       encodeConfigure() {
-        return encodeFunctionData({
-          abi: parseAbi(['function configure((uint256 x, uint256 y, uint176 verifiers) signer)']),
-          functionName: 'configure',
-          args: [
-            {
-              x: BigInt(passkey.coordinates.x),
-              y: BigInt(passkey.coordinates.y),
-              verifiers: fromHex(asHex(verifierAddress), 'bigint')
-            }
-          ]
-        })
+        return asHex(
+          encodeSharedSignerConfigureData(getSharedSignerConfigurationFromPasskey(passkey, chainId))
+        )
       },
       encodeCreateSigner() {
         return asHex(
@@ -1,3 +1,5 @@
 export * from './extractPasskeyData'
 export * from './PasskeyClient'
 export * from './getPasskeyOwnerAddress'
+export * from './sharedSigner'
+export * from './verifyPasskeySignature'
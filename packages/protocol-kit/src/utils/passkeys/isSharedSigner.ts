@@ -1,10 +1,34 @@
 import {
   PasskeyArgType,
-  SafeWebAuthnSharedSignerContractImplementationType
+  SafeWebAuthnSharedSignerContractImplementationType,
+  SharedSignerConfiguration
 } from '@safe-global/protocol-kit/types'
 import { getDefaultFCLP256VerifierAddress } from './extractPasskeyData'
 import { asHex } from '@safe-global/protocol-kit/utils/types'
 
+/**
+ * Returns the passkey configured in the shared signer for a Safe
+ * @returns {Promise<SharedSignerConfiguration | undefined>} A promise that resolves to the configuration or undefined if the shared signer is not an owner of the Safe
+ */
+export async function getSharedSignerConfiguration(
+  safeWebAuthnSharedSignerContract: SafeWebAuthnSharedSignerContractImplementationType,
+  safeAddress: string,
+  owners: string[]
+): Promise<SharedSignerConfiguration | undefined> {
+  const sharedSignerContractAddress = safeWebAuthnSharedSignerContract.contractAddress
+
+  // the shared signer contract address must be present in the owners and configured in the Safe slot
+  if (!safeAddress || !owners.includes(sharedSignerContractAddress)) {
+    return undefined
+  }
+
+  const [sharedSignerSlot] = await safeWebAuthnSharedSignerContract.getConfiguration([
+    asHex(safeAddress)
+  ])
+
+  return sharedSignerSlot
+}
+
 /**
  * Returns true if the passkey signer is a shared signer
  * @returns {Promise<boolean>} A promise that resolves to the signer's address.
@@ -16,28 +40,26 @@ async function isSharedSigner(
   owners: string[],
   chainId: string
 ): Promise<boolean> {
-  const sharedSignerContractAddress = safeWebAuthnSharedSignerContract.contractAddress
+  const sharedSignerConfiguration = await getSharedSignerConfiguration(
+    safeWebAuthnSharedSignerContract,
+    safeAddress,
+    owners
+  )
 
-  // is a shared signer if the shared signer contract address is present in the owners and its configured in the Safe slot
-  if (safeAddress && owners.includes(sharedSignerContractAddress)) {
-    const [sharedSignerSlot] = await safeWebAuthnSharedSignerContract.getConfiguration([
-      asHex(safeAddress)
-    ])
-
-    const { x, y, verifiers } = sharedSignerSlot
+  if (!sharedSignerConfiguration) {
+    return false
+  }
 
-    const verifierAddress =
-      passkey.customVerifierAddress || getDefaultFCLP256VerifierAddress(chainId)
+  const { x, y, verifiers } = sharedSignerConfiguration
 
-    const isSharedSigner =
-      BigInt(passkey.coordinates.x) === x &&
-      BigInt(passkey.coordinates.y) === y &&
-      BigInt(verifierAddress) === verifiers
+  const verifierAddress = passkey.customVerifierAddress || getDefaultFCLP256VerifierAddress(chainId)
 
-    return isSharedSigner
-  }
+  const isSharedSigner =
+    BigInt(passkey.coordinates.x) === x &&
+    BigInt(passkey.coordinates.y) === y &&
+    BigInt(verifierAddress) === verifiers
 
-  return false
+  return isSharedSigner
 }
 
 export default isSharedSigner
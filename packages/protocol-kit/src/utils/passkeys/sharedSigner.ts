@@ -0,0 +1,47 @@
+import { encodeFunctionData, fromHex, parseAbi } from 'viem'
+import { PasskeyArgType, SharedSignerConfiguration } from '@safe-global/protocol-kit/types'
+import { getDefaultFCLP256VerifierAddress } from './extractPasskeyData'
+import { asHex } from '../types'
+
+const SAFE_WEBAUTHN_SHARED_SIGNER_ABI = parseAbi([
+  'function configure((uint256 x, uint256 y, uint176 verifiers) signer)'
+])
+
+/**
+ * Returns the configuration of the SafeWebAuthnSharedSigner for a passkey.
+ *
+ * @param {PasskeyArgType} passkey The passkey
+ * @param {string} chainId The chainId of the network
+ * @returns {SharedSignerConfiguration} The shared signer configuration
+ */
+export function getSharedSignerConfigurationFromPasskey(
+  passkey: PasskeyArgType,
+  chainId: string
+): SharedSignerConfiguration {
+  const verifierAddress = passkey.customVerifierAddress || getDefaultFCLP256VerifierAddress(chainId)
+
+  return {
+    x: BigInt(passkey.coordinates.x),
+    y: BigInt(passkey.coordinates.y),
+    verifiers: fromHex(asHex(verifierAddress), 'bigint')
+  }
+}
+
+/**
+ * Encodes the call to the configure method of the SafeWebAuthnSharedSigner.
+ * The call must be executed by the Safe with a delegate call, as the configuration is stored in the Safe storage.
+ *
+ * @param {SharedSignerConfiguration} configuration The shared signer configuration
+ * @returns {string} The encoded call
+ */
+export function encodeSharedSignerConfigureData({
+  x,
+  y,
+  verifiers
+}: SharedSignerConfiguration): string {
+  return encodeFunctionData({
+    abi: SAFE_WEBAUTHN_SHARED_SIGNER_ABI,
+    functionName: 'configure',
+    args: [{ x, y, verifiers }]
+  })
+}
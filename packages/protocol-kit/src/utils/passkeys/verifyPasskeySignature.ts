@@ -0,0 +1,201 @@
+import { Buffer } from 'buffer'
+import {
+  concat,
+  decodeAbiParameters,
+  getAddress,
+  hexToBytes,
+  hexToString,
+  numberToHex,
+  parseAbiParameters,
+  sha256,
+  size,
+  stringToHex
+} from 'viem'
+import {
+  P256Verifiers,
+  PasskeyCoordinates,
+  PasskeySignatureData,
+  PasskeySignatureVerification,
+  VerifyPasskeySignatureProps
+} from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+
+// Order of the P-256 curve
+const P256_N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n
+// The Safe passkey signers require the user verification (UV) flag of the authenticator data
+const USER_VERIFICATION_FLAG = 0x04
+const AUTHENTICATOR_FLAGS_INDEX = 32
+
+/**
+ * Decodes the signature generated by the PasskeyClient, that is the ABI encoding of the authenticator
+ * data, the client data fields and the r and s values of the P-256 signature.
+ *
+ * @param {string} signature - The encoded passkey signature
+ * @returns {PasskeySignatureData} The decoded passkey signature
+ * @throws "Invalid passkey signature encoding"
+ */
+export function decodePasskeySignature(signature: string): PasskeySignatureData {
+  try {
+    const [authenticatorData, clientDataFields, [r, s]] = decodeAbiParameters(
+      parseAbiParameters('bytes, bytes, uint256[2]'),
+      asHex(signature)
+    )
+
+    return { authenticatorData, clientDataFields, r, s }
+  } catch {
+    throw new Error('Invalid passkey signature encoding')
+  }
+}
+
+/**
+ * Decodes the P-256 verifiers configured for a passkey signer. The address of the RIP-7212 precompile
+ * is stored in the upper 16 bits and the address of the fallback verifier in the lower 160 bits.
+ *
+ * @param {bigint} verifiers - The encoded P-256 verifiers
+ * @returns {P256Verifiers} The precompile and fallback verifier addresses
+ */
+export function decodeP256Verifiers(verifiers: bigint): P256Verifiers {
+  return {
+    precompile: Number((verifiers >> 160n) & 0xffffn),
+    fallbackVerifier: getAddress(numberToHex(verifiers & ((1n << 160n) - 1n), { size: 20 }))
+  }
+}
+
+/**
+ * Encodes the WebAuthn client data JSON in the same way as the Safe WebAuthn contracts. The challenge
+ * is the base64url encoding of the 32 bytes checked by the signer, without padding.
+ *
+ * @param {string} challenge - The 32 bytes hash checked by the passkey signer
+ * @param {string} clientDataFields - The client data fields other than type and challenge
+ * @returns {string} The client data JSON
+ */
+export function encodeWebAuthnClientDataJson(challenge: string, clientDataFields: string): string {
+  const encodedChallenge = Buffer.from(hexToBytes(asHex(challenge)))
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+  return `{"type":"webauthn.get","challenge":"${encodedChallenge}",${hexToString(asHex(clientDataFields))}}`
+}
+
+/**
+ * Returns the hash of the WebAuthn signing message checked by the P-256 verifiers, that is the
+ * SHA-256 hash of the authenticator data followed by the SHA-256 hash of the client data JSON.
+ *
+ * @param {string} challenge - The 32 bytes hash checked by the passkey signer
+ * @param {string} authenticatorData - The authenticator data of the WebAuthn assertion
+ * @param {string} clientDataFields - The client data fields other than type and challenge
+ * @returns {string} The hash of the signing message
+ */
+export function getWebAuthnMessageHash(
+  challenge: string,
+  authenticatorData: string,
+  clientDataFields: string
+): string {
+  const clientDataJson = encodeWebAuthnClientDataJson(challenge, clientDataFields)
+
+  return sha256(concat([asHex(authenticatorData), sha256(stringToHex(clientDataJson))]))
+}
+
+/**
+ * Verifies a P-256 signature of a message hash. Both the FCLP256Verifier and the RIP-7212 precompile
+ * reject r and s values outside of the curve order and public keys that are not on the curve, and
+ * accept malleable signatures with a high s value.
+ *
+ * @param {string} messageHash - The hash of the signed message
+ * @param {bigint} r - The r value of the signature
+ * @param {bigint} s - The s value of the signature
+ * @param {PasskeyCoordinates} coordinates - The coordinates of the public key
+ * @returns {Promise<boolean>} Whether the signature is valid
+ */
+export async function verifyP256Signature(
+  messageHash: string,
+  r: bigint,
+  s: bigint,
+  coordinates: PasskeyCoordinates
+): Promise<boolean> {
+  if (r <= 0n || r >= P256_N || s <= 0n || s >= P256_N) {
+    return false
+  }
+
+  const { p256 } = await import('@noble/curves/p256')
+
+  try {
+    const publicKey = concat([
+      '0x04',
+      numberToHex(BigInt(coordinates.x), { size: 32 }),
+      numberToHex(BigInt(coordinates.y), { size: 32 })
+    ])
+
+    return p256.verify({ r, s }, hexToBytes(asHex(messageHash)), hexToBytes(publicKey), {
+      lowS: false,
+      prehash: false
+    })
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Verifies offline a signature generated by the PasskeyClient in the same way as the Safe passkey
+ * signers do on-chain. The WebAuthn signing message is rebuilt from the challenge, the authenticator
+ * data must have the user verification flag set and the P-256 signature is checked against the
+ * coordinates of the passkey.
+ * When the verifiers are set, at least one of the RIP-7212 precompile or the fallback verifier must be
+ * configured. Note that the precompile is only available on the chains implementing RIP-7212, a
+ * signer configured only with the precompile rejects every signature in other chains.
+ *
+ * @param {VerifyPasskeySignatureProps} props - The challenge, signature, coordinates and verifiers
+ * @returns {Promise<PasskeySignatureVerification>} The verification result of the signature
+ */
+export async function verifyPasskeySignature({
+  challenge,
+  signature,
+  coordinates,
+  verifiers
+}: VerifyPasskeySignatureProps): Promise<PasskeySignatureVerification> {
+  if (size(asHex(challenge)) !== 32) {
+    return { isValid: false, error: 'The challenge must be a 32 bytes hash' }
+  }
+
+  let signatureData: PasskeySignatureData
+  try {
+    signatureData = decodePasskeySignature(signature)
+  } catch (error) {
+    return { isValid: false, error: (error as Error).message }
+  }
+
+  const { authenticatorData, clientDataFields, r, s } = signatureData
+  const authenticatorDataBytes = hexToBytes(asHex(authenticatorData))
+
+  if (
+    authenticatorDataBytes.length <= AUTHENTICATOR_FLAGS_INDEX ||
+    (authenticatorDataBytes[AUTHENTICATOR_FLAGS_INDEX] & USER_VERIFICATION_FLAG) === 0
+  ) {
+    return {
+      isValid: false,
+      error: 'The authenticator data does not have the user verification flag set'
+    }
+  }
+
+  if (verifiers !== undefined) {
+    const { precompile, fallbackVerifier } = decodeP256Verifiers(verifiers)
+
+    if (precompile === 0 && BigInt(fallbackVerifier) === 0n) {
+      return { isValid: false, error: 'No P-256 verifier is configured' }
+    }
+  }
+
+  const messageHash = getWebAuthnMessageHash(challenge, authenticatorData, clientDataFields)
+
+  if (!(await verifyP256Signature(messageHash, r, s, coordinates))) {
+    return {
+      isValid: false,
+      messageHash,
+      error: 'The P-256 signature is not valid for the passkey coordinates'
+    }
+  }
+
+  return { isValid: true, messageHash }
+}
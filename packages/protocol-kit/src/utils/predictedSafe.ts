@@ -0,0 +1,119 @@
+import {
+  validateSafeAccountConfig,
+  validateSafeDeploymentConfig
+} from '@safe-global/protocol-kit/contracts/utils'
+import {
+  DeploymentType,
+  PredictedSafeDescriptor,
+  PredictedSafeProps,
+  SafeAccountConfig,
+  SafeDeploymentConfig
+} from '@safe-global/protocol-kit/types'
+import { SafeVersion } from '@safe-global/types-kit'
+
+type CreatePredictedSafeDescriptorProps = {
+  predictedSafe: PredictedSafeProps
+  safeAddress: string
+  chainId: bigint
+  saltNonce: string
+  safeVersion: SafeVersion
+  isL1SafeSingleton?: boolean
+  fallbackHandler?: string
+  deploymentType?: DeploymentType
+}
+
+/**
+ * Creates the serializable descriptor of a predicted Safe. The fallback handler and the deployment
+ * type resolved for the Safe replace the values of its configuration. Optional values that are not
+ * set are omitted so the descriptor can be stored as JSON.
+ *
+ * @param {CreatePredictedSafeDescriptorProps} props - The predicted Safe and the values resolved for it.
+ * @returns {PredictedSafeDescriptor} The descriptor of the predicted Safe.
+ */
+export function createPredictedSafeDescriptor({
+  predictedSafe,
+  safeAddress,
+  chainId,
+  saltNonce,
+  safeVersion,
+  isL1SafeSingleton,
+  fallbackHandler,
+  deploymentType
+}: CreatePredictedSafeDescriptorProps): PredictedSafeDescriptor {
+  const { safeAccountConfig, safeDeploymentConfig } = predictedSafe
+
+  const descriptor: PredictedSafeDescriptor = {
+    safeAddress,
+    chainId: chainId.toString(),
+    owners: [...safeAccountConfig.owners],
+    threshold: safeAccountConfig.threshold,
+    saltNonce,
+    safeVersion,
+    deploymentType: deploymentType ?? safeDeploymentConfig?.deploymentType,
+    isL1SafeSingleton,
+    to: safeAccountConfig.to,
+    data: safeAccountConfig.data,
+    fallbackHandler: fallbackHandler ?? safeAccountConfig.fallbackHandler,
+    paymentToken: safeAccountConfig.paymentToken,
+    payment: safeAccountConfig.payment,
+    paymentReceiver: safeAccountConfig.paymentReceiver
+  }
+
+  return Object.fromEntries(
+    Object.entries(descriptor).filter(([, value]) => value !== undefined)
+  ) as PredictedSafeDescriptor
+}
+
+/**
+ * Returns the predicted Safe configuration of a descriptor.
+ *
+ * @param {PredictedSafeDescriptor} descriptor - The descriptor of the predicted Safe.
+ * @returns {PredictedSafeProps} The predicted Safe configuration.
+ * @throws "Invalid predicted Safe descriptor"
+ */
+export function getPredictedSafeFromDescriptor(
+  descriptor: PredictedSafeDescriptor
+): PredictedSafeProps {
+  if (
+    !descriptor ||
+    typeof descriptor.safeAddress !== 'string' ||
+    typeof descriptor.chainId !== 'string' ||
+    !Array.isArray(descriptor.owners) ||
+    typeof descriptor.threshold !== 'number' ||
+    typeof descriptor.saltNonce !== 'string' ||
+    typeof descriptor.safeVersion !== 'string'
+  ) {
+    throw new Error('Invalid predicted Safe descriptor')
+  }
+
+  const {
+    owners,
+    threshold,
+    to,
+    data,
+    fallbackHandler,
+    paymentToken,
+    payment,
+    paymentReceiver,
+    saltNonce,
+    safeVersion,
+    deploymentType
+  } = descriptor
+
+  const safeAccountConfig: SafeAccountConfig = {
+    owners: [...owners],
+    threshold,
+    to,
+    data,
+    fallbackHandler,
+    paymentToken,
+    payment,
+    paymentReceiver
+  }
+  const safeDeploymentConfig: SafeDeploymentConfig = { saltNonce, safeVersion, deploymentType }
+
+  validateSafeAccountConfig(safeAccountConfig)
+  validateSafeDeploymentConfig(safeDeploymentConfig)
+
+  return { safeAccountConfig, safeDeploymentConfig }
+}
@@ -1,8 +1,68 @@
-import { isAddress } from 'viem'
+import { custom, fallback, http, isAddress, Transport, webSocket } from 'viem'
+import {
+  Eip1193Provider,
+  FailoverOptions,
+  SafeProviderConfig,
+  SafeProviderEndpoint
+} from '@safe-global/protocol-kit/types'
 import { PASSKEY_CLIENT_KEY } from './passkeys'
 
 export const isEip1193Provider = (provider: any): boolean => typeof provider !== 'string'
+export const isSocketTransport = (provider: unknown): boolean =>
+  typeof provider === 'string' && /^wss?:\/\//i.test(provider)
 export const isPrivateKey = (signer?: any): boolean =>
   typeof signer === 'string' && !isAddress(signer)
 export const isSignerPasskeyClient = (signer?: any): boolean =>
   !!signer && signer.key === PASSKEY_CLIENT_KEY
+
+// The custom transports of viem do not support timeouts, so the requests are raced with a timer
+const withTimeout = (provider: Eip1193Provider, timeout: number): Eip1193Provider => ({
+  request: (args) =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`The request ${args.method} timed out after ${timeout}ms`)),
+        timeout
+      )
+
+      provider
+        .request(args)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer))
+    })
+})
+
+export function createEndpointTransport(
+  endpoint: SafeProviderEndpoint,
+  timeout?: number
+): Transport {
+  if (isEip1193Provider(endpoint)) {
+    const provider = endpoint as Eip1193Provider
+    return custom(timeout ? withTimeout(provider, timeout) : provider)
+  }
+
+  return isSocketTransport(endpoint)
+    ? webSocket(endpoint as string, { timeout })
+    : http(endpoint as string, { timeout })
+}
+
+/**
+ * Creates the transport of the SafeProvider. A list of endpoints is wrapped in a fallback
+ * transport that sends each request to the next endpoint when the previous one fails or times out.
+ *
+ * @param {SafeProviderConfig['provider']} provider - The endpoint or the list of endpoints
+ * @param {FailoverOptions} options - The timeout and the interval of the health checks
+ * @returns {Transport} The transport
+ */
+export function createProviderTransport(
+  provider: SafeProviderConfig['provider'],
+  { timeout, healthCheckInterval }: FailoverOptions = {}
+): Transport {
+  if (!Array.isArray(provider)) {
+    return createEndpointTransport(provider, timeout)
+  }
+
+  return fallback(
+    provider.map((endpoint) => createEndpointTransport(endpoint, timeout)),
+    { rank: healthCheckInterval ? { interval: healthCheckInterval } : false }
+  )
+}
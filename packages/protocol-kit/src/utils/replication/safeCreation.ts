@@ -0,0 +1,139 @@
+import { decodeFunctionData, parseAbi } from 'viem'
+import { SafeVersion } from '@safe-global/types-kit'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { getContractInfo } from '@safe-global/protocol-kit/contracts/config'
+import {
+  ReplicableSafeConfig,
+  SafeAccountConfig,
+  SafeCreationData
+} from '@safe-global/protocol-kit/types'
+import { asHex } from '@safe-global/protocol-kit/utils/types'
+
+const SAFE_SETUP_ABI = parseAbi([
+  'function setup(address[] _owners, uint256 _threshold, address to, bytes data, address paymentToken, uint256 payment, address paymentReceiver)',
+  'function setup(address[] _owners, uint256 _threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)'
+])
+
+const SAFE_PROXY_FACTORY_ABI = parseAbi([
+  'function createProxyWithNonce(address _singleton, bytes initializer, uint256 saltNonce)',
+  'function createChainSpecificProxyWithNonce(address _singleton, bytes initializer, uint256 saltNonce)'
+])
+
+/**
+ * Decodes the call to the setup method used to initialize a Safe.
+ *
+ * @param {string} setupData - The encoded call to the setup method.
+ * @returns {SafeAccountConfig} The configuration of the Safe.
+ */
+export function decodeSafeSetupData(setupData: string): SafeAccountConfig {
+  const { args } = decodeFunctionData({ abi: SAFE_SETUP_ABI, data: asHex(setupData) })
+
+  // Safe v1.0.0 does not set a fallback handler in the setup method
+  if (args.length === 7) {
+    const [owners, threshold, to, data, paymentToken, payment, paymentReceiver] = args
+
+    return {
+      owners: [...owners],
+      threshold: Number(threshold),
+      to,
+      data,
+      paymentToken,
+      payment: Number(payment),
+      paymentReceiver
+    }
+  }
+
+  const [owners, threshold, to, data, fallbackHandler, paymentToken, payment, paymentReceiver] =
+    args
+
+  return {
+    owners: [...owners],
+    threshold: Number(threshold),
+    to,
+    data,
+    fallbackHandler,
+    paymentToken,
+    payment: Number(payment),
+    paymentReceiver
+  }
+}
+
+/**
+ * Returns the creation data of a Safe from the transaction that deployed it with the SafeProxyFactory.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider of the chain where the Safe was deployed.
+ * @param {string} transactionHash - The hash of the transaction that deployed the Safe.
+ * @returns {Promise<SafeCreationData>} The creation data of the Safe.
+ * @throws "The transaction did not deploy a Safe with the createProxyWithNonce method of the SafeProxyFactory"
+ * @throws "A Safe deployed with a chain specific saltNonce can not be replicated in other chains"
+ */
+export async function getSafeCreationDataFromTransaction(
+  safeProvider: SafeProvider,
+  transactionHash: string
+): Promise<SafeCreationData> {
+  const transaction = await safeProvider.getTransaction(transactionHash)
+
+  let decodedData
+  try {
+    decodedData = decodeFunctionData({ abi: SAFE_PROXY_FACTORY_ABI, data: transaction.input })
+  } catch {
+    throw new Error(
+      'The transaction did not deploy a Safe with the createProxyWithNonce method of the SafeProxyFactory'
+    )
+  }
+
+  if (decodedData.functionName === 'createChainSpecificProxyWithNonce') {
+    throw new Error(
+      'A Safe deployed with a chain specific saltNonce can not be replicated in other chains'
+    )
+  }
+
+  const [singleton, setupData, saltNonce] = decodedData.args
+
+  return {
+    factoryAddress: transaction.to || '',
+    singleton,
+    setupData,
+    saltNonce: saltNonce.toString()
+  }
+}
+
+/**
+ * Returns the configuration used to deploy a Safe from its creation data. The version and deployment type
+ * of the Safe are identified from the address of its singleton.
+ *
+ * @param {SafeCreationData} creationData - The creation data of the Safe.
+ * @returns {ReplicableSafeConfig} The configuration used to deploy the Safe.
+ * @throws "The saltNonce used to deploy the Safe is unknown"
+ * @throws "The Safe singleton X is not a known Safe deployment"
+ */
+export function getReplicableSafeConfigFromCreation({
+  singleton,
+  setupData,
+  saltNonce
+}: SafeCreationData): ReplicableSafeConfig {
+  if (saltNonce === null) {
+    throw new Error('The saltNonce used to deploy the Safe is unknown')
+  }
+
+  const singletonInfo = getContractInfo(singleton)
+
+  if (
+    singletonInfo?.contractName !== 'safeSingletonVersion' &&
+    singletonInfo?.contractName !== 'safeSingletonL2Version'
+  ) {
+    throw new Error(`The Safe singleton ${singleton} is not a known Safe deployment`)
+  }
+
+  return {
+    predictedSafe: {
+      safeAccountConfig: decodeSafeSetupData(setupData),
+      safeDeploymentConfig: {
+        saltNonce,
+        safeVersion: singletonInfo.version as SafeVersion,
+        deploymentType: singletonInfo.type
+      }
+    },
+    isL1SafeSingleton: singletonInfo.contractName === 'safeSingletonVersion'
+  }
+}
@@ -0,0 +1,111 @@
+import { SafeTransaction } from '@safe-global/types-kit'
+import Safe from '@safe-global/protocol-kit/Safe'
+import {
+  AnalyzeTransactionOptions,
+  DecodedTransaction,
+  RiskFinding,
+  RiskPolicy,
+  RiskSeverity
+} from '@safe-global/protocol-kit/types'
+import { decodeSafeTransaction } from '../decoder'
+import { DEFAULT_RISK_RULES } from './rules'
+
+const RISK_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high', 'critical']
+
+/**
+ * Analyzes a Safe transaction with a set of rules and returns the risks found.
+ * The transaction is decoded offline and nested MultiSend transactions are analyzed too.
+ *
+ * @async
+ * @param {Safe} safe - The Safe instance the transaction belongs to.
+ * @param {SafeTransaction} safeTransaction - The transaction to analyze.
+ * @param {AnalyzeTransactionOptions} options - The rules, ABI registry and executor used for the analysis. Optional.
+ * @returns {Promise<RiskFinding[]>} The findings of all the rules.
+ */
+export async function analyzeSafeTransaction(
+  safe: Safe,
+  safeTransaction: SafeTransaction,
+  { rules = DEFAULT_RISK_RULES, abiRegistry, executor }: AnalyzeTransactionOptions = {}
+): Promise<RiskFinding[]> {
+  const decodedTransaction = decodeSafeTransaction(safeTransaction, abiRegistry)
+  const context = {
+    safe,
+    safeAddress: await safe.getAddress(),
+    safeTransaction,
+    decodedTransaction,
+    transactions: flattenTransactions(decodedTransaction),
+    executor: executor ?? (await safe.getSafeProvider().getSignerAddress())
+  }
+
+  const findings = await Promise.all(rules.map((rule) => rule.evaluate(context)))
+
+  return findings.flat()
+}
+
+/**
+ * Returns the findings with the given severity or a higher one.
+ *
+ * @param {RiskFinding[]} findings - The findings to filter.
+ * @param {RiskSeverity} severity - The minimum severity.
+ * @returns {RiskFinding[]} The findings with the given severity or a higher one.
+ */
+export function filterFindingsBySeverity(
+  findings: RiskFinding[],
+  severity: RiskSeverity
+): RiskFinding[] {
+  const minSeverityIndex = RISK_SEVERITIES.indexOf(severity)
+
+  return findings.filter((finding) => RISK_SEVERITIES.indexOf(finding.severity) >= minSeverityIndex)
+}
+
+/**
+ * Analyzes a Safe transaction and checks the findings against a risk policy before approving it.
+ *
+ * @async
+ * @param {Safe} safe - The Safe instance the transaction belongs to.
+ * @param {SafeTransaction} safeTransaction - The transaction to approve.
+ * @param {RiskPolicy} riskPolicy - The risk policy to enforce.
+ * @returns {Promise<RiskFinding[]>} The findings of the analysis.
+ * @throws "The transaction was refused by the risk policy"
+ * @throws "The transaction risks were not acknowledged"
+ */
+export async function enforceRiskPolicy(
+  safe: Safe,
+  safeTransaction: SafeTransaction,
+  { refuseSeverity, acknowledgeSeverity, onAcknowledge, ...options }: RiskPolicy
+): Promise<RiskFinding[]> {
+  const findings = await analyzeSafeTransaction(safe, safeTransaction, options)
+
+  if (refuseSeverity) {
+    const refusedFindings = filterFindingsBySeverity(findings, refuseSeverity)
+
+    if (refusedFindings.length) {
+      throw new Error(
+        `The transaction was refused by the risk policy: ${formatFindings(refusedFindings)}`
+      )
+    }
+  }
+
+  if (acknowledgeSeverity) {
+    const findingsToAcknowledge = filterFindingsBySeverity(findings, acknowledgeSeverity)
+
+    if (
+      findingsToAcknowledge.length &&
+      !(onAcknowledge && (await onAcknowledge(findingsToAcknowledge)))
+    ) {
+      throw new Error(
+        `The transaction risks were not acknowledged: ${formatFindings(findingsToAcknowledge)}`
+      )
+    }
+  }
+
+  return findings
+}
+
+function flattenTransactions(transaction: DecodedTransaction): DecodedTransaction[] {
+  return [transaction, ...(transaction.transactions || []).flatMap(flattenTransactions)]
+}
+
+function formatFindings(findings: RiskFinding[]): string {
+  return findings.map(({ ruleId }) => ruleId).join(', ')
+}
@@ -0,0 +1,2 @@
+export * from './analyzeTransaction'
+export * from './rules'
@@ -0,0 +1,160 @@
+import { maxUint256 } from 'viem'
+import { OperationType } from '@safe-global/types-kit'
+import { getContractInfo } from '@safe-global/protocol-kit/contracts/config'
+import { DecodedTransaction, RiskFinding, RiskRule } from '@safe-global/protocol-kit/types'
+import { isZeroAddress, sameString } from '../address'
+
+const TRUSTED_DELEGATE_CALL_CONTRACTS = [
+  'multiSendVersion',
+  'multiSendCallOnlyVersion',
+  'signMessageLibVersion'
+]
+
+const SAFE_CONFIGURATION_METHODS = [
+  'setGuard',
+  'setModuleGuard',
+  'setFallbackHandler',
+  'enableModule',
+  'disableModule'
+]
+
+const THRESHOLD_METHODS = ['addOwnerWithThreshold', 'removeOwner', 'changeThreshold']
+
+const isSafeCall = (transaction: DecodedTransaction, safeAddress: string): boolean =>
+  !!transaction.dataDecoded?.abiNames.includes('Safe') && sameString(transaction.to, safeAddress)
+
+export const unknownDelegateCallRule: RiskRule = {
+  id: 'unknown-delegatecall',
+  evaluate: ({ safe, transactions }) => {
+    const trustedAddresses = [safe.getMultiSendAddress(), safe.getMultiSendCallOnlyAddress()]
+
+    return transactions
+      .filter(({ operation, to }) => {
+        if (operation !== OperationType.DelegateCall) {
+          return false
+        }
+
+        if (trustedAddresses.some((address) => sameString(address, to))) {
+          return false
+        }
+
+        const contractInfo = getContractInfo(to)
+
+        return !contractInfo || !TRUSTED_DELEGATE_CALL_CONTRACTS.includes(contractInfo.contractName)
+      })
+      .map(
+        (transaction): RiskFinding => ({
+          ruleId: unknownDelegateCallRule.id,
+          severity: 'critical',
+          message: `Delegate call to an unknown contract ${transaction.to}`,
+          transaction
+        })
+      )
+  }
+}
+
+export const safeConfigurationChangeRule: RiskRule = {
+  id: 'safe-configuration-change',
+  evaluate: ({ safeAddress, transactions }) =>
+    transactions
+      .filter(
+        (transaction) =>
+          isSafeCall(transaction, safeAddress) &&
+          SAFE_CONFIGURATION_METHODS.includes(transaction.dataDecoded?.method ?? '')
+      )
+      .map(
+        (transaction): RiskFinding => ({
+          ruleId: safeConfigurationChangeRule.id,
+          severity: 'high',
+          message: `The transaction calls ${transaction.dataDecoded?.method} on the Safe`,
+          transaction
+        })
+      )
+}
+
+export const thresholdReductionRule: RiskRule = {
+  id: 'threshold-reduction',
+  evaluate: async ({ safe, safeAddress, transactions }) => {
+    const thresholdChanges = transactions.filter(
+      (transaction) =>
+        isSafeCall(transaction, safeAddress) &&
+        THRESHOLD_METHODS.includes(transaction.dataDecoded?.method ?? '')
+    )
+
+    if (!thresholdChanges.length) {
+      return []
+    }
+
+    const threshold = await safe.getThreshold()
+
+    return thresholdChanges
+      .filter(({ dataDecoded }) => {
+        const newThreshold = dataDecoded?.parameters.find(({ name }) => name === '_threshold')
+
+        return Number(newThreshold?.value) < threshold
+      })
+      .map(
+        (transaction): RiskFinding => ({
+          ruleId: thresholdReductionRule.id,
+          severity: 'high',
+          message: `The transaction reduces the threshold of the Safe from ${threshold}`,
+          transaction
+        })
+      )
+  }
+}
+
+export const unlimitedApprovalRule: RiskRule = {
+  id: 'unlimited-erc20-approval',
+  evaluate: ({ transactions }) =>
+    transactions
+      .filter(({ dataDecoded }) => {
+        if (dataDecoded?.method !== 'approve' || !dataDecoded.abiNames.includes('ERC20')) {
+          return false
+        }
+
+        const [, amount] = dataDecoded.parameters
+
+        return BigInt(amount.value as string) === maxUint256
+      })
+      .map(
+        (transaction): RiskFinding => ({
+          ruleId: unlimitedApprovalRule.id,
+          severity: 'medium',
+          message: `Unlimited ERC-20 approval of the token ${transaction.to}`,
+          transaction
+        })
+      )
+}
+
+export const gasRefundRule: RiskRule = {
+  id: 'gas-refund-receiver',
+  evaluate: ({ safeTransaction, executor }) => {
+    const { gasPrice, refundReceiver } = safeTransaction.data
+
+    // a zero refund receiver refunds the account that executes the transaction
+    if (
+      BigInt(gasPrice) === 0n ||
+      isZeroAddress(refundReceiver) ||
+      (executor && sameString(refundReceiver, executor))
+    ) {
+      return []
+    }
+
+    return [
+      {
+        ruleId: gasRefundRule.id,
+        severity: 'high',
+        message: `The gas refund is paid to ${refundReceiver} instead of the executor`
+      }
+    ]
+  }
+}
+
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  unknownDelegateCallRule,
+  safeConfigurationChangeRule,
+  thresholdReductionRule,
+  unlimitedApprovalRule,
+  gasRefundRule
+]
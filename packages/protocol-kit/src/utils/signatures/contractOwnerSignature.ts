@@ -0,0 +1,145 @@
+import { parseAbi } from 'viem'
+import semverSatisfies from 'semver/functions/satisfies.js'
+import { SafeSignature } from '@safe-global/types-kit'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { ContractOwnerSigner, ContractOwnerSignRequest } from '@safe-global/protocol-kit/types'
+import { EthSafeSignature } from './SafeSignature'
+import { buildContractSignature } from './utils'
+import { asHash, asHex } from '../types'
+
+const EIP1271_ABI = parseAbi([
+  'function isValidSignature(bytes32 _hash, bytes _signature) view returns (bytes4)'
+])
+const EIP1271_LEGACY_ABI = parseAbi([
+  'function isValidSignature(bytes _data, bytes _signature) view returns (bytes4)'
+])
+const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+const EIP1271_LEGACY_MAGIC_VALUE = '0x20c13b0b'
+
+// Safe versions lower than v1.5.0 check contract signatures with the legacy interface
+const EQ_OR_GT_1_5_0 = '>=1.5.0'
+
+/**
+ * Checks a signature with the EIP-1271 isValidSignature(bytes32,bytes) method of a contract.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} signatureValidator - The address of the contract checking the signature
+ * @param {string} hash - The signed hash
+ * @param {string} signature - The signature
+ * @param {string} caller - The account calling the contract. Optional
+ * @returns {Promise<boolean>} Whether the contract returns the EIP-1271 magic value
+ */
+export async function isValidEip1271Signature(
+  safeProvider: SafeProvider,
+  signatureValidator: string,
+  hash: string,
+  signature: string,
+  caller?: string
+): Promise<boolean> {
+  const magicValue = await safeProvider
+    .readContract({
+      address: asHex(signatureValidator),
+      abi: EIP1271_ABI,
+      functionName: 'isValidSignature',
+      args: [asHash(hash), asHex(signature)],
+      account: caller ? asHex(caller) : undefined
+    })
+    .catch(() => undefined)
+
+  return magicValue === EIP1271_MAGIC_VALUE
+}
+
+/**
+ * Checks a signature with the legacy isValidSignature(bytes,bytes) method of a contract, used by the
+ * Safe versions lower than v1.5.0 to check contract signatures.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} signatureValidator - The address of the contract checking the signature
+ * @param {string} data - The signed data
+ * @param {string} signature - The signature
+ * @param {string} caller - The account calling the contract. Optional
+ * @returns {Promise<boolean>} Whether the contract returns the legacy EIP-1271 magic value
+ */
+export async function isValidLegacyEip1271Signature(
+  safeProvider: SafeProvider,
+  signatureValidator: string,
+  data: string,
+  signature: string,
+  caller?: string
+): Promise<boolean> {
+  const magicValue = await safeProvider
+    .readContract({
+      address: asHex(signatureValidator),
+      abi: EIP1271_LEGACY_ABI,
+      functionName: 'isValidSignature',
+      args: [asHex(data), asHex(signature)],
+      account: caller ? asHex(caller) : undefined
+    })
+    .catch(() => undefined)
+
+  return magicValue === EIP1271_LEGACY_MAGIC_VALUE
+}
+
+/**
+ * Checks the signature of a Safe owner implementing EIP-1271 with the same isValidSignature method
+ * the Safe calls when executing the transaction: the bytes32 method with the hash for Safes >= v1.5.0
+ * and the legacy bytes method with the preimage of the hash for the previous versions.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {string} signatureValidator - The address of the contract owner
+ * @param {ContractOwnerSignRequest} request - The hash and its preimage checked by the Safe
+ * @param {string} signature - The signature
+ * @param {string} safeAddress - The address of the Safe
+ * @param {string} safeVersion - The version of the Safe
+ * @returns {Promise<boolean>} Whether the contract owner accepts the signature
+ */
+export async function isValidContractOwnerSignature(
+  safeProvider: SafeProvider,
+  signatureValidator: string,
+  { hash, data }: ContractOwnerSignRequest,
+  signature: string,
+  safeAddress: string,
+  safeVersion: string
+): Promise<boolean> {
+  return semverSatisfies(safeVersion, EQ_OR_GT_1_5_0)
+    ? isValidEip1271Signature(safeProvider, signatureValidator, hash, signature, safeAddress)
+    : isValidLegacyEip1271Signature(safeProvider, signatureValidator, data, signature, safeAddress)
+}
+
+/**
+ * Generates the contract signature of a Safe owner implementing EIP-1271. The signature is checked
+ * with the same isValidSignature method the Safe calls when executing the transaction.
+ *
+ * @param {SafeProvider} safeProvider - The SafeProvider
+ * @param {ContractOwnerSigner} contractOwnerSigner - The signer of the contract owner
+ * @param {ContractOwnerSignRequest} request - The hash and its preimage checked by the Safe
+ * @param {string} safeAddress - The address of the Safe
+ * @param {string} safeVersion - The version of the Safe
+ * @returns {Promise<SafeSignature>} The contract signature
+ * @throws "The signature is not valid for the contract owner X"
+ */
+export async function generateContractOwnerSignature(
+  safeProvider: SafeProvider,
+  contractOwnerSigner: ContractOwnerSigner,
+  request: ContractOwnerSignRequest,
+  safeAddress: string,
+  safeVersion: string
+): Promise<SafeSignature> {
+  const { address } = contractOwnerSigner
+  const signature = await contractOwnerSigner.sign(request)
+
+  const isValid = await isValidContractOwnerSignature(
+    safeProvider,
+    address,
+    request,
+    signature,
+    safeAddress,
+    safeVersion
+  )
+
+  if (!isValid) {
+    throw new Error(`The signature is not valid for the contract owner ${address}`)
+  }
+
+  return buildContractSignature([new EthSafeSignature(address, signature)], address)
+}
@@ -1,2 +1,5 @@
 export * from './SafeSignature'
 export * from './utils'
+export { parseSignatureBytes } from './parseSignatureBytes'
+export * from './verifySafeSignatures'
+export * from './contractOwnerSignature'
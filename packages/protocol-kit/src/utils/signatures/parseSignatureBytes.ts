@@ -0,0 +1,153 @@
+import { getAddress, hexToBigInt, hexToNumber, size, slice } from 'viem'
+import {
+  ParsedSafeSignature,
+  ParsedSignatureType,
+  SafeSignatureError
+} from '@safe-global/protocol-kit/types'
+import { asHex } from '../types'
+
+const SIGNATURE_LENGTH_BYTES = 65
+
+type SignatureBytesParseResult = {
+  signatures: ParsedSafeSignature[]
+  error?: SafeSignatureError & { index: number }
+}
+
+function getSignatureType(v: number): ParsedSignatureType {
+  if (v === 0) return 'CONTRACT_SIGNATURE'
+  if (v === 1) return 'APPROVED_HASH'
+  // eth_sign signatures increase v by 4 to distinguish them from EIP-712 signatures
+  if (v > 30) return 'ETH_SIGN'
+  return 'ECDSA'
+}
+
+/**
+ * Splits the signature bytes in the same way the Safe contract does when checking them.
+ * The parsing stops at the first contract signature with an invalid dynamic part.
+ *
+ * @param {string} signatureBytes - The encoded signatures
+ * @param {number} requiredSignatures - The number of signatures checked by the Safe, its threshold. Optional
+ * @returns {SignatureBytesParseResult} The parsed signatures and the error found, if any
+ */
+export function splitSignatureBytes(
+  signatureBytes: string,
+  requiredSignatures = 0
+): SignatureBytesParseResult {
+  const bytes = asHex(signatureBytes)
+  const bytesLength = size(bytes)
+  const signatures: ParsedSafeSignature[] = []
+  let staticPartLength = bytesLength
+
+  for (let index = 0; (index + 1) * SIGNATURE_LENGTH_BYTES <= staticPartLength; index++) {
+    const offset = index * SIGNATURE_LENGTH_BYTES
+    const r = slice(bytes, offset, offset + 32)
+    const s = slice(bytes, offset + 32, offset + 64)
+    const v = hexToNumber(slice(bytes, offset + 64, offset + SIGNATURE_LENGTH_BYTES))
+    const type = getSignatureType(v)
+
+    const signature: ParsedSafeSignature = {
+      index,
+      type,
+      r,
+      s,
+      v,
+      staticPart: slice(bytes, offset, offset + SIGNATURE_LENGTH_BYTES)
+    }
+    signatures.push(signature)
+
+    if (type === 'APPROVED_HASH' || type === 'CONTRACT_SIGNATURE') {
+      signature.owner = getAddress(slice(r, 12))
+    }
+
+    if (type !== 'CONTRACT_SIGNATURE') {
+      continue
+    }
+
+    const dynamicOffset = hexToBigInt(s)
+
+    // The Safe contract requires the dynamic parts to start after the static parts of all the
+    // required signatures
+    const staticPartEnd = Math.max(index + 1, requiredSignatures) * SIGNATURE_LENGTH_BYTES
+
+    if (dynamicOffset < BigInt(staticPartEnd)) {
+      return {
+        signatures,
+        error: {
+          index,
+          code: 'GS021',
+          message: `The contract signature at index ${index} points inside the static part of the signatures`
+        }
+      }
+    }
+
+    if (dynamicOffset + 32n > BigInt(bytesLength)) {
+      return {
+        signatures,
+        error: {
+          index,
+          code: 'GS022',
+          message: `The length of the contract signature at index ${index} is out of bounds`
+        }
+      }
+    }
+
+    signature.dynamicOffset = Number(dynamicOffset)
+
+    const contractSignatureLength = hexToBigInt(
+      slice(bytes, signature.dynamicOffset, signature.dynamicOffset + 32)
+    )
+
+    if (dynamicOffset + 32n + contractSignatureLength > BigInt(bytesLength)) {
+      return {
+        signatures,
+        error: {
+          index,
+          code: 'GS023',
+          message: `The data of the contract signature at index ${index} is out of bounds`
+        }
+      }
+    }
+
+    signature.contractSignature =
+      contractSignatureLength > 0n
+        ? slice(
+            bytes,
+            signature.dynamicOffset + 32,
+            signature.dynamicOffset + 32 + Number(contractSignatureLength)
+          )
+        : '0x'
+
+    // The dynamic parts are appended after the static part
+    staticPartLength = Math.min(staticPartLength, signature.dynamicOffset)
+  }
+
+  return { signatures }
+}
+
+/**
+ * Parses the encoded signatures of a Safe, which is the reverse of `buildSignatureBytes`.
+ * The type of each signature is identified by its v value:
+ * - 0: contract signature, with its data in the dynamic part of the signatures
+ * - 1: approved hash
+ * - greater than 30: eth_sign signature
+ * - otherwise: ECDSA signature
+ *
+ * @param {string} signatureBytes - The encoded signatures
+ * @param {number} requiredSignatures - The number of signatures checked by the Safe, its threshold. Optional
+ * @returns {ParsedSafeSignature[]} The parsed signatures
+ * @throws "The contract signature at index X points inside the static part of the signatures"
+ * @throws "The length of the contract signature at index X is out of bounds"
+ * @throws "The data of the contract signature at index X is out of bounds"
+ */
+export function parseSignatureBytes(
+  signatureBytes: string,
+  requiredSignatures?: number
+): ParsedSafeSignature[] {
+  const { signatures, error } = splitSignatureBytes(signatureBytes, requiredSignatures)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return signatures
+}
@@ -186,6 +186,18 @@ export const buildSignatureBytes = (signatures: SafeSignature[]): string => {
   return signatureBytes + dynamicBytes
 }
 
+const EQ_OR_GT_1_3_0 = '>=1.3.0'
+
+// The EIP-712 domain of Safes lower than v1.3.0 does not include the chainId
+const getSafeDomain = (
+  safeAddress: string,
+  safeVersion: string,
+  chainId: bigint
+): { chainId?: number; verifyingContract: string } =>
+  semverSatisfies(safeVersion, EQ_OR_GT_1_3_0)
+    ? { verifyingContract: safeAddress, chainId: Number(chainId) }
+    : { verifyingContract: safeAddress }
+
 export const preimageSafeTransactionHash = (
   safeAddress: string,
   safeTx: SafeTransactionData,
@@ -196,7 +208,7 @@ export const preimageSafeTransactionHash = (
 
   const message = safeTx as unknown as Record<string, unknown>
   return encodeTypedData({
-    domain: { verifyingContract: safeAddress, chainId: Number(chainId) },
+    domain: getSafeDomain(safeAddress, safeVersion, chainId),
     types: { SafeTx: safeTxTypes.SafeTx },
     message
   })
@@ -211,14 +223,12 @@ export const preimageSafeMessageHash = (
   const safeMessageTypes = getEip712MessageTypes(safeVersion)
 
   return encodeTypedData({
-    domain: { verifyingContract: safeAddress, chainId: Number(chainId) },
+    domain: getSafeDomain(safeAddress, safeVersion, chainId),
     types: { SafeMessage: safeMessageTypes.SafeMessage },
     message: { message }
   })
 }
 
-const EQ_OR_GT_1_3_0 = '>=1.3.0'
-
 export const calculateSafeTransactionHash = (
   safeAddress: string,
   safeTx: SafeTransactionData,
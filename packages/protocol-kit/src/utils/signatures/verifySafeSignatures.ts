@@ -0,0 +1,185 @@
+import { concat, hashMessage, numberToHex, recoverAddress } from 'viem'
+import type Safe from '@safe-global/protocol-kit/Safe'
+import {
+  ParsedSafeSignature,
+  SafeSignatureError,
+  SafeSignaturesVerificationReport,
+  SafeSignatureVerification,
+  VerifySafeSignaturesOptions
+} from '@safe-global/protocol-kit/types'
+import { sameString } from '../address'
+import { asHash, asHex } from '../types'
+import { splitSignatureBytes } from './parseSignatureBytes'
+import { isValidContractOwnerSignature } from './contractOwnerSignature'
+
+type SignerResult = { signer?: string; error?: SafeSignatureError }
+
+async function isValidContractSignature(
+  safe: Safe,
+  safeAddress: string,
+  hash: string,
+  { owner, contractSignature }: ParsedSafeSignature,
+  data?: string
+): Promise<boolean> {
+  return isValidContractOwnerSignature(
+    safe.getSafeProvider(),
+    owner as string,
+    { hash, data: data ?? hash },
+    contractSignature as string,
+    safeAddress,
+    safe.getContractVersion()
+  )
+}
+
+async function isHashApproved(safe: Safe, owner: string, hash: string): Promise<boolean> {
+  const safeContract = safe.getContractManager().safeContract
+
+  if (!safeContract || !(await safe.isSafeDeployed())) {
+    return false
+  }
+
+  const [approved] = await safeContract.approvedHashes([asHex(owner), asHash(hash)])
+
+  return approved > 0n
+}
+
+async function recoverSigner(hash: string, signature: ParsedSafeSignature): Promise<string> {
+  if (signature.type === 'ETH_SIGN') {
+    return recoverAddress({
+      hash: hashMessage({ raw: asHash(hash) }),
+      signature: concat([asHex(signature.r), asHex(signature.s), numberToHex(signature.v - 4)])
+    })
+  }
+
+  return recoverAddress({ hash: asHash(hash), signature: asHex(signature.staticPart) })
+}
+
+async function getSigner(
+  safe: Safe,
+  safeAddress: string,
+  hash: string,
+  signature: ParsedSafeSignature,
+  { executor, data }: VerifySafeSignaturesOptions
+): Promise<SignerResult> {
+  const { index, type, owner } = signature
+
+  if (type === 'CONTRACT_SIGNATURE') {
+    const isValid = await isValidContractSignature(safe, safeAddress, hash, signature, data)
+
+    return isValid
+      ? { signer: owner }
+      : {
+          signer: owner,
+          error: {
+            code: 'GS024',
+            message: `The contract signature at index ${index} is not valid for the owner ${owner}`
+          }
+        }
+  }
+
+  if (type === 'APPROVED_HASH') {
+    const isApproved =
+      (!!executor && sameString(executor, owner as string)) ||
+      (await isHashApproved(safe, owner as string, hash))
+
+    return isApproved
+      ? { signer: owner }
+      : {
+          signer: owner,
+          error: {
+            code: 'GS025',
+            message: `The hash ${hash} has not been approved by the owner ${owner}`
+          }
+        }
+  }
+
+  try {
+    return { signer: await recoverSigner(hash, signature) }
+  } catch {
+    return {
+      error: {
+        code: 'GS026',
+        message: `The signer of the signature at index ${index} can not be recovered`
+      }
+    }
+  }
+}
+
+/**
+ * Verifies the encoded signatures of a Safe transaction offline in the same way as the Safe contract,
+ * reporting the reason why each signature is not valid instead of the first error code.
+ * The signers are recovered and checked to be owners of the Safe sorted in ascending order, and the
+ * number of signatures is checked against the threshold of the Safe.
+ *
+ * @param {Safe} safe - The Safe instance
+ * @param {string} safeTxHash - The Safe transaction hash
+ * @param {string} signatureBytes - The encoded signatures
+ * @param {VerifySafeSignaturesOptions} options - The executor and the signed data used to check the signatures
+ * @returns {Promise<SafeSignaturesVerificationReport>} The verification report of the signatures
+ */
+export async function verifySafeSignatures(
+  safe: Safe,
+  safeTxHash: string,
+  signatureBytes: string,
+  options: VerifySafeSignaturesOptions = {}
+): Promise<SafeSignaturesVerificationReport> {
+  const safeAddress = await safe.getAddress()
+  const owners = await safe.getOwners()
+  const threshold = await safe.getThreshold()
+
+  const { signatures, error: parseError } = splitSignatureBytes(signatureBytes, threshold)
+  const verifications: SafeSignatureVerification[] = []
+  let lastOwner = 0n
+
+  for (const signature of signatures) {
+    if (parseError?.index === signature.index) {
+      const { code, message } = parseError
+      verifications.push({ ...signature, isValid: false, error: { code, message } })
+      continue
+    }
+
+    const { signer, error } = await getSigner(safe, safeAddress, safeTxHash, signature, options)
+    let ownerError = error
+
+    if (!ownerError && signer) {
+      if (!owners.some((owner) => sameString(owner, signer))) {
+        ownerError = {
+          code: 'GS026',
+          message: `The signer ${signer} of the signature at index ${signature.index} is not an owner of the Safe`
+        }
+      } else if (BigInt(signer) <= lastOwner) {
+        ownerError = {
+          code: 'GS026',
+          message: `The signature at index ${signature.index} is not sorted. The signatures must be sorted by signer address in ascending order`
+        }
+      }
+    }
+
+    if (signer) {
+      lastOwner = BigInt(signer)
+    }
+
+    verifications.push({ ...signature, signer, isValid: !ownerError, error: ownerError })
+  }
+
+  const requiredSignatures = verifications.slice(0, threshold)
+  let error: SafeSignatureError | undefined
+
+  if (parseError && parseError.index < threshold) {
+    const { code, message } = parseError
+    error = { code, message }
+  } else if (signatures.length < threshold) {
+    error = {
+      code: 'GS020',
+      message: `The threshold of the Safe is ${threshold} but only ${signatures.length} signatures were provided`
+    }
+  }
+
+  return {
+    isValid: !error && requiredSignatures.every(({ isValid }) => isValid),
+    threshold,
+    signers: verifications.filter(({ isValid }) => isValid).map(({ signer }) => signer as string),
+    signatures: verifications,
+    error
+  }
+}
@@ -17,6 +17,7 @@ import {
   isSafeContractCompatibleWithSimulateAndRevert
 } from '../safeVersions'
 import { asHex } from '../types'
+import { encodeExecTransactionData } from './utils'
 
 // Every byte == 00 -> 4  Gas cost
 const CALL_DATA_ZERO_BYTE_GAS_COST = 4
@@ -164,9 +165,9 @@ export async function estimateTxBaseGas(
 
   const signaturesGasCost = safeThreshold * GAS_COST_PER_SIGNATURE
 
-  const encodeSafeTxGas = safeTxGas || 0
-  const encodeBaseGas = 0
-  const gasPrice = 1
+  const encodeSafeTxGas = safeTxGas || '0'
+  const encodeBaseGas = '0'
+  const gasPrice = '1'
   const encodeGasToken = gasToken || ZERO_ADDRESS
   const encodeRefundReceiver = refundReceiver || ZERO_ADDRESS
   const signatures = '0x'
@@ -184,20 +185,21 @@ export async function estimateTxBaseGas(
     customContracts
   })
 
-  //TODO: We should explore contract versions and map to the correct types
-  //@ts-expect-error: Type too complex to represent.
-  const execTransactionData = safeSingletonContract.encode('execTransaction', [
-    to,
-    BigInt(value),
-    data,
-    operation,
-    encodeSafeTxGas,
-    encodeBaseGas,
-    gasPrice,
-    encodeGasToken,
-    encodeRefundReceiver,
+  const execTransactionData = encodeExecTransactionData(
+    safeSingletonContract,
+    {
+      to,
+      value,
+      data,
+      operation,
+      safeTxGas: encodeSafeTxGas,
+      baseGas: encodeBaseGas,
+      gasPrice,
+      gasToken: encodeGasToken,
+      refundReceiver: encodeRefundReceiver
+    },
     signatures
-  ])
+  )
 
   // If nonce == 0, nonce storage has to be initialized
   const isSafeInitialized = safeNonce !== 0
@@ -379,24 +381,22 @@ function isGnosisChainEstimationError(error: EstimationError): error is GnosisCh
 }
 
 /**
- * Parses the SafeTxGas estimation response from different providers.
- * It extracts and decodes the SafeTxGas value from the Error object.
+ * Extracts the encoded data of a reverted call from the error thrown by the different providers.
  *
- * @param {ProviderEstimationError} error - The estimation object with the estimation data.
- * @returns {string} The SafeTxGas value.
- * @throws It Will throw an error if the SafeTxGas cannot be parsed.
+ * @param {EstimationError} error - The error thrown by the provider.
+ * @returns {string | undefined} The encoded revert data or undefined if it is not present.
  */
-function parseSafeTxGasErrorResponse(error: EstimationError): string {
+export function extractRevertData(error: EstimationError): string | undefined {
   // Ethers v6
   if (isEthersError(error)) {
-    return decodeSafeTxGas(error.data)
+    return error.data
   }
 
   // viem
   if (isViemError(error)) {
     const cause = error.walk() as RawContractErrorType
     if (typeof cause?.data === 'string') {
-      return decodeSafeTxGas(cause?.data)
+      return cause?.data
     }
   }
 
@@ -405,18 +405,38 @@ function parseSafeTxGasErrorResponse(error: EstimationError): string {
     const gnosisChainProviderData = error.info.error.data
     const isString = typeof gnosisChainProviderData === 'string'
 
-    const encodedDataResponse = isString ? gnosisChainProviderData : gnosisChainProviderData.data
-    return decodeSafeTxGas(encodedDataResponse)
+    return isString ? gnosisChainProviderData : gnosisChainProviderData.data
   }
 
   // Error message
   const isEncodedDataPresent = error.message.includes('0x')
 
   if (isEncodedDataPresent) {
-    return decodeSafeTxGas(error.message)
+    const [, encodedData] = error.message.split('0x')
+    return '0x' + encodedData
   }
 
-  throw new Error('Could not parse SafeTxGas from Estimation response, Details: ' + error?.message)
+  return undefined
+}
+
+/**
+ * Parses the SafeTxGas estimation response from different providers.
+ * It extracts and decodes the SafeTxGas value from the Error object.
+ *
+ * @param {ProviderEstimationError} error - The estimation object with the estimation data.
+ * @returns {string} The SafeTxGas value.
+ * @throws It Will throw an error if the SafeTxGas cannot be parsed.
+ */
+function parseSafeTxGasErrorResponse(error: EstimationError): string {
+  const encodedDataResponse = extractRevertData(error)
+
+  if (encodedDataResponse !== undefined) {
+    return decodeSafeTxGas(encodedDataResponse)
+  }
+
+  throw new Error(
+    'Could not parse SafeTxGas from Estimation response, Details: ' + (error as Error)?.message
+  )
 }
 
 /**
@@ -1,4 +1,5 @@
 export * from './gas'
 export * from './SafeTransaction'
+export * from './simulation'
 export * from './types'
 export * from './utils'
@@ -0,0 +1,273 @@
+import { decodeAbiParameters, decodeErrorResult, pad, parseAbiParameters, toHex } from 'viem'
+import { SafeTransaction } from '@safe-global/types-kit'
+import Safe from '@safe-global/protocol-kit/Safe'
+import {
+  AccountStateDiff,
+  SafeProviderTransaction,
+  SafeTransactionSimulationResult,
+  SimulationLog
+} from '@safe-global/protocol-kit/types'
+import {
+  getSafeContract,
+  getSimulateTxAccessorContract
+} from '../../contracts/safeDeploymentContracts'
+import { sameString } from '../address'
+import { isSafeContractCompatibleWithSimulateAndRevert } from '../safeVersions'
+import { buildSignatureBytes, generatePreValidatedSignature } from '../signatures'
+import { asHex } from '../types'
+import { extractRevertData } from './gas'
+import { encodeExecTransactionData } from './utils'
+
+const EMPTY_STORAGE_VALUE = '0x' + '0'.repeat(64)
+// The threshold is the 5th variable in the storage layout of every Safe version
+const THRESHOLD_STORAGE_SLOT = pad(toHex(4))
+
+type CallTrace = {
+  logs?: SimulationLog[]
+  calls?: CallTrace[]
+}
+
+type PrestateAccount = {
+  balance?: string
+  storage?: Record<string, string>
+}
+
+type PrestateDiff = {
+  pre: Record<string, PrestateAccount>
+  post: Record<string, PrestateAccount>
+}
+
+/**
+ * This function simulates a Safe transaction without broadcasting it.
+ * The execution result is obtained with the simulateAndRevert function and the SimulateTxAccessor contract,
+ * so no signatures are required. If the Safe is deployed and the node supports debug_traceCall, the transaction
+ * is also traced through execTransaction to collect the emitted logs and the balance and storage changes,
+ * including the ones made by the Safe itself. This method is meant to be used for Safe versions >= 1.3.0.
+ *
+ * @async
+ * @function simulateSafeTransaction
+ * @param {Safe} safe - The Safe instance containing all the necessary information about the safe.
+ * @param {SafeTransaction} safeTransaction - The transaction to simulate.
+ * @returns {Promise<SafeTransactionSimulationResult>} A Promise that resolves with the simulation result.
+ * @throws "Current version of the Safe does not support the simulateAndRevert functionality"
+ */
+export async function simulateSafeTransaction(
+  safe: Safe,
+  safeTransaction: SafeTransaction
+): Promise<SafeTransactionSimulationResult> {
+  const isSafeDeployed = await safe.isSafeDeployed()
+  const safeAddress = await safe.getAddress()
+  const safeVersion = safe.getContractVersion()
+  const safeProvider = safe.getSafeProvider()
+  const chainId = await safe.getChainId()
+  const customContracts = safe.getContractManager().contractNetworks?.[chainId.toString()]
+  const isL1SafeSingleton = safe.getContractManager().isL1SafeSingleton
+
+  const safeSingletonContract = await getSafeContract({
+    safeProvider,
+    safeVersion,
+    isL1SafeSingleton,
+    customContracts
+  })
+
+  const safeContractCompatibleWithSimulateAndRevert =
+    await isSafeContractCompatibleWithSimulateAndRevert(safeSingletonContract)
+
+  const simulateTxAccessorContract = await getSimulateTxAccessorContract({
+    safeProvider,
+    safeVersion,
+    customContracts
+  })
+
+  const transactionDataToSimulate = simulateTxAccessorContract.encode('simulate', [
+    safeTransaction.data.to,
+    BigInt(safeTransaction.data.value),
+    asHex(safeTransaction.data.data),
+    safeTransaction.data.operation
+  ])
+
+  const safeFunctionToSimulate = safeContractCompatibleWithSimulateAndRevert.encode(
+    'simulateAndRevert',
+    [simulateTxAccessorContract.getAddress(), asHex(transactionDataToSimulate)]
+  )
+
+  // if the Safe is not deployed we can use the singleton address to simulate
+  const transactionToSimulate = {
+    to: isSafeDeployed ? safeAddress : safeSingletonContract.getAddress(),
+    value: '0',
+    data: safeFunctionToSimulate,
+    from: safeAddress
+  }
+
+  let encodedResponse: string
+  try {
+    encodedResponse = await safeProvider.call(transactionToSimulate)
+  } catch (error) {
+    // simulateAndRevert always reverts, so most providers return the result inside the error
+    const revertData = extractRevertData(error as Error)
+    if (!revertData) {
+      throw error
+    }
+    encodedResponse = revertData
+  }
+
+  const { gasUsed, success, returnData } = decodeSimulateAndRevertResponse(encodedResponse)
+
+  const simulationResult: SafeTransactionSimulationResult = {
+    success,
+    gasUsed,
+    returnData,
+    revertReason: success ? undefined : decodeRevertReason(returnData),
+    traced: false
+  }
+
+  // The logs and the state changes can only be traced on the Safe itself
+  if (!isSafeDeployed) {
+    return simulationResult
+  }
+
+  const owners = await safe.getOwners()
+  const signerAddress = await safeProvider.getSignerAddress()
+  const executor = owners.find((owner) => sameString(owner, signerAddress || '')) ?? owners[0]
+
+  // The transaction is executed through execTransaction with a pre-validated signature of the
+  // executor, so the nonce, guard and refund changes are included. The threshold is overridden
+  // to 1 so the signatures of the other owners are not required
+  const transactionToTrace: SafeProviderTransaction = {
+    from: executor,
+    to: safeAddress,
+    value: '0',
+    data: encodeExecTransactionData(
+      safeSingletonContract,
+      safeTransaction.data,
+      buildSignatureBytes([generatePreValidatedSignature(executor)])
+    )
+  }
+  const stateOverrides = {
+    [safeAddress]: { stateDiff: { [THRESHOLD_STORAGE_SLOT]: pad(toHex(1)) } }
+  }
+
+  try {
+    const callTrace = (await safeProvider.traceCall(transactionToTrace, {
+      tracer: 'callTracer',
+      tracerConfig: { withLog: true },
+      stateOverrides
+    })) as CallTrace
+    const prestateDiff = (await safeProvider.traceCall(transactionToTrace, {
+      tracer: 'prestateTracer',
+      tracerConfig: { diffMode: true },
+      stateOverrides
+    })) as PrestateDiff
+
+    return {
+      ...simulationResult,
+      traced: true,
+      logs: collectLogs(callTrace),
+      stateDiff: parseStateDiff(prestateDiff)
+    }
+  } catch {
+    // the node does not support debug_traceCall or the requested tracers
+    return simulationResult
+  }
+}
+
+/**
+ * Decodes the data returned by simulateAndRevert when it is used with the SimulateTxAccessor contract.
+ * The response is packed as (bool success, uint256 returnDataSize, bytes returnData), where returnData
+ * is the ABI encoded result of the simulate function: (uint256 estimate, bool success, bytes returnData).
+ *
+ * @param {string} encodedResponse - The data returned by simulateAndRevert.
+ * @returns The gas used, the execution status and the data returned by the simulated transaction.
+ * @throws "Could not simulate the transaction"
+ */
+export function decodeSimulateAndRevertResponse(encodedResponse: string): {
+  gasUsed: string
+  success: boolean
+  returnData: string
+} {
+  const [, response] = encodedResponse.split('0x')
+
+  const isSimulationExecuted = BigInt('0x' + response.slice(0, 64)) === 1n
+  if (!isSimulationExecuted) {
+    throw new Error('Could not simulate the transaction')
+  }
+
+  const [estimate, success, returnData] = decodeAbiParameters(
+    parseAbiParameters('uint256, bool, bytes'),
+    asHex('0x' + response.slice(128))
+  )
+
+  return {
+    gasUsed: estimate.toString(),
+    success,
+    returnData
+  }
+}
+
+/**
+ * Decodes the revert reason of a reverted call. Only the built-in Error(string) and Panic(uint256)
+ * errors can be decoded.
+ *
+ * @param {string} returnData - The data returned by the reverted call.
+ * @returns {string | undefined} The revert reason or undefined if it cannot be decoded.
+ */
+export function decodeRevertReason(returnData: string): string | undefined {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: [], data: asHex(returnData) })
+
+    if (errorName === 'Panic') {
+      return `Panic(0x${(args[0] as bigint).toString(16)})`
+    }
+
+    return args[0] as string
+  } catch {
+    return undefined
+  }
+}
+
+function collectLogs(callTrace: CallTrace): SimulationLog[] {
+  const logs = (callTrace.logs || []).map(({ address, topics, data }) => ({
+    address,
+    topics,
+    data
+  }))
+
+  return (callTrace.calls || []).reduce(
+    (allLogs: SimulationLog[], call) => [...allLogs, ...collectLogs(call)],
+    logs
+  )
+}
+
+function parseStateDiff({ pre, post }: PrestateDiff): AccountStateDiff[] {
+  const addresses = [...new Set([...Object.keys(pre), ...Object.keys(post)])]
+
+  return addresses.map((address) => {
+    const accountBefore = pre[address] || {}
+    const accountAfter = post[address] || {}
+
+    const balanceBefore = BigInt(accountBefore.balance ?? '0x0')
+    // only the modified fields are present in the post state and deleted accounts are omitted
+    const isAccountDeleted = !(address in post)
+    const balanceAfter = accountAfter.balance
+      ? BigInt(accountAfter.balance)
+      : isAccountDeleted
+        ? 0n
+        : balanceBefore
+
+    const storageBefore = accountBefore.storage || {}
+    const storageAfter = accountAfter.storage || {}
+    const slots = [...new Set([...Object.keys(storageBefore), ...Object.keys(storageAfter)])]
+
+    return {
+      address,
+      balanceBefore,
+      balanceAfter,
+      // cleared slots are omitted from the post state
+      storage: slots.map((slot) => ({
+        slot,
+        before: storageBefore[slot] ?? EMPTY_STORAGE_VALUE,
+        after: storageAfter[slot] ?? EMPTY_STORAGE_VALUE
+      }))
+    }
+  })
+}
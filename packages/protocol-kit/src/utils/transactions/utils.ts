@@ -1,5 +1,6 @@
 import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
 import { DEFAULT_SAFE_VERSION } from '@safe-global/protocol-kit/contracts/config'
+import { encodeSafeFunctionData } from '@safe-global/protocol-kit/contracts/utils'
 import {
   AddOwnerTxParams,
   AddPasskeyOwnerTxParams,
@@ -9,7 +10,8 @@ import {
   SafeProviderTransaction,
   StandardizeSafeTransactionDataProps,
   SwapOwnerTxParams,
-  ExternalClient
+  ExternalClient,
+  SafeContractImplementationType
 } from '@safe-global/protocol-kit/types'
 import { hasSafeFeature, SAFE_FEATURES } from '@safe-global/protocol-kit/utils'
 import { ZERO_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
@@ -156,6 +158,36 @@ export function encodeMultiSendData(txs: MetaTransactionData[]): string {
   return `0x${txs.map((tx) => encodeMetaTransaction(tx)).join('')}`
 }
 
+/**
+ * Encodes the execTransaction call of a Safe contract.
+ *
+ * @param safeContract - The Safe contract
+ * @param safeTransactionData - The Safe transaction data to execute
+ * @param signatures - The signatures of the Safe transaction
+ * @returns The encoded execTransaction call
+ */
+export function encodeExecTransactionData(
+  safeContract: SafeContractImplementationType,
+  safeTransactionData: Omit<SafeTransactionData, 'nonce'>,
+  signatures: string
+): string {
+  const { to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver } =
+    safeTransactionData
+
+  return encodeSafeFunctionData(safeContract, 'execTransaction', [
+    asHex(to),
+    BigInt(value),
+    asHex(data),
+    operation,
+    BigInt(safeTxGas),
+    BigInt(baseGas),
+    BigInt(gasPrice),
+    asHex(gasToken),
+    asHex(refundReceiver),
+    asHex(signatures)
+  ])
+}
+
 export function decodeMultiSendData(encodedData: string): MetaTransactionData[] {
   const decodedData = decodeFunctionData({
     abi: parseAbi(['function multiSend(bytes memory transactions) public payable']),
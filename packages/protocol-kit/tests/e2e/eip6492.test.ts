@@ -0,0 +1,99 @@
+import Safe, {
+  hashSafeMessage,
+  isErc6492WrappedSignature,
+  isValidUniversalSignature
+} from '@safe-global/protocol-kit/index'
+import { Eip1193Provider, RequestArguments } from '@safe-global/protocol-kit/types'
+import { safeVersionDeployed, setupTests, itif } from '@safe-global/testing-kit'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { getEip1193Provider } from './utils/setupProvider'
+
+chai.use(chaiAsPromised)
+
+const MESSAGE = 'I am the owner of this Safe account'
+
+describe('The EIP-6492 implementation', () => {
+  const provider = getEip1193Provider()
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should validate the signature of a predicted Safe before its deployment',
+    async () => {
+      const { accounts, predictedSafe, contractNetworks } = await setupTests()
+      const [account1] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        signer: account1.address,
+        predictedSafe,
+        contractNetworks
+      })
+      const safeAddress = await safeSdk.getAddress()
+
+      const signedMessage = await safeSdk.signMessage(safeSdk.createMessage(MESSAGE))
+      const signature = await safeSdk.getErc6492Signature(signedMessage.encodedSignatures())
+      chai.expect(isErc6492WrappedSignature(signature)).to.be.true
+
+      chai.expect(await safeSdk.isValidSignature(hashSafeMessage(MESSAGE), signature)).to.be.true
+      chai.expect(
+        await isValidUniversalSignature(
+          safeSdk.getSafeProvider(),
+          safeAddress,
+          hashSafeMessage(MESSAGE),
+          signature
+        )
+      ).to.be.true
+      // The deployment of the Safe is only simulated
+      chai.expect(await safeSdk.isSafeDeployed()).to.be.false
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should not validate the signature of a predicted Safe for a different message',
+    async () => {
+      const { accounts, predictedSafe, contractNetworks } = await setupTests()
+      const [account1] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        signer: account1.address,
+        predictedSafe,
+        contractNetworks
+      })
+
+      const signedMessage = await safeSdk.signMessage(safeSdk.createMessage(MESSAGE))
+      const signature = await safeSdk.getErc6492Signature(signedMessage.encodedSignatures())
+
+      chai.expect(await safeSdk.isValidSignature(hashSafeMessage('Another message'), signature)).to
+        .be.false
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should throw the errors of the provider instead of considering the signature invalid',
+    async () => {
+      const { accounts, predictedSafe, contractNetworks } = await setupTests()
+      const [account1] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        signer: account1.address,
+        predictedSafe,
+        contractNetworks
+      })
+      const signedMessage = await safeSdk.signMessage(safeSdk.createMessage(MESSAGE))
+      const signature = await safeSdk.getErc6492Signature(signedMessage.encodedSignatures())
+
+      const failingProvider: Eip1193Provider = {
+        request: async (request: RequestArguments) => {
+          if (request.method === 'eth_call') {
+            throw new Error('Network error')
+          }
+          return provider.request(request)
+        }
+      }
+      const failingSafeSdk = await safeSdk.connect({ provider: failingProvider })
+
+      await chai
+        .expect(failingSafeSdk.isValidSignature(hashSafeMessage(MESSAGE), signature))
+        .to.be.rejectedWith('Network error')
+    }
+  )
+})
@@ -1,6 +1,11 @@
 import { getERC20Mintable, safeVersionDeployed, setupTests, itif } from '@safe-global/testing-kit'
 import Safe from '@safe-global/protocol-kit/index'
-import { TransactionOptions, MetaTransactionData, SigningMethod } from '@safe-global/types-kit'
+import {
+  OperationType,
+  TransactionOptions,
+  MetaTransactionData,
+  SigningMethod
+} from '@safe-global/types-kit'
 import chai from 'chai'
 import chaiAsPromised from 'chai-as-promised'
 import { waitSafeTxReceipt } from './utils/transactions'
@@ -97,6 +102,30 @@ describe('Transactions execution', () => {
         .to.be.rejectedWith('Not enough Ether funds')
     })
 
+    it('should check the risk policy before approving the transaction on execution', async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [, account2] = accounts
+      const safeAddress = safe.address
+      const safeSdk1 = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks,
+        riskPolicy: { acknowledgeSeverity: 'high' }
+      })
+      const safeTransactionData = {
+        to: account2.address,
+        value: '0',
+        data: '0x',
+        operation: OperationType.DelegateCall
+      }
+      const tx = await safeSdk1.createTransaction({ transactions: [safeTransactionData] })
+      const safeInitialNonce = await safeSdk1.getNonce()
+      await chai
+        .expect(safeSdk1.executeTransaction(tx))
+        .to.be.rejectedWith('The transaction risks were not acknowledged: unknown-delegatecall')
+      chai.expect(await safeSdk1.getNonce()).to.be.eq(safeInitialNonce)
+    })
+
     it('should fail if there are not enough signatures (1 missing)', async () => {
       const { safe, accounts, contractNetworks } = await setupTests({
         safeConfig: { numberOfOwners: 3, threshold: 3 }
@@ -4,6 +4,8 @@ import {
   getSocialRecoveryModule,
   getStateChannelModule,
   getWhiteListModule,
+  itif,
+  safeVersionDeployed,
   setupTests
 } from '@safe-global/testing-kit'
 import Safe, { SafeTransactionOptionalProps } from '@safe-global/protocol-kit/index'
@@ -492,4 +494,124 @@ describe('Safe modules manager', () => {
       chai.expect(await safeSdk.isModuleEnabled(socialRecoveryModule.address)).to.be.false
     })
   })
+
+  describe('getModuleGuard', async () => {
+    itif(safeVersionDeployed < '1.5.0')(
+      'should fail if getting the enabled module guard is not supported',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        const tx = safeSdk.getModuleGuard()
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            'Current version of the Safe does not support module guards functionality'
+          )
+      }
+    )
+
+    itif(safeVersionDeployed >= '1.5.0')(
+      'should return 0x address when no module guard is enabled',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        chai.expect(await safeSdk.getModuleGuard()).to.be.eq(ZERO_ADDRESS)
+      }
+    )
+  })
+
+  describe('createEnableModuleGuardTx', async () => {
+    itif(safeVersionDeployed < '1.5.0')(
+      'should fail if enabling a module guard is not supported',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const dailyLimitModule = await getDailyLimitModule()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        const tx = safeSdk.createEnableModuleGuardTx(dailyLimitModule.address)
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            'Current version of the Safe does not support module guards functionality'
+          )
+      }
+    )
+
+    itif(safeVersionDeployed >= '1.5.0')('should fail if address is invalid', async () => {
+      const { safe, contractNetworks } = await setupTests()
+      const safeAddress = safe.address
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks
+      })
+      const tx = safeSdk.createEnableModuleGuardTx('0x123')
+      await chai.expect(tx).to.be.rejectedWith('Invalid module guard address provided')
+    })
+
+    itif(safeVersionDeployed >= '1.5.0')(
+      'should fail if address is equal to 0x address',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        const tx = safeSdk.createEnableModuleGuardTx(ZERO_ADDRESS)
+        await chai.expect(tx).to.be.rejectedWith('Invalid module guard address provided')
+      }
+    )
+  })
+
+  describe('createDisableModuleGuardTx', async () => {
+    itif(safeVersionDeployed < '1.5.0')(
+      'should fail if disabling a module guard is not supported',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        const tx = safeSdk.createDisableModuleGuardTx()
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            'Current version of the Safe does not support module guards functionality'
+          )
+      }
+    )
+
+    itif(safeVersionDeployed >= '1.5.0')(
+      'should fail if there is no module guard enabled',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeAddress = safe.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks
+        })
+        const tx = safeSdk.createDisableModuleGuardTx()
+        await chai.expect(tx).to.be.rejectedWith('There is no module guard enabled yet')
+      }
+    )
+  })
 })
@@ -2,6 +2,7 @@ import { setupTests } from '@safe-global/testing-kit'
 import Safe from '@safe-global/protocol-kit/index'
 import chai from 'chai'
 import chaiAsPromised from 'chai-as-promised'
+import { OperationType } from '@safe-global/types-kit'
 import { getEip1193Provider } from './utils/setupProvider'
 import { waitSafeTxReceipt } from './utils/transactions'
 
@@ -98,6 +99,59 @@ describe('On-chain signatures', () => {
       await waitSafeTxReceipt(txResponse2)
       chai.expect(await safe.read.approvedHashes([account1.address, txHash])).to.be.equal(1n)
     })
+    it('should check the risk policy before approving the transaction hash', async () => {
+      const { safe, accounts, contractNetworks } = await setupTests({
+        safeConfig: { numberOfOwners: 2, threshold: 2 }
+      })
+      const [account1, account2] = accounts
+      const safeAddress = safe.address
+      const safeSdk1 = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks,
+        riskPolicy: { refuseSeverity: 'high' }
+      })
+      const safeTransactionData = {
+        to: account2.address,
+        value: '0',
+        data: '0x',
+        operation: OperationType.DelegateCall
+      }
+      const tx = await safeSdk1.createTransaction({ transactions: [safeTransactionData] })
+      const txHash = await safeSdk1.getTransactionHash(tx)
+      await chai
+        .expect(safeSdk1.approveTransactionHash(txHash))
+        .to.be.rejectedWith('The Safe transaction is required to check the risk policy')
+      await chai
+        .expect(safeSdk1.approveTransactionHash(tx))
+        .to.be.rejectedWith('The transaction was refused by the risk policy: unknown-delegatecall')
+      chai.expect(await safe.read.approvedHashes([account1.address, txHash])).to.be.equal(0n)
+    })
+
+    it('should approve the transaction hash if the risks are acknowledged', async () => {
+      const { safe, accounts, contractNetworks } = await setupTests({
+        safeConfig: { numberOfOwners: 2, threshold: 2 }
+      })
+      const [account1, account2] = accounts
+      const safeAddress = safe.address
+      const safeSdk1 = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks,
+        riskPolicy: { acknowledgeSeverity: 'high', onAcknowledge: async () => true }
+      })
+      const safeTransactionData = {
+        to: account2.address,
+        value: '0',
+        data: '0x',
+        operation: OperationType.DelegateCall
+      }
+      const tx = await safeSdk1.createTransaction({ transactions: [safeTransactionData] })
+      const txHash = await safeSdk1.getTransactionHash(tx)
+      const txResponse = await safeSdk1.approveTransactionHash(tx)
+      await waitSafeTxReceipt(txResponse)
+      chai.expect(await safe.read.approvedHashes([account1.address, txHash])).to.be.equal(1n)
+    })
   })
 
   describe('getOwnersWhoApprovedTx', async () => {
@@ -294,6 +294,35 @@ describe('Safe Deployment', () => {
     )
   })
 
+  describe('exportPredictedSafe', async () => {
+    itif(safeVersionDeployed > '1.0.0')(
+      'should export the default CompatibilityFallbackHandler used to predict the Safe',
+      async () => {
+        const { accounts, contractNetworks } = await setupTests()
+        const [account1, account2] = accounts
+        const predictedSafe: PredictedSafeProps = {
+          safeAccountConfig: { owners: [account1.address, account2.address], threshold: 2 },
+          safeDeploymentConfig: { safeVersion: safeVersionDeployed, saltNonce: '12345' }
+        }
+        const safeSDK = await Safe.init({ provider, contractNetworks, predictedSafe })
+
+        const descriptor = await safeSDK.exportPredictedSafe()
+
+        const compatibilityFallbackHandler = (await getCompatibilityFallbackHandler()).contract
+          .address
+        chai.expect(descriptor.fallbackHandler).to.be.eq(compatibilityFallbackHandler)
+        const resumedSafeSDK = await Safe.fromPredictedSafeDescriptor(descriptor, {
+          provider,
+          contractNetworks
+        })
+        chai.expect(await resumedSafeSDK.getAddress()).to.be.eq(await safeSDK.getAddress())
+        chai
+          .expect(resumedSafeSDK.getPredictedSafe()?.safeAccountConfig.fallbackHandler)
+          .to.be.eq(compatibilityFallbackHandler)
+      }
+    )
+  })
+
   describe('deploySafe', async () => {
     itif(safeVersionDeployed >= '1.3.0')('should fail if the Safe is deployed', async () => {
       const { contractNetworks, accounts } = await setupTests()
@@ -0,0 +1,106 @@
+import {
+  safeVersionDeployed,
+  setupTests,
+  getSafeToL2MigrationContracts,
+  itif
+} from '@safe-global/testing-kit'
+import Safe, { ContractNetworksConfig } from '@safe-global/protocol-kit/index'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { getEip1193Provider } from './utils/setupProvider'
+import { waitSafeTxReceipt } from './utils/transactions'
+
+chai.use(chaiAsPromised)
+
+describe('Safe migration to the L2 singleton', () => {
+  const provider = getEip1193Provider()
+  const isMigrationSupported = safeVersionDeployed == '1.3.0' || safeVersionDeployed == '1.4.1'
+
+  // Adds the L2 singleton and the SafeToL2Migration contract to the contracts of the deployed version
+  const getMigrationContractNetworks = async (
+    contractNetworks: ContractNetworksConfig,
+    chainId: bigint
+  ): Promise<ContractNetworksConfig> => ({
+    [chainId.toString()]: {
+      ...contractNetworks[chainId.toString()],
+      ...(await getSafeToL2MigrationContracts())
+    }
+  })
+
+  describe('createMigrationToL2Tx', async () => {
+    itif(safeVersionDeployed < '1.3.0')(
+      'should fail if the version of the Safe can not be migrated',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks
+        })
+        const tx = safeSdk.createMigrationToL2Tx()
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            `Safes with version ${safeVersionDeployed} can not be migrated to the L2 singleton`
+          )
+      }
+    )
+
+    itif(isMigrationSupported)('should migrate the Safe to the L2 singleton', async () => {
+      const { safe, contractNetworks, chainId } = await setupTests()
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress: safe.address,
+        contractNetworks: await getMigrationContractNetworks(contractNetworks, chainId)
+      })
+      chai.expect(await safeSdk.isL2SafeSingleton()).to.be.false
+      chai.expect(await safeSdk.hasL1SafeSingletonOnL2Chain()).to.be.true
+
+      const tx = await safeSdk.createMigrationToL2Tx()
+      const txResponse = await safeSdk.executeTransaction(tx)
+      await waitSafeTxReceipt(txResponse)
+
+      chai.expect(await safeSdk.isL2SafeSingleton()).to.be.true
+      chai.expect(await safeSdk.hasL1SafeSingletonOnL2Chain()).to.be.false
+      chai.expect(await safeSdk.getNonce()).to.be.eq(1)
+      await chai
+        .expect(safeSdk.createMigrationToL2Tx())
+        .to.be.rejectedWith('The Safe already uses the L2 singleton')
+    })
+
+    itif(isMigrationSupported)('should fail if the Safe has executed a transaction', async () => {
+      const { safe, accounts, contractNetworks, chainId } = await setupTests()
+      const [, account2] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress: safe.address,
+        contractNetworks: await getMigrationContractNetworks(contractNetworks, chainId)
+      })
+      const safeTransaction = await safeSdk.createTransaction({
+        transactions: [{ to: account2.address, value: '0', data: '0x' }]
+      })
+      await waitSafeTxReceipt(await safeSdk.executeTransaction(safeTransaction))
+
+      const tx = safeSdk.createMigrationToL2Tx()
+      await chai
+        .expect(tx)
+        .to.be.rejectedWith(
+          'Only Safes that have not executed any transaction can be migrated to the L2 singleton'
+        )
+    })
+
+    itif(isMigrationSupported)(
+      'should fail if the singleton of the Safe is not known',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks
+        })
+        const tx = safeSdk.createMigrationToL2Tx()
+        await chai.expect(tx).to.be.rejectedWith('The Safe does not use a known L1 singleton')
+      }
+    )
+  })
+})
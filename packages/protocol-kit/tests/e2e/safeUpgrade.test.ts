@@ -0,0 +1,206 @@
+import {
+  safeVersionDeployed,
+  setupTests,
+  getDebugTransactionGuard,
+  getMultiSend,
+  getSafeUpgradeContracts,
+  itif
+} from '@safe-global/testing-kit'
+import Safe, { ContractNetworksConfig } from '@safe-global/protocol-kit/index'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { getEip1193Provider } from './utils/setupProvider'
+import { waitSafeTxReceipt } from './utils/transactions'
+
+chai.use(chaiAsPromised)
+
+describe('Safe upgrade', () => {
+  const provider = getEip1193Provider()
+
+  // Adds the contracts of the target version to the contracts of the deployed version
+  const getUpgradeContractNetworks = async (
+    targetVersion: '1.3.0' | '1.4.1',
+    contractNetworks: ContractNetworksConfig,
+    chainId: bigint
+  ): Promise<ContractNetworksConfig> => ({
+    [chainId.toString()]: {
+      ...contractNetworks[chainId.toString()],
+      ...(await getSafeUpgradeContracts(targetVersion)),
+      safeSingletonAbi: undefined,
+      fallbackHandlerAbi: undefined
+    }
+  })
+
+  describe('createUpgradeTx', async () => {
+    itif(safeVersionDeployed >= '1.1.1')(
+      'should fail if the target version is not greater than the current version',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks
+        })
+        const tx = safeSdk.createUpgradeTx({ targetVersion: safeVersionDeployed })
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            `The Safe can not be upgraded from v${safeVersionDeployed} to v${safeVersionDeployed}`
+          )
+      }
+    )
+
+    itif(safeVersionDeployed == '1.1.1')(
+      'should fail if a Safe v1.1.1 is not upgraded to v1.3.0 first',
+      async () => {
+        const { safe, contractNetworks } = await setupTests()
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks
+        })
+        const tx = safeSdk.createUpgradeTx({ targetVersion: '1.4.1' })
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith('Safes with version 1.1.1 must be upgraded to v1.3.0 first')
+      }
+    )
+
+    itif(safeVersionDeployed == '1.1.1')(
+      'should upgrade a Safe v1.1.1 to v1.3.0 with changeMasterCopy and setFallbackHandler',
+      async () => {
+        const { safe, contractNetworks, chainId } = await setupTests()
+        const safeAddress = safe.address
+        const upgradeContractNetworks = await getUpgradeContractNetworks(
+          '1.3.0',
+          contractNetworks,
+          chainId
+        )
+        const { fallbackHandlerAddress } = upgradeContractNetworks[chainId.toString()]
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks: upgradeContractNetworks
+        })
+        const tx = await safeSdk.createUpgradeTx({
+          targetVersion: '1.3.0',
+          l2: false,
+          updateFallbackHandler: true
+        })
+        const txResponse = await safeSdk.executeTransaction(tx)
+        await waitSafeTxReceipt(txResponse)
+
+        const upgradedSafeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks: upgradeContractNetworks
+        })
+        chai.expect(upgradedSafeSdk.getContractVersion()).to.be.eq('1.3.0')
+        chai.expect(await upgradedSafeSdk.getFallbackHandler()).to.be.eq(fallbackHandlerAddress)
+      }
+    )
+
+    itif(safeVersionDeployed == '1.3.0')(
+      'should upgrade a Safe v1.3.0 to v1.4.1 with the SafeMigration contract',
+      async () => {
+        const { safe, contractNetworks, chainId } = await setupTests()
+        const safeAddress = safe.address
+        const upgradeContractNetworks = await getUpgradeContractNetworks(
+          '1.4.1',
+          contractNetworks,
+          chainId
+        )
+        const { fallbackHandlerAddress } = upgradeContractNetworks[chainId.toString()]
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks: upgradeContractNetworks
+        })
+        const tx = await safeSdk.createUpgradeTx({
+          targetVersion: '1.4.1',
+          l2: false,
+          updateFallbackHandler: true
+        })
+        const txResponse = await safeSdk.executeTransaction(tx)
+        await waitSafeTxReceipt(txResponse)
+
+        const upgradedSafeSdk = await Safe.init({
+          provider,
+          safeAddress,
+          contractNetworks: upgradeContractNetworks
+        })
+        chai.expect(upgradedSafeSdk.getContractVersion()).to.be.eq('1.4.1')
+        chai.expect(await upgradedSafeSdk.getFallbackHandler()).to.be.eq(fallbackHandlerAddress)
+      }
+    )
+
+    itif(safeVersionDeployed == '1.3.0')(
+      'should fail if the SafeMigration contract is not deployed',
+      async () => {
+        const { safe, accounts, contractNetworks, chainId } = await setupTests()
+        const upgradeContractNetworks = await getUpgradeContractNetworks(
+          '1.4.1',
+          contractNetworks,
+          chainId
+        )
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks: {
+            [chainId.toString()]: {
+              ...upgradeContractNetworks[chainId.toString()],
+              safeMigrationAddress: accounts[1].address
+            }
+          }
+        })
+        const tx = safeSdk.createUpgradeTx({ targetVersion: '1.4.1', l2: false })
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(
+            'The SafeMigration contract for v1.4.1 is not deployed on the current network'
+          )
+      }
+    )
+
+    itif(safeVersionDeployed == '1.3.0')(
+      'should upgrade the Safe if the guard accepts the upgrade transaction',
+      async () => {
+        const { safe, contractNetworks, chainId } = await setupTests()
+        const debugTransactionGuard = await getDebugTransactionGuard()
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks: await getUpgradeContractNetworks('1.4.1', contractNetworks, chainId)
+        })
+        const enableGuardTx = await safeSdk.createEnableGuardTx(debugTransactionGuard.address)
+        await waitSafeTxReceipt(await safeSdk.executeTransaction(enableGuardTx))
+
+        const tx = await safeSdk.createUpgradeTx({ targetVersion: '1.4.1', l2: false })
+        const txResponse = await safeSdk.executeTransaction(tx)
+        await waitSafeTxReceipt(txResponse)
+        chai.expect(await safeSdk.getGuard()).to.be.eq(debugTransactionGuard.address)
+      }
+    )
+
+    itif(safeVersionDeployed == '1.3.0')(
+      'should fail if the guard rejects the upgrade transaction',
+      async () => {
+        const { safe, contractNetworks, chainId } = await setupTests()
+        // The MultiSend contract does not implement checkTransaction, so every call reverts
+        const rejectingGuardAddress = (await getMultiSend()).contract.address
+        const safeSdk = await Safe.init({
+          provider,
+          safeAddress: safe.address,
+          contractNetworks: await getUpgradeContractNetworks('1.4.1', contractNetworks, chainId)
+        })
+        const enableGuardTx = await safeSdk.createEnableGuardTx(rejectingGuardAddress)
+        await waitSafeTxReceipt(await safeSdk.executeTransaction(enableGuardTx))
+
+        const tx = safeSdk.createUpgradeTx({ targetVersion: '1.4.1', l2: false })
+        await chai
+          .expect(tx)
+          .to.be.rejectedWith(`The guard ${rejectingGuardAddress} rejects the upgrade transaction`)
+      }
+    )
+  })
+})
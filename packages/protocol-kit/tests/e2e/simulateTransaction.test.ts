@@ -0,0 +1,217 @@
+import { getERC20Mintable, safeVersionDeployed, setupTests, itif } from '@safe-global/testing-kit'
+import Safe from '@safe-global/protocol-kit/index'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { encodeFunctionData, pad, toFunctionSelector, toHex } from 'viem'
+import { Eip1193Provider, RequestArguments } from '@safe-global/protocol-kit/types'
+import { getEip1193Provider } from './utils/setupProvider'
+
+chai.use(chaiAsPromised)
+
+describe('simulateTransaction', () => {
+  const provider = getEip1193Provider()
+
+  itif(safeVersionDeployed < '1.3.0')(
+    'should fail if simulating a transaction is not supported',
+    async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [, account2] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress: safe.address,
+        contractNetworks
+      })
+      const tx = await safeSdk.createTransaction({
+        transactions: [{ to: account2.address, value: '0', data: '0x' }]
+      })
+      await chai
+        .expect(safeSdk.simulateTransaction(tx))
+        .to.be.rejectedWith(
+          'Current version of the Safe does not support the simulateAndRevert functionality'
+        )
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should return a successful result without changing the Safe state',
+    async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [account1, account2] = accounts
+      const safeAddress = safe.address
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks
+      })
+      await account1.signer.sendTransaction({
+        to: safeAddress,
+        value: 1_000_000_000_000_000_000n // 1 ETH
+      })
+      const safeInitialBalance = await safeSdk.getBalance()
+      const safeInitialNonce = await safeSdk.getNonce()
+      const tx = await safeSdk.createTransaction({
+        transactions: [{ to: account2.address, value: '500000000000000000', data: '0x' }]
+      })
+      const simulation = await safeSdk.simulateTransaction(tx)
+      chai.expect(simulation.success).to.be.true
+      chai.expect(simulation.revertReason).to.be.undefined
+      chai.expect(Number(simulation.gasUsed)).to.be.gt(0)
+      chai.expect(await safeSdk.getBalance()).to.be.eq(safeInitialBalance)
+      chai.expect(await safeSdk.getNonce()).to.be.eq(safeInitialNonce)
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should return a failed result if the Safe has not enough funds',
+    async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [, account2] = accounts
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress: safe.address,
+        contractNetworks
+      })
+      const tx = await safeSdk.createTransaction({
+        transactions: [{ to: account2.address, value: '500000000000000000', data: '0x' }]
+      })
+      const simulation = await safeSdk.simulateTransaction(tx)
+      chai.expect(simulation.success).to.be.false
+      chai.expect(simulation.returnData).to.be.eq('0x')
+      chai.expect(simulation.revertReason).to.be.undefined
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')('should decode the revert reason', async () => {
+    const { safe, accounts, contractNetworks } = await setupTests()
+    const [, account2] = accounts
+    const erc20Mintable = await getERC20Mintable()
+    const safeSdk = await Safe.init({
+      provider,
+      safeAddress: safe.address,
+      contractNetworks
+    })
+    const tx = await safeSdk.createTransaction({
+      transactions: [
+        {
+          to: erc20Mintable.address,
+          value: '0',
+          data: encodeFunctionData({
+            abi: erc20Mintable.abi,
+            functionName: 'transfer',
+            args: [account2.address, 1_000_000_000_000_000_000n]
+          })
+        }
+      ]
+    })
+    const simulation = await safeSdk.simulateTransaction(tx)
+    chai.expect(simulation.success).to.be.false
+    chai.expect(simulation.revertReason).to.be.eq('ERC20: transfer amount exceeds balance')
+  })
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should only include logs and state diff if the transaction was traced',
+    async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [account1, account2] = accounts
+      const safeAddress = safe.address
+      const safeSdk = await Safe.init({
+        provider,
+        safeAddress,
+        contractNetworks
+      })
+      await account1.signer.sendTransaction({
+        to: safeAddress,
+        value: 1_000_000_000_000_000_000n // 1 ETH
+      })
+      const tx = await safeSdk.createTransaction({
+        transactions: [{ to: account2.address, value: '500000000000000000', data: '0x' }]
+      })
+      const simulation = await safeSdk.simulateTransaction(tx)
+      if (!simulation.traced) {
+        chai.expect(simulation.logs).to.be.undefined
+        chai.expect(simulation.stateDiff).to.be.undefined
+        return
+      }
+      const safeDiff = simulation.stateDiff?.find(
+        ({ address }) => address.toLowerCase() === safeAddress.toLowerCase()
+      )
+      chai
+        .expect(safeDiff?.balanceAfter)
+        .to.be.eq((safeDiff?.balanceBefore ?? 0n) - 500_000_000_000_000_000n)
+    }
+  )
+
+  itif(safeVersionDeployed >= '1.3.0')(
+    'should trace a batch through execTransaction with the threshold overridden',
+    async () => {
+      const { safe, accounts, contractNetworks } = await setupTests()
+      const [account1, account2, account3] = accounts
+      const safeAddress = safe.address
+      const tracedCalls: unknown[][] = []
+      const tracingProvider: Eip1193Provider = {
+        request: async (request: RequestArguments) => {
+          if (request.method !== 'debug_traceCall') {
+            return provider.request(request)
+          }
+          const params = request.params as unknown[]
+          const { tracer } = params[2] as { tracer: string }
+          tracedCalls.push(params)
+          return tracer === 'callTracer'
+            ? { calls: [{ logs: [{ address: safeAddress, topics: [], data: '0x' }] }] }
+            : {
+                pre: {
+                  [safeAddress]: { balance: '0x2', storage: { [pad(toHex(5))]: pad('0x0') } }
+                },
+                post: {
+                  [safeAddress]: { balance: '0x0', storage: { [pad(toHex(5))]: pad('0x1') } }
+                }
+              }
+        }
+      }
+      const safeSdk = await Safe.init({
+        provider: tracingProvider,
+        safeAddress,
+        contractNetworks
+      })
+      await account1.signer.sendTransaction({
+        to: safeAddress,
+        value: 2n
+      })
+      const tx = await safeSdk.createTransaction({
+        transactions: [
+          { to: account2.address, value: '1', data: '0x' },
+          { to: account3.address, value: '1', data: '0x' }
+        ]
+      })
+      const simulation = await safeSdk.simulateTransaction(tx)
+      chai.expect(simulation.success).to.be.true
+      chai.expect(simulation.traced).to.be.true
+      chai.expect(simulation.logs).to.have.length(1)
+      chai.expect(simulation.stateDiff).to.deep.equal([
+        {
+          address: safeAddress,
+          balanceBefore: 2n,
+          balanceAfter: 0n,
+          storage: [{ slot: pad(toHex(5)), before: pad('0x0'), after: pad('0x1') }]
+        }
+      ])
+      chai.expect(tracedCalls).to.have.length(2)
+      const owners = await safeSdk.getOwners()
+      tracedCalls.forEach(([transaction, , config]) => {
+        const { from, to, data } = transaction as { from: string; to: string; data: string }
+        chai.expect(owners).to.include(from)
+        chai.expect(to).to.be.eq(safeAddress)
+        chai
+          .expect(data.slice(0, 10))
+          .to.be.eq(
+            toFunctionSelector(
+              'execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)'
+            )
+          )
+        chai.expect(config).to.deep.include({
+          stateOverrides: { [safeAddress]: { stateDiff: { [pad(toHex(4))]: pad(toHex(1)) } } }
+        })
+      })
+    }
+  )
+})
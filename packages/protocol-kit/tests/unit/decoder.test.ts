@@ -0,0 +1,160 @@
+import { OperationType, SafeTransactionData } from '@safe-global/types-kit'
+import chai from 'chai'
+import { encodeFunctionData, parseAbi } from 'viem'
+import {
+  AbiRegistry,
+  decodeSafeTransaction,
+  decodeTransaction,
+  encodeMultiSendData
+} from '@safe-global/protocol-kit/utils'
+import { asHex } from '@safe-global/protocol-kit/utils/types'
+import EthSafeTransaction from '@safe-global/protocol-kit/utils/transactions/SafeTransaction'
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const ownerAddress = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+const tokenAddress = '0x22d491Bde2303f2f43325b2108D26f1eAbA1e32b'
+const multiSendAddress = '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761'
+
+const safeAbi = parseAbi([
+  'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+  'function changeThreshold(uint256 _threshold)'
+])
+const erc20Abi = parseAbi(['function transfer(address to, uint256 value) returns (bool)'])
+const multiSendAbi = parseAbi(['function multiSend(bytes transactions)'])
+
+const createSafeTransaction = (data: Partial<SafeTransactionData>) =>
+  new EthSafeTransaction({
+    to: safeAddress,
+    value: '0',
+    data: '0x',
+    operation: OperationType.Call,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: '0x0000000000000000000000000000000000000000',
+    refundReceiver: '0x0000000000000000000000000000000000000000',
+    nonce: 0,
+    ...data
+  })
+
+describe('Transaction decoder', () => {
+  it('should decode a native transfer', async () => {
+    const decodedTransaction = decodeSafeTransaction(
+      createSafeTransaction({ to: ownerAddress, value: '1000' })
+    )
+    chai.expect(decodedTransaction.kind).to.be.eq('nativeTransfer')
+    chai.expect(decodedTransaction.value).to.be.eq('1000')
+    chai.expect(decodedTransaction.dataDecoded).to.be.undefined
+  })
+
+  it('should decode a Safe owner management call', async () => {
+    const data = encodeFunctionData({
+      abi: safeAbi,
+      functionName: 'addOwnerWithThreshold',
+      args: [ownerAddress, 2n]
+    })
+    const decodedTransaction = decodeSafeTransaction(createSafeTransaction({ data }))
+    chai.expect(decodedTransaction.kind).to.be.eq('safeSettingsChange')
+    chai.expect(decodedTransaction.dataDecoded).to.be.deep.eq({
+      method: 'addOwnerWithThreshold',
+      signature: 'addOwnerWithThreshold(address,uint256)',
+      abiNames: ['Safe'],
+      parameters: [
+        { name: 'owner', type: 'address', value: ownerAddress },
+        { name: '_threshold', type: 'uint256', value: '2' }
+      ]
+    })
+  })
+
+  it('should decode a token transfer', async () => {
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [ownerAddress, 10n]
+    })
+    const decodedTransaction = decodeSafeTransaction(
+      createSafeTransaction({ to: tokenAddress, data })
+    )
+    chai.expect(decodedTransaction.kind).to.be.eq('tokenCall')
+    chai.expect(decodedTransaction.dataDecoded?.method).to.be.eq('transfer')
+    chai.expect(decodedTransaction.dataDecoded?.abiNames).to.be.deep.eq(['ERC20'])
+  })
+
+  it('should return an unknown transaction if no ABI matches the data', async () => {
+    const decodedTransaction = decodeSafeTransaction(
+      createSafeTransaction({ to: tokenAddress, data: '0x12345678' })
+    )
+    chai.expect(decodedTransaction.kind).to.be.eq('unknown')
+    chai.expect(decodedTransaction.dataDecoded).to.be.undefined
+  })
+
+  it('should decode nested MultiSend batches recursively', async () => {
+    const innerBatch = encodeFunctionData({
+      abi: multiSendAbi,
+      functionName: 'multiSend',
+      args: [
+        asHex(
+          encodeMultiSendData([
+            {
+              to: safeAddress,
+              value: '0',
+              data: encodeFunctionData({
+                abi: safeAbi,
+                functionName: 'changeThreshold',
+                args: [1n]
+              })
+            }
+          ])
+        )
+      ]
+    })
+    const data = encodeFunctionData({
+      abi: multiSendAbi,
+      functionName: 'multiSend',
+      args: [
+        asHex(
+          encodeMultiSendData([
+            { to: ownerAddress, value: '1', data: '0x' },
+            {
+              to: multiSendAddress,
+              value: '0',
+              data: innerBatch,
+              operation: OperationType.DelegateCall
+            }
+          ])
+        )
+      ]
+    })
+    const decodedTransaction = decodeSafeTransaction(
+      createSafeTransaction({ to: multiSendAddress, data, operation: OperationType.DelegateCall })
+    )
+    chai.expect(decodedTransaction.kind).to.be.eq('multiSend')
+    chai
+      .expect(decodedTransaction.transactions?.map(({ kind }) => kind))
+      .to.be.deep.eq(['nativeTransfer', 'multiSend'])
+    const [nestedTransaction] = decodedTransaction.transactions?.[1].transactions || []
+    chai.expect(nestedTransaction.kind).to.be.eq('safeSettingsChange')
+    chai.expect(nestedTransaction.dataDecoded?.parameters[0].value).to.be.eq('1')
+  })
+
+  it('should prefer the ABIs registered for the target address', async () => {
+    const customAbi = parseAbi(['function transfer(address recipient, uint256 amount)'])
+    const abiRegistry = new AbiRegistry()
+      .register({ name: 'ERC20', abi: erc20Abi })
+      .register({ name: 'CustomToken', abi: customAbi, address: tokenAddress })
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [ownerAddress, 10n]
+    })
+    const customTokenTransaction = decodeTransaction(
+      { to: tokenAddress, value: '0', data },
+      abiRegistry
+    )
+    chai.expect(customTokenTransaction.kind).to.be.eq('contractCall')
+    chai.expect(customTokenTransaction.dataDecoded?.abiNames).to.be.deep.eq(['CustomToken'])
+    chai.expect(customTokenTransaction.dataDecoded?.parameters[0].name).to.be.eq('recipient')
+    const tokenTransaction = decodeTransaction({ to: ownerAddress, value: '0', data }, abiRegistry)
+    chai.expect(tokenTransaction.kind).to.be.eq('tokenCall')
+  })
+})
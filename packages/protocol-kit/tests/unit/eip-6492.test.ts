@@ -0,0 +1,98 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { createPublicClient, custom } from 'viem'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import {
+  buildErc6492Signature,
+  isErc6492WrappedSignature,
+  isValidUniversalSignature,
+  parseErc6492WrappedSignature,
+  splitSafeInitCode
+} from '@safe-global/protocol-kit/utils'
+
+chai.use(chaiAsPromised)
+
+const factoryAddress = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67'
+const factoryData = '0x1688f0b9000000000000000000000000000000000000000000000000000000000000000a'
+const signature =
+  '0x969308e2abeda61a0c9c41b3c615012f50dd7456ca76ea39a18e3b975abeb67f275b07810dd59fc928f3f9103e6b2ce7b2dfffc6c1c6aef2d3b6a6f0b5e0a1f11c'
+const signer = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const hash = '0x' + '11'.repeat(32)
+
+const createSafeProvider = (callResult: () => Promise<unknown>): SafeProvider => {
+  const client = createPublicClient({
+    transport: custom(
+      {
+        request: async ({ method }: { method: string }) =>
+          method === 'eth_call' ? callResult() : null
+      },
+      { retryCount: 0 }
+    )
+  })
+
+  return { getExternalProvider: () => client } as unknown as SafeProvider
+}
+
+describe('EIP-6492', () => {
+  describe('splitSafeInitCode', () => {
+    it('should split the factory address and the factory data', () => {
+      const initCode = `${factoryAddress}${factoryData.slice(2)}`
+
+      chai.expect(splitSafeInitCode(initCode)).to.deep.equal({ factoryAddress, factoryData })
+    })
+
+    it('should fail if the init code does not contain the factory data', () => {
+      chai
+        .expect(() => splitSafeInitCode(factoryAddress))
+        .to.throw('Invalid Safe initialization code')
+    })
+  })
+
+  describe('buildErc6492Signature', () => {
+    it('should wrap the signature in the EIP-6492 envelope', () => {
+      const erc6492Signature = buildErc6492Signature({ factoryAddress, factoryData, signature })
+
+      chai.expect(erc6492Signature.endsWith('6492'.repeat(16))).to.be.true
+      chai.expect(isErc6492WrappedSignature(erc6492Signature)).to.be.true
+      chai
+        .expect(parseErc6492WrappedSignature(erc6492Signature))
+        .to.deep.equal({ factoryAddress, factoryData, signature })
+    })
+  })
+
+  describe('parseErc6492WrappedSignature', () => {
+    it('should fail if the signature is not wrapped', () => {
+      chai.expect(isErc6492WrappedSignature(signature)).to.be.false
+      chai
+        .expect(() => parseErc6492WrappedSignature(signature))
+        .to.throw('The signature is not an EIP-6492 signature')
+    })
+  })
+
+  describe('isValidUniversalSignature', () => {
+    it('should return the result of the universal signature validator', async () => {
+      const safeProvider = createSafeProvider(async () => '0x01')
+
+      chai.expect(await isValidUniversalSignature(safeProvider, signer, hash, signature)).to.be.true
+    })
+
+    it('should return false if the universal signature validator reverts', async () => {
+      const safeProvider = createSafeProvider(async () => {
+        throw Object.assign(new Error('execution reverted'), { code: 3, data: '0x' })
+      })
+
+      chai.expect(await isValidUniversalSignature(safeProvider, signer, hash, signature)).to.be
+        .false
+    })
+
+    it('should throw the errors of the provider', async () => {
+      const safeProvider = createSafeProvider(async () => {
+        throw new Error('Network error')
+      })
+
+      await chai
+        .expect(isValidUniversalSignature(safeProvider, signer, hash, signature))
+        .to.be.rejectedWith('Network error')
+    })
+  })
+})
@@ -0,0 +1,287 @@
+import chai from 'chai'
+import {
+  AbiEvent,
+  createPublicClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  Log,
+  parseAbiItem,
+  parseAbiParameters,
+  toHex
+} from 'viem'
+import { SafeEvent, SafeEventOf } from '@safe-global/protocol-kit/types'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import {
+  buildSafeHistory,
+  decodeSafeEventLog,
+  getSafeEvents,
+  watchSafeEvents
+} from '@safe-global/protocol-kit/utils'
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const owner = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+const executor = '0x22d491Bde2303f2f43325b2108D26f1eAbA1e32b'
+const moduleAddress = '0xE11BA2b4D45Eaed5996Cd0823791E0C93114882d'
+const safeTxHash = keccak256(toHex('Safe transaction'))
+
+const createLog = (
+  event: AbiEvent,
+  args: Record<string, unknown>,
+  { blockNumber = 1n, transactionHash = keccak256(toHex('transaction')), logIndex = 0 } = {}
+): Log => {
+  const topics = encodeEventTopics({
+    abi: [event],
+    eventName: event.name,
+    args
+  } as unknown as Parameters<typeof encodeEventTopics>[0])
+  const nonIndexedInputs = event.inputs.filter(({ indexed }) => !indexed)
+
+  return {
+    address: safeAddress,
+    topics: topics as Log['topics'],
+    data: encodeAbiParameters(
+      nonIndexedInputs,
+      nonIndexedInputs.map(({ name }) => args[name as string])
+    ),
+    blockNumber,
+    transactionHash,
+    logIndex,
+    blockHash: keccak256(toHex(blockNumber)),
+    transactionIndex: 0,
+    removed: false
+  }
+}
+
+const addedOwnerEvent = parseAbiItem('event AddedOwner(address owner)')
+const indexedAddedOwnerEvent = parseAbiItem('event AddedOwner(address indexed owner)')
+const executionSuccessEvent = parseAbiItem(
+  'event ExecutionSuccess(bytes32 indexed txHash, uint256 payment)'
+)
+
+describe('Safe events', () => {
+  describe('decodeSafeEventLog', () => {
+    it('should decode the events with different indexed parameters across versions', () => {
+      const event = decodeSafeEventLog(createLog(addedOwnerEvent, { owner }))
+      const indexedEvent = decodeSafeEventLog(createLog(indexedAddedOwnerEvent, { owner }))
+
+      chai.expect(event?.eventName).to.equal('AddedOwner')
+      chai.expect(event?.args).to.deep.equal({ owner })
+      chai.expect(indexedEvent?.args).to.deep.equal({ owner })
+    })
+
+    it('should decode the ExecutionFailed event of the Safe v1.0.0 as an ExecutionFailure', () => {
+      const event = decodeSafeEventLog(
+        createLog(parseAbiItem('event ExecutionFailed(bytes32 txHash)'), { txHash: safeTxHash })
+      )
+
+      chai.expect(event?.eventName).to.equal('ExecutionFailure')
+      chai.expect(event?.args).to.deep.equal({ txHash: safeTxHash, payment: 0n })
+    })
+
+    it('should ignore the logs that are not Safe events', () => {
+      const event = decodeSafeEventLog(
+        createLog(
+          parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)'),
+          {
+            from: owner,
+            to: executor,
+            value: 1n
+          }
+        )
+      )
+
+      chai.expect(event).to.be.undefined
+    })
+  })
+
+  describe('getSafeEvents', () => {
+    it('should read the logs in pages and split the ranges rejected by the RPC', async () => {
+      const requestedRanges: [bigint, bigint][] = []
+      const safeProvider = {
+        getBlockNumber: async () => 24n,
+        getLogs: async (_: string, fromBlock: bigint, toBlock: bigint) => {
+          requestedRanges.push([fromBlock, toBlock])
+          if (toBlock - fromBlock > 5n) {
+            throw new Error('Block range too large')
+          }
+          return fromBlock === 20n
+            ? [createLog(indexedAddedOwnerEvent, { owner }, { blockNumber: 20n })]
+            : []
+        }
+      } as unknown as SafeProvider
+
+      const events = await getSafeEvents(safeProvider, safeAddress, {
+        fromBlock: 5n,
+        blockRange: 10n
+      })
+
+      chai.expect(events.map(({ eventName }) => eventName)).to.deep.equal(['AddedOwner'])
+      chai.expect(requestedRanges).to.deep.equal([
+        [5n, 14n],
+        [5n, 9n],
+        [10n, 14n],
+        [15n, 24n],
+        [15n, 19n],
+        [20n, 24n]
+      ])
+    })
+
+    it('should fail if the block range is not valid', async () => {
+      const safeProvider = {} as unknown as SafeProvider
+
+      let error: Error | undefined
+      await getSafeEvents(safeProvider, safeAddress, { fromBlock: 0n, blockRange: 0n }).catch(
+        (e) => (error = e)
+      )
+
+      chai.expect(error?.message).to.equal('The block range must be greater than 0')
+    })
+  })
+
+  describe('buildSafeHistory', () => {
+    it('should group the events of each transaction', () => {
+      const executionTxHash = keccak256(toHex('execution'))
+      const moduleTxHash = keccak256(toHex('module execution'))
+      const approvalTxHash = keccak256(toHex('approval'))
+
+      const logs = [
+        createLog(
+          parseAbiItem(
+            'event SafeMultiSigTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures, bytes additionalInfo)'
+          ),
+          {
+            to: safeAddress,
+            value: 0n,
+            data: '0x',
+            operation: 0,
+            safeTxGas: 0n,
+            baseGas: 0n,
+            gasPrice: 0n,
+            gasToken: '0x0000000000000000000000000000000000000000',
+            refundReceiver: '0x0000000000000000000000000000000000000000',
+            signatures: '0x1234',
+            additionalInfo: encodeAbiParameters(parseAbiParameters('uint256, address, uint256'), [
+              3n,
+              executor,
+              1n
+            ])
+          },
+          { transactionHash: executionTxHash, logIndex: 0 }
+        ),
+        createLog(
+          indexedAddedOwnerEvent,
+          { owner },
+          { transactionHash: executionTxHash, logIndex: 1 }
+        ),
+        createLog(
+          executionSuccessEvent,
+          { txHash: safeTxHash, payment: 0n },
+          { transactionHash: executionTxHash, logIndex: 2 }
+        ),
+        createLog(
+          parseAbiItem('event ExecutionFromModuleFailure(address indexed module)'),
+          { module: moduleAddress },
+          { blockNumber: 2n, transactionHash: moduleTxHash }
+        ),
+        createLog(
+          parseAbiItem('event ApproveHash(bytes32 indexed approvedHash, address indexed owner)'),
+          { approvedHash: safeTxHash, owner },
+          { blockNumber: 3n, transactionHash: approvalTxHash }
+        )
+      ]
+      const events = logs.map((log) => decodeSafeEventLog(log)) as SafeEvent[]
+
+      const history = buildSafeHistory(events)
+
+      chai
+        .expect(history.map(({ txType }) => txType))
+        .to.deep.equal(['MULTISIG_TRANSACTION', 'MODULE_TRANSACTION', 'HASH_APPROVAL'])
+
+      const [multisigTransaction, moduleTransaction] = history
+      if (multisigTransaction.txType !== 'MULTISIG_TRANSACTION') throw new Error()
+      chai.expect(multisigTransaction.safeTxHash).to.equal(safeTxHash)
+      chai.expect(multisigTransaction.isSuccessful).to.be.true
+      chai.expect(multisigTransaction.transaction?.nonce).to.equal(3)
+      chai.expect(multisigTransaction.transaction?.executor).to.equal(executor)
+      chai.expect(multisigTransaction.events).to.have.length(3)
+
+      if (moduleTransaction.txType !== 'MODULE_TRANSACTION') throw new Error()
+      chai.expect(moduleTransaction.module).to.equal(moduleAddress)
+      chai.expect(moduleTransaction.isSuccessful).to.be.false
+      chai.expect(moduleTransaction.transaction).to.be.undefined
+    })
+  })
+
+  describe('watchSafeEvents', () => {
+    const toRpcLog = (log: Log) => ({
+      ...log,
+      blockNumber: toHex(log.blockNumber as bigint),
+      logIndex: toHex(log.logIndex as number),
+      transactionIndex: toHex(log.transactionIndex as number)
+    })
+
+    it('should deliver each event once and notify the events removed by a reorg', async () => {
+      const executionTxHash = keccak256(toHex('execution'))
+      const execution = createLog(
+        executionSuccessEvent,
+        { txHash: safeTxHash, payment: 0n },
+        { blockNumber: 10n, transactionHash: executionTxHash }
+      )
+      // A log removed by a reorg before being delivered
+      const removedOwnerChange = {
+        ...createLog(indexedAddedOwnerEvent, { owner }, { blockNumber: 10n, logIndex: 1 }),
+        removed: true
+      }
+      // The transaction is included again in a different block after a reorg
+      const reorgedExecution = createLog(
+        executionSuccessEvent,
+        { txHash: safeTxHash, payment: 0n },
+        { blockNumber: 11n, transactionHash: executionTxHash, logIndex: 3 }
+      )
+      const pendingChanges = [
+        [execution, removedOwnerChange],
+        [execution],
+        [{ ...execution, removed: true }, reorgedExecution]
+      ]
+
+      const client = createPublicClient({
+        transport: custom({
+          request: async ({ method }: { method: string }) => {
+            switch (method) {
+              case 'eth_newFilter':
+                return '0x1'
+              case 'eth_getFilterChanges':
+                return (pendingChanges.shift() ?? []).map(toRpcLog)
+              default:
+                return null
+            }
+          }
+        })
+      })
+      const safeProvider = { getExternalProvider: () => client } as unknown as SafeProvider
+
+      const executions: SafeEventOf<'ExecutionSuccess' | 'ExecutionFailure'>[] = []
+      const ownerChanges: SafeEvent[] = []
+      const removedEvents: SafeEvent[] = []
+      const unwatch = watchSafeEvents(safeProvider, safeAddress, {
+        onExecution: (event) => executions.push(event as (typeof executions)[number]),
+        onOwnerChange: (event) => ownerChanges.push(event),
+        onReorg: (event) => removedEvents.push(event),
+        pollingInterval: 5
+      })
+
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      unwatch()
+
+      chai.expect(pendingChanges).to.have.length(0)
+      chai.expect(executions.map(({ blockNumber }) => blockNumber)).to.deep.equal([10n, 11n])
+      chai.expect(executions[1].args.txHash).to.equal(safeTxHash)
+      chai.expect(removedEvents).to.have.length(1)
+      chai.expect(removedEvents[0].eventName).to.equal('ExecutionSuccess')
+      chai.expect(removedEvents[0].blockNumber).to.equal(10n)
+      chai.expect(ownerChanges).to.have.length(0)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import chai from 'chai'
+import { decodeFunctionData, parseAbi } from 'viem'
+import {
+  encodeChangeMasterCopyData,
+  encodeSafeMigrationData,
+  encodeSafeToL2MigrationData,
+  getIncompatibleModules,
+  getSafeMigrationAddress,
+  getSafeToL2MigrationAddress
+} from '@safe-global/protocol-kit/utils'
+import { ContractNetworkConfig } from '@safe-global/protocol-kit/types'
+
+const safeMigrationAbi = parseAbi([
+  'function migrateSingleton()',
+  'function migrateWithFallbackHandler()',
+  'function migrateL2Singleton()',
+  'function migrateL2WithFallbackHandler()'
+])
+const singletonAddress = '0x41675C099F32341bf84BFc5382aF534df5C7461a'
+const safe4337ModuleAddress = '0x75cf11467937ce3F2f357CE24ffc3DBF8fD5c226'
+
+describe('Safe upgrade', () => {
+  describe('getSafeMigrationAddress', () => {
+    it('should return the SafeMigration contract of the target version', () => {
+      chai
+        .expect(getSafeMigrationAddress('1.4.1', 1n))
+        .to.equal('0x526643F69b81B008F46d95CD5ced5eC0edFFDaC6')
+      chai.expect(getSafeMigrationAddress('1.4.1', 1n, undefined, 'zksync')).to.be.undefined
+    })
+
+    it('should return undefined for versions without a SafeMigration contract', () => {
+      chai.expect(getSafeMigrationAddress('1.3.0', 1n)).to.be.undefined
+    })
+  })
+
+  describe('encodeSafeMigrationData', () => {
+    it('should call the migration method matching the singleton type and fallback handler', () => {
+      const decode = (data: string) =>
+        decodeFunctionData({ abi: safeMigrationAbi, data: data as `0x${string}` }).functionName
+
+      chai.expect(decode(encodeSafeMigrationData(false, false))).to.equal('migrateSingleton')
+      chai
+        .expect(decode(encodeSafeMigrationData(false, true)))
+        .to.equal('migrateWithFallbackHandler')
+      chai.expect(decode(encodeSafeMigrationData(true, false))).to.equal('migrateL2Singleton')
+      chai
+        .expect(decode(encodeSafeMigrationData(true, true)))
+        .to.equal('migrateL2WithFallbackHandler')
+    })
+  })
+
+  describe('encodeChangeMasterCopyData', () => {
+    it('should encode the call to changeMasterCopy', () => {
+      const { args } = decodeFunctionData({
+        abi: parseAbi(['function changeMasterCopy(address _masterCopy)']),
+        data: encodeChangeMasterCopyData(singletonAddress) as `0x${string}`
+      })
+
+      chai.expect(args).to.deep.equal([singletonAddress])
+    })
+  })
+
+  describe('getIncompatibleModules', () => {
+    it('should return the modules that do not support the target version', () => {
+      const modules = [safe4337ModuleAddress, singletonAddress]
+
+      chai
+        .expect(getIncompatibleModules(modules, '1.3.0', 1n))
+        .to.deep.equal([safe4337ModuleAddress])
+      chai.expect(getIncompatibleModules(modules, '1.4.1', 1n)).to.deep.equal([])
+    })
+  })
+})
+
+describe('Safe migration to the L2 singleton', () => {
+  describe('getSafeToL2MigrationAddress', () => {
+    it('should return the SafeToL2Migration contract for v1.3.0 and v1.4.1 Safes', () => {
+      chai
+        .expect(getSafeToL2MigrationAddress('1.3.0', 10n))
+        .to.equal('0xfF83F6335d8930cBad1c0D439A841f01888D9f69')
+      chai
+        .expect(getSafeToL2MigrationAddress('1.4.1', 10n))
+        .to.equal('0xfF83F6335d8930cBad1c0D439A841f01888D9f69')
+    })
+
+    it('should return undefined for versions without a SafeToL2Migration contract', () => {
+      chai.expect(getSafeToL2MigrationAddress('1.2.0', 10n)).to.be.undefined
+      chai.expect(getSafeToL2MigrationAddress('1.5.0', 10n)).to.be.undefined
+    })
+
+    it('should return the custom SafeToL2Migration contract', () => {
+      chai
+        .expect(
+          getSafeToL2MigrationAddress('1.4.1', 10n, {
+            safeToL2MigrationAddress: singletonAddress
+          } as ContractNetworkConfig)
+        )
+        .to.equal(singletonAddress)
+    })
+  })
+
+  describe('encodeSafeToL2MigrationData', () => {
+    it('should encode the call to migrateToL2', () => {
+      const { functionName, args } = decodeFunctionData({
+        abi: parseAbi(['function migrateToL2(address l2Singleton)']),
+        data: encodeSafeToL2MigrationData(singletonAddress) as `0x${string}`
+      })
+
+      chai.expect(functionName).to.equal('migrateToL2')
+      chai.expect(args).to.deep.equal([singletonAddress])
+    })
+  })
+})
@@ -0,0 +1,317 @@
+import chai from 'chai'
+import sinon from 'sinon'
+import { decodeFunctionData, encodeAbiParameters, encodeFunctionResult, pad, parseAbi } from 'viem'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { MulticallCall } from '@safe-global/protocol-kit/types'
+import {
+  getSafeConfigurations,
+  getSafeState,
+  MulticallBatcher
+} from '@safe-global/protocol-kit/utils'
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const owners = [
+  '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0',
+  '0x22d491Bde2303f2f43325b2108D26f1eAbA1e32b'
+]
+const moduleAddress = '0xE11BA2b4D45Eaed5996Cd0823791E0C93114882d'
+const guardAddress = '0xd03ea8624C8C5987235048901fB614fDcA89b117'
+const fallbackHandlerAddress = '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99'
+
+const safeSingletonAddress = '0x41675C099F32341bf84BFc5382aF534df5C7461a'
+
+const safeAbi = parseAbi([
+  'function VERSION() view returns (string)',
+  'function masterCopy() view returns (address)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function nonce() view returns (uint256)',
+  'function getModules() view returns (address[])',
+  'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)',
+  'function getStorageAt(uint256 offset, uint256 length) view returns (bytes)'
+])
+
+const encodeStorage = (address: string) =>
+  encodeFunctionResult({
+    abi: safeAbi,
+    functionName: 'getStorageAt',
+    result: pad(address as `0x${string}`)
+  })
+
+describe('Multicall', () => {
+  describe('MulticallBatcher', () => {
+    it('should batch the calls scheduled in the same tick', async () => {
+      const batches: MulticallCall[][] = []
+      const batcher = new MulticallBatcher(async (calls) => {
+        batches.push(calls)
+        return calls.map(({ data }) => ({ success: true, returnData: data }))
+      })
+
+      const results = await Promise.all([
+        batcher.schedule({ to: safeAddress, data: '0x01' }),
+        batcher.schedule({ to: safeAddress, data: '0x02' })
+      ])
+      await batcher.schedule({ to: safeAddress, data: '0x03' })
+
+      chai.expect(batches).to.have.length(2)
+      chai.expect(batches[0]).to.have.length(2)
+      chai.expect(results.map(({ returnData }) => returnData)).to.deep.equal(['0x01', '0x02'])
+    })
+
+    it('should split the batches exceeding the batch size', async () => {
+      const batches: MulticallCall[][] = []
+      const batcher = new MulticallBatcher(
+        async (calls) => {
+          batches.push(calls)
+          return calls.map(() => ({ success: true, returnData: '0x' }))
+        },
+        { batchSize: 4 }
+      )
+
+      await Promise.all([
+        batcher.schedule({ to: safeAddress, data: '0x010203' }),
+        batcher.schedule({ to: safeAddress, data: '0x04' }),
+        batcher.schedule({ to: safeAddress, data: '0x05' })
+      ])
+
+      chai.expect(batches.map((batch) => batch.length)).to.deep.equal([2, 1])
+    })
+
+    it('should reject the calls of a failed batch', async () => {
+      const batcher = new MulticallBatcher(async () => {
+        throw new Error('RPC error')
+      })
+
+      let error: Error | undefined
+      await batcher.schedule({ to: safeAddress, data: '0x01' }).catch((e) => (error = e))
+
+      chai.expect(error?.message).to.equal('RPC error')
+    })
+  })
+
+  describe('getSafeState', () => {
+    const results = [
+      encodeAbiParameters([{ type: 'address[]' }], [owners]),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'getThreshold', result: 2n }),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'nonce', result: 7n }),
+      encodeAbiParameters(
+        [{ type: 'address[]' }, { type: 'address' }],
+        [[moduleAddress], '0x0000000000000000000000000000000000000001']
+      ),
+      encodeStorage(guardAddress),
+      encodeStorage(fallbackHandlerAddress)
+    ]
+
+    it('should read the configuration of the Safe in a single call', async () => {
+      const aggregatedCalls: MulticallCall[][] = []
+      const safeProvider = {
+        aggregate: async (calls: MulticallCall[]) => {
+          aggregatedCalls.push(calls)
+          return calls.map((_, index) => ({ success: true, returnData: results[index] }))
+        }
+      } as unknown as SafeProvider
+
+      const safeState = await getSafeState(safeProvider, safeAddress, '1.4.1')
+
+      chai.expect(aggregatedCalls).to.have.length(1)
+      chai.expect(safeState).to.deep.equal({
+        address: safeAddress,
+        version: '1.4.1',
+        nonce: 7,
+        threshold: 2,
+        owners,
+        modules: [moduleAddress],
+        guard: guardAddress,
+        fallbackHandler: fallbackHandlerAddress
+      })
+    })
+
+    it('should read the modules of a Safe v1.0.0 with getModules', async () => {
+      const aggregatedCalls: MulticallCall[][] = []
+      const safeProvider = {
+        aggregate: async (calls: MulticallCall[]) => {
+          aggregatedCalls.push(calls)
+          return [
+            ...results.slice(0, 3),
+            encodeAbiParameters([{ type: 'address[]' }], [[moduleAddress]])
+          ].map((returnData) => ({ success: true, returnData }))
+        }
+      } as unknown as SafeProvider
+
+      const safeState = await getSafeState(safeProvider, safeAddress, '1.0.0')
+
+      const { functionName } = decodeFunctionData({
+        abi: safeAbi,
+        data: aggregatedCalls[0][3].data as `0x${string}`
+      })
+      chai.expect(functionName).to.equal('getModules')
+      chai.expect(aggregatedCalls[0]).to.have.length(4)
+      chai.expect(safeState.modules).to.deep.equal([moduleAddress])
+      chai.expect(safeState.guard).to.equal('0x0000000000000000000000000000000000000000')
+      chai.expect(safeState.fallbackHandler).to.equal('0x0000000000000000000000000000000000000000')
+    })
+
+    it('should fail if a read fails', async () => {
+      const safeProvider = {
+        aggregate: async (calls: MulticallCall[]) =>
+          calls.map(() => ({ success: false, returnData: '0x' }))
+      } as unknown as SafeProvider
+
+      let error: Error | undefined
+      await getSafeState(safeProvider, safeAddress, '1.4.1').catch((e) => (error = e))
+
+      chai.expect(error?.message).to.equal(`The state of the Safe ${safeAddress} could not be read`)
+    })
+  })
+
+  describe('getSafeConfigurations', () => {
+    const encodeSafeResults = (singleton: string) => [
+      encodeFunctionResult({ abi: safeAbi, functionName: 'VERSION', result: '1.4.1' }),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'masterCopy', result: singleton }),
+      encodeAbiParameters([{ type: 'address[]' }], [owners]),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'getThreshold', result: 2n }),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'nonce', result: 7n }),
+      encodeAbiParameters(
+        [{ type: 'address[]' }, { type: 'address' }],
+        [[moduleAddress], '0x0000000000000000000000000000000000000001']
+      ),
+      encodeStorage(guardAddress),
+      encodeStorage(fallbackHandlerAddress)
+    ]
+    // The SafeProxy and the singleton of Safes v1.0.0 do not have masterCopy and getModulesPaginated
+    const encodeSafeV1_0_0Results = () => [
+      encodeFunctionResult({ abi: safeAbi, functionName: 'VERSION', result: '1.0.0' }),
+      '0x',
+      encodeAbiParameters([{ type: 'address[]' }], [owners]),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'getThreshold', result: 2n }),
+      encodeFunctionResult({ abi: safeAbi, functionName: 'nonce', result: 7n }),
+      '0x',
+      '0x',
+      '0x'
+    ]
+    const providers = { '1': 'http://localhost:8545' }
+    const notSafeAddress = '0x3E5c63644E683549055b9Be8653de26E0B4CD36E'
+    const unknownSingletonAddress = '0x1dF62f291b2E969fB0849d99D9Ce41e2F137006e'
+    const safeV1_0_0Address = '0xA4bC8E5F5c2B5a2b6E5B1C59E1B4f1b0b5e22f6C'
+    const safeSingletonV1_0_0Address = '0xb6029EA3B2c51D09a50B53CA8012FeEB05bDa35A'
+
+    let aggregatedCalls: MulticallCall[][]
+
+    beforeEach(() => {
+      aggregatedCalls = []
+      sinon.stub(SafeProvider.prototype, 'aggregate').callsFake(async (calls) => {
+        aggregatedCalls.push(calls)
+        const resultsByAddress: Record<string, string[]> = {
+          [safeAddress]: encodeSafeResults(safeSingletonAddress),
+          [unknownSingletonAddress]: encodeSafeResults(moduleAddress),
+          [safeV1_0_0Address]: encodeSafeV1_0_0Results()
+        }
+
+        return calls.map(({ to }, index) => {
+          const results = resultsByAddress[to]
+          return results
+            ? { success: true, returnData: results[index % results.length] }
+            : { success: false, returnData: '0x' }
+        })
+      })
+    })
+
+    afterEach(() => {
+      sinon.restore()
+    })
+
+    it('should read the configuration of the Safes of a chain in a single call', async () => {
+      const [configuration, notSafe] = await getSafeConfigurations({
+        safes: [
+          { chainId: 1n, address: safeAddress },
+          { chainId: 1n, address: notSafeAddress }
+        ],
+        providers
+      })
+
+      chai.expect(aggregatedCalls).to.have.length(1)
+      chai.expect(configuration).to.deep.equal({
+        chainId: '1',
+        address: safeAddress,
+        configuration: {
+          chainId: '1',
+          address: safeAddress,
+          version: '1.4.1',
+          singleton: safeSingletonAddress,
+          nonce: 7,
+          threshold: 2,
+          owners,
+          modules: [moduleAddress],
+          guard: guardAddress,
+          fallbackHandler: fallbackHandlerAddress
+        }
+      })
+      chai.expect(notSafe).to.deep.equal({
+        chainId: '1',
+        address: notSafeAddress,
+        error: `The address ${notSafeAddress} is not a Safe`
+      })
+    })
+
+    it('should report the errors of each Safe', async () => {
+      const results = await getSafeConfigurations({
+        safes: [
+          { chainId: '1', address: unknownSingletonAddress },
+          { chainId: '100', address: safeAddress },
+          { chainId: '1', address: safeAddress }
+        ],
+        providers,
+        safesPerCall: 1
+      })
+
+      chai.expect(aggregatedCalls).to.have.length(2)
+      chai
+        .expect(results.map(({ error }) => error))
+        .to.deep.equal([
+          `The Safe singleton ${moduleAddress} is not a known Safe deployment`,
+          'No provider configured for the chain 100',
+          undefined
+        ])
+      chai.expect(results[2].configuration?.singleton).to.equal(safeSingletonAddress)
+    })
+
+    it('should read the Safes of a chain in chunks by default', async () => {
+      await getSafeConfigurations({
+        safes: Array.from({ length: 51 }, () => ({ chainId: 1n, address: notSafeAddress })),
+        providers
+      })
+
+      chai.expect(aggregatedCalls.map((calls) => calls.length)).to.deep.equal([400, 8])
+    })
+
+    it('should read the singleton and the modules of a Safe v1.0.0 separately', async () => {
+      const storageReads: [string, string][] = []
+      sinon.stub(SafeProvider.prototype, 'getStorageAt').callsFake(async (address, position) => {
+        storageReads.push([address, position])
+        return safeSingletonV1_0_0Address
+      })
+      sinon
+        .stub(SafeProvider.prototype, 'call')
+        .resolves(encodeAbiParameters([{ type: 'address[]' }], [[moduleAddress]]))
+
+      const [result] = await getSafeConfigurations({
+        safes: [{ chainId: 1n, address: safeV1_0_0Address }],
+        providers
+      })
+
+      chai.expect(storageReads).to.deep.equal([[safeV1_0_0Address, '0x0']])
+      chai.expect(result.configuration).to.deep.equal({
+        chainId: '1',
+        address: safeV1_0_0Address,
+        version: '1.0.0',
+        singleton: safeSingletonV1_0_0Address,
+        nonce: 7,
+        threshold: 2,
+        owners,
+        modules: [moduleAddress],
+        guard: '0x0000000000000000000000000000000000000000',
+        fallbackHandler: '0x0000000000000000000000000000000000000000'
+      })
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import chai from 'chai'
+import { SigningMethod } from '@safe-global/types-kit'
+import Safe from '@safe-global/protocol-kit/Safe'
+import { OwnerReconfigurationStep } from '@safe-global/protocol-kit/types'
+import { getOwnerDetails, planOwnerReconfiguration } from '@safe-global/protocol-kit/utils'
+import { SENTINEL_ADDRESS } from '@safe-global/protocol-kit/utils/constants'
+
+const createOwners = (from: number, length: number) =>
+  Array.from({ length }, (_, index) => `0x${(from + index).toString(16).padStart(40, '0')}`)
+
+// Applies the steps in the same way as the OwnerManager contract, failing where it would revert
+const applySteps = (owners: string[], threshold: number, steps: OwnerReconfigurationStep[]) => {
+  const linkedOwners = [...owners]
+
+  const checkPrevOwner = (prevOwner: string, owner: string) => {
+    const ownerIndex = linkedOwners.indexOf(owner)
+    chai.expect(ownerIndex).to.be.greaterThanOrEqual(0)
+    chai
+      .expect(prevOwner)
+      .to.equal(ownerIndex === 0 ? SENTINEL_ADDRESS : linkedOwners[ownerIndex - 1])
+    return ownerIndex
+  }
+
+  for (const step of steps) {
+    if (step.type === 'swapOwner') {
+      chai.expect(linkedOwners).to.not.include(step.newOwner)
+      linkedOwners[checkPrevOwner(step.prevOwner, step.oldOwner)] = step.newOwner
+    } else if (step.type === 'addOwnerWithThreshold') {
+      chai.expect(linkedOwners).to.not.include(step.owner)
+      linkedOwners.unshift(step.owner)
+      threshold = step.threshold
+    } else if (step.type === 'removeOwner') {
+      linkedOwners.splice(checkPrevOwner(step.prevOwner, step.owner), 1)
+      threshold = step.threshold
+    } else {
+      threshold = step.threshold
+    }
+
+    chai.expect(threshold).to.be.greaterThanOrEqual(1)
+    chai.expect(threshold).to.be.lessThanOrEqual(linkedOwners.length)
+  }
+
+  return { owners: linkedOwners, threshold }
+}
+
+describe('Owner reconfiguration', () => {
+  it('should swap the owners when the number of owners does not change', () => {
+    const currentOwners = createOwners(1, 9)
+    const targetOwners = [...currentOwners.slice(0, 5), ...createOwners(20, 4)]
+
+    const steps = planOwnerReconfiguration(currentOwners, 5, targetOwners, 5)
+    const result = applySteps(currentOwners, 5, steps)
+
+    chai.expect(steps).to.have.length(4)
+    chai.expect(steps.every(({ type }) => type === 'swapOwner')).to.be.true
+    chai.expect(result.owners).to.have.members(targetOwners)
+  })
+
+  it('should add the owners and set the threshold in the last call', () => {
+    const currentOwners = createOwners(1, 2)
+    const targetOwners = [...createOwners(1, 1), ...createOwners(20, 3)]
+
+    const steps = planOwnerReconfiguration(currentOwners, 2, targetOwners, 3)
+    const result = applySteps(currentOwners, 2, steps)
+
+    chai
+      .expect(steps.map(({ type }) => type))
+      .to.deep.equal(['swapOwner', 'addOwnerWithThreshold', 'addOwnerWithThreshold'])
+    chai.expect(result.owners).to.have.members(targetOwners)
+    chai.expect(result.threshold).to.equal(3)
+  })
+
+  it('should remove the owners keeping a valid threshold after every call', () => {
+    const currentOwners = createOwners(1, 9)
+    const targetOwners = createOwners(3, 2)
+
+    const steps = planOwnerReconfiguration(currentOwners, 9, targetOwners, 1)
+    const result = applySteps(currentOwners, 9, steps)
+
+    chai.expect(steps).to.have.length(7)
+    chai.expect(steps.every(({ type }) => type === 'removeOwner')).to.be.true
+    chai.expect(result.owners).to.have.members(targetOwners)
+    chai.expect(result.threshold).to.equal(1)
+  })
+
+  it('should only change the threshold when the owners do not change', () => {
+    const currentOwners = createOwners(1, 3)
+
+    const steps = planOwnerReconfiguration(currentOwners, 1, [...currentOwners].reverse(), 2)
+
+    chai.expect(steps).to.deep.equal([{ type: 'changeThreshold', threshold: 2 }])
+  })
+
+  it('should return no steps when the owners and threshold do not change', () => {
+    const currentOwners = createOwners(1, 3)
+
+    chai.expect(planOwnerReconfiguration(currentOwners, 2, currentOwners, 2)).to.be.empty
+  })
+})
+
+describe('getOwnerDetails', () => {
+  const [eoaOwner, safeOwner, contractOwner, nestedOwner, safeV1_0_0Owner] = createOwners(1, 5)
+  const safeSingletonAddress = '0x41675C099F32341bf84BFc5382aF534df5C7461a'
+  const safeSingletonV1_0_0Address = '0xb6029EA3B2c51D09a50B53CA8012FeEB05bDa35A'
+
+  const safeProvider = {
+    isContractDeployed: async (address: string) => address !== eoaOwner,
+    readContract: async ({ address, functionName }: { address: string; functionName: string }) => {
+      const isSafe = address === safeOwner || address === safeV1_0_0Owner
+
+      // The proxies of Safes v1.0.0 do not have the masterCopy() method
+      if (!isSafe || (address === safeV1_0_0Owner && functionName === 'masterCopy')) {
+        throw new Error('execution reverted')
+      }
+
+      if (functionName === 'masterCopy') return safeSingletonAddress
+      if (functionName === 'getThreshold') return 1n
+      return [nestedOwner]
+    },
+    getStorageAt: async (address: string) =>
+      address === safeV1_0_0Owner
+        ? safeSingletonV1_0_0Address
+        : '0x0000000000000000000000000000000000000000'
+  }
+
+  const safe = {
+    getOwners: async () => [eoaOwner, safeOwner, contractOwner, safeV1_0_0Owner],
+    getContractVersion: () => '1.2.0',
+    getSafeProvider: () => safeProvider
+  } as unknown as Safe
+
+  it('should classify the owners and return the configuration of the owner Safes', async () => {
+    const ownerDetails = await getOwnerDetails(safe)
+
+    chai.expect(ownerDetails).to.deep.equal([
+      {
+        address: eoaOwner,
+        type: 'EOA',
+        signingMethod: SigningMethod.ETH_SIGN_TYPED_DATA_V4
+      },
+      {
+        address: safeOwner,
+        type: 'SAFE',
+        signingMethod: SigningMethod.SAFE_SIGNATURE,
+        safe: { safeVersion: '1.4.1', threshold: 1, owners: [nestedOwner] }
+      },
+      {
+        address: contractOwner,
+        type: 'CONTRACT',
+        signingMethod: SigningMethod.SAFE_SIGNATURE
+      },
+      {
+        address: safeV1_0_0Owner,
+        type: 'SAFE',
+        signingMethod: SigningMethod.SAFE_SIGNATURE,
+        safe: { safeVersion: '1.0.0', threshold: 1, owners: [nestedOwner] }
+      }
+    ])
+  })
+})
@@ -0,0 +1,165 @@
+import chai from 'chai'
+import { p256 } from '@noble/curves/p256'
+import {
+  concat,
+  decodeFunctionData,
+  encodeAbiParameters,
+  hexToBytes,
+  numberToHex,
+  parseAbi,
+  parseAbiParameters,
+  stringToHex,
+  toHex
+} from 'viem'
+import {
+  encodeSharedSignerConfigureData,
+  encodeWebAuthnClientDataJson,
+  getSharedSignerConfigurationFromPasskey,
+  getWebAuthnMessageHash,
+  verifyPasskeySignature
+} from '@safe-global/protocol-kit/utils'
+import { PasskeyArgType } from '@safe-global/protocol-kit/types'
+
+const passkey: PasskeyArgType = {
+  rawId: 'a1b2c3',
+  coordinates: {
+    x: '0x8d9c2e3b8f8c6c2b0a1e6f1b2a3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e',
+    y: '0x1f2e3d4c5b6a79880796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0'
+  },
+  customVerifierAddress: '0x445a0683e494ea0c5AF3E83c5159fBE47Cf9e765'
+}
+
+describe('Passkeys', () => {
+  describe('getSharedSignerConfigurationFromPasskey', () => {
+    it('should return the coordinates and the verifier of the passkey', () => {
+      chai.expect(getSharedSignerConfigurationFromPasskey(passkey, '1')).to.deep.equal({
+        x: BigInt(passkey.coordinates.x),
+        y: BigInt(passkey.coordinates.y),
+        verifiers: BigInt('0x445a0683e494ea0c5AF3E83c5159fBE47Cf9e765')
+      })
+    })
+  })
+
+  describe('encodeSharedSignerConfigureData', () => {
+    it('should encode the call to the configure method', () => {
+      const configuration = getSharedSignerConfigurationFromPasskey(passkey, '1')
+      const { functionName, args } = decodeFunctionData({
+        abi: parseAbi(['function configure((uint256 x, uint256 y, uint176 verifiers) signer)']),
+        data: encodeSharedSignerConfigureData(configuration) as `0x${string}`
+      })
+
+      chai.expect(functionName).to.equal('configure')
+      chai.expect(args[0]).to.deep.equal(configuration)
+    })
+  })
+
+  describe('verifyPasskeySignature', () => {
+    const privateKey = p256.utils.randomPrivateKey()
+    const publicKey = p256.ProjectivePoint.fromHex(p256.getPublicKey(privateKey, false))
+    const coordinates = {
+      x: numberToHex(publicKey.x, { size: 32 }),
+      y: numberToHex(publicKey.y, { size: 32 })
+    }
+    const challenge = '0x4f8a6c1d2b3e5f7a9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b'
+    const clientDataFields = stringToHex('"origin":"https://app.safe.global","crossOrigin":false')
+    // rpIdHash, flags with user presence and user verification, and sign counter
+    const authenticatorData = concat([toHex(new Uint8Array(32)), '0x05', '0x00000000'])
+
+    const signPasskey = (authData: `0x${string}`, highS = false) => {
+      const messageHash = getWebAuthnMessageHash(challenge, authData, clientDataFields)
+      const { r, s } = p256.sign(hexToBytes(messageHash as `0x${string}`), privateKey)
+
+      return encodeAbiParameters(parseAbiParameters('bytes, bytes, uint256[2]'), [
+        authData,
+        clientDataFields,
+        [r, highS ? p256.CURVE.n - s : s]
+      ])
+    }
+
+    it('should encode the client data JSON with the base64url challenge', () => {
+      chai
+        .expect(encodeWebAuthnClientDataJson(challenge, clientDataFields))
+        .to.equal(
+          '{"type":"webauthn.get","challenge":"T4psHSs-X3qcDR4vOktcbX6PmgscLT5PWmt8jZ4PGis","origin":"https://app.safe.global","crossOrigin":false}'
+        )
+    })
+
+    it('should accept a valid passkey signature', async () => {
+      const verification = await verifyPasskeySignature({
+        challenge,
+        signature: signPasskey(authenticatorData),
+        coordinates
+      })
+
+      chai.expect(verification.isValid).to.be.true
+      chai.expect(verification.error).to.be.undefined
+    })
+
+    it('should accept a malleable signature with a high s value', async () => {
+      const verification = await verifyPasskeySignature({
+        challenge,
+        signature: signPasskey(authenticatorData, true),
+        coordinates
+      })
+
+      chai.expect(verification.isValid).to.be.true
+    })
+
+    it('should reject a signature of a different challenge', async () => {
+      const verification = await verifyPasskeySignature({
+        challenge: challenge.replace('4f8a', '4f8b'),
+        signature: signPasskey(authenticatorData),
+        coordinates
+      })
+
+      chai.expect(verification.isValid).to.be.false
+      chai
+        .expect(verification.error)
+        .to.equal('The P-256 signature is not valid for the passkey coordinates')
+    })
+
+    it('should reject a signature without user verification', async () => {
+      const authenticatorDataWithoutUV = concat([toHex(new Uint8Array(32)), '0x01', '0x00000000'])
+      const verification = await verifyPasskeySignature({
+        challenge,
+        signature: signPasskey(authenticatorDataWithoutUV),
+        coordinates
+      })
+
+      chai.expect(verification.isValid).to.be.false
+      chai
+        .expect(verification.error)
+        .to.equal('The authenticator data does not have the user verification flag set')
+    })
+
+    it('should reject a malformed signature', async () => {
+      const verification = await verifyPasskeySignature({
+        challenge,
+        signature: '0x1234',
+        coordinates
+      })
+
+      chai.expect(verification).to.deep.equal({
+        isValid: false,
+        error: 'Invalid passkey signature encoding'
+      })
+    })
+
+    it('should reject a signer without verifiers', async () => {
+      const signature = signPasskey(authenticatorData)
+
+      chai
+        .expect(await verifyPasskeySignature({ challenge, signature, coordinates, verifiers: 0n }))
+        .to.deep.equal({ isValid: false, error: 'No P-256 verifier is configured' })
+
+      const verification = await verifyPasskeySignature({
+        challenge,
+        signature,
+        coordinates,
+        verifiers: 0x100n << 160n
+      })
+
+      chai.expect(verification.isValid).to.be.true
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import chai from 'chai'
+import {
+  createPredictedSafeDescriptor,
+  getPredictedSafeFromDescriptor
+} from '@safe-global/protocol-kit/utils'
+import { PredictedSafeDescriptor, PredictedSafeProps } from '@safe-global/protocol-kit/types'
+import { getContractDeploymentType } from '@safe-global/protocol-kit/contracts/config'
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const ownerAddress = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+const fallbackHandlerAddress = '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4'
+
+const predictedSafe: PredictedSafeProps = {
+  safeAccountConfig: {
+    owners: [ownerAddress],
+    threshold: 1,
+    fallbackHandler: fallbackHandlerAddress
+  },
+  safeDeploymentConfig: {
+    deploymentType: 'canonical'
+  }
+}
+
+describe('Predicted Safe descriptor', () => {
+  it('should create a JSON serializable descriptor with the resolved values', () => {
+    const descriptor = createPredictedSafeDescriptor({
+      predictedSafe,
+      safeAddress,
+      chainId: 11155111n,
+      saltNonce: '42',
+      safeVersion: '1.4.1'
+    })
+
+    chai.expect(JSON.parse(JSON.stringify(descriptor))).to.deep.equal({
+      safeAddress,
+      chainId: '11155111',
+      owners: [ownerAddress],
+      threshold: 1,
+      saltNonce: '42',
+      safeVersion: '1.4.1',
+      deploymentType: 'canonical',
+      fallbackHandler: fallbackHandlerAddress
+    })
+  })
+
+  it('should write the fallback handler and the deployment type resolved for the Safe', () => {
+    const descriptor = createPredictedSafeDescriptor({
+      predictedSafe: { safeAccountConfig: { owners: [ownerAddress], threshold: 1 } },
+      safeAddress,
+      chainId: 1n,
+      saltNonce: '42',
+      safeVersion: '1.4.1',
+      fallbackHandler: fallbackHandlerAddress,
+      deploymentType: 'canonical'
+    })
+
+    chai.expect(descriptor.fallbackHandler).to.equal(fallbackHandlerAddress)
+    chai.expect(descriptor.deploymentType).to.equal('canonical')
+  })
+
+  it('should return the deployment type of the Safe contracts', () => {
+    chai
+      .expect(
+        getContractDeploymentType(
+          '1.4.1',
+          1n,
+          'safeSingletonVersion',
+          '0x41675C099F32341bf84BFc5382aF534df5C7461a'
+        )
+      )
+      .to.equal('canonical')
+    chai.expect(getContractDeploymentType('1.4.1', 1n, 'safeSingletonVersion', safeAddress)).to.be
+      .undefined
+  })
+
+  it('should return the predicted Safe configuration of a descriptor', () => {
+    const descriptor = createPredictedSafeDescriptor({
+      predictedSafe,
+      safeAddress,
+      chainId: 11155111n,
+      saltNonce: '42',
+      safeVersion: '1.4.1'
+    })
+
+    const { safeAccountConfig, safeDeploymentConfig } = getPredictedSafeFromDescriptor(descriptor)
+
+    chai.expect(safeAccountConfig.owners).to.deep.equal([ownerAddress])
+    chai.expect(safeAccountConfig.threshold).to.equal(1)
+    chai.expect(safeAccountConfig.fallbackHandler).to.equal(fallbackHandlerAddress)
+    chai.expect(safeDeploymentConfig).to.deep.equal({
+      saltNonce: '42',
+      safeVersion: '1.4.1',
+      deploymentType: 'canonical'
+    })
+  })
+
+  it('should fail if the descriptor is not valid', () => {
+    chai
+      .expect(() =>
+        getPredictedSafeFromDescriptor({ safeAddress } as unknown as PredictedSafeDescriptor)
+      )
+      .to.throw('Invalid predicted Safe descriptor')
+
+    chai
+      .expect(() =>
+        getPredictedSafeFromDescriptor({
+          safeAddress,
+          chainId: '11155111',
+          owners: [ownerAddress],
+          threshold: 2,
+          saltNonce: '42',
+          safeVersion: '1.4.1'
+        })
+      )
+      .to.throw('Threshold must be lower than or equal to owners length')
+  })
+})
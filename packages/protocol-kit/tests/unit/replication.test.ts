@@ -0,0 +1,103 @@
+import chai from 'chai'
+import { encodeFunctionData, parseAbi } from 'viem'
+import {
+  decodeSafeSetupData,
+  getReplicableSafeConfigFromCreation
+} from '@safe-global/protocol-kit/utils'
+
+const ownerAddress = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+const fallbackHandlerAddress = '0xf48f2B2d2a534e402487b3ee7C18c33Aec0Fe5e4'
+const factoryAddress = '0xa6B71E26C5e0845f74c812102Ca7114b6a896AB2'
+const safeSingletonL1Address = '0xd9Db270c1B5E3Bd161E8c8503c55cEABeE709552'
+const safeSingletonL2Address = '0x3E5c63644E683549055b9Be8653de26E0B4CD36E'
+const unknownAddress = '0xE11BA2b4D45Eaed5996Cd0823791E0C93114882d'
+const zeroAddress = '0x0000000000000000000000000000000000000000'
+
+const setupAbi = parseAbi([
+  'function setup(address[] _owners, uint256 _threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)'
+])
+
+const setupData = encodeFunctionData({
+  abi: setupAbi,
+  functionName: 'setup',
+  args: [
+    [ownerAddress],
+    1n,
+    zeroAddress,
+    '0x',
+    fallbackHandlerAddress,
+    zeroAddress,
+    0n,
+    zeroAddress
+  ]
+})
+
+describe('Safe replication', () => {
+  describe('decodeSafeSetupData', () => {
+    it('should decode the configuration of a Safe from the setup call', () => {
+      chai.expect(decodeSafeSetupData(setupData)).to.deep.equal({
+        owners: [ownerAddress],
+        threshold: 1,
+        to: zeroAddress,
+        data: '0x',
+        fallbackHandler: fallbackHandlerAddress,
+        paymentToken: zeroAddress,
+        payment: 0,
+        paymentReceiver: zeroAddress
+      })
+    })
+  })
+
+  describe('getReplicableSafeConfigFromCreation', () => {
+    it('should identify the version and singleton type of the Safe', () => {
+      const l2Config = getReplicableSafeConfigFromCreation({
+        factoryAddress,
+        singleton: safeSingletonL2Address,
+        setupData,
+        saltNonce: '42'
+      })
+
+      chai.expect(l2Config.isL1SafeSingleton).to.be.false
+      chai.expect(l2Config.predictedSafe.safeDeploymentConfig).to.deep.equal({
+        saltNonce: '42',
+        safeVersion: '1.3.0',
+        deploymentType: 'canonical'
+      })
+
+      const l1Config = getReplicableSafeConfigFromCreation({
+        factoryAddress,
+        singleton: safeSingletonL1Address,
+        setupData,
+        saltNonce: '42'
+      })
+
+      chai.expect(l1Config.isL1SafeSingleton).to.be.true
+    })
+
+    it('should fail if the singleton is not a known Safe deployment', () => {
+      chai
+        .expect(() =>
+          getReplicableSafeConfigFromCreation({
+            factoryAddress,
+            singleton: unknownAddress,
+            setupData,
+            saltNonce: '42'
+          })
+        )
+        .to.throw(`The Safe singleton ${unknownAddress} is not a known Safe deployment`)
+    })
+
+    it('should fail if the saltNonce is unknown', () => {
+      chai
+        .expect(() =>
+          getReplicableSafeConfigFromCreation({
+            factoryAddress,
+            singleton: safeSingletonL2Address,
+            setupData,
+            saltNonce: null
+          })
+        )
+        .to.throw('The saltNonce used to deploy the Safe is unknown')
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { OperationType, SafeTransactionData } from '@safe-global/types-kit'
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { encodeFunctionData, maxUint256, parseAbi } from 'viem'
+import Safe from '@safe-global/protocol-kit/Safe'
+import {
+  analyzeSafeTransaction,
+  enforceRiskPolicy,
+  filterFindingsBySeverity
+} from '@safe-global/protocol-kit/utils'
+import EthSafeTransaction from '@safe-global/protocol-kit/utils/transactions/SafeTransaction'
+
+chai.use(chaiAsPromised)
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const signerAddress = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+const tokenAddress = '0x22d491Bde2303f2f43325b2108D26f1eAbA1e32b'
+const multiSendAddress = '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761'
+const unknownAddress = '0xE11BA2b4D45Eaed5996Cd0823791E0C93114882d'
+const zeroAddress = '0x0000000000000000000000000000000000000000'
+
+const safeAbi = parseAbi([
+  'function changeThreshold(uint256 _threshold)',
+  'function setGuard(address guard)'
+])
+const erc20Abi = parseAbi(['function approve(address spender, uint256 value) returns (bool)'])
+
+// Only the methods used by the built-in rules are needed
+const safe = {
+  getAddress: async () => safeAddress,
+  getThreshold: async () => 2,
+  getMultiSendAddress: () => multiSendAddress,
+  getMultiSendCallOnlyAddress: () => multiSendAddress,
+  getSafeProvider: () => ({ getSignerAddress: async () => signerAddress })
+} as unknown as Safe
+
+const createSafeTransaction = (data: Partial<SafeTransactionData>) =>
+  new EthSafeTransaction({
+    to: safeAddress,
+    value: '0',
+    data: '0x',
+    operation: OperationType.Call,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce: 0,
+    ...data
+  })
+
+describe('Risk analysis', () => {
+  describe('analyzeSafeTransaction', async () => {
+    it('should not return findings for a plain transfer', async () => {
+      const findings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: signerAddress, value: '1' })
+      )
+      chai.expect(findings).to.be.empty
+    })
+
+    it('should flag delegate calls to unknown contracts', async () => {
+      const findings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: unknownAddress, operation: OperationType.DelegateCall })
+      )
+      chai.expect(findings.map(({ ruleId }) => ruleId)).to.be.deep.eq(['unknown-delegatecall'])
+      chai.expect(findings[0].severity).to.be.eq('critical')
+    })
+
+    it('should not flag delegate calls to the MultiSend contract', async () => {
+      const findings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: multiSendAddress, operation: OperationType.DelegateCall })
+      )
+      chai.expect(findings).to.be.empty
+    })
+
+    it('should flag guard changes and threshold reductions', async () => {
+      const setGuardFindings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({
+          data: encodeFunctionData({
+            abi: safeAbi,
+            functionName: 'setGuard',
+            args: [unknownAddress]
+          })
+        })
+      )
+      chai
+        .expect(setGuardFindings.map(({ ruleId }) => ruleId))
+        .to.be.deep.eq(['safe-configuration-change'])
+
+      const changeThresholdData = (threshold: bigint) =>
+        encodeFunctionData({ abi: safeAbi, functionName: 'changeThreshold', args: [threshold] })
+      const reductionFindings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ data: changeThresholdData(1n) })
+      )
+      chai
+        .expect(reductionFindings.map(({ ruleId }) => ruleId))
+        .to.be.deep.eq(['threshold-reduction'])
+      const increaseFindings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ data: changeThresholdData(3n) })
+      )
+      chai.expect(increaseFindings).to.be.empty
+    })
+
+    it('should flag unlimited ERC-20 approvals', async () => {
+      const approveData = (amount: bigint) =>
+        encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [unknownAddress, amount]
+        })
+      const findings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: tokenAddress, data: approveData(maxUint256) })
+      )
+      chai.expect(findings.map(({ ruleId }) => ruleId)).to.be.deep.eq(['unlimited-erc20-approval'])
+      const limitedFindings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: tokenAddress, data: approveData(100n) })
+      )
+      chai.expect(limitedFindings).to.be.empty
+    })
+
+    it('should flag gas refunds paid to an account different from the executor', async () => {
+      const transaction = createSafeTransaction({
+        to: signerAddress,
+        gasPrice: '1',
+        refundReceiver: unknownAddress
+      })
+      const findings = await analyzeSafeTransaction(safe, transaction)
+      chai.expect(findings.map(({ ruleId }) => ruleId)).to.be.deep.eq(['gas-refund-receiver'])
+      const executorFindings = await analyzeSafeTransaction(safe, transaction, {
+        executor: unknownAddress
+      })
+      chai.expect(executorFindings).to.be.empty
+    })
+
+    it('should use custom rules', async () => {
+      const findings = await analyzeSafeTransaction(
+        safe,
+        createSafeTransaction({ to: unknownAddress, operation: OperationType.DelegateCall }),
+        {
+          rules: [
+            {
+              id: 'custom',
+              evaluate: ({ decodedTransaction }) => [
+                { ruleId: 'custom', severity: 'low', message: decodedTransaction.kind }
+              ]
+            }
+          ]
+        }
+      )
+      chai
+        .expect(findings)
+        .to.be.deep.eq([{ ruleId: 'custom', severity: 'low', message: 'nativeTransfer' }])
+    })
+  })
+
+  describe('filterFindingsBySeverity', async () => {
+    it('should return the findings with the given severity or a higher one', async () => {
+      const findings = filterFindingsBySeverity(
+        [
+          { ruleId: 'a', severity: 'low', message: '' },
+          { ruleId: 'b', severity: 'high', message: '' },
+          { ruleId: 'c', severity: 'critical', message: '' }
+        ],
+        'high'
+      )
+      chai.expect(findings.map(({ ruleId }) => ruleId)).to.be.deep.eq(['b', 'c'])
+    })
+  })
+
+  describe('enforceRiskPolicy', async () => {
+    const delegateCallTransaction = createSafeTransaction({
+      to: unknownAddress,
+      operation: OperationType.DelegateCall
+    })
+
+    it('should refuse transactions with findings above the configured severity', async () => {
+      await chai
+        .expect(enforceRiskPolicy(safe, delegateCallTransaction, { refuseSeverity: 'high' }))
+        .to.be.rejectedWith('The transaction was refused by the risk policy: unknown-delegatecall')
+    })
+
+    it('should require the acknowledgement of the findings above the configured severity', async () => {
+      await chai
+        .expect(enforceRiskPolicy(safe, delegateCallTransaction, { acknowledgeSeverity: 'medium' }))
+        .to.be.rejectedWith('The transaction risks were not acknowledged: unknown-delegatecall')
+      await chai
+        .expect(
+          enforceRiskPolicy(safe, delegateCallTransaction, {
+            acknowledgeSeverity: 'medium',
+            onAcknowledge: async () => false
+          })
+        )
+        .to.be.rejectedWith('The transaction risks were not acknowledged')
+      const findings = await enforceRiskPolicy(safe, delegateCallTransaction, {
+        acknowledgeSeverity: 'medium',
+        onAcknowledge: async (findings) => findings.length === 1
+      })
+      chai.expect(findings).to.have.length(1)
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { encodeFunctionResult, parseAbi } from 'viem'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import { Eip1193Provider, RequestArguments } from '@safe-global/protocol-kit/types'
+
+chai.use(chaiAsPromised)
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const nonceAbi = parseAbi(['function nonce() view returns (uint256)'])
+
+const createEndpoint = (
+  nonce: bigint,
+  { chainId = '0x1', fails = false, hangs = false } = {}
+): Eip1193Provider & { requests: string[] } => {
+  const requests: string[] = []
+
+  return {
+    requests,
+    request: async ({ method }: RequestArguments) => {
+      requests.push(method)
+
+      if (hangs) {
+        return new Promise(() => {})
+      }
+      if (fails) {
+        throw new Error('Internal error')
+      }
+
+      switch (method) {
+        case 'eth_chainId':
+          return chainId
+        case 'eth_call':
+          return encodeFunctionResult({ abi: nonceAbi, functionName: 'nonce', result: nonce })
+        default:
+          return null
+      }
+    }
+  }
+}
+
+const readNonce = (safeProvider: SafeProvider) =>
+  safeProvider.readContractWithQuorum({
+    address: safeAddress,
+    abi: nonceAbi,
+    functionName: 'nonce'
+  })
+
+describe('SafeProvider', () => {
+  describe('failover', () => {
+    it('should use the next endpoint when an endpoint fails', async () => {
+      const failingEndpoint = createEndpoint(0n, { fails: true })
+      const endpoint = createEndpoint(0n)
+      const safeProvider = new SafeProvider({ provider: [failingEndpoint, endpoint] })
+
+      chai.expect(await safeProvider.getChainId()).to.equal(1n)
+      chai.expect(failingEndpoint.requests).to.include('eth_chainId')
+      chai.expect(endpoint.requests).to.include('eth_chainId')
+    })
+
+    it('should use the next endpoint when a request times out', async () => {
+      const hangingEndpoint = createEndpoint(0n, { hangs: true })
+      const endpoint = createEndpoint(0n)
+      const safeProvider = new SafeProvider({
+        provider: [hangingEndpoint, endpoint],
+        failover: { timeout: 20 }
+      })
+
+      chai.expect(await safeProvider.getChainId()).to.equal(1n)
+      chai.expect(endpoint.requests).to.include('eth_chainId')
+    })
+
+    it('should fail if the quorum is not valid', () => {
+      chai
+        .expect(
+          () =>
+            new SafeProvider({
+              provider: [createEndpoint(0n), createEndpoint(0n)],
+              failover: { quorum: 3 }
+            })
+        )
+        .to.throw('The quorum must be between 1 and the number of provider endpoints')
+    })
+  })
+
+  describe('quorum', () => {
+    it('should return the result matched by the quorum of endpoints', async () => {
+      const safeProvider = new SafeProvider({
+        provider: [createEndpoint(5n), createEndpoint(6n), createEndpoint(5n)],
+        failover: { quorum: 2 }
+      })
+
+      chai.expect(await readNonce(safeProvider)).to.equal(5n)
+    })
+
+    it('should fail if the quorum of endpoints does not return the same result', async () => {
+      const safeProvider = new SafeProvider({
+        provider: [createEndpoint(5n), createEndpoint(6n), createEndpoint(5n, { fails: true })],
+        failover: { quorum: 2 }
+      })
+
+      await chai
+        .expect(readNonce(safeProvider))
+        .to.be.rejectedWith(
+          'The quorum of 2 matching results was not reached: 1 of 3 provider endpoints returned the same result'
+        )
+    })
+
+    it('should fail if different results match the quorum of endpoints', async () => {
+      const safeProvider = new SafeProvider({
+        provider: [createEndpoint(5n), createEndpoint(6n), createEndpoint(5n), createEndpoint(6n)],
+        failover: { quorum: 2 }
+      })
+
+      await chai
+        .expect(readNonce(safeProvider))
+        .to.be.rejectedWith(
+          'The provider endpoints returned 2 different results matching the quorum of 2'
+        )
+    })
+
+    it('should require the quorum for the chainId', async () => {
+      const safeProvider = new SafeProvider({
+        provider: [
+          createEndpoint(0n),
+          createEndpoint(0n, { chainId: '0x64' }),
+          createEndpoint(0n, { chainId: '0x89' })
+        ],
+        failover: { quorum: 2 }
+      })
+
+      await chai
+        .expect(safeProvider.getChainId())
+        .to.be.rejectedWith('The quorum of 2 matching results was not reached')
+    })
+  })
+
+  describe('aggregate', () => {
+    it('should limit the concurrent calls if Multicall3 is not deployed', async () => {
+      let pendingCalls = 0
+      let maxPendingCalls = 0
+      const endpoint: Eip1193Provider = {
+        request: async ({ method }: RequestArguments) => {
+          if (method !== 'eth_call') {
+            return method === 'eth_chainId' ? '0x1' : null
+          }
+
+          pendingCalls++
+          maxPendingCalls = Math.max(maxPendingCalls, pendingCalls)
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          pendingCalls--
+          return '0x'
+        }
+      }
+      const safeProvider = new SafeProvider({ provider: endpoint })
+
+      const results = await safeProvider.aggregate(
+        Array.from({ length: 25 }, () => ({ to: safeAddress, data: '0x01' }))
+      )
+
+      chai.expect(results).to.have.length(25)
+      chai.expect(maxPendingCalls).to.equal(10)
+    })
+  })
+})
@@ -0,0 +1,304 @@
+import chai from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { keccak256, toHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import Safe from '@safe-global/protocol-kit/Safe'
+import SafeProvider from '@safe-global/protocol-kit/SafeProvider'
+import {
+  buildSignatureBytes,
+  EthSafeSignature,
+  generateContractOwnerSignature,
+  generatePreValidatedSignature,
+  parseSignatureBytes,
+  verifySafeSignatures
+} from '@safe-global/protocol-kit/utils'
+
+chai.use(chaiAsPromised)
+
+const safeAddress = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+const signerSafeAddress = '0x22d491Bde2303f2f43325b2108D26f1eAbA1e32b'
+const safeTxHash = keccak256(toHex('Safe transaction'))
+
+const owner1 = privateKeyToAccount(
+  '0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d'
+)
+const owner2 = privateKeyToAccount(
+  '0x6cbed15c793ce57650b9877cf6fa156fbef513c4e6134f022a85b1ffdd59b2a1'
+)
+const notOwner = privateKeyToAccount(
+  '0x6370fd033278c143179d81c5526140625662b8daa446c22ee2d73db3707e620c'
+)
+
+const createSafe = (
+  owners: string[],
+  threshold: number,
+  safeVersion = '1.4.1',
+  safeProvider = {} as SafeProvider
+) =>
+  ({
+    getAddress: async () => safeAddress,
+    getOwners: async () => owners,
+    getThreshold: async () => threshold,
+    getContractVersion: () => safeVersion,
+    getSafeProvider: () => safeProvider,
+    isSafeDeployed: async () => false,
+    getContractManager: () => ({ safeContract: undefined })
+  }) as unknown as Safe
+
+const signHash = async (account: typeof owner1) =>
+  new EthSafeSignature(account.address, await account.sign({ hash: safeTxHash }))
+
+describe('Safe signatures', () => {
+  describe('parseSignatureBytes', () => {
+    it('should parse the signatures encoded with buildSignatureBytes', async () => {
+      const ecdsaSignature = await signHash(owner1)
+      const approvedHashSignature = generatePreValidatedSignature(owner2.address)
+      const contractSignature = new EthSafeSignature(signerSafeAddress, '0x1234', true)
+
+      const signatures = parseSignatureBytes(
+        buildSignatureBytes([ecdsaSignature, approvedHashSignature, contractSignature])
+      )
+
+      chai.expect(signatures).to.have.length(3)
+
+      const parsedContractSignature = signatures.find(({ type }) => type === 'CONTRACT_SIGNATURE')
+      chai.expect(parsedContractSignature?.owner).to.equal(signerSafeAddress)
+      chai.expect(parsedContractSignature?.dynamicOffset).to.equal(3 * 65)
+      chai.expect(parsedContractSignature?.contractSignature).to.equal('0x1234')
+
+      const parsedApprovedHash = signatures.find(({ type }) => type === 'APPROVED_HASH')
+      chai.expect(parsedApprovedHash?.owner).to.equal(owner2.address)
+
+      const parsedEcdsaSignature = signatures.find(({ type }) => type === 'ECDSA')
+      chai.expect(parsedEcdsaSignature?.staticPart).to.equal(ecdsaSignature.data)
+    })
+
+    it('should identify eth_sign signatures', async () => {
+      const signature = await owner1.signMessage({ message: { raw: safeTxHash } })
+      const ethSignSignature =
+        signature.slice(0, -2) + (parseInt(signature.slice(-2), 16) + 4).toString(16)
+
+      const [parsedSignature] = parseSignatureBytes(ethSignSignature)
+
+      chai.expect(parsedSignature.type).to.equal('ETH_SIGN')
+    })
+
+    it('should fail if a contract signature points inside the static part', () => {
+      const contractSignature = new EthSafeSignature(signerSafeAddress, '0x1234', true)
+      const signatureBytes = '0x' + contractSignature.staticPart('0'.padStart(64, '0'))
+
+      chai
+        .expect(() => parseSignatureBytes(signatureBytes))
+        .to.throw(
+          'The contract signature at index 0 points inside the static part of the signatures'
+        )
+    })
+
+    it('should fail if a contract signature points inside the static part of a later required signature', async () => {
+      const contractSignature = new EthSafeSignature(signerSafeAddress, '0x1234', true)
+      const ecdsaSignature = await signHash(owner1)
+      const signatureBytes =
+        '0x' +
+        contractSignature.staticPart((65).toString(16).padStart(64, '0')) +
+        ecdsaSignature.data.slice(2) +
+        contractSignature.dynamicPart()
+
+      chai
+        .expect(() => parseSignatureBytes(signatureBytes, 2))
+        .to.throw(
+          'The contract signature at index 0 points inside the static part of the signatures'
+        )
+    })
+  })
+
+  describe('verifySafeSignatures', () => {
+    it('should accept valid signatures sorted by owner', async () => {
+      const safe = createSafe([owner1.address, owner2.address], 2)
+      const signatures = [await signHash(owner1), await signHash(owner2)]
+
+      const report = await verifySafeSignatures(safe, safeTxHash, buildSignatureBytes(signatures))
+
+      chai.expect(report.isValid).to.be.true
+      chai.expect(report.signers).to.have.members([owner1.address, owner2.address])
+    })
+
+    it('should report the signatures of accounts that are not owners', async () => {
+      const safe = createSafe([owner1.address, owner2.address], 2)
+      const signatures = [await signHash(owner1), await signHash(notOwner)]
+
+      const report = await verifySafeSignatures(safe, safeTxHash, buildSignatureBytes(signatures))
+      const invalidSignature = report.signatures.find(({ isValid }) => !isValid)
+
+      chai.expect(report.isValid).to.be.false
+      chai.expect(invalidSignature?.signer).to.equal(notOwner.address)
+      chai.expect(invalidSignature?.error?.code).to.equal('GS026')
+    })
+
+    it('should report the signatures that are not sorted', async () => {
+      const safe = createSafe([owner1.address, owner2.address], 2)
+      const [firstSignature, secondSignature] = [await signHash(owner1), await signHash(owner2)]
+        .sort((left, right) => left.signer.toLowerCase().localeCompare(right.signer.toLowerCase()))
+        .reverse()
+
+      const report = await verifySafeSignatures(
+        safe,
+        safeTxHash,
+        firstSignature.data + secondSignature.data.slice(2)
+      )
+
+      chai.expect(report.isValid).to.be.false
+      chai.expect(report.signatures[0].isValid).to.be.true
+      chai.expect(report.signatures[1].error?.code).to.equal('GS026')
+      chai.expect(report.signatures[1].error?.message).to.contain('is not sorted')
+    })
+
+    it('should report the approved hashes that are not approved by the executor', async () => {
+      const safe = createSafe([owner1.address, owner2.address], 1)
+      const signatureBytes = buildSignatureBytes([generatePreValidatedSignature(owner2.address)])
+
+      const report = await verifySafeSignatures(safe, safeTxHash, signatureBytes)
+      chai.expect(report.signatures[0].error?.code).to.equal('GS025')
+
+      const executorReport = await verifySafeSignatures(safe, safeTxHash, signatureBytes, {
+        executor: owner2.address
+      })
+      chai.expect(executorReport.isValid).to.be.true
+    })
+
+    it('should report the contract signatures pointing inside the static part of the required signatures', async () => {
+      const safe = createSafe([signerSafeAddress, owner1.address], 2)
+      const contractSignature = new EthSafeSignature(signerSafeAddress, '0x1234', true)
+      const signatureBytes =
+        '0x' +
+        contractSignature.staticPart((65).toString(16).padStart(64, '0')) +
+        (await signHash(owner1)).data.slice(2) +
+        contractSignature.dynamicPart()
+
+      const report = await verifySafeSignatures(safe, safeTxHash, signatureBytes)
+
+      chai.expect(report.isValid).to.be.false
+      chai.expect(report.error?.code).to.equal('GS021')
+      chai.expect(report.signatures[0].error?.code).to.equal('GS021')
+    })
+
+    it('should check the contract signatures with the method used by the version of the Safe', async () => {
+      const calls: string[] = []
+      // Owner contract only implementing the EIP-1271 isValidSignature(bytes32,bytes) method
+      const safeProvider = {
+        readContract: async ({ abi }: { abi: { inputs: { type: string }[] }[] }) => {
+          const [{ type }] = abi[0].inputs
+          calls.push(type)
+          return type === 'bytes32' ? '0x1626ba7e' : '0xffffffff'
+        }
+      } as unknown as SafeProvider
+      const signatureBytes = buildSignatureBytes([
+        new EthSafeSignature(signerSafeAddress, '0x1234', true)
+      ])
+
+      const legacyReport = await verifySafeSignatures(
+        createSafe([signerSafeAddress], 1, '1.4.1', safeProvider),
+        safeTxHash,
+        signatureBytes,
+        { data: toHex('Safe transaction') }
+      )
+      chai.expect(legacyReport.isValid).to.be.false
+      chai.expect(legacyReport.signatures[0].error?.code).to.equal('GS024')
+      chai.expect(calls).to.deep.equal(['bytes'])
+
+      calls.length = 0
+      const report = await verifySafeSignatures(
+        createSafe([signerSafeAddress], 1, '1.5.0', safeProvider),
+        safeTxHash,
+        signatureBytes
+      )
+      chai.expect(report.isValid).to.be.true
+      chai.expect(calls).to.deep.equal(['bytes32'])
+    })
+
+    it('should report when there are less signatures than the threshold', async () => {
+      const safe = createSafe([owner1.address, owner2.address], 2)
+
+      const report = await verifySafeSignatures(
+        safe,
+        safeTxHash,
+        buildSignatureBytes([await signHash(owner1)])
+      )
+
+      chai.expect(report.isValid).to.be.false
+      chai.expect(report.signatures[0].isValid).to.be.true
+      chai.expect(report.error?.code).to.equal('GS020')
+    })
+  })
+
+  describe('generateContractOwnerSignature', () => {
+    const contractOwnerSignature = '0xabcdef'
+    const request = { hash: safeTxHash, data: toHex('Safe transaction') }
+    const contractOwnerSigner = {
+      address: signerSafeAddress,
+      sign: async () => contractOwnerSignature
+    }
+
+    // Owner contract accepting the signature for the hash or the data of the request
+    const createSafeProvider = (calls: unknown[][] = []) =>
+      ({
+        readContract: async ({ args }: { args: [string, string] }) => {
+          calls.push(args)
+          const [signedData, signature] = args
+
+          if (signature !== contractOwnerSignature) {
+            return '0xffffffff'
+          }
+
+          return signedData === request.hash ? '0x1626ba7e' : '0x20c13b0b'
+        }
+      }) as unknown as SafeProvider
+
+    it('should check the hash with the EIP-1271 method for Safes >= v1.5.0', async () => {
+      const calls: unknown[][] = []
+
+      const signature = await generateContractOwnerSignature(
+        createSafeProvider(calls),
+        contractOwnerSigner,
+        request,
+        safeAddress,
+        '1.5.0'
+      )
+
+      chai.expect(calls).to.deep.equal([[request.hash, contractOwnerSignature]])
+      chai.expect(signature.signer).to.equal(signerSafeAddress)
+      chai.expect(signature.data).to.equal(contractOwnerSignature)
+      chai.expect(signature.isContractSignature).to.be.true
+    })
+
+    it('should check the preimage with the legacy method for Safes < v1.5.0', async () => {
+      const calls: unknown[][] = []
+
+      const signature = await generateContractOwnerSignature(
+        createSafeProvider(calls),
+        contractOwnerSigner,
+        request,
+        safeAddress,
+        '1.4.1'
+      )
+
+      chai.expect(calls).to.deep.equal([[request.data, contractOwnerSignature]])
+      chai.expect(signature.data).to.equal(contractOwnerSignature)
+    })
+
+    it('should fail if the owner does not accept the signature', async () => {
+      await chai
+        .expect(
+          generateContractOwnerSignature(
+            createSafeProvider(),
+            { address: signerSafeAddress, sign: async () => '0x1234' },
+            request,
+            safeAddress,
+            '1.5.0'
+          )
+        )
+        .to.be.rejectedWith(
+          `The signature is not valid for the contract owner ${signerSafeAddress}`
+        )
+    })
+  })
+})
@@ -91,7 +91,7 @@ export class SafeClient extends BaseClient {
    * @param {ConfirmTransactionProps} props The ConfirmTransactionProps object.
    * @param {string} props.safeTxHash  The hash of the safe transaction to confirm.
    * @returns {Promise<SafeClientResult>} A promise that resolves to the result of the confirmed transaction.
-   * @throws {Error} If the transaction confirmation fails.
+   * @throws {Error} If the transaction confirmation fails or it is refused by the configured risk policy.
    */
   async confirm({ safeTxHash }: ConfirmTransactionProps): Promise<SafeClientResult> {
     const safeAddress = await this.protocolKit.getAddress()
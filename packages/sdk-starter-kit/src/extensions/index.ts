@@ -1,3 +1,4 @@
 export * from './messages/onChainMessages'
 export * from './messages/offChainMessages'
 export * from './safe-operations/safeOperations'
+export * from './nested-safes/nestedSafes'
@@ -0,0 +1,214 @@
+import Safe, * as protocolKitModule from '@safe-global/protocol-kit'
+import SafeApiKit, { NotFoundError } from '@safe-global/api-kit'
+
+import { nestedSafes } from './nestedSafes'
+import { SafeClient } from '../../SafeClient'
+import { SafeClientTxStatus } from '../../constants'
+
+jest.mock('@safe-global/protocol-kit')
+jest.mock('@safe-global/api-kit')
+jest.mock('../../utils', () => {
+  return {
+    ...jest.requireActual('../../utils'),
+    sendTransaction: jest.fn().mockResolvedValue('0xSafeDeploymentEthereumHash'),
+    proposeTransaction: jest.fn().mockResolvedValue('0xSafeTxHash'),
+    waitSafeTxReceipt: jest.fn()
+  }
+})
+
+const SAFE_ADDRESS = '0xSafeAddress'
+const OWNER_SAFE_ADDRESS = '0xOwnerSafeAddress'
+const SIGNER_ADDRESS = '0xSignerAddress'
+const SAFE_TX_HASH = '0xSafeTxHash'
+const MESSAGE_HASH = '0xMessageHash'
+const TYPED_DATA = { primaryType: 'SafeTx' }
+const CONTRACT_SIGNATURE = '0xContractSignature'
+const ETHEREUM_TX_HASH = '0xEthereumTxHash'
+const APPROVED_HASH = `0x${'ab'.repeat(32)}`
+
+describe('nestedSafes', () => {
+  let protocolKit: Safe
+  let ownerSafe: Safe
+  let apiKit: jest.Mocked<SafeApiKit>
+  let safeClient: SafeClient
+
+  beforeEach(() => {
+    protocolKit = new Safe()
+    ownerSafe = new Safe()
+    apiKit = new SafeApiKit({ chainId: 1n }) as jest.Mocked<SafeApiKit>
+    safeClient = new SafeClient(protocolKit, apiKit)
+
+    protocolKit.getAddress = jest.fn().mockResolvedValue(SAFE_ADDRESS)
+    protocolKit.getContractVersion = jest.fn().mockReturnValue('1.5.0')
+    protocolKit.toSafeTransactionType = jest.fn().mockResolvedValue({ data: {} })
+
+    ownerSafe.getAddress = jest.fn().mockResolvedValue(OWNER_SAFE_ADDRESS)
+    ownerSafe.getContractVersion = jest.fn().mockReturnValue('1.5.0')
+    ownerSafe.getSafeMessageHash = jest.fn().mockResolvedValue(MESSAGE_HASH)
+    ownerSafe.getSafeProvider = jest
+      .fn()
+      .mockReturnValue({ getSignerAddress: jest.fn().mockResolvedValue(SIGNER_ADDRESS) })
+    ownerSafe.signMessage = jest
+      .fn()
+      .mockResolvedValue({ encodedSignatures: () => '0xOwnerSignature' })
+
+    jest.mocked(protocolKitModule.generateTypedData).mockReturnValue(TYPED_DATA as never)
+    jest.mocked(protocolKitModule.buildSignatureBytes).mockReturnValue(CONTRACT_SIGNATURE)
+    jest
+      .mocked(protocolKitModule.EthSafeSignature)
+      .mockImplementation(
+        (signer: string, data: string) => ({ signer, data }) as protocolKitModule.EthSafeSignature
+      )
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should extend the SafeClient with the nestedSafes methods', async () => {
+    const nestedSafesClient = safeClient.extend(nestedSafes())
+
+    expect(nestedSafesClient.confirmWithOwnerSafe).toBeDefined()
+    expect(nestedSafesClient.approveWithOwnerSafe).toBeDefined()
+  })
+
+  describe('confirmWithOwnerSafe', () => {
+    it('should fail if the Safe verifies contract signatures with the legacy EIP-1271 interface', async () => {
+      protocolKit.getContractVersion = jest.fn().mockReturnValue('1.4.1')
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+
+      await expect(
+        nestedSafesClient.confirmWithOwnerSafe({
+          safeTxHash: SAFE_TX_HASH,
+          ownerSafes: [ownerSafe]
+        })
+      ).rejects.toThrow(
+        'Safes with version 1.4.1 can not verify the contract signatures of owner Safes collected as messages, use approveWithOwnerSafe() instead'
+      )
+    })
+
+    it('should add the owner Safe message and return it while its threshold is not reached', async () => {
+      ownerSafe.getThreshold = jest.fn().mockResolvedValue(2)
+      apiKit.getTransaction.mockResolvedValue({
+        isExecuted: false,
+        confirmations: [],
+        confirmationsRequired: 2
+      } as never)
+      apiKit.getMessage
+        .mockRejectedValueOnce(new NotFoundError('Not found', { status: 404, url: '' }))
+        .mockResolvedValue({ messageHash: MESSAGE_HASH, confirmations: [{}] } as never)
+
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+      const result = await nestedSafesClient.confirmWithOwnerSafe({
+        safeTxHash: SAFE_TX_HASH,
+        ownerSafes: [ownerSafe]
+      })
+
+      expect(apiKit.addMessage).toHaveBeenCalledWith(OWNER_SAFE_ADDRESS, {
+        message: TYPED_DATA,
+        signature: '0xOwnerSignature'
+      })
+      expect(apiKit.confirmTransaction).not.toHaveBeenCalled()
+      expect(result).toMatchObject({
+        safeAddress: OWNER_SAFE_ADDRESS,
+        status: SafeClientTxStatus.MESSAGE_PENDING_SIGNATURES,
+        messages: { messageHash: MESSAGE_HASH }
+      })
+    })
+
+    it('should fail if the owner Safe message can not be read', async () => {
+      apiKit.getTransaction.mockResolvedValue({
+        isExecuted: false,
+        confirmations: [],
+        confirmationsRequired: 2
+      } as never)
+      apiKit.getMessage.mockRejectedValue(new Error('Too many requests'))
+
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+
+      await expect(
+        nestedSafesClient.confirmWithOwnerSafe({
+          safeTxHash: SAFE_TX_HASH,
+          ownerSafes: [ownerSafe]
+        })
+      ).rejects.toThrow('Too many requests')
+      expect(apiKit.addMessage).not.toHaveBeenCalled()
+    })
+
+    it('should confirm the transaction with the contract signature of the owner Safe', async () => {
+      ownerSafe.getThreshold = jest.fn().mockResolvedValue(2)
+      apiKit.getTransaction.mockResolvedValue({
+        isExecuted: false,
+        confirmations: [],
+        confirmationsRequired: 2
+      } as never)
+      apiKit.getMessage.mockResolvedValue({
+        messageHash: MESSAGE_HASH,
+        confirmations: [{ owner: '0xOtherOwner' }, { owner: SIGNER_ADDRESS }],
+        preparedSignature: '0xPreparedSignature'
+      } as never)
+
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+      const result = await nestedSafesClient.confirmWithOwnerSafe({
+        safeTxHash: SAFE_TX_HASH,
+        ownerSafes: [ownerSafe]
+      })
+
+      expect(ownerSafe.signMessage).not.toHaveBeenCalled()
+      expect(protocolKitModule.EthSafeSignature).toHaveBeenCalledWith(
+        OWNER_SAFE_ADDRESS,
+        '0xPreparedSignature',
+        true
+      )
+      expect(apiKit.confirmTransaction).toHaveBeenCalledWith(SAFE_TX_HASH, CONTRACT_SIGNATURE)
+      expect(result).toMatchObject({
+        safeAddress: SAFE_ADDRESS,
+        status: SafeClientTxStatus.PENDING_SIGNATURES,
+        transactions: { safeTxHash: SAFE_TX_HASH }
+      })
+    })
+  })
+
+  describe('approveWithOwnerSafe', () => {
+    it('should fail if the Safe is not an owner', async () => {
+      protocolKit.isOwner = jest.fn().mockResolvedValue(false)
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+
+      await expect(
+        nestedSafesClient.approveWithOwnerSafe({ safeTxHash: SAFE_TX_HASH, ownerSafe })
+      ).rejects.toThrow(
+        `The Safe ${OWNER_SAFE_ADDRESS} is not an owner of the Safe ${SAFE_ADDRESS}`
+      )
+    })
+
+    it('should send a transaction approving the hash through the owner Safe', async () => {
+      protocolKit.isOwner = jest.fn().mockResolvedValue(true)
+      ownerSafe.isSafeDeployed = jest.fn().mockResolvedValue(true)
+      ownerSafe.getThreshold = jest.fn().mockResolvedValue(1)
+      ownerSafe.createTransaction = jest.fn().mockResolvedValue({})
+      ownerSafe.signTransaction = jest.fn().mockResolvedValue({})
+      ownerSafe.executeTransaction = jest.fn().mockResolvedValue({ hash: ETHEREUM_TX_HASH })
+
+      const nestedSafesClient = safeClient.extend(nestedSafes())
+      const result = await nestedSafesClient.approveWithOwnerSafe({
+        safeTxHash: APPROVED_HASH,
+        ownerSafe
+      })
+
+      expect(ownerSafe.createTransaction).toHaveBeenCalledWith({
+        transactions: [
+          {
+            to: SAFE_ADDRESS,
+            value: '0',
+            data: `0xd4d9bdcd${APPROVED_HASH.slice(2)}`
+          }
+        ]
+      })
+      expect(result).toMatchObject({
+        safeAddress: OWNER_SAFE_ADDRESS,
+        status: SafeClientTxStatus.EXECUTED,
+        transactions: { ethereumTxHash: ETHEREUM_TX_HASH }
+      })
+    })
+  })
+})
@@ -0,0 +1,294 @@
+import Safe, {
+  EthSafeSignature,
+  buildSignatureBytes,
+  generateTypedData,
+  hashSafeMessage
+} from '@safe-global/protocol-kit'
+import SafeApiKit, { NotFoundError, SafeMessage } from '@safe-global/api-kit'
+import {
+  EIP712TypedData,
+  SafeMultisigTransactionResponse,
+  SafeSignature,
+  SafeTransactionData
+} from '@safe-global/types-kit'
+import { encodeFunctionData, parseAbi } from 'viem'
+
+import { SafeClient } from '@safe-global/sdk-starter-kit/SafeClient'
+import { createSafeClientResult } from '@safe-global/sdk-starter-kit/utils'
+import { SafeClientTxStatus } from '@safe-global/sdk-starter-kit/constants'
+import {
+  ApproveWithOwnerSafeProps,
+  ConfirmWithOwnerSafeProps,
+  SafeClientResult
+} from '@safe-global/sdk-starter-kit/types'
+
+// These versions call the legacy EIP-1271 isValidSignature(bytes,bytes) method of the owner Safes with
+// the preimage of the signed hash, which does not match the messages stored by the Transaction service
+const LEGACY_EIP1271_SAFE_VERSIONS = ['1.0.0', '1.1.1', '1.2.0', '1.3.0', '1.4.1']
+
+const APPROVE_HASH_ABI = parseAbi(['function approveHash(bytes32 hashToApprove)'])
+
+function hasConfirmation(confirmations: { owner: string }[] = [], owner: string): boolean {
+  return confirmations.some(
+    (confirmation) => confirmation.owner.toLowerCase() === owner.toLowerCase()
+  )
+}
+
+/**
+ * Returns the EIP-712 typed data a Safe signs for a transaction or message, so it can be stored as an
+ * off-chain message of an owner Safe.
+ *
+ * @param {Safe} safe The Safe instance
+ * @param {SafeTransactionData | EIP712TypedData} data The transaction or the message signed by the Safe
+ * @returns {Promise<EIP712TypedData>} The EIP-712 typed data
+ */
+async function getSafeTypedData(
+  safe: Safe,
+  data: SafeTransactionData | EIP712TypedData
+): Promise<EIP712TypedData> {
+  const typedData = generateTypedData({
+    safeAddress: await safe.getAddress(),
+    safeVersion: safe.getContractVersion(),
+    chainId: await safe.getChainId(),
+    data
+  })
+
+  return typedData as unknown as EIP712TypedData
+}
+
+/**
+ * Returns the off-chain message stored by the Transaction service, or undefined if it does not exist.
+ *
+ * @param {SafeApiKit} apiKit The SafeApiKit instance
+ * @param {string} messageHash The hash of the message
+ * @returns {Promise<SafeMessage | undefined>} The message, if it exists
+ */
+async function getSafeMessage(
+  apiKit: SafeApiKit,
+  messageHash: string
+): Promise<SafeMessage | undefined> {
+  try {
+    return await apiKit.getMessage(messageHash)
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return undefined
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Collects the signatures of an owner Safe for the EIP-712 typed data signed by the Safe it owns.
+ * The signatures are stored as an off-chain message of the owner Safe using the Transaction service.
+ * If the owner Safe is owned by other Safes, their contract signatures are collected recursively.
+ *
+ * @param {SafeApiKit} apiKit The SafeApiKit instance
+ * @param {EIP712TypedData} typedData The typed data signed by the owner Safe
+ * @param {Safe[]} ownerSafes The owner Safe followed by the Safes owning it, the last one connected to an owner account
+ * @returns {Promise<{ safeMessage?: SafeMessage; contractSignature?: SafeSignature }>} The message of the owner Safe and its contract signature once the threshold is reached
+ */
+async function collectOwnerSafeSignatures(
+  apiKit: SafeApiKit,
+  typedData: EIP712TypedData,
+  ownerSafes: Safe[]
+): Promise<{ safeMessage?: SafeMessage; contractSignature?: SafeSignature }> {
+  const [ownerSafe, ...nestedOwnerSafes] = ownerSafes
+  const ownerSafeAddress = await ownerSafe.getAddress()
+  const messageHash = await ownerSafe.getSafeMessageHash(hashSafeMessage(typedData))
+
+  let safeMessage = await getSafeMessage(apiKit, messageHash)
+  let signature: string | undefined
+
+  if (nestedOwnerSafes.length === 0) {
+    const signerAddress = await ownerSafe.getSafeProvider().getSignerAddress()
+
+    if (signerAddress && !hasConfirmation(safeMessage?.confirmations, signerAddress)) {
+      const signedMessage = await ownerSafe.signMessage(ownerSafe.createMessage(typedData))
+      signature = signedMessage.encodedSignatures()
+    }
+  } else {
+    const ownerSafeTypedData = await getSafeTypedData(ownerSafe, typedData)
+
+    const { contractSignature } = await collectOwnerSafeSignatures(
+      apiKit,
+      ownerSafeTypedData,
+      nestedOwnerSafes
+    )
+
+    if (
+      contractSignature &&
+      !hasConfirmation(safeMessage?.confirmations, contractSignature.signer)
+    ) {
+      signature = buildSignatureBytes([contractSignature])
+    }
+  }
+
+  if (signature) {
+    if (safeMessage) {
+      await apiKit.addMessageSignature(messageHash, signature)
+    } else {
+      await apiKit.addMessage(ownerSafeAddress, { message: typedData, signature })
+    }
+
+    safeMessage = await apiKit.getMessage(messageHash)
+  }
+
+  const threshold = await ownerSafe.getThreshold()
+
+  if (!safeMessage || safeMessage.confirmations.length < threshold) {
+    return { safeMessage }
+  }
+
+  return {
+    safeMessage,
+    contractSignature: new EthSafeSignature(ownerSafeAddress, safeMessage.preparedSignature, true)
+  }
+}
+
+/**
+ * Extend the SafeClient with the ability to confirm transactions with Safes owned by other Safes.
+ * - confirmWithOwnerSafe() collects the signatures of the owner Safes as off-chain messages and
+ *   confirms the transaction with the contract signature of the owner Safe
+ * - approveWithOwnerSafe() creates a transaction in the owner Safe approving the transaction hash
+ *
+ * @example
+ * const safeClient = await createSafeClient({ ... })
+ * const ownerSafe = await Safe.init({ provider, signer, safeAddress: ownerSafeAddress })
+ *
+ * const nestedSafesClient = safeClient.extend(nestedSafes())
+ *
+ * const { transactions } = await nestedSafesClient.send({ transactions })
+ * await nestedSafesClient.confirmWithOwnerSafe({
+ *   safeTxHash: transactions?.safeTxHash,
+ *   ownerSafes: [ownerSafe]
+ * })
+ */
+export function nestedSafes() {
+  return (client: SafeClient) => ({
+    /**
+     * Confirms a transaction with the contract signature of an owner Safe.
+     * The transaction hash is signed by the owner Safe as an off-chain message using the Transaction service.
+     * Each owner of the owner Safe needs to call this method until its threshold is reached. Then the contract
+     * signature is added to the transaction, which is executed if it has enough confirmations.
+     * If the owner Safe is owned by other Safes, they can be provided after it to sign several levels deep.
+     *
+     * @param {ConfirmWithOwnerSafeProps} props The ConfirmWithOwnerSafeProps object
+     * @param {string} props.safeTxHash The hash of the Safe transaction to confirm
+     * @param {Safe[]} props.ownerSafes The owner Safe followed by the Safes owning it. The last one must be connected to one of its owners
+     * @returns {Promise<SafeClientResult>} A SafeClientResult with the transaction or the pending message of the owner Safe
+     * @throws {Error} If no owner Safe is provided or a Safe verifies contract signatures with the legacy EIP-1271 interface
+     */
+    async confirmWithOwnerSafe({
+      safeTxHash,
+      ownerSafes
+    }: ConfirmWithOwnerSafeProps): Promise<SafeClientResult> {
+      if (ownerSafes.length === 0) {
+        throw new Error('At least one owner Safe is required')
+      }
+
+      const safeAddress = await client.protocolKit.getAddress()
+      const verifyingSafes = [client.protocolKit, ...ownerSafes.slice(0, -1)]
+
+      for (const verifyingSafe of verifyingSafes) {
+        const safeVersion = verifyingSafe.getContractVersion()
+
+        if (LEGACY_EIP1271_SAFE_VERSIONS.includes(safeVersion)) {
+          throw new Error(
+            `Safes with version ${safeVersion} can not verify the contract signatures of owner Safes collected as messages, use approveWithOwnerSafe() instead`
+          )
+        }
+      }
+
+      let transactionResponse: SafeMultisigTransactionResponse =
+        await client.apiKit.getTransaction(safeTxHash)
+
+      if (transactionResponse.isExecuted) {
+        return createSafeClientResult({
+          status: SafeClientTxStatus.EXECUTED,
+          safeAddress,
+          txHash: transactionResponse.transactionHash || '',
+          safeTxHash
+        })
+      }
+
+      const safeTransaction = await client.protocolKit.toSafeTransactionType(transactionResponse)
+      const typedData = await getSafeTypedData(client.protocolKit, safeTransaction.data)
+
+      const { safeMessage, contractSignature } = await collectOwnerSafeSignatures(
+        client.apiKit,
+        typedData,
+        ownerSafes
+      )
+
+      if (!contractSignature) {
+        return createSafeClientResult({
+          status: SafeClientTxStatus.MESSAGE_PENDING_SIGNATURES,
+          safeAddress: await ownerSafes[0].getAddress(),
+          messageHash: safeMessage?.messageHash
+        })
+      }
+
+      if (!hasConfirmation(transactionResponse.confirmations, contractSignature.signer)) {
+        await client.apiKit.confirmTransaction(safeTxHash, buildSignatureBytes([contractSignature]))
+
+        transactionResponse = await client.apiKit.getTransaction(safeTxHash)
+      }
+
+      if (
+        (transactionResponse.confirmations?.length || 0) < transactionResponse.confirmationsRequired
+      ) {
+        return createSafeClientResult({
+          status: SafeClientTxStatus.PENDING_SIGNATURES,
+          safeAddress,
+          safeTxHash
+        })
+      }
+
+      return client.confirm({ safeTxHash })
+    },
+
+    /**
+     * Approves a transaction hash with an owner Safe.
+     * A transaction calling approveHash() in the Safe is sent through the owner Safe, so it is proposed
+     * to the Transaction service or executed depending on the threshold of the owner Safe.
+     * This works for all the Safe versions. If the owner Safe is owned by other Safes, the returned
+     * transaction can be approved in the same way with a client of the owner Safe.
+     *
+     * @param {ApproveWithOwnerSafeProps} props The ApproveWithOwnerSafeProps object
+     * @param {string} props.safeTxHash The hash of the Safe transaction to approve
+     * @param {Safe} props.ownerSafe The owner Safe connected to one of its owners
+     * @returns {Promise<SafeClientResult>} A SafeClientResult with the transaction of the owner Safe
+     * @throws {Error} If the Safe is not an owner of the current Safe
+     */
+    async approveWithOwnerSafe({
+      safeTxHash,
+      ownerSafe,
+      ...transactionOptions
+    }: ApproveWithOwnerSafeProps): Promise<SafeClientResult> {
+      const safeAddress = await client.protocolKit.getAddress()
+      const ownerSafeAddress = await ownerSafe.getAddress()
+
+      if (!(await client.protocolKit.isOwner(ownerSafeAddress))) {
+        throw new Error(`The Safe ${ownerSafeAddress} is not an owner of the Safe ${safeAddress}`)
+      }
+
+      const ownerSafeClient = new SafeClient(ownerSafe, client.apiKit)
+
+      return ownerSafeClient.send({
+        transactions: [
+          {
+            to: safeAddress,
+            value: '0',
+            data: encodeFunctionData({
+              abi: APPROVE_HASH_ABI,
+              functionName: 'approveHash',
+              args: [safeTxHash as `0x${string}`]
+            })
+          }
+        ],
+        ...transactionOptions
+      })
+    }
+  })
+}
@@ -3,7 +3,7 @@ import SafeApiKit from '@safe-global/api-kit'
 
 import { SafeClient } from '@safe-global/sdk-starter-kit/SafeClient'
 import { isValidAddress, isValidSafeConfig } from '@safe-global/sdk-starter-kit/utils'
-import { SdkStarterKitConfig } from '@safe-global/sdk-starter-kit/types'
+import { PredictedSafeStore, SdkStarterKitConfig } from '@safe-global/sdk-starter-kit/types'
 import { DEFAULT_DEPLOYMENT_TYPE } from './constants'
 
 /**
@@ -30,17 +30,25 @@ export async function createSafeClient(config: SdkStarterKitConfig): Promise<Saf
 async function getProtocolKitInstance(config: SdkStarterKitConfig): Promise<Safe> {
   if (config.safeAddress && isValidAddress(config.safeAddress)) {
     // If the safe already exist
-    return Safe.init({
+    const protocolKit = await Safe.init({
       provider: config.provider,
       signer: config.signer,
+      riskPolicy: config.riskPolicy,
       safeAddress: config.safeAddress
     })
+
+    if (!config.predictedSafeStore) {
+      return protocolKit
+    }
+
+    return resumePredictedSafe(protocolKit, config.predictedSafeStore, config)
   } else if (config.safeOptions && isValidSafeConfig(config.safeOptions)) {
     // If the safe does not exist and the configuration is provided
     let protocolKit: Safe
     const initConfig: SafeConfig = {
       provider: config.provider,
       signer: config.signer,
+      riskPolicy: config.riskPolicy,
       predictedSafe: {
         safeAccountConfig: {
           owners: config.safeOptions.owners,
@@ -80,10 +88,14 @@ async function getProtocolKitInstance(config: SdkStarterKitConfig): Promise<Safe
       return Safe.init({
         provider: config.provider,
         signer: config.signer,
+        riskPolicy: config.riskPolicy,
         safeAddress: await protocolKit.getAddress()
       })
     }
 
+    // The counterfactual configuration is saved so the Safe can be resumed later by its address
+    await config.predictedSafeStore?.set(await protocolKit.exportPredictedSafe())
+
     return protocolKit
   } else {
     throw new Error(
@@ -92,6 +104,41 @@ async function getProtocolKitInstance(config: SdkStarterKitConfig): Promise<Safe
   }
 }
 
+/**
+ * Resumes an undeployed Safe from the descriptor saved in the predicted Safe store.
+ * The descriptor is removed from the store once the Safe is deployed.
+ *
+ * @param protocolKit - The protocolKit instance initialized with the Safe address.
+ * @param predictedSafeStore - The store with the descriptors of the predicted Safes.
+ * @param config - The SDK Starter kit configuration options.
+ * @returns A protocolKit instance.
+ */
+async function resumePredictedSafe(
+  protocolKit: Safe,
+  predictedSafeStore: PredictedSafeStore,
+  config: SdkStarterKitConfig
+): Promise<Safe> {
+  const chainId = (await protocolKit.getChainId()).toString()
+  const safeAddress = await protocolKit.getAddress()
+
+  if (await protocolKit.isSafeDeployed()) {
+    await predictedSafeStore.delete(chainId, safeAddress)
+    return protocolKit
+  }
+
+  const descriptor = await predictedSafeStore.get(chainId, safeAddress)
+
+  if (!descriptor) {
+    return protocolKit
+  }
+
+  return Safe.fromPredictedSafeDescriptor(descriptor, {
+    provider: config.provider,
+    signer: config.signer,
+    riskPolicy: config.riskPolicy
+  })
+}
+
 async function getApiKitInstance(
   protocolKit: Safe,
   config: SdkStarterKitConfig
@@ -104,3 +151,4 @@ async function getApiKitInstance(
 export * from './types'
 export * from './extensions'
 export * from './SafeClient'
+export * from './stores'
@@ -0,0 +1,56 @@
+import { PredictedSafeDescriptor } from '@safe-global/protocol-kit'
+
+import { PredictedSafeStorage } from '@safe-global/sdk-starter-kit/types'
+import {
+  createMemoryPredictedSafeStore,
+  createStoragePredictedSafeStore
+} from './predictedSafeStore'
+
+const CHAIN_ID = '11155111'
+const SAFE_ADDRESS = '0x60C4Ab82D06Fd7dFE9517e17736C2Dcc77443EF0'
+const DESCRIPTOR: PredictedSafeDescriptor = {
+  safeAddress: SAFE_ADDRESS,
+  chainId: CHAIN_ID,
+  owners: ['0x9cCBDE03eDd71074ea9c49e413FA9CDfF16D263B'],
+  threshold: 1,
+  saltNonce: '42',
+  safeVersion: '1.4.1',
+  deploymentType: 'canonical'
+}
+
+const createStorage = (): PredictedSafeStorage => {
+  const items = new Map<string, string>()
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key)
+  }
+}
+
+describe('predictedSafeStore', () => {
+  const stores = [
+    ['createMemoryPredictedSafeStore', () => createMemoryPredictedSafeStore()],
+    ['createStoragePredictedSafeStore', () => createStoragePredictedSafeStore(createStorage())]
+  ] as const
+
+  describe.each(stores)('%s', (_, createStore) => {
+    it('should save and return the descriptor of a predicted Safe', async () => {
+      const store = createStore()
+
+      await store.set(DESCRIPTOR)
+
+      expect(await store.get(CHAIN_ID, SAFE_ADDRESS.toLowerCase())).toStrictEqual(DESCRIPTOR)
+      expect(await store.get('1', SAFE_ADDRESS)).toBeUndefined()
+    })
+
+    it('should delete the descriptor of a predicted Safe', async () => {
+      const store = createStore()
+
+      await store.set(DESCRIPTOR)
+      await store.delete(CHAIN_ID, SAFE_ADDRESS)
+
+      expect(await store.get(CHAIN_ID, SAFE_ADDRESS)).toBeUndefined()
+    })
+  })
+})
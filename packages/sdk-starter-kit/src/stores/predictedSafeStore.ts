@@ -0,0 +1,65 @@
+import { PredictedSafeDescriptor } from '@safe-global/protocol-kit'
+
+import { PredictedSafeStorage, PredictedSafeStore } from '@safe-global/sdk-starter-kit/types'
+
+const DEFAULT_STORAGE_KEY_PREFIX = 'safe-predicted-safe'
+
+const getPredictedSafeKey = (chainId: string, safeAddress: string): string =>
+  `${chainId}:${safeAddress.toLowerCase()}`
+
+/**
+ * Creates a predicted Safe store that keeps the descriptors in memory.
+ * The descriptors are lost when the process ends.
+ *
+ * @returns {PredictedSafeStore} The predicted Safe store.
+ */
+export function createMemoryPredictedSafeStore(): PredictedSafeStore {
+  const descriptors = new Map<string, PredictedSafeDescriptor>()
+
+  return {
+    async get(chainId, safeAddress) {
+      return descriptors.get(getPredictedSafeKey(chainId, safeAddress))
+    },
+    async set(descriptor) {
+      descriptors.set(getPredictedSafeKey(descriptor.chainId, descriptor.safeAddress), descriptor)
+    },
+    async delete(chainId, safeAddress) {
+      descriptors.delete(getPredictedSafeKey(chainId, safeAddress))
+    }
+  }
+}
+
+/**
+ * Creates a predicted Safe store that persists the descriptors as JSON in a Web Storage compatible
+ * storage, e.g. `window.localStorage`.
+ *
+ * @param {PredictedSafeStorage} storage The storage where the descriptors are saved.
+ * @param {string} keyPrefix The prefix of the keys used to save the descriptors.
+ * @returns {PredictedSafeStore} The predicted Safe store.
+ */
+export function createStoragePredictedSafeStore(
+  storage: PredictedSafeStorage,
+  keyPrefix: string = DEFAULT_STORAGE_KEY_PREFIX
+): PredictedSafeStore {
+  const getStorageKey = (chainId: string, safeAddress: string) =>
+    `${keyPrefix}:${getPredictedSafeKey(chainId, safeAddress)}`
+
+  return {
+    async get(chainId, safeAddress) {
+      const storedDescriptor = storage.getItem(getStorageKey(chainId, safeAddress))
+
+      return storedDescriptor
+        ? (JSON.parse(storedDescriptor) as PredictedSafeDescriptor)
+        : undefined
+    },
+    async set(descriptor) {
+      storage.setItem(
+        getStorageKey(descriptor.chainId, descriptor.safeAddress),
+        JSON.stringify(descriptor)
+      )
+    },
+    async delete(chainId, safeAddress) {
+      storage.removeItem(getStorageKey(chainId, safeAddress))
+    }
+  }
+}
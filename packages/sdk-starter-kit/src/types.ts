@@ -1,4 +1,4 @@
-import { SafeProvider } from '@safe-global/protocol-kit'
+import Safe, { PredictedSafeDescriptor, RiskPolicy, SafeProvider } from '@safe-global/protocol-kit'
 import {
   TransactionBase,
   TransactionOptions,
@@ -28,6 +28,16 @@ export type ConfirmOffChainMessageProps = {
   messageHash: string
 }
 
+export type ConfirmWithOwnerSafeProps = {
+  safeTxHash: string
+  ownerSafes: Safe[]
+}
+
+export type ApproveWithOwnerSafeProps = {
+  safeTxHash: string
+  ownerSafe: Safe
+} & TransactionOptions
+
 export type SendSafeOperationProps = {
   transactions: MetaTransactionData[]
   amountToApprove?: bigint
@@ -56,10 +66,24 @@ export type PredictedSafeConfig = {
   safeOptions?: SafeConfig
 }
 
+export type PredictedSafeStore = {
+  get(chainId: string, safeAddress: string): Promise<PredictedSafeDescriptor | undefined>
+  set(descriptor: PredictedSafeDescriptor): Promise<void>
+  delete(chainId: string, safeAddress: string): Promise<void>
+}
+
+export type PredictedSafeStorage = {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
 export type SdkStarterKitRootConfig = {
   provider: SafeProvider['provider']
   signer?: SafeProvider['signer']
   txServiceUrl?: string
+  riskPolicy?: RiskPolicy
+  predictedSafeStore?: PredictedSafeStore
 }
 
 export type SdkStarterKitConfig = SdkStarterKitRootConfig &
@@ -0,0 +1,79 @@
+import Safe, { EthSafeSignature, EthSafeTransaction } from '@safe-global/protocol-kit'
+import SafeApiKit, { AlreadyExecutedError, ConflictError } from '@safe-global/api-kit'
+
+import { proposeTransaction } from './proposeTransaction'
+
+const SAFE_ADDRESS = '0x60C4Ab82D06Fd7dFE9517e17736C2Dcc77443EF0'
+const SIGNER_ADDRESS = '0x9cCBDE03eDd71074ea9c49e413FA9CDfF16D263B'
+const SAFE_TX_HASH = '0xSafeTxHash'
+const SIGNATURE = '0x' + '11'.repeat(65)
+const URL = 'https://safe-transaction-sepolia.safe.global/api/v2/safes/0x/multisig-transactions/'
+
+describe('proposeTransaction', () => {
+  let protocolKit: Safe
+  let apiKit: jest.Mocked<SafeApiKit>
+  const safeTransaction = new EthSafeTransaction({
+    to: SAFE_ADDRESS,
+    value: '0',
+    data: '0x',
+    operation: 0,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: '0x0000000000000000000000000000000000000000',
+    refundReceiver: '0x0000000000000000000000000000000000000000',
+    nonce: 0
+  })
+  safeTransaction.addSignature(new EthSafeSignature(SIGNER_ADDRESS, SIGNATURE))
+
+  beforeEach(() => {
+    protocolKit = {
+      signTransaction: jest.fn().mockResolvedValue(safeTransaction),
+      getSafeProvider: jest.fn().mockReturnValue({
+        getSignerAddress: jest.fn().mockResolvedValue(SIGNER_ADDRESS)
+      }),
+      getTransactionHash: jest.fn().mockResolvedValue(SAFE_TX_HASH),
+      getAddress: jest.fn().mockResolvedValue(SAFE_ADDRESS)
+    } as unknown as Safe
+    apiKit = {
+      proposeTransaction: jest.fn().mockResolvedValue(undefined),
+      confirmTransaction: jest.fn().mockResolvedValue({ signature: SIGNATURE })
+    } as unknown as jest.Mocked<SafeApiKit>
+  })
+
+  it('should propose the signed transaction', async () => {
+    const safeTxHash = await proposeTransaction({ safeTransaction, protocolKit, apiKit })
+
+    expect(safeTxHash).toBe(SAFE_TX_HASH)
+    expect(apiKit.proposeTransaction).toHaveBeenCalledWith({
+      safeAddress: SAFE_ADDRESS,
+      safeTransactionData: safeTransaction.data,
+      safeTxHash: SAFE_TX_HASH,
+      senderAddress: SIGNER_ADDRESS,
+      senderSignature: SIGNATURE
+    })
+    expect(apiKit.confirmTransaction).not.toHaveBeenCalled()
+  })
+
+  it('should confirm the transaction if it was already proposed', async () => {
+    apiKit.proposeTransaction.mockRejectedValue(
+      new ConflictError('The transaction was already proposed', { status: 422, url: URL })
+    )
+
+    const safeTxHash = await proposeTransaction({ safeTransaction, protocolKit, apiKit })
+
+    expect(safeTxHash).toBe(SAFE_TX_HASH)
+    expect(apiKit.confirmTransaction).toHaveBeenCalledWith(SAFE_TX_HASH, SIGNATURE)
+  })
+
+  it('should not confirm the transaction if it was already executed', async () => {
+    const error = new AlreadyExecutedError('The transaction was already executed', {
+      status: 422,
+      url: URL
+    })
+    apiKit.proposeTransaction.mockRejectedValue(error)
+
+    await expect(proposeTransaction({ safeTransaction, protocolKit, apiKit })).rejects.toBe(error)
+    expect(apiKit.confirmTransaction).not.toHaveBeenCalled()
+  })
+})
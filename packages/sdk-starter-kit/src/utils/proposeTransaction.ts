@@ -1,5 +1,5 @@
 import Safe, { EthSafeSignature, buildSignatureBytes } from '@safe-global/protocol-kit'
-import SafeApiKit from '@safe-global/api-kit'
+import SafeApiKit, { ConflictError } from '@safe-global/api-kit'
 import { SafeTransaction } from '@safe-global/types-kit'
 
 /**
@@ -33,7 +33,17 @@ export const proposeTransaction = async ({
     senderSignature: buildSignatureBytes([ethSig])
   }
 
-  await apiKit.proposeTransaction(txOptions)
+  try {
+    await apiKit.proposeTransaction(txOptions)
+  } catch (error) {
+    // An executed transaction cannot be confirmed, so an AlreadyExecutedError is thrown as is
+    if (!(error instanceof ConflictError)) {
+      throw error
+    }
+
+    // The transaction was already proposed by another owner, so the signature is added as a confirmation
+    await apiKit.confirmTransaction(safeTxHash, txOptions.senderSignature)
+  }
 
   return safeTxHash
 }
@@ -3,6 +3,7 @@ pragma solidity >=0.7.0 <=0.8.0;
 
 import { GnosisSafeProxyFactory } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/proxies/GnosisSafeProxyFactory.sol";
 import { GnosisSafe } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/GnosisSafe.sol";
+import { GnosisSafeL2 } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/GnosisSafeL2.sol";
 import { CompatibilityFallbackHandler } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/handler/CompatibilityFallbackHandler.sol";
 import { MultiSend } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/libraries/MultiSend.sol";
 import { MultiSendCallOnly } from "@gnosis.pm/safe-contracts-v1.3.0/contracts/libraries/MultiSendCallOnly.sol";
@@ -16,6 +17,7 @@ import { DebugTransactionGuard } from "@gnosis.pm/safe-contracts-v1.3.0/contract
 
 contract SafeProxyFactory_SV1_3_0 is GnosisSafeProxyFactory {}
 contract Safe_SV1_3_0 is GnosisSafe {}
+contract SafeL2_SV1_3_0 is GnosisSafeL2 {}
 contract CompatibilityFallbackHandler_SV1_3_0 is CompatibilityFallbackHandler {}
 contract MultiSend_SV1_3_0 is MultiSend {}
 contract MultiSendCallOnly_SV1_3_0 is MultiSendCallOnly {}
@@ -3,6 +3,7 @@ pragma solidity >=0.7.0 <0.9.0;
 
 import { SafeProxyFactory } from "@safe-global/safe-contracts-v1.4.1/contracts/proxies/SafeProxyFactory.sol";
 import { Safe } from "@safe-global/safe-contracts-v1.4.1/contracts/Safe.sol";
+import { SafeL2 } from "@safe-global/safe-contracts-v1.4.1/contracts/SafeL2.sol";
 import { CompatibilityFallbackHandler } from "@safe-global/safe-contracts-v1.4.1/contracts/handler/CompatibilityFallbackHandler.sol";
 import { MultiSend } from "@safe-global/safe-contracts-v1.4.1/contracts/libraries/MultiSend.sol";
 import { MultiSendCallOnly } from "@safe-global/safe-contracts-v1.4.1/contracts/libraries/MultiSendCallOnly.sol";
@@ -10,12 +11,14 @@ import { SignMessageLib } from "@safe-global/safe-contracts-v1.4.1/contracts/lib
 import { CreateCall } from "@safe-global/safe-contracts-v1.4.1/contracts/libraries/CreateCall.sol";
 import { TokenCallbackHandler } from "@safe-global/safe-contracts-v1.4.1/contracts/handler/TokenCallbackHandler.sol";
 import { SimulateTxAccessor } from "@safe-global/safe-contracts-v1.4.1/contracts/accessors/SimulateTxAccessor.sol";
+import { SafeToL2Migration } from "@safe-global/safe-contracts-v1.4.1-2/contracts/libraries/SafeToL2Migration.sol";
 
 // Testing contracts
 import { DebugTransactionGuard} from "@safe-global/safe-contracts-v1.4.1/contracts/examples/guards/DebugTransactionGuard.sol";
 
 contract SafeProxyFactory_SV1_4_1 is SafeProxyFactory {}
 contract Safe_SV1_4_1 is Safe {}
+contract SafeL2_SV1_4_1 is SafeL2 {}
 contract CompatibilityFallbackHandler_SV1_4_1 is CompatibilityFallbackHandler {}
 contract MultiSend_SV1_4_1 is MultiSend {}
 contract MultiSendCallOnly_SV1_4_1 is MultiSendCallOnly {}
@@ -23,6 +26,7 @@ contract SignMessageLib_SV1_4_1 is SignMessageLib {}
 contract CreateCall_SV1_4_1 is CreateCall {}
 contract TokenCallbackHandler_SV1_4_1 is TokenCallbackHandler {}
 contract SimulateTxAccessor_SV1_4_1 is SimulateTxAccessor {}
+contract SafeToL2Migration_SV1_4_1 is SafeToL2Migration {}
 
 // Testing contracts
 contract DebugTransactionGuard_SV1_4_1 is DebugTransactionGuard {}
@@ -1,4 +1,5 @@
 export * from './hardhat/deploy/deploy-contracts'
+export * from './tx-service'
 export * from './utils/helpers'
 export * from './utils/setupContracts'
 export * from './utils/setupContractNetworks'
@@ -0,0 +1,83 @@
+import { parseAbi, parseAbiItem } from 'viem'
+
+export const TX_SERVICE_SAFE_ABI = parseAbi([
+  'function VERSION() view returns (string)',
+  'function nonce() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)',
+  'function approvedHashes(address owner, bytes32 hash) view returns (uint256)',
+  'function getTransactionHash(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) view returns (bytes32)'
+])
+
+export const SAFE_SINGLETON_STORAGE_SLOT = '0x0'
+
+export const SAFE_FALLBACK_HANDLER_STORAGE_SLOT =
+  '0x6c9a6c4a39284e37ed1cf53d337577d14212a4870fb976a4366c693b939918d5'
+
+export const SAFE_GUARD_STORAGE_SLOT =
+  '0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8'
+
+export const SAFE_EXECUTION_EVENTS = parseAbi([
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+  'event ExecutionFailure(bytes32 txHash, uint256 payment)'
+])
+
+export const USER_OPERATION_EVENT = parseAbiItem(
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)'
+)
+
+export const EIP1271_ABI = parseAbi([
+  'function isValidSignature(bytes32 _hash, bytes _signature) view returns (bytes4)'
+])
+
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+
+export const ENTRYPOINT_V06_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789'
+
+export const EIP712_SAFE_MESSAGE_TYPE = {
+  SafeMessage: [{ type: 'bytes', name: 'message' }]
+} as const
+
+export const EIP712_DELEGATE_TYPE = {
+  Delegate: [
+    { name: 'delegateAddress', type: 'address' },
+    { name: 'totp', type: 'uint256' }
+  ]
+} as const
+
+export const EIP712_SAFE_OPERATION_TYPE_V06 = {
+  SafeOp: [
+    { type: 'address', name: 'safe' },
+    { type: 'uint256', name: 'nonce' },
+    { type: 'bytes', name: 'initCode' },
+    { type: 'bytes', name: 'callData' },
+    { type: 'uint256', name: 'callGasLimit' },
+    { type: 'uint256', name: 'verificationGasLimit' },
+    { type: 'uint256', name: 'preVerificationGas' },
+    { type: 'uint256', name: 'maxFeePerGas' },
+    { type: 'uint256', name: 'maxPriorityFeePerGas' },
+    { type: 'bytes', name: 'paymasterAndData' },
+    { type: 'uint48', name: 'validAfter' },
+    { type: 'uint48', name: 'validUntil' },
+    { type: 'address', name: 'entryPoint' }
+  ]
+} as const
+
+export const EIP712_SAFE_OPERATION_TYPE_V07 = {
+  SafeOp: [
+    { type: 'address', name: 'safe' },
+    { type: 'uint256', name: 'nonce' },
+    { type: 'bytes', name: 'initCode' },
+    { type: 'bytes', name: 'callData' },
+    { type: 'uint128', name: 'verificationGasLimit' },
+    { type: 'uint128', name: 'callGasLimit' },
+    { type: 'uint256', name: 'preVerificationGas' },
+    { type: 'uint128', name: 'maxPriorityFeePerGas' },
+    { type: 'uint128', name: 'maxFeePerGas' },
+    { type: 'bytes', name: 'paymasterAndData' },
+    { type: 'uint48', name: 'validAfter' },
+    { type: 'uint48', name: 'validUntil' },
+    { type: 'address', name: 'entryPoint' }
+  ]
+} as const
@@ -0,0 +1,162 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  concat,
+  getAddress,
+  hashMessage,
+  hexToBigInt,
+  hexToNumber,
+  numberToHex,
+  pad,
+  recoverAddress,
+  size,
+  slice
+} from 'viem'
+import type { SignatureType } from '@safe-global/types-kit'
+import { EIP1271_ABI, EIP1271_MAGIC_VALUE, TX_SERVICE_SAFE_ABI } from './constants'
+
+const SIGNATURE_LENGTH_BYTES = 65
+
+export type TxServiceSignature = {
+  /** owner - The address of the owner that signed */
+  owner: Address
+  /** signature - The signature of the owner. It only contains the signature data for contract signatures */
+  signature: Hex
+  /** signatureType - The type of the signature */
+  signatureType: SignatureType
+}
+
+/**
+ * Splits the encoded signatures of a Safe and verifies each of them against the chain, in the same way
+ * as the Safe contract does when checking the signatures.
+ *
+ * @param {PublicClient} client - The client of the chain.
+ * @param {Address} safeAddress - The address of the Safe.
+ * @param {Hex} hash - The hash that was signed.
+ * @param {Hex} signatures - The encoded signatures.
+ * @returns {Promise<TxServiceSignature[]>} The verified signatures.
+ * @throws "Invalid signature"
+ * @throws "Signature of owner=X is not valid"
+ * @throws "Hash=X was not approved by owner=Y"
+ */
+export async function verifySignatures(
+  client: PublicClient,
+  safeAddress: Address,
+  hash: Hex,
+  signatures: Hex
+): Promise<TxServiceSignature[]> {
+  const signaturesLength = size(signatures)
+  const verifiedSignatures: TxServiceSignature[] = []
+  let staticPartLength = signaturesLength
+
+  if (signaturesLength < SIGNATURE_LENGTH_BYTES) {
+    throw new Error('Invalid signature')
+  }
+
+  for (
+    let offset = 0;
+    offset + SIGNATURE_LENGTH_BYTES <= staticPartLength;
+    offset += SIGNATURE_LENGTH_BYTES
+  ) {
+    const r = slice(signatures, offset, offset + 32)
+    const s = slice(signatures, offset + 32, offset + 64)
+    const v = hexToNumber(slice(signatures, offset + 64, offset + SIGNATURE_LENGTH_BYTES))
+
+    if (v === 0) {
+      const owner = getAddress(slice(r, 12))
+      const dataPosition = Number(hexToBigInt(s))
+      const dataLength = Number(hexToBigInt(slice(signatures, dataPosition, dataPosition + 32)))
+      const data = slice(signatures, dataPosition + 32, dataPosition + 32 + dataLength)
+      const magicValue = await client
+        .readContract({
+          address: owner,
+          abi: EIP1271_ABI,
+          functionName: 'isValidSignature',
+          args: [hash, data],
+          account: safeAddress
+        })
+        .catch(() => undefined)
+
+      if (magicValue !== EIP1271_MAGIC_VALUE) {
+        throw new Error(`Signature of owner=${owner} is not valid`)
+      }
+
+      staticPartLength = Math.min(staticPartLength, dataPosition)
+      verifiedSignatures.push({ owner, signature: data, signatureType: 'CONTRACT_SIGNATURE' })
+    } else if (v === 1) {
+      const owner = getAddress(slice(r, 12))
+      const approved = await client.readContract({
+        address: safeAddress,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'approvedHashes',
+        args: [owner, hash]
+      })
+
+      if (approved === 0n) {
+        throw new Error(`Hash=${hash} was not approved by owner=${owner}`)
+      }
+
+      verifiedSignatures.push({
+        owner,
+        signature: slice(signatures, offset, offset + SIGNATURE_LENGTH_BYTES),
+        signatureType: 'APPROVED_HASH'
+      })
+    } else if (v > 30) {
+      // eth_sign signatures increase v by 4 to distinguish them from EIP-712 signatures
+      const owner = await recoverAddress({
+        hash: hashMessage({ raw: hash }),
+        signature: concat([r, s, numberToHex(v - 4, { size: 1 })])
+      })
+
+      verifiedSignatures.push({
+        owner,
+        signature: slice(signatures, offset, offset + SIGNATURE_LENGTH_BYTES),
+        signatureType: 'ETH_SIGN'
+      })
+    } else if (v === 27 || v === 28) {
+      const signature = slice(signatures, offset, offset + SIGNATURE_LENGTH_BYTES)
+      const owner = await recoverAddress({ hash, signature })
+
+      verifiedSignatures.push({ owner, signature, signatureType: 'EOA' })
+    } else {
+      throw new Error('Invalid signature')
+    }
+  }
+
+  return verifiedSignatures
+}
+
+/**
+ * Encodes the signatures of the owners sorted by address, in the format expected by the Safe contract.
+ *
+ * @param {TxServiceSignature[]} signatures - The signatures of the owners.
+ * @returns {Hex} The encoded signatures.
+ */
+export function buildSignatureBytes(signatures: TxServiceSignature[]): Hex {
+  const sortedSignatures = [...signatures].sort((left, right) =>
+    left.owner.toLowerCase().localeCompare(right.owner.toLowerCase())
+  )
+
+  const staticParts: Hex[] = []
+  const dynamicParts: Hex[] = []
+  let dynamicPartPosition = sortedSignatures.length * SIGNATURE_LENGTH_BYTES
+
+  for (const { owner, signature, signatureType } of sortedSignatures) {
+    if (signatureType === 'CONTRACT_SIGNATURE') {
+      staticParts.push(
+        concat([
+          pad(owner as Hex, { size: 32 }),
+          numberToHex(dynamicPartPosition, { size: 32 }),
+          '0x00'
+        ])
+      )
+      dynamicParts.push(concat([numberToHex(size(signature), { size: 32 }), signature]))
+      dynamicPartPosition += 32 + size(signature)
+    } else {
+      staticParts.push(signature)
+    }
+  }
+
+  return concat([...staticParts, ...dynamicParts])
+}
@@ -0,0 +1,1182 @@
+import { IncomingMessage, ServerResponse, createServer } from 'http'
+import { AddressInfo } from 'net'
+import { viem } from 'hardhat'
+import {
+  Address,
+  Hex,
+  PublicClient,
+  getAddress,
+  hashMessage,
+  hashTypedData,
+  isAddressEqual,
+  recoverTypedDataAddress,
+  size,
+  slice,
+  TypedDataDefinition,
+  zeroAddress
+} from 'viem'
+import { getUserOperationHash } from 'viem/account-abstraction'
+import type {
+  EIP712TypedData,
+  ListResponse,
+  SafeMultisigConfirmationResponse,
+  SafeMultisigTransactionResponse,
+  SafeOperationConfirmation,
+  SafeOperationResponse
+} from '@safe-global/types-kit'
+import semverSatisfies from 'semver/functions/satisfies.js'
+import {
+  EIP712_DELEGATE_TYPE,
+  EIP712_SAFE_MESSAGE_TYPE,
+  EIP712_SAFE_OPERATION_TYPE_V06,
+  EIP712_SAFE_OPERATION_TYPE_V07,
+  ENTRYPOINT_V06_ADDRESS,
+  SAFE_EXECUTION_EVENTS,
+  SAFE_FALLBACK_HANDLER_STORAGE_SLOT,
+  SAFE_GUARD_STORAGE_SLOT,
+  SAFE_SINGLETON_STORAGE_SLOT,
+  TX_SERVICE_SAFE_ABI,
+  USER_OPERATION_EVENT
+} from './constants'
+import { TxServiceSignature, buildSignatureBytes, verifySignatures } from './signatures'
+
+const DEFAULT_PAGE_LIMIT = 100
+const ADDRESS_PATTERN = '(0x[0-9a-fA-F]{40})'
+const HASH_PATTERN = '(0x[0-9a-fA-F]{64})'
+const SENTINEL_ADDRESS = '0x0000000000000000000000000000000000000001'
+
+export type TxServiceOptions = {
+  /** port - The port where the service listens. A free port is used if it is not set */
+  port?: number
+}
+
+export type TxService = {
+  /** url - The URL of the service. It can be used as the txServiceUrl of SafeApiKit */
+  url: string
+  /** chainId - The chainId of the network used to validate the requests */
+  chainId: bigint
+  /** reset - Removes all the transactions, messages, delegates and SafeOperations stored */
+  reset: () => void
+  /** close - Stops the service */
+  close: () => Promise<void>
+}
+
+type StoredConfirmation = TxServiceSignature & {
+  created: string
+}
+
+type StoredTransaction = {
+  safe: Address
+  to: Address
+  value: string
+  data?: Hex
+  operation: number
+  safeTxGas: number
+  baseGas: number
+  gasPrice: string
+  gasToken: Address
+  refundReceiver: Address
+  nonce: number
+  safeTxHash: Hex
+  proposer: Address
+  proposedByDelegate: Address | null
+  origin: string
+  created: string
+  modified: string
+  confirmations: Map<string, StoredConfirmation>
+}
+
+type StoredMessage = {
+  safe: Address
+  messageHash: Hex
+  message: string | EIP712TypedData
+  proposedBy: Address
+  safeAppId: number | null
+  origin?: string
+  created: string
+  modified: string
+  confirmations: Map<string, StoredConfirmation>
+}
+
+type StoredDelegate = {
+  safe: Address | null
+  delegate: Address
+  delegator: Address
+  label: string
+}
+
+type StoredSafeOperation = AddSafeOperationBody & {
+  safe: Address
+  safeOperationHash: Hex
+  userOperationHash: Hex
+  created: string
+  modified: string
+  confirmations: Map<string, StoredConfirmation>
+}
+
+type TxServiceStore = {
+  transactions: Map<string, StoredTransaction>
+  messages: Map<string, StoredMessage>
+  delegates: StoredDelegate[]
+  safeOperations: Map<string, StoredSafeOperation>
+}
+
+type ProposeTransactionBody = {
+  to: Address
+  value: string
+  data?: Hex | null
+  operation: number
+  safeTxGas: string | number
+  baseGas: string | number
+  gasPrice: string | number
+  gasToken: Address
+  refundReceiver?: Address
+  nonce: string | number
+  contractTransactionHash: Hex
+  sender: Address
+  signature: Hex
+  origin?: string
+}
+
+type SignatureBody = {
+  signature: Hex
+}
+
+type AddMessageBody = {
+  message: string | EIP712TypedData
+  safeAppId?: number
+  signature: Hex
+}
+
+type AddDelegateBody = {
+  safe: Address | null
+  delegate: Address
+  delegator: Address
+  label: string
+  signature: Hex
+}
+
+type RemoveDelegateBody = {
+  delegator: Address
+  signature: Hex
+}
+
+type AddSafeOperationBody = {
+  initCode: Hex | null
+  nonce: string
+  callData: Hex
+  callGasLimit: string
+  verificationGasLimit: string
+  preVerificationGas: string
+  maxFeePerGas: string
+  maxPriorityFeePerGas: string
+  paymasterAndData: Hex | null
+  entryPoint: Address
+  validAfter: string | null
+  validUntil: string | null
+  signature: Hex
+  moduleAddress: Address
+}
+
+type RouteRequest = {
+  params: string[]
+  url: URL
+  body: unknown
+}
+
+type RouteResponse = {
+  status: number
+  body?: unknown
+}
+
+type Route = {
+  method: string
+  path: RegExp
+  handle: (request: RouteRequest) => Promise<RouteResponse>
+}
+
+class TxServiceError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Starts a local Safe Transaction Service that keeps its data in memory. It implements the endpoints used by
+ * SafeApiKit to propose and confirm transactions, messages, delegates and SafeOperations, and validates the
+ * signatures against the Hardhat network.
+ *
+ * @param {TxServiceOptions} options - The options of the service.
+ * @returns {Promise<TxService>} The running service.
+ */
+export async function startTxService({ port = 0 }: TxServiceOptions = {}): Promise<TxService> {
+  const client = (await viem.getPublicClient()) as PublicClient
+  const chainId = BigInt(await client.getChainId())
+  const store = createStore()
+  const routes = getRoutes(client, chainId, store)
+
+  const server = createServer((request, response) => {
+    handleRequest(routes, request, response).catch((error: Error) => {
+      // The response may have been partially sent when the error is thrown
+      if (!response.headersSent) {
+        response.writeHead(500, { 'Content-Type': 'application/json' })
+      }
+      response.end(JSON.stringify({ detail: error.message }))
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve))
+  const { port: listeningPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${listeningPort}/api`,
+    chainId,
+    reset: () => Object.assign(store, createStore()),
+    close: () =>
+      new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  }
+}
+
+function createStore(): TxServiceStore {
+  return {
+    transactions: new Map(),
+    messages: new Map(),
+    delegates: [],
+    safeOperations: new Map()
+  }
+}
+
+async function handleRequest(
+  routes: Route[],
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> {
+  let result: RouteResponse
+
+  try {
+    const url = new URL(request.url || '/', `http://${request.headers.host}`)
+    const route = routes.find(
+      ({ method, path }) => method === request.method?.toUpperCase() && path.test(url.pathname)
+    )
+
+    if (!route) {
+      throw new TxServiceError(404, 'Not found.')
+    }
+
+    const params = route.path.exec(url.pathname)?.slice(1) || []
+    result = await route.handle({ params, url, body: await readBody(request) })
+  } catch (error) {
+    const { status = 500, message } = error as Partial<TxServiceError>
+    result = {
+      status,
+      body: status === 422 ? { nonFieldErrors: [message] } : { detail: message }
+    }
+  }
+
+  response.writeHead(result.status, { 'Content-Type': 'application/json' })
+  response.end(result.body === undefined ? undefined : JSON.stringify(result.body))
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+
+  const body = Buffer.concat(chunks).toString()
+
+  try {
+    return body ? JSON.parse(body) : undefined
+  } catch {
+    throw new TxServiceError(400, 'JSON parse error')
+  }
+}
+
+function getRoutes(client: PublicClient, chainId: bigint, store: TxServiceStore): Route[] {
+  const route = (method: string, path: string, handle: Route['handle']): Route => ({
+    method,
+    path: new RegExp(`^/api${path}/?$`),
+    handle
+  })
+
+  const getSafeOwners = async (safe: Address): Promise<Address[]> => {
+    const code = await client.getCode({ address: safe })
+
+    if (!code || code === '0x') {
+      throw new TxServiceError(422, `Safe=${safe} does not exist or it's still not indexed`)
+    }
+
+    return [
+      ...(await client.readContract({
+        address: safe,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'getOwners'
+      }))
+    ]
+  }
+
+  const getThreshold = async (safe: Address): Promise<number> =>
+    Number(
+      await client.readContract({
+        address: safe,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'getThreshold'
+      })
+    )
+
+  const getStoredAddress = async (safe: Address, slot: Hex): Promise<Address> => {
+    const value = await client.getStorageAt({ address: safe, slot })
+
+    return value && size(value) === 32 ? getAddress(slice(value, 12)) : zeroAddress
+  }
+
+  const getSafeInfo = async (safe: Address) => {
+    const owners = await getSafeOwners(safe)
+    const [nonce, threshold, [modules], version] = await Promise.all([
+      client.readContract({ address: safe, abi: TX_SERVICE_SAFE_ABI, functionName: 'nonce' }),
+      getThreshold(safe),
+      client.readContract({
+        address: safe,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'getModulesPaginated',
+        args: [SENTINEL_ADDRESS, BigInt(DEFAULT_PAGE_LIMIT)]
+      }),
+      client.readContract({ address: safe, abi: TX_SERVICE_SAFE_ABI, functionName: 'VERSION' })
+    ])
+
+    return {
+      address: safe,
+      nonce: nonce.toString(),
+      threshold,
+      owners,
+      singleton: await getStoredAddress(safe, SAFE_SINGLETON_STORAGE_SLOT),
+      modules: [...modules],
+      fallbackHandler: await getStoredAddress(safe, SAFE_FALLBACK_HANDLER_STORAGE_SLOT),
+      guard: await getStoredAddress(safe, SAFE_GUARD_STORAGE_SLOT),
+      version
+    }
+  }
+
+  const verifyOwnerSignatures = async (
+    safe: Address,
+    hash: Hex,
+    signatures: Hex,
+    owners?: Address[]
+  ): Promise<TxServiceSignature[]> => {
+    const verifiedSignatures = await verifySignatures(client, safe, hash, signatures).catch(
+      (error: Error) => {
+        throw new TxServiceError(422, error.message)
+      }
+    )
+
+    for (const { owner } of verifiedSignatures) {
+      if (owners && !owners.some((safeOwner) => isAddressEqual(safeOwner, owner))) {
+        throw new TxServiceError(422, `Signer=${owner} is not an owner`)
+      }
+    }
+
+    return verifiedSignatures
+  }
+
+  const addConfirmations = (
+    confirmations: Map<string, StoredConfirmation>,
+    signatures: TxServiceSignature[]
+  ) => {
+    const created = new Date().toISOString()
+
+    for (const signature of signatures) {
+      confirmations.set(signature.owner.toLowerCase(), { ...signature, created })
+    }
+  }
+
+  const isDelegate = (safe: Address, delegate: Address, owners: Address[]): boolean =>
+    store.delegates.some(
+      (storedDelegate) =>
+        isAddressEqual(storedDelegate.delegate, delegate) &&
+        (storedDelegate.safe
+          ? isAddressEqual(storedDelegate.safe, safe)
+          : owners.some((owner) => isAddressEqual(owner, storedDelegate.delegator)))
+    )
+
+  const getTransaction = (safeTxHash: string): StoredTransaction => {
+    const transaction = store.transactions.get(safeTxHash.toLowerCase())
+
+    if (!transaction) {
+      throw new TxServiceError(404, 'Not found.')
+    }
+
+    return transaction
+  }
+
+  const getExecutions = async (safe: Address) => {
+    const logs = await client.getLogs({
+      address: safe,
+      events: SAFE_EXECUTION_EVENTS,
+      fromBlock: 0n
+    })
+    const executions = new Map<
+      string,
+      { blockNumber: number; transactionHash: Hex; isSuccessful: boolean; executionDate: string }
+    >()
+
+    for (const log of logs) {
+      const block = await client.getBlock({ blockNumber: log.blockNumber })
+      // Safe v1.4.1 and later index the txHash, the earlier versions log it in the data
+      const txHash = log.topics.length > 1 ? log.topics[1] : slice(log.data, 0, 32)
+      executions.set(txHash?.toLowerCase() || '', {
+        blockNumber: Number(log.blockNumber),
+        transactionHash: log.transactionHash,
+        isSuccessful: log.eventName === 'ExecutionSuccess',
+        executionDate: new Date(Number(block.timestamp) * 1000).toISOString()
+      })
+    }
+
+    return executions
+  }
+
+  const toTransactionResponses = async (
+    transactions: StoredTransaction[]
+  ): Promise<SafeMultisigTransactionResponse[]> => {
+    if (!transactions.length) {
+      return []
+    }
+
+    const { safe } = transactions[0]
+    const threshold = await getThreshold(safe)
+    const executions = await getExecutions(safe)
+
+    return transactions.map(({ confirmations, created, ...transaction }) => {
+      const execution = executions.get(transaction.safeTxHash.toLowerCase())
+
+      return {
+        ...transaction,
+        executionDate: execution?.executionDate || null,
+        submissionDate: created,
+        blockNumber: execution?.blockNumber || null,
+        transactionHash: execution?.transactionHash || null,
+        executor: null,
+        isExecuted: !!execution,
+        isSuccessful: execution ? execution.isSuccessful : null,
+        ethGasPrice: null,
+        maxFeePerGas: null,
+        maxPriorityFeePerGas: null,
+        gasUsed: null,
+        fee: null,
+        confirmationsRequired: threshold,
+        confirmations: toConfirmationResponses(confirmations),
+        trusted: true,
+        signatures: execution ? buildSignatureBytes([...confirmations.values()]) : null
+      }
+    })
+  }
+
+  const getSafeMessageHash = async (
+    safe: Address,
+    message: string | EIP712TypedData
+  ): Promise<Hex> => {
+    const safeVersion = await client.readContract({
+      address: safe,
+      abi: TX_SERVICE_SAFE_ABI,
+      functionName: 'VERSION'
+    })
+
+    return hashTypedData({
+      domain: semverSatisfies(safeVersion, '>=1.3.0')
+        ? { chainId: Number(chainId), verifyingContract: safe }
+        : { verifyingContract: safe },
+      types: EIP712_SAFE_MESSAGE_TYPE,
+      primaryType: 'SafeMessage',
+      message: {
+        message:
+          typeof message === 'string'
+            ? hashMessage(message)
+            : hashTypedData(message as unknown as TypedDataDefinition)
+      }
+    })
+  }
+
+  const getMessage = (messageHash: string): StoredMessage => {
+    const message = store.messages.get(messageHash.toLowerCase())
+
+    if (!message) {
+      throw new TxServiceError(404, 'Not found.')
+    }
+
+    return message
+  }
+
+  const toMessageResponse = ({ confirmations, ...message }: StoredMessage) => ({
+    ...message,
+    confirmations: [...confirmations.values()].map(
+      ({ owner, signature, signatureType, created }) => ({
+        created,
+        modified: created,
+        owner,
+        signature,
+        signatureType
+      })
+    ),
+    preparedSignature: buildSignatureBytes([...confirmations.values()])
+  })
+
+  const getSafeOperation = (safeOperationHash: string): StoredSafeOperation => {
+    const safeOperation = store.safeOperations.get(safeOperationHash.toLowerCase())
+
+    if (!safeOperation) {
+      throw new TxServiceError(404, 'Not found.')
+    }
+
+    return safeOperation
+  }
+
+  const toSafeOperationResponse = async (
+    safeOperation: StoredSafeOperation
+  ): Promise<SafeOperationResponse> => {
+    const [userOperationEvent] = await client.getLogs({
+      address: safeOperation.entryPoint,
+      event: USER_OPERATION_EVENT,
+      args: { userOpHash: safeOperation.userOperationHash },
+      fromBlock: 0n
+    })
+    const { paymasterAndData, confirmations } = safeOperation
+    const hasPaymaster = !!paymasterAndData && size(paymasterAndData) >= 20
+    const preparedSignature = buildSignatureBytes([...confirmations.values()])
+
+    return {
+      created: safeOperation.created,
+      modified: safeOperation.modified,
+      safeOperationHash: safeOperation.safeOperationHash,
+      validAfter: safeOperation.validAfter,
+      validUntil: safeOperation.validUntil,
+      moduleAddress: safeOperation.moduleAddress,
+      confirmations: toSafeOperationConfirmations(confirmations),
+      preparedSignature,
+      userOperation: {
+        ethereumTxHash: userOperationEvent?.transactionHash || null,
+        sender: safeOperation.safe,
+        userOperationHash: safeOperation.userOperationHash,
+        nonce: safeOperation.nonce,
+        initCode: safeOperation.initCode,
+        callData: safeOperation.callData,
+        callGasLimit: safeOperation.callGasLimit,
+        verificationGasLimit: safeOperation.verificationGasLimit,
+        preVerificationGas: safeOperation.preVerificationGas,
+        maxFeePerGas: safeOperation.maxFeePerGas,
+        maxPriorityFeePerGas: safeOperation.maxPriorityFeePerGas,
+        paymaster: hasPaymaster ? slice(paymasterAndData, 0, 20) : null,
+        paymasterData: hasPaymaster ? slice(paymasterAndData, 20) : null,
+        signature: preparedSignature,
+        entryPoint: safeOperation.entryPoint
+      }
+    }
+  }
+
+  return [
+    route('GET', '/v1/about', async () => ({
+      status: 200,
+      body: {
+        name: 'Safe Transaction Service',
+        version: 'testing-kit',
+        api_version: 'v1',
+        secure: false,
+        settings: {}
+      }
+    })),
+
+    route('GET', `/v1/safes/${ADDRESS_PATTERN}`, async ({ params }) => ({
+      status: 200,
+      body: await getSafeInfo(getAddress(params[0]))
+    })),
+
+    route(
+      'GET',
+      `/v[12]/safes/${ADDRESS_PATTERN}/multisig-transactions`,
+      async ({ params, url }) => {
+        const safe = getAddress(params[0])
+        const { searchParams } = url
+        const transactions = [...store.transactions.values()].filter(
+          (transaction) =>
+            isAddressEqual(transaction.safe, safe) &&
+            matchesNumber(transaction.nonce, searchParams, 'nonce') &&
+            (!searchParams.has('has_confirmations') ||
+              String(transaction.confirmations.size > 0) === searchParams.get('has_confirmations'))
+        )
+        const responses = (await toTransactionResponses(transactions)).filter(
+          ({ isExecuted }) =>
+            !searchParams.has('executed') || String(isExecuted) === searchParams.get('executed')
+        )
+
+        return {
+          status: 200,
+          body: paginate(
+            sortItems(responses, searchParams.get('ordering') || '-nonce', {
+              nonce: ({ nonce }) => nonce,
+              created: ({ submissionDate }) => submissionDate,
+              modified: ({ modified }) => modified
+            }),
+            url
+          )
+        }
+      }
+    ),
+
+    route('POST', `/v[12]/safes/${ADDRESS_PATTERN}/multisig-transactions`, async (request) => {
+      const safe = getAddress(request.params[0])
+      const body = request.body as ProposeTransactionBody
+      const owners = await getSafeOwners(safe)
+      const transaction: Omit<StoredTransaction, 'confirmations' | 'proposedByDelegate'> = {
+        safe,
+        to: getAddress(body.to),
+        value: String(body.value),
+        data: body.data || undefined,
+        operation: Number(body.operation),
+        safeTxGas: Number(body.safeTxGas),
+        baseGas: Number(body.baseGas),
+        gasPrice: String(body.gasPrice),
+        gasToken: getAddress(body.gasToken),
+        refundReceiver: getAddress(body.refundReceiver || zeroAddress),
+        nonce: Number(body.nonce),
+        safeTxHash: body.contractTransactionHash,
+        proposer: getAddress(body.sender),
+        origin: body.origin || '',
+        created: new Date().toISOString(),
+        modified: new Date().toISOString()
+      }
+
+      const safeTxHash = await client.readContract({
+        address: safe,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'getTransactionHash',
+        args: [
+          transaction.to,
+          BigInt(transaction.value),
+          transaction.data || '0x',
+          transaction.operation,
+          BigInt(transaction.safeTxGas),
+          BigInt(transaction.baseGas),
+          BigInt(transaction.gasPrice),
+          transaction.gasToken,
+          transaction.refundReceiver,
+          BigInt(transaction.nonce)
+        ]
+      })
+
+      if (safeTxHash.toLowerCase() !== transaction.safeTxHash.toLowerCase()) {
+        throw new TxServiceError(
+          422,
+          `Contract-transaction-hash=${safeTxHash} does not match provided contract-tx-hash=${transaction.safeTxHash}`
+        )
+      }
+
+      if (store.transactions.has(safeTxHash.toLowerCase())) {
+        throw new TxServiceError(
+          422,
+          `Tx with safe-tx-hash=${safeTxHash} for safe=${safe} was already proposed`
+        )
+      }
+
+      const safeNonce = await client.readContract({
+        address: safe,
+        abi: TX_SERVICE_SAFE_ABI,
+        functionName: 'nonce'
+      })
+
+      if (BigInt(transaction.nonce) < safeNonce) {
+        throw new TxServiceError(
+          422,
+          `Tx with nonce=${transaction.nonce} for safe=${safe} already executed`
+        )
+      }
+
+      const confirmations = new Map<string, StoredConfirmation>()
+      let proposedByDelegate: Address | null = null
+
+      if (owners.some((owner) => isAddressEqual(owner, transaction.proposer))) {
+        const signatures = await verifyOwnerSignatures(safe, safeTxHash, body.signature, owners)
+
+        if (!signatures.some(({ owner }) => isAddressEqual(owner, transaction.proposer))) {
+          throw new TxServiceError(422, `Signature does not match sender=${transaction.proposer}`)
+        }
+
+        addConfirmations(confirmations, signatures)
+      } else if (isDelegate(safe, transaction.proposer, owners)) {
+        const signatures = await verifyOwnerSignatures(safe, safeTxHash, body.signature)
+
+        if (!signatures.every(({ owner }) => isAddressEqual(owner, transaction.proposer))) {
+          throw new TxServiceError(422, `Signature does not match sender=${transaction.proposer}`)
+        }
+
+        proposedByDelegate = transaction.proposer
+      } else {
+        throw new TxServiceError(422, `User=${transaction.proposer} is not an owner or a delegate`)
+      }
+
+      store.transactions.set(safeTxHash.toLowerCase(), {
+        ...transaction,
+        proposedByDelegate,
+        confirmations
+      })
+
+      return { status: 201 }
+    }),
+
+    route('GET', `/v[12]/multisig-transactions/${HASH_PATTERN}`, async ({ params }) => {
+      const [response] = await toTransactionResponses([getTransaction(params[0])])
+
+      return { status: 200, body: response }
+    }),
+
+    route('GET', `/v[12]/multisig-transactions/${HASH_PATTERN}/confirmations`, async (request) => {
+      const { confirmations } = getTransaction(request.params[0])
+
+      return { status: 200, body: paginate(toConfirmationResponses(confirmations), request.url) }
+    }),
+
+    route('POST', `/v[12]/multisig-transactions/${HASH_PATTERN}/confirmations`, async (request) => {
+      const transaction = getTransaction(request.params[0])
+      const { signature } = request.body as SignatureBody
+      const owners = await getSafeOwners(transaction.safe)
+      const signatures = await verifyOwnerSignatures(
+        transaction.safe,
+        transaction.safeTxHash,
+        signature,
+        owners
+      )
+
+      addConfirmations(transaction.confirmations, signatures)
+      transaction.modified = new Date().toISOString()
+
+      return { status: 201, body: { signature } }
+    }),
+
+    route('GET', `/v1/safes/${ADDRESS_PATTERN}/messages`, async ({ params, url }) => {
+      const safe = getAddress(params[0])
+      const messages = [...store.messages.values()]
+        .filter((message) => isAddressEqual(message.safe, safe))
+        .map(toMessageResponse)
+
+      return {
+        status: 200,
+        body: paginate(
+          sortItems(messages, url.searchParams.get('ordering') || '-created', {
+            created: ({ created }) => created,
+            modified: ({ modified }) => modified
+          }),
+          url
+        )
+      }
+    }),
+
+    route('POST', `/v1/safes/${ADDRESS_PATTERN}/messages`, async (request) => {
+      const safe = getAddress(request.params[0])
+      const { message, safeAppId, signature } = request.body as AddMessageBody
+      const owners = await getSafeOwners(safe)
+      const messageHash = await getSafeMessageHash(safe, message)
+
+      if (store.messages.has(messageHash.toLowerCase())) {
+        throw new TxServiceError(
+          422,
+          `Message with hash=${messageHash} for safe=${safe} already exists`
+        )
+      }
+
+      const signatures = await verifyOwnerSignatures(safe, messageHash, signature, owners)
+      const confirmations = new Map<string, StoredConfirmation>()
+      const created = new Date().toISOString()
+
+      addConfirmations(confirmations, signatures)
+      store.messages.set(messageHash.toLowerCase(), {
+        safe,
+        messageHash,
+        message,
+        proposedBy: signatures[0].owner,
+        safeAppId: safeAppId ?? null,
+        created,
+        modified: created,
+        confirmations
+      })
+
+      return { status: 201 }
+    }),
+
+    route('GET', `/v1/messages/${HASH_PATTERN}`, async ({ params }) => ({
+      status: 200,
+      body: toMessageResponse(getMessage(params[0]))
+    })),
+
+    route('POST', `/v1/messages/${HASH_PATTERN}/signatures`, async (request) => {
+      const message = getMessage(request.params[0])
+      const { signature } = request.body as SignatureBody
+      const owners = await getSafeOwners(message.safe)
+      const signatures = await verifyOwnerSignatures(
+        message.safe,
+        message.messageHash,
+        signature,
+        owners
+      )
+
+      addConfirmations(message.confirmations, signatures)
+      message.modified = new Date().toISOString()
+
+      return { status: 201 }
+    }),
+
+    route('GET', '/v2/delegates', async ({ url }) => {
+      const { searchParams } = url
+      const matchesAddress = (address: Address | null, name: string) => {
+        const filter = searchParams.get(name)
+        return !filter || (!!address && isAddressEqual(address, getAddress(filter)))
+      }
+      const delegates = store.delegates.filter(
+        (delegate) =>
+          matchesAddress(delegate.safe, 'safe') &&
+          matchesAddress(delegate.delegate, 'delegate') &&
+          matchesAddress(delegate.delegator, 'delegator') &&
+          (!searchParams.get('label') || delegate.label === searchParams.get('label'))
+      )
+
+      return {
+        status: 200,
+        body: paginate(
+          delegates.map((delegate) => ({ ...delegate, expiryDate: null })),
+          url
+        )
+      }
+    }),
+
+    route('POST', '/v2/delegates', async (request) => {
+      const body = request.body as AddDelegateBody
+      const delegate: StoredDelegate = {
+        safe: body.safe ? getAddress(body.safe) : null,
+        delegate: getAddress(body.delegate),
+        delegator: getAddress(body.delegator),
+        label: body.label
+      }
+
+      await verifyDelegateSignature(chainId, delegate.delegate, body.signature, [
+        delegate.delegator
+      ])
+
+      if (
+        delegate.safe &&
+        !(await getSafeOwners(delegate.safe)).some((owner) =>
+          isAddressEqual(owner, delegate.delegator)
+        )
+      ) {
+        throw new TxServiceError(422, 'Signing owner is not an owner of the Safe')
+      }
+
+      store.delegates = [
+        ...store.delegates.filter(
+          (storedDelegate) =>
+            !isAddressEqual(storedDelegate.delegate, delegate.delegate) ||
+            !isAddressEqual(storedDelegate.delegator, delegate.delegator) ||
+            storedDelegate.safe !== delegate.safe
+        ),
+        delegate
+      ]
+
+      return {
+        status: 201,
+        body: { ...delegate, expiryDate: null, signature: body.signature }
+      }
+    }),
+
+    route('DELETE', `/v2/delegates/${ADDRESS_PATTERN}`, async (request) => {
+      const delegateAddress = getAddress(request.params[0])
+      const { delegator, signature } = request.body as RemoveDelegateBody
+
+      await verifyDelegateSignature(chainId, delegateAddress, signature, [
+        getAddress(delegator),
+        delegateAddress
+      ])
+
+      const delegates = store.delegates.filter(
+        (delegate) =>
+          !isAddressEqual(delegate.delegate, delegateAddress) ||
+          !isAddressEqual(delegate.delegator, delegator)
+      )
+
+      if (delegates.length === store.delegates.length) {
+        throw new TxServiceError(404, 'Not found.')
+      }
+
+      store.delegates = delegates
+
+      return { status: 204 }
+    }),
+
+    route('GET', `/v1/safes/${ADDRESS_PATTERN}/safe-operations`, async ({ params, url }) => {
+      const safe = getAddress(params[0])
+      const { searchParams } = url
+      const safeOperations = await Promise.all(
+        [...store.safeOperations.values()]
+          .filter(
+            (safeOperation) =>
+              isAddressEqual(safeOperation.safe, safe) &&
+              (!searchParams.has('has_confirmations') ||
+                String(safeOperation.confirmations.size > 0) ===
+                  searchParams.get('has_confirmations'))
+          )
+          .map(toSafeOperationResponse)
+      )
+      const filteredSafeOperations = safeOperations.filter(
+        ({ userOperation }) =>
+          !searchParams.has('executed') ||
+          String(!!userOperation?.ethereumTxHash) === searchParams.get('executed')
+      )
+
+      return {
+        status: 200,
+        body: paginate(
+          sortItems(
+            filteredSafeOperations,
+            searchParams.get('ordering') || '-user_operation__nonce',
+            {
+              user_operation__nonce: ({ userOperation }) => Number(userOperation?.nonce),
+              created: ({ created }) => created,
+              modified: ({ modified }) => modified
+            }
+          ),
+          url
+        )
+      }
+    }),
+
+    route('POST', `/v1/safes/${ADDRESS_PATTERN}/safe-operations`, async (request) => {
+      const safe = getAddress(request.params[0])
+      const body = request.body as AddSafeOperationBody
+      const isEntryPointV06 = isAddressEqual(body.entryPoint, ENTRYPOINT_V06_ADDRESS)
+      const safeOperationHash = hashTypedData({
+        domain: { chainId: Number(chainId), verifyingContract: getAddress(body.moduleAddress) },
+        types: isEntryPointV06 ? EIP712_SAFE_OPERATION_TYPE_V06 : EIP712_SAFE_OPERATION_TYPE_V07,
+        primaryType: 'SafeOp',
+        message: {
+          safe,
+          nonce: BigInt(body.nonce),
+          initCode: body.initCode || '0x',
+          callData: body.callData,
+          callGasLimit: BigInt(body.callGasLimit),
+          verificationGasLimit: BigInt(body.verificationGasLimit),
+          preVerificationGas: BigInt(body.preVerificationGas),
+          maxFeePerGas: BigInt(body.maxFeePerGas),
+          maxPriorityFeePerGas: BigInt(body.maxPriorityFeePerGas),
+          paymasterAndData: body.paymasterAndData || '0x',
+          validAfter: toTimestamp(body.validAfter),
+          validUntil: toTimestamp(body.validUntil),
+          entryPoint: getAddress(body.entryPoint)
+        }
+      })
+
+      if (store.safeOperations.has(safeOperationHash.toLowerCase())) {
+        throw new TxServiceError(
+          422,
+          `SafeOperation with hash=${safeOperationHash} for safe=${safe} already exists`
+        )
+      }
+
+      // The owners of a Safe that is not deployed yet can not be checked
+      const code = await client.getCode({ address: safe })
+      const owners = code && code !== '0x' ? await getSafeOwners(safe) : undefined
+      const signatures = await verifyOwnerSignatures(
+        safe,
+        safeOperationHash,
+        body.signature,
+        owners
+      )
+      const gasFields = {
+        callGasLimit: BigInt(body.callGasLimit),
+        verificationGasLimit: BigInt(body.verificationGasLimit),
+        preVerificationGas: BigInt(body.preVerificationGas),
+        maxFeePerGas: BigInt(body.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(body.maxPriorityFeePerGas)
+      }
+      const userOperationHash = isEntryPointV06
+        ? getUserOperationHash({
+            chainId: Number(chainId),
+            entryPointAddress: body.entryPoint,
+            entryPointVersion: '0.6',
+            userOperation: {
+              ...gasFields,
+              sender: safe,
+              nonce: BigInt(body.nonce),
+              initCode: body.initCode || '0x',
+              callData: body.callData,
+              paymasterAndData: body.paymasterAndData || '0x',
+              signature: body.signature
+            }
+          })
+        : getUserOperationHash({
+            chainId: Number(chainId),
+            entryPointAddress: body.entryPoint,
+            entryPointVersion: '0.7',
+            userOperation: {
+              ...gasFields,
+              sender: safe,
+              nonce: BigInt(body.nonce),
+              callData: body.callData,
+              signature: body.signature
+            }
+          })
+      const confirmations = new Map<string, StoredConfirmation>()
+      const created = new Date().toISOString()
+
+      addConfirmations(confirmations, signatures)
+      store.safeOperations.set(safeOperationHash.toLowerCase(), {
+        ...body,
+        safe,
+        safeOperationHash,
+        userOperationHash,
+        created,
+        modified: created,
+        confirmations
+      })
+
+      return { status: 201 }
+    }),
+
+    route('GET', `/v1/safe-operations/${HASH_PATTERN}`, async ({ params }) => ({
+      status: 200,
+      body: await toSafeOperationResponse(getSafeOperation(params[0]))
+    })),
+
+    route('GET', `/v1/safe-operations/${HASH_PATTERN}/confirmations`, async (request) => {
+      const { confirmations } = getSafeOperation(request.params[0])
+
+      return {
+        status: 200,
+        body: paginate(toSafeOperationConfirmations(confirmations), request.url)
+      }
+    }),
+
+    route('POST', `/v1/safe-operations/${HASH_PATTERN}/confirmations`, async (request) => {
+      const safeOperation = getSafeOperation(request.params[0])
+      const { signature } = request.body as SignatureBody
+      const code = await client.getCode({ address: safeOperation.safe })
+      const owners = code && code !== '0x' ? await getSafeOwners(safeOperation.safe) : undefined
+      const signatures = await verifyOwnerSignatures(
+        safeOperation.safe,
+        safeOperation.safeOperationHash,
+        signature,
+        owners
+      )
+
+      addConfirmations(safeOperation.confirmations, signatures)
+      safeOperation.modified = new Date().toISOString()
+
+      return { status: 201 }
+    })
+  ]
+}
+
+async function verifyDelegateSignature(
+  chainId: bigint,
+  delegateAddress: Address,
+  signature: Hex,
+  signers: Address[]
+): Promise<void> {
+  const totp = Math.floor(Date.now() / 1000 / 3600)
+
+  // The signature of the previous period is still accepted
+  for (const period of [totp, totp - 1]) {
+    const signer = await recoverTypedDataAddress({
+      domain: { name: 'Safe Transaction Service', version: '1.0', chainId: Number(chainId) },
+      types: EIP712_DELEGATE_TYPE,
+      primaryType: 'Delegate',
+      message: { delegateAddress, totp: BigInt(period) },
+      signature
+    }).catch(() => undefined)
+
+    if (signer && signers.some((address) => isAddressEqual(address, signer))) {
+      return
+    }
+  }
+
+  throw new TxServiceError(422, 'Signature is not valid for the delegator')
+}
+
+function toConfirmationResponses(
+  confirmations: Map<string, StoredConfirmation>
+): SafeMultisigConfirmationResponse[] {
+  return [...confirmations.values()].map(({ owner, signature, signatureType, created }) => ({
+    owner,
+    submissionDate: created,
+    signature,
+    signatureType
+  }))
+}
+
+function toSafeOperationConfirmations(
+  confirmations: Map<string, StoredConfirmation>
+): SafeOperationConfirmation[] {
+  return [...confirmations.values()].map(({ owner, signature, signatureType, created }) => ({
+    created,
+    modified: created,
+    owner,
+    signature,
+    signatureType
+  }))
+}
+
+function toTimestamp(date: string | null): number {
+  return date ? Math.floor(Date.parse(date) / 1000) : 0
+}
+
+function matchesNumber(value: number, searchParams: URLSearchParams, name: string): boolean {
+  const filters: [string, (filter: number) => boolean][] = [
+    [name, (filter) => value === filter],
+    [`${name}__gte`, (filter) => value >= filter],
+    [`${name}__gt`, (filter) => value > filter],
+    [`${name}__lte`, (filter) => value <= filter],
+    [`${name}__lt`, (filter) => value < filter]
+  ]
+
+  return filters.every(
+    ([filterName, matches]) =>
+      !searchParams.has(filterName) || matches(Number(searchParams.get(filterName)))
+  )
+}
+
+function sortItems<T>(
+  items: T[],
+  ordering: string,
+  fields: Record<string, (item: T) => number | string>
+): T[] {
+  const isDescending = ordering.startsWith('-')
+  const getField = fields[ordering.replace(/^-/, '')]
+
+  if (!getField) {
+    throw new TxServiceError(400, `Ordering field ${ordering} is not valid`)
+  }
+
+  return [...items].sort((left, right) => {
+    const leftValue = getField(left)
+    const rightValue = getField(right)
+    const order = leftValue < rightValue ? -1 : leftValue > rightValue ? 1 : 0
+
+    return isDescending ? -order : order
+  })
+}
+
+function paginate<T>(items: T[], url: URL): ListResponse<T> {
+  const limit = Number(url.searchParams.get('limit') || DEFAULT_PAGE_LIMIT)
+  const offset = Number(url.searchParams.get('offset') || 0)
+
+  const getPageUrl = (pageOffset: number) => {
+    const pageUrl = new URL(url)
+    pageUrl.searchParams.set('limit', limit.toString())
+    pageUrl.searchParams.set('offset', pageOffset.toString())
+    return pageUrl.toString()
+  }
+
+  return {
+    count: items.length,
+    next: offset + limit < items.length ? getPageUrl(offset + limit) : undefined,
+    previous: offset > 0 ? getPageUrl(Math.max(offset - limit, 0)) : undefined,
+    results: items.slice(offset, offset + limit)
+  }
+}
@@ -278,3 +278,36 @@ export const getDefaultCallbackHandler = async (): Promise<GetContractReturnType
   const defaultCallbackHandlerAddress = defaultCallbackHandlerDeployment.address
   return await viem.getContractAt(contractName, defaultCallbackHandlerAddress as Address)
 }
+
+export const getSafeUpgradeContracts = async (
+  targetVersion: '1.3.0' | '1.4.1'
+): Promise<{
+  safeSingletonAddress: string
+  fallbackHandlerAddress: string
+  safeMigrationAddress?: string
+}> => {
+  const versionSuffix = targetVersion.replace(/\./g, '_')
+  const safeSingletonDeployment = await deployments.get(`Safe_SV${versionSuffix}`)
+  const fallbackHandlerDeployment = await deployments.get(
+    `CompatibilityFallbackHandler_SV${versionSuffix}`
+  )
+  const safeMigrationDeployment = await deployments.getOrNull(`SafeMigration_SV${versionSuffix}`)
+  return {
+    safeSingletonAddress: safeSingletonDeployment.address,
+    fallbackHandlerAddress: fallbackHandlerDeployment.address,
+    safeMigrationAddress: safeMigrationDeployment?.address
+  }
+}
+
+export const getSafeToL2MigrationContracts = async (): Promise<{
+  safeL2SingletonAddress: string
+  safeToL2MigrationAddress: string
+}> => {
+  const versionSuffix = safeVersionDeployed.replace(/\./g, '_')
+  const safeL2SingletonDeployment = await deployments.get(`SafeL2_SV${versionSuffix}`)
+  const safeToL2MigrationDeployment = await deployments.get('SafeToL2Migration_SV1_4_1')
+  return {
+    safeL2SingletonAddress: safeL2SingletonDeployment.address,
+    safeToL2MigrationAddress: safeToL2MigrationDeployment.address
+  }
+}
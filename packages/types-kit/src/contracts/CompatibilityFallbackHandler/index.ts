@@ -1,9 +1,12 @@
 import { CompatibilityFallbackHandlerContract_v1_3_0_Contract } from './v1.3.0/CompatibilityFallbackHandlerContract_v1_3_0'
 import { CompatibilityFallbackHandlerContract_v1_4_1_Contract } from './v1.4.1/CompatibilityFallbackHandlerContract_v1_4_1'
+import { CompatibilityFallbackHandlerContract_v1_5_0_Contract } from './v1.5.0/CompatibilityFallbackHandlerContract_v1_5_0'
 
 export * from './v1.3.0/CompatibilityFallbackHandlerContract_v1_3_0'
 export * from './v1.4.1/CompatibilityFallbackHandlerContract_v1_4_1'
+export * from './v1.5.0/CompatibilityFallbackHandlerContract_v1_5_0'
 
 export type CompatibilityFallbackHandlerContractType =
   | CompatibilityFallbackHandlerContract_v1_3_0_Contract
   | CompatibilityFallbackHandlerContract_v1_4_1_Contract
+  | CompatibilityFallbackHandlerContract_v1_5_0_Contract
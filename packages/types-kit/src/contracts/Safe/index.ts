@@ -3,3 +3,4 @@ export * from './v1.1.1/SafeContract_v1_1_1'
 export * from './v1.2.0/SafeContract_v1_2_0'
 export * from './v1.3.0/SafeContract_v1_3_0'
 export * from './v1.4.1/SafeContract_v1_4_1'
+export * from './v1.5.0/SafeContract_v1_5_0'
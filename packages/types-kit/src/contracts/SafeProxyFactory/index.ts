@@ -2,14 +2,17 @@ import { SafeProxyFactoryContract_v1_0_0_Contract } from './v1.0.0/SafeProxyFact
 import { SafeProxyFactoryContract_v1_1_1_Contract } from './v1.1.1/SafeProxyFactoryContract_v1_1_1'
 import { SafeProxyFactoryContract_v1_3_0_Contract } from './v1.3.0/SafeProxyFactoryContract_v1_3_0'
 import { SafeProxyFactoryContract_v1_4_1_Contract } from './v1.4.1/SafeProxyFactoryContract_v1_4_1'
+import { SafeProxyFactoryContract_v1_5_0_Contract } from './v1.5.0/SafeProxyFactoryContract_v1_5_0'
 
 export * from './v1.0.0/SafeProxyFactoryContract_v1_0_0'
 export * from './v1.1.1/SafeProxyFactoryContract_v1_1_1'
 export * from './v1.3.0/SafeProxyFactoryContract_v1_3_0'
 export * from './v1.4.1/SafeProxyFactoryContract_v1_4_1'
+export * from './v1.5.0/SafeProxyFactoryContract_v1_5_0'
 
 export type SafeProxyFactoryContractType =
   | SafeProxyFactoryContract_v1_0_0_Contract
   | SafeProxyFactoryContract_v1_1_1_Contract
   | SafeProxyFactoryContract_v1_3_0_Contract
   | SafeProxyFactoryContract_v1_4_1_Contract
+  | SafeProxyFactoryContract_v1_5_0_Contract
@@ -1,9 +1,12 @@
 import { SimulateTxAccessorContract_v1_3_0_Contract } from './v1.3.0/SimulateTxAccessorContract_v1_3_0'
 import { SimulateTxAccessorContract_v1_4_1_Contract } from './v1.4.1/SimulateTxAccessorContract_v1_4_1'
+import { SimulateTxAccessorContract_v1_5_0_Contract } from './v1.5.0/SimulateTxAccessorContract_v1_5_0'
 
 export * from './v1.3.0/SimulateTxAccessorContract_v1_3_0'
 export * from './v1.4.1/SimulateTxAccessorContract_v1_4_1'
+export * from './v1.5.0/SimulateTxAccessorContract_v1_5_0'
 
 export type SimulateTxAccessorContractType =
   | SimulateTxAccessorContract_v1_3_0_Contract
   | SimulateTxAccessorContract_v1_4_1_Contract
+  | SimulateTxAccessorContract_v1_5_0_Contract
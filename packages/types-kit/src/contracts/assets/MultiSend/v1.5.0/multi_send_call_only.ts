@@ -0,0 +1,20 @@
+// Source: https://github.com/safe-global/safe-deployments/blob/main/src/assets/v1.5.0/multi_send_call_only.json
+export default {
+  contractName: 'MultiSendCallOnly',
+  version: '1.5.0',
+  abi: [
+    {
+      inputs: [
+        {
+          internalType: 'bytes',
+          name: 'transactions',
+          type: 'bytes'
+        }
+      ],
+      name: 'multiSend',
+      outputs: [],
+      stateMutability: 'payable',
+      type: 'function'
+    }
+  ]
+} as const
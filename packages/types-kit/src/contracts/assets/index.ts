@@ -1,32 +1,40 @@
 import compatibilityFallbackHandler_1_3_0_ContractArtifacts from './CompatibilityFallbackHandler/v1.3.0/compatibility_fallback_handler'
 import compatibilityFallbackHandler_1_4_1_ContractArtifacts from './CompatibilityFallbackHandler/v1.4.1/compatibility_fallback_handler'
+import compatibilityFallbackHandler_1_5_0_ContractArtifacts from './CompatibilityFallbackHandler/v1.5.0/compatibility_fallback_handler'
 
 import createCall_1_3_0_ContractArtifacts from './CreateCall/v1.3.0/create_call'
 import createCall_1_4_1_ContractArtifacts from './CreateCall/v1.4.1/create_call'
+import createCall_1_5_0_ContractArtifacts from './CreateCall/v1.5.0/create_call'
 
 import multisend_1_1_1_ContractArtifacts from './MultiSend/v1.1.1/multi_send'
 import multisend_1_3_0_ContractArtifacts from './MultiSend/v1.3.0/multi_send'
 import multisend_1_4_1_ContractArtifacts from './MultiSend/v1.4.1/multi_send'
+import multisend_1_5_0_ContractArtifacts from './MultiSend/v1.5.0/multi_send'
 
 import multiSendCallOnly_1_3_0_ContractArtifacts from './MultiSend/v1.3.0/multi_send_call_only'
 import multiSendCallOnly_1_4_1_ContractArtifacts from './MultiSend/v1.4.1/multi_send_call_only'
+import multiSendCallOnly_1_5_0_ContractArtifacts from './MultiSend/v1.5.0/multi_send_call_only'
 
 import safe_1_0_0_ContractArtifacts from './Safe/v1.0.0/gnosis_safe'
 import safe_1_1_1_ContractArtifacts from './Safe/v1.1.1/gnosis_safe'
 import safe_1_2_0_ContractArtifacts from './Safe/v1.2.0/gnosis_safe'
 import safe_1_3_0_ContractArtifacts from './Safe/v1.3.0/gnosis_safe_l2'
 import safe_1_4_1_ContractArtifacts from './Safe/v1.4.1/safe_l2'
+import safe_1_5_0_ContractArtifacts from './Safe/v1.5.0/safe_l2'
 
 import safeProxyFactory_1_0_0_ContractArtifacts from './SafeProxyFactory/v1.0.0/proxy_factory'
 import safeProxyFactory_1_1_1_ContractArtifacts from './SafeProxyFactory/v1.1.1/proxy_factory'
 import safeProxyFactory_1_3_0_ContractArtifacts from './SafeProxyFactory/v1.3.0/proxy_factory'
 import safeProxyFactory_1_4_1_ContractArtifacts from './SafeProxyFactory/v1.4.1/safe_proxy_factory'
+import safeProxyFactory_1_5_0_ContractArtifacts from './SafeProxyFactory/v1.5.0/safe_proxy_factory'
 
 import signMessageLib_1_3_0_ContractArtifacts from './SignMessageLib/v1.3.0/sign_message_lib'
 import signMessageLib_1_4_1_ContractArtifacts from './SignMessageLib/v1.4.1/sign_message_lib'
+import signMessageLib_1_5_0_ContractArtifacts from './SignMessageLib/v1.5.0/sign_message_lib'
 
 import simulateTxAccessor_1_3_0_ContractArtifacts from './SimulateTxAccessor/v1.3.0/simulate_tx_accessor'
 import simulateTxAccessor_1_4_1_ContractArtifacts from './SimulateTxAccessor/v1.4.1/simulate_tx_accessor'
+import simulateTxAccessor_1_5_0_ContractArtifacts from './SimulateTxAccessor/v1.5.0/simulate_tx_accessor'
 
 import SafeWebAuthnSignerFactory_0_2_1_ContractArtifacts from './SafeWebAuthnSignerFactory/v0.2.1/safe_webauthn_signer_factory'
 import SafeWebAuthnSharedSigner_0_2_1_ContractArtifacts from './SafeWebAuthnSharedSigner/v0.2.1/safe_webauthn_shared_signer'
@@ -34,26 +42,34 @@ import SafeWebAuthnSharedSigner_0_2_1_ContractArtifacts from './SafeWebAuthnShar
 export {
   compatibilityFallbackHandler_1_3_0_ContractArtifacts,
   compatibilityFallbackHandler_1_4_1_ContractArtifacts,
+  compatibilityFallbackHandler_1_5_0_ContractArtifacts,
   createCall_1_3_0_ContractArtifacts,
   createCall_1_4_1_ContractArtifacts,
+  createCall_1_5_0_ContractArtifacts,
   multisend_1_1_1_ContractArtifacts,
   multisend_1_3_0_ContractArtifacts,
   multiSendCallOnly_1_3_0_ContractArtifacts,
   multisend_1_4_1_ContractArtifacts,
   multiSendCallOnly_1_4_1_ContractArtifacts,
+  multisend_1_5_0_ContractArtifacts,
+  multiSendCallOnly_1_5_0_ContractArtifacts,
   safe_1_0_0_ContractArtifacts,
   safe_1_1_1_ContractArtifacts,
   safe_1_2_0_ContractArtifacts,
   safe_1_3_0_ContractArtifacts,
   safe_1_4_1_ContractArtifacts,
+  safe_1_5_0_ContractArtifacts,
   safeProxyFactory_1_0_0_ContractArtifacts,
   safeProxyFactory_1_1_1_ContractArtifacts,
   safeProxyFactory_1_3_0_ContractArtifacts,
   safeProxyFactory_1_4_1_ContractArtifacts,
+  safeProxyFactory_1_5_0_ContractArtifacts,
   signMessageLib_1_3_0_ContractArtifacts,
   signMessageLib_1_4_1_ContractArtifacts,
+  signMessageLib_1_5_0_ContractArtifacts,
   simulateTxAccessor_1_3_0_ContractArtifacts,
   simulateTxAccessor_1_4_1_ContractArtifacts,
+  simulateTxAccessor_1_5_0_ContractArtifacts,
   SafeWebAuthnSignerFactory_0_2_1_ContractArtifacts,
   SafeWebAuthnSharedSigner_0_2_1_ContractArtifacts
 }
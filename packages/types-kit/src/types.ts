@@ -1,6 +1,6 @@
 export { type Hex } from 'viem'
 
-export type SafeVersion = '1.4.1' | '1.3.0' | '1.2.0' | '1.1.1' | '1.0.0'
+export type SafeVersion = '1.5.0' | '1.4.1' | '1.3.0' | '1.2.0' | '1.1.1' | '1.0.0'
 
 export enum OperationType {
   Call, // 0
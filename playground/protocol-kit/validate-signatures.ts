@@ -1,4 +1,9 @@
-import Safe, { buildContractSignature, hashSafeMessage } from '@safe-global/protocol-kit'
+import Safe, {
+  buildContractSignature,
+  hashSafeMessage,
+  preimageSafeMessageHash,
+  verifySafeSignatures
+} from '@safe-global/protocol-kit'
 import { SigningMethod } from '@safe-global/types-kit'
 
 // This file can be used to play around with the Safe Core SDK
@@ -81,6 +86,27 @@ async function main() {
   console.log('Signatures: ', message.signatures.values())
 
   console.log(`The signature is ${isValid ? 'valid' : 'invalid'}`)
+
+  // Verify each signature offline to know which one is not valid and why
+  const report = await verifySafeSignatures(
+    protocolKit,
+    safeMessageHash,
+    message.encodedSignatures(),
+    {
+      data: preimageSafeMessageHash(
+        config.SAFE_3_3_ADDRESS,
+        messageHash,
+        protocolKit.getContractVersion(),
+        await protocolKit.getChainId()
+      )
+    }
+  )
+
+  report.signatures.forEach(({ index, type, signer, isValid, error }) =>
+    console.log(
+      `Signature ${index} (${type}) by ${signer}: ${isValid ? 'valid' : `${error?.code} ${error?.message}`}`
+    )
+  )
 }
 
 main()